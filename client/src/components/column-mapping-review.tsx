@@ -0,0 +1,188 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MappingReview } from "@/types";
+import { FieldMapping, IGNORE_FIELD, IMPORT_FIELDS, ImportFieldGroup } from "@shared/import-fields";
+import { Loader2 } from "lucide-react";
+
+interface ColumnMappingReviewProps {
+  // The proposed mapping; the dialog is closed while null
+  review: MappingReview | null;
+  fileName: string;
+  importing: boolean;
+  onConfirm: (mapping: FieldMapping[], templateName: string) => void;
+  // Re-read the file's columns from another worksheet or record path
+  onSourceChange: (source: { sheet?: string; recordPath?: string }) => void;
+  onCancel: () => void;
+}
+
+// Select items can't have an empty value, so ignored columns use this instead
+const IGNORE_OPTION = "__ignore";
+
+const FIELD_GROUPS: ImportFieldGroup[] = ["Product", "Identifiers", "Variants", "Attributes"];
+
+function confidenceBadge(mapping: FieldMapping) {
+  if (mapping.standardField === IGNORE_FIELD) {
+    return <Badge variant="outline" className="bg-gray-100 text-gray-600 border-0">Not imported</Badge>;
+  }
+  const percent = Math.round(mapping.confidence * 100);
+  if (mapping.confidence >= 0.9) return <Badge variant="outline" className="bg-green-50 text-green-700 border-0">{percent}%</Badge>;
+  if (mapping.confidence >= 0.7) return <Badge variant="outline" className="bg-amber-50 text-amber-700 border-0">{percent}%</Badge>;
+  return <Badge variant="outline" className="bg-red-50 text-red-700 border-0">{percent}%</Badge>;
+}
+
+/**
+ * Shows which product field each uploaded column will be imported as, with
+ * how sure the guess is, and lets the user correct it and save it as a template
+ */
+export function ColumnMappingReview({ review, fileName, importing, onConfirm, onSourceChange, onCancel }: ColumnMappingReviewProps) {
+  const [mapping, setMapping] = useState<FieldMapping[]>([]);
+  const [templateName, setTemplateName] = useState("");
+
+  useEffect(() => {
+    if (!review) return;
+    setMapping(review.mapping);
+    setTemplateName(review.template?.name ?? "");
+  }, [review]);
+
+  // A corrected column is as certain as a confirmed one
+  const setField = (index: number, value: string) => {
+    const standardField = value === IGNORE_OPTION ? IGNORE_FIELD : value;
+    setMapping(prev => prev.map((column, i) => i === index ? { ...column, standardField, confidence: 1 } : column));
+  };
+
+  const sampleValues = (header: string) =>
+    (review?.sampleRows ?? [])
+      .map(row => row[header])
+      .filter(value => value !== undefined && value !== null && String(value).trim() !== "")
+      .slice(0, 3);
+
+  const hasTitle = mapping.some(column => column.standardField === "title");
+  const ignoredCount = mapping.filter(column => column.standardField === IGNORE_FIELD).length;
+
+  return (
+    <Dialog open={review !== null} onOpenChange={(open) => !open && !importing && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogTitle>Confirm Column Mapping</DialogTitle>
+        <DialogDescription>
+          {review?.template
+            ? `${fileName} matches the saved template "${review.template.name}". Check the columns before importing ${review.rowCount} rows.`
+            : `Check how the columns of ${fileName} will be imported before its ${review?.rowCount ?? 0} rows are added`}
+        </DialogDescription>
+
+        {review && review.sheets.length > 1 && (
+          <div className="flex items-center gap-3">
+            <Label>Worksheet</Label>
+            <Select value={review.sheet ?? undefined} onValueChange={(sheet) => onSourceChange({ sheet })} disabled={importing}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {review.sheets.map(sheet => (
+                  <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {review && review.recordPaths.length > 1 && (
+          <div className="flex items-center gap-3">
+            <Label>Records</Label>
+            <Select value={review.recordPath ?? undefined} onValueChange={(recordPath) => onSourceChange({ recordPath })} disabled={importing}>
+              <SelectTrigger className="w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {review.recordPaths.map(path => (
+                  <SelectItem key={path} value={path}>{path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead>Sample values</TableHead>
+                <TableHead>Import as</TableHead>
+                <TableHead>Confidence</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mapping.map((column, index) => (
+                <TableRow key={column.originalField}>
+                  <TableCell className="font-medium">{column.originalField}</TableCell>
+                  <TableCell className="text-xs text-gray-500 max-w-[220px]">
+                    {sampleValues(column.originalField).map((value, valueIndex) => (
+                      <div key={valueIndex} className="truncate">{value}</div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={column.standardField === IGNORE_FIELD ? IGNORE_OPTION : column.standardField}
+                      onValueChange={(value) => setField(index, value)}
+                    >
+                      <SelectTrigger className="w-52">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE_OPTION}>Don't import</SelectItem>
+                        {FIELD_GROUPS.map(group => (
+                          <SelectGroup key={group}>
+                            <SelectLabel>{group}</SelectLabel>
+                            {IMPORT_FIELDS.filter(field => field.group === group).map(field => (
+                              <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>{confidenceBadge(column)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!hasTitle && (
+          <p className="text-sm text-amber-700">No column is imported as the title, so products will arrive without one</p>
+        )}
+        {ignoredCount > 0 && (
+          <p className="text-sm text-gray-500">{ignoredCount} column{ignoredCount === 1 ? "" : "s"} won't be imported</p>
+        )}
+
+        <div>
+          <Label htmlFor="mapping-template-name">Save as template</Label>
+          <Input
+            id="mapping-template-name"
+            placeholder="e.g. Supplier price list"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Files with the same columns will be imported with this mapping automatically. Leave empty to skip.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={importing}>Cancel</Button>
+          <Button onClick={() => onConfirm(mapping, templateName.trim())} disabled={importing}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import {review?.rowCount ?? 0} Rows
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ColumnMappingReview;
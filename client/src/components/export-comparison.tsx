@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ListChanges } from "@/components/listing-diff";
+import { ExportComparison as Comparison } from "@/types";
+import { Loader2 } from "lucide-react";
+
+interface ExportComparisonProps {
+  // The earlier and later export; the dialog is closed while null
+  exportIds: [number, number] | null;
+  onClose: () => void;
+}
+
+function ProductIdList({ label, ids, className }: { label: string; ids: string[]; className: string }) {
+  if (ids.length === 0) return null;
+
+  return (
+    <div>
+      <div className="text-sm font-medium text-gray-700 mb-1">{label} ({ids.length})</div>
+      <div className="flex flex-wrap gap-1">
+        {ids.map(id => (
+          <Badge key={id} variant="outline" className={`border-0 ${className}`}>{id}</Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Compares two stored exports: products added or dropped between them, and
+ * the lines of the files that changed
+ */
+export function ExportComparison({ exportIds, onClose }: ExportComparisonProps) {
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!exportIds) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setComparison(null);
+
+    axios.get("/api/export-history/compare", { params: { before: exportIds[0], after: exportIds[1] } })
+      .then(response => {
+        if (!cancelled) setComparison(response.data);
+      })
+      .catch(err => {
+        console.error("Error comparing exports:", err);
+        if (!cancelled) setError("Could not compare these exports");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exportIds]);
+
+  return (
+    <Dialog open={exportIds !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogTitle>Compare Exports</DialogTitle>
+        <DialogDescription>
+          {exportIds ? `Export #${exportIds[0]} compared with export #${exportIds[1]}` : ""}
+        </DialogDescription>
+
+        {loading && (
+          <div className="flex items-center text-sm text-gray-500 py-4">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Comparing exports...
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 py-4">{error}</p>}
+
+        {comparison && (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {comparison.before.format !== comparison.after.format && (
+              <p className="text-sm text-amber-700">
+                These exports use different formats ({comparison.before.format} and {comparison.after.format}), so most lines will differ.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <div className="text-sm text-gray-600">
+                {comparison.products.kept} products in both exports
+              </div>
+              <ProductIdList label="Added" ids={comparison.products.added} className="bg-green-50 text-green-700" />
+              <ProductIdList label="Removed" ids={comparison.products.removed} className="bg-red-50 text-red-700" />
+            </div>
+
+            {comparison.summary && comparison.lines ? (
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-1">
+                  File changes: {comparison.summary.changed} changed, {comparison.summary.added} added,{" "}
+                  {comparison.summary.removed} removed, {comparison.summary.unchanged} unchanged lines
+                </div>
+                {comparison.lines.length === 0 ? (
+                  <p className="text-sm text-gray-500">The files are identical</p>
+                ) : (
+                  <div className="p-2 rounded border border-gray-200 bg-white text-xs font-mono text-gray-700 overflow-x-auto">
+                    <ListChanges items={comparison.lines} />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">These files are too long to compare line by line</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ExportComparison;
@@ -0,0 +1,279 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { ExportProfile } from "@/types";
+import type { ExportColumnTransform, ExportProfileColumn } from "@shared/schema";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+interface ExportProfileEditorProps {
+  // The profile to edit; a built-in profile (no id) is saved as a new copy
+  profile: ExportProfile | null;
+  open: boolean;
+  // Products to preview the columns with
+  products: any[];
+  onClose: () => void;
+  onSaved: (profile: ExportProfile) => void;
+}
+
+type ValueMode = "source" | "expression" | "constant";
+
+interface EditableColumn {
+  header: string;
+  mode: ValueMode;
+  value: string;
+  join: string;
+  maxLength: string;
+  transforms: ExportColumnTransform[];
+}
+
+const TRANSFORMS: { id: ExportColumnTransform; label: string }[] = [
+  { id: "strip_html", label: "Strip HTML" },
+  { id: "collapse_whitespace", label: "Collapse spaces" },
+  { id: "trim", label: "Trim" },
+  { id: "uppercase", label: "UPPERCASE" },
+  { id: "lowercase", label: "lowercase" },
+  { id: "title_case", label: "Title Case" },
+];
+
+const VALUE_PLACEHOLDERS: Record<ValueMode, string> = {
+  source: "title, attributes.color, images[0]",
+  expression: "{brand} {title}",
+  constant: "Fixed value",
+};
+
+function toEditable(column: ExportProfileColumn): EditableColumn {
+  const mode: ValueMode = column.expression !== undefined ? "expression" : column.constant !== undefined ? "constant" : "source";
+  return {
+    header: column.header,
+    mode,
+    value: column[mode] ?? "",
+    join: column.join ?? "",
+    maxLength: column.maxLength ? String(column.maxLength) : "",
+    transforms: column.transforms ?? [],
+  };
+}
+
+function toColumn(column: EditableColumn): ExportProfileColumn {
+  return {
+    header: column.header.trim(),
+    [column.mode]: column.value,
+    ...(column.join ? { join: column.join } : {}),
+    ...(Number(column.maxLength) > 0 ? { maxLength: Math.floor(Number(column.maxLength)) } : {}),
+    ...(column.transforms.length > 0 ? { transforms: column.transforms } : {}),
+  };
+}
+
+const emptyColumn = (): EditableColumn => ({ header: "", mode: "source", value: "", join: "", maxLength: "", transforms: [] });
+
+/**
+ * Create or edit an export column-mapping profile, with a preview of the
+ * columns on the products being exported
+ */
+export function ExportProfileEditor({ profile, open, products, onClose, onSaved }: ExportProfileEditorProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [columns, setColumns] = useState<EditableColumn[]>([emptyColumn()]);
+  const [preview, setPreview] = useState<{ headers: string[]; rows: string[][] } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(profile ? (profile.id ? profile.name : `${profile.name} (copy)`) : "");
+    setDescription(profile?.description ?? "");
+    setColumns(profile ? profile.columns.map(toEditable) : [emptyColumn()]);
+    setPreview(null);
+  }, [open, profile]);
+
+  const updateColumn = (index: number, changes: Partial<EditableColumn>) => {
+    setColumns(prev => prev.map((column, i) => i === index ? { ...column, ...changes } : column));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const toggleTransform = (index: number, transform: ExportColumnTransform) => {
+    const current = columns[index].transforms;
+    updateColumn(index, {
+      transforms: current.includes(transform) ? current.filter(t => t !== transform) : [...current, transform]
+    });
+  };
+
+  const errorMessage = (error: unknown) =>
+    axios.isAxiosError(error)
+      ? error.response?.data?.error || error.response?.data?.message || error.message
+      : error instanceof Error ? error.message : "Unknown error";
+
+  const loadPreview = async () => {
+    try {
+      const response = await axios.post("/api/export-profiles/preview", {
+        columns: columns.map(toColumn),
+        products: products.slice(0, 3)
+      });
+      setPreview(response.data);
+    } catch (error) {
+      toast({ title: "Could not preview profile", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const saveProfile = async () => {
+    setSaving(true);
+    try {
+      const body = { name, description: description || null, columns: columns.map(toColumn) };
+      const response = profile?.id
+        ? await axios.put(`/api/export-profiles/${profile.id}`, body)
+        : await axios.post("/api/export-profiles", body);
+      toast({ title: "Export profile saved", description: `"${response.data.profile.name}" is ready to export with` });
+      onSaved(response.data.profile);
+    } catch (error) {
+      toast({ title: "Could not save profile", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogTitle>{profile?.id ? "Edit Export Profile" : "New Export Profile"}</DialogTitle>
+        <DialogDescription>
+          Each column takes a product field, a template such as {"{brand} {title}"}, or a fixed value
+        </DialogDescription>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="profile-name">Name</Label>
+            <Input id="profile-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="profile-description">Description</Label>
+            <Input id="profile-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-3 max-h-[45vh] overflow-y-auto pr-1">
+          {columns.map((column, index) => (
+            <div key={index} className="rounded-md border border-gray-200 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  className="w-44"
+                  placeholder="Column header"
+                  value={column.header}
+                  onChange={(e) => updateColumn(index, { header: e.target.value })}
+                />
+                <Select value={column.mode} onValueChange={(mode) => updateColumn(index, { mode: mode as ValueMode })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="source">Field</SelectItem>
+                    <SelectItem value="expression">Template</SelectItem>
+                    <SelectItem value="constant">Constant</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="flex-1"
+                  placeholder={VALUE_PLACEHOLDERS[column.mode]}
+                  value={column.value}
+                  onChange={(e) => updateColumn(index, { value: e.target.value })}
+                />
+                <Input
+                  className="w-20"
+                  placeholder="Join"
+                  title="Separator for lists such as bullet points and images"
+                  value={column.join}
+                  onChange={(e) => updateColumn(index, { join: e.target.value })}
+                />
+                <Input
+                  className="w-24"
+                  type="number"
+                  min={1}
+                  placeholder="Max len"
+                  value={column.maxLength}
+                  onChange={(e) => updateColumn(index, { maxLength: e.target.value })}
+                />
+                <Button size="sm" variant="ghost" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setColumns(prev => prev.filter((_, i) => i !== index))}
+                  disabled={columns.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {TRANSFORMS.map(transform => (
+                  <Badge
+                    key={transform.id}
+                    variant="outline"
+                    className={`cursor-pointer ${column.transforms.includes(transform.id) ? "bg-blue-50 text-blue-700 border-blue-200" : "text-gray-500"}`}
+                    onClick={() => toggleTransform(index, transform.id)}
+                  >
+                    {transform.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setColumns(prev => [...prev, emptyColumn()])}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Column
+          </Button>
+          <Button size="sm" variant="outline" onClick={loadPreview} disabled={products.length === 0}>
+            Preview
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="overflow-x-auto max-h-[200px] border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {preview.headers.map((header, index) => <TableHead key={index}>{header}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <TableCell key={cellIndex} className="text-xs max-w-[200px] truncate">{cell}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={saveProfile} disabled={saving || !name.trim()}>Save Profile</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ExportProfileEditor;
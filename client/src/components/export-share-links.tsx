@@ -0,0 +1,190 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { ExportShareLink } from "@/types";
+import { Copy, Link2, Loader2 } from "lucide-react";
+
+interface ExportShareLinksProps {
+  // The export whose links are managed; the dialog is closed while null
+  exportId: number | null;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "7 days" },
+  { hours: 720, label: "30 days" },
+];
+
+function linkStatus(link: ExportShareLink) {
+  if (link.revoked_at) return <Badge variant="outline" className="bg-gray-100 text-gray-600 border-0">Revoked</Badge>;
+  if (!link.active) return <Badge variant="outline" className="bg-amber-50 text-amber-700 border-0">Expired</Badge>;
+  return <Badge variant="outline" className="bg-green-50 text-green-700 border-0">Active</Badge>;
+}
+
+/**
+ * Create, copy and revoke signed download links for a stored export, and see
+ * how often each has been used
+ */
+export function ExportShareLinks({ exportId, onClose }: ExportShareLinksProps) {
+  const [links, setLinks] = useState<ExportShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [label, setLabel] = useState("");
+  const [expiresInHours, setExpiresInHours] = useState("72");
+
+  const loadLinks = async (id: number) => {
+    setLoading(true);
+    try {
+      const response = await axios.get(`/api/export-history/${id}/share-links`);
+      setLinks(response.data.links);
+    } catch (error) {
+      console.error("Error loading share links:", error);
+      toast({ title: "Could not load share links", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (exportId === null) return;
+    setLinks([]);
+    setLabel("");
+    loadLinks(exportId);
+  }, [exportId]);
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Link copied to clipboard" });
+  };
+
+  const createLink = async () => {
+    if (exportId === null) return;
+    setCreating(true);
+    try {
+      const response = await axios.post(`/api/export-history/${exportId}/share-links`, {
+        expiresInHours: Number(expiresInHours),
+        label
+      });
+      setLabel("");
+      await copyLink(response.data.link.url);
+      await loadLinks(exportId);
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.message : undefined;
+      toast({ title: "Could not create link", description: message, variant: "destructive" });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeLink = async (linkId: number) => {
+    try {
+      await axios.post(`/api/export-share-links/${linkId}/revoke`);
+      toast({ title: "Link revoked", description: "Anyone holding this link can no longer download the file" });
+      if (exportId !== null) await loadLinks(exportId);
+    } catch (error) {
+      toast({ title: "Could not revoke link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={exportId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogTitle>Share Export #{exportId}</DialogTitle>
+        <DialogDescription>
+          Anyone with a link can download this file until it expires or is revoked, without signing in
+        </DialogDescription>
+
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <Label htmlFor="share-label">Shared with</Label>
+            <Input
+              id="share-label"
+              placeholder="e.g. Walmart account manager"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="w-32">
+            <Label>Expires after</Label>
+            <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={createLink} disabled={creating}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Create Link
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center text-sm text-gray-500 py-4">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading links...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Shared with</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Downloads</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {links.map(link => (
+                <TableRow key={link.id}>
+                  <TableCell>{link.label || <span className="text-gray-400">Unlabelled</span>}</TableCell>
+                  <TableCell className="text-sm">{new Date(link.expires_at).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm">
+                    {link.download_count}
+                    {link.last_downloaded_at && (
+                      <div className="text-xs text-gray-500">Last {new Date(link.last_downloaded_at).toLocaleString()}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{linkStatus(link)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-2">
+                      <Button size="sm" variant="ghost" onClick={() => copyLink(link.url)} disabled={!link.active}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => revokeLink(link.id)} disabled={Boolean(link.revoked_at)}>
+                        Revoke
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {links.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                    This export hasn't been shared yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ExportShareLinks;
@@ -0,0 +1,43 @@
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { ImportJob } from "@/types";
+import { Loader2 } from "lucide-react";
+
+interface ImportProgressProps {
+  // The running import; the dialog is closed while null
+  job: ImportJob | null;
+}
+
+/**
+ * Shows how far a background file import has got while its rows are saved
+ */
+export function ImportProgress({ job }: ImportProgressProps) {
+  // Rows are all checked before any is saved
+  const checking = job?.status === "validating";
+
+  return (
+    <Dialog open={job !== null && (checking || job.status === "running")}>
+      <DialogContent className="sm:max-w-md [&>button]:hidden">
+        <DialogTitle>{checking ? "Checking" : "Importing"} {job?.fileName}</DialogTitle>
+        <DialogDescription>
+          {checking
+            ? "Every row is checked for problems before anything is saved"
+            : "Large files are read and saved in chunks, so this can take a few minutes"}
+        </DialogDescription>
+
+        <div className="space-y-2">
+          <Progress value={job?.percent ?? 0} />
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span className="flex items-center">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              {checking ? "Checking rows" : `${(job?.importedCount ?? 0).toLocaleString()} products saved`}
+            </span>
+            <span>{job?.percent ?? 0}%</span>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ImportProgress;
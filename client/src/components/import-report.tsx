@@ -0,0 +1,104 @@
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ImportJob } from "@/types";
+import { IMPORT_ISSUE_LABELS, ImportIssueCode } from "@shared/import-fields";
+import { Download, Loader2 } from "lucide-react";
+
+interface ImportReportReviewProps {
+  // An import stopped for review, or one that failed its check; the dialog is closed while null
+  job: ImportJob | null;
+  busy: boolean;
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shows the rows an upload's check found problems with, and lets the user
+ * import the valid rows or cancel, with the rejected rows to download and fix
+ */
+export function ImportReportReview({ job, busy, onContinue, onCancel }: ImportReportReviewProps) {
+  const report = job?.report;
+  const canContinue = job?.status === "needs_review";
+  const problemCount = Object.values(report?.counts ?? {}).reduce((sum, count) => sum + (count ?? 0), 0);
+
+  return (
+    <Dialog open={job !== null} onOpenChange={(open) => !open && !busy && onCancel()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogTitle>{canContinue ? "Some rows can't be imported" : "No rows can be imported"}</DialogTitle>
+        <DialogDescription>
+          {report && `${report.rejectedRows.toLocaleString()} of ${report.totalRows.toLocaleString()} rows in ${job?.fileName} have errors`}
+          {report && report.warningRows > 0 && `, and ${report.warningRows.toLocaleString()} more will be imported with warnings`}
+          {canContinue ? ". Nothing has been saved yet." : "."}
+        </DialogDescription>
+
+        {report && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(report.counts) as ImportIssueCode[]).map(code => (
+                <Badge key={code} variant="outline" className="bg-gray-50 border-0">
+                  {IMPORT_ISSUE_LABELS[code]}: {report.counts[code]?.toLocaleString()}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="max-h-[320px] overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Problem</TableHead>
+                    <TableHead className="w-24"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.issues.map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="text-gray-500">{issue.row ?? "-"}</TableCell>
+                      <TableCell className="font-medium">{issue.product_id ?? ""}</TableCell>
+                      <TableCell>{issue.message}</TableCell>
+                      <TableCell>
+                        {issue.severity === "error"
+                          ? <Badge variant="outline" className="bg-red-50 text-red-700 border-0">Rejected</Badge>
+                          : <Badge variant="outline" className="bg-amber-50 text-amber-700 border-0">Warning</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {problemCount > report.issues.length && (
+              <p className="text-xs text-gray-500">
+                Showing the first {report.issues.length} of {problemCount.toLocaleString()} problems; the download has every rejected row.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="outline" asChild>
+            <a href={`/api/imports/${job?.id}/rejected`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Download rejected rows
+            </a>
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={busy}>
+              {canContinue ? "Cancel import" : "Close"}
+            </Button>
+            {canContinue && (
+              <Button onClick={onContinue} disabled={busy}>
+                {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {report?.validRows.toLocaleString()} valid rows
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ImportReportReview;
@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Badge } from "@/components/ui/badge";
+import { DiffSegment, FieldDiff, ListItemDiff, ProductDiff } from "@/types";
+import { Loader2 } from "lucide-react";
+
+interface ListingDiffProps {
+  productId: string;
+  // Change to refetch after the product is updated
+  refreshKey?: unknown;
+  // Hide fields that were not changed
+  changedOnly?: boolean;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  brand: "Brand",
+  category: "Category",
+  description: "Description",
+  bullet_points: "Bullet Points",
+};
+
+// Renders word-level changes inline: removed words struck through in red, added words in green
+function Segments({ segments }: { segments: DiffSegment[] }) {
+  if (segments.length === 0) {
+    return <span className="italic text-gray-400">Empty</span>;
+  }
+
+  return (
+    <span className="whitespace-pre-wrap">
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={
+            segment.type === "insert" ? "bg-green-100 text-green-800" :
+            segment.type === "delete" ? "bg-red-100 text-red-700 line-through" :
+            undefined
+          }
+        >
+          {segment.value}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function FieldChanges({ diff }: { diff: FieldDiff }) {
+  if (diff.kind === "text") {
+    return <Segments segments={diff.segments} />;
+  }
+
+  if (diff.items.length === 0) {
+    return <span className="italic text-gray-400">No bullet points</span>;
+  }
+
+  return <ListChanges items={diff.items} />;
+}
+
+// One line per item, marked as added, removed, reworded or unchanged
+export function ListChanges({ items }: { items: ListItemDiff[] }) {
+  return (
+    <ul className="space-y-1">
+      {items.map((item, index) => (
+        <li key={index} className="flex items-start gap-2">
+          <span className="w-4 flex-shrink-0 text-gray-400">
+            {item.type === "added" ? "+" : item.type === "removed" ? "−" : item.type === "changed" ? "~" : "•"}
+          </span>
+          {item.type === "changed" && item.segments ? (
+            <Segments segments={item.segments} />
+          ) : item.type === "added" ? (
+            <span className="bg-green-100 text-green-800">{item.enhanced}</span>
+          ) : item.type === "removed" ? (
+            <span className="bg-red-100 text-red-700 line-through">{item.original}</span>
+          ) : (
+            <span>{item.enhanced}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Shows what changed between a product's original supplier data and its
+ * current content, loaded from the server so it survives reloads
+ */
+export function ListingDiff({ productId, refreshKey, changedOnly = false }: ListingDiffProps) {
+  const [diff, setDiff] = useState<ProductDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    axios.get(`/api/products/${encodeURIComponent(productId)}/diff`)
+      .then(response => {
+        if (!cancelled) setDiff(response.data.diff);
+      })
+      .catch(err => {
+        console.error("Error loading product diff:", err);
+        if (!cancelled) setError("Could not load changes for this product");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productId, refreshKey]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 py-4">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading changes...
+      </div>
+    );
+  }
+
+  if (error || !diff) {
+    return <p className="text-sm text-red-600 py-4">{error || "No changes found"}</p>;
+  }
+
+  const fields = changedOnly ? diff.fields.filter(field => field.changed) : diff.fields;
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">No changes from the original data</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {fields.map(field => (
+        <div key={field.field}>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm font-medium text-gray-700">{FIELD_LABELS[field.field] || field.field}</span>
+            {field.changed ? (
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-0">Changed</Badge>
+            ) : (
+              <Badge variant="outline" className="bg-gray-50 text-gray-500 border-0">Unchanged</Badge>
+            )}
+          </div>
+          <div className="p-2 rounded border border-gray-200 bg-white text-sm text-gray-700">
+            <FieldChanges diff={field} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ListingDiff;
@@ -91,7 +91,16 @@ export function ProductEditModal({ isOpen, onClose, product, onSave, marketplace
               />
             </div>
           )}
-          
+
+          <div className="grid gap-2">
+            <Label htmlFor="gtin">UPC / EAN / GTIN / ISBN</Label>
+            <Input
+              id="gtin"
+              value={editedProduct.gtin || ''}
+              onChange={(e) => handleChange('gtin', e.target.value)}
+            />
+          </div>
+
           <div className="grid gap-2">
             <Label htmlFor="brand">Brand</Label>
             <Input
@@ -1,6 +1,7 @@
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Product } from "@/types";
+import { ListingDiff } from "@/components/listing-diff";
 import { Eye, Star, StarHalf } from "lucide-react";
 
 interface ProductPreviewModalProps {
@@ -109,6 +110,11 @@ export function ProductPreviewModal({ isOpen, onClose, product, marketplace }: P
           </div>
         </div>
         
+        <div className="border rounded-md p-4 max-h-80 overflow-y-auto">
+          <h4 className="text-sm font-medium text-gray-900 mb-3">Changes from Original</h4>
+          <ListingDiff productId={product.product_id} refreshKey={product} changedOnly />
+        </div>
+        
         <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
           <Button variant="outline" onClick={onClose}>
             Close
@@ -131,21 +131,22 @@ export function FileUploader({
           <div className="w-20 h-20 mb-4 rounded-full bg-blue-100 flex items-center justify-center">
             <Upload className="h-10 w-10 text-blue-600" />
           </div>
-          <h3 className="text-lg font-medium text-gray-800 mb-2">Drop your CSV file here</h3>
+          <h3 className="text-lg font-medium text-gray-800 mb-2">Drop your product file here</h3>
           <p className="text-gray-500 mb-4 text-center max-w-md">
             Your product data will be analyzed and enhanced automatically
           </p>
           <Button className="bg-blue-600 hover:bg-blue-700">
-            Select CSV File
+            Select File
           </Button>
-          <p className="text-gray-400 text-xs mt-4">Maximum file size: {formatFileSize(maxSize)}</p>
+          <p className="text-gray-400 text-xs mt-4">Accepted formats: {acceptedFileTypes.join(", ")}</p>
+          <p className="text-gray-400 text-xs mt-1">Maximum file size: {formatFileSize(maxSize)}</p>
           
           <div className="grid grid-cols-3 gap-6 mt-8 max-w-lg">
             <div className="text-center">
               <div className="w-10 h-10 rounded-full bg-blue-100 mx-auto flex items-center justify-center">
                 <FileIcon className="h-5 w-5 text-blue-600" />
               </div>
-              <p className="text-xs text-gray-600 mt-2">Upload CSV</p>
+              <p className="text-xs text-gray-600 mt-2">Upload File</p>
             </div>
             <div className="text-center">
               <div className="w-10 h-10 rounded-full bg-blue-100 mx-auto flex items-center justify-center opacity-60">
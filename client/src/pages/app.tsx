@@ -6,12 +6,24 @@ import { Enhancement } from "./enhancement";
 import { Export } from "./export";
 import { useToast } from "@/hooks/use-toast";
 import { Steps, Step } from "@/components/ui/steps";
+import { ColumnMappingReview } from "@/components/column-mapping-review";
+import { ImportProgress } from "@/components/import-progress";
+import { ImportReportReview } from "@/components/import-report";
+import { ImportJob, MappingReview } from "@/types";
+import { MARKETPLACE_FORMAT_LABELS, type FieldMapping } from "@shared/import-fields";
 
 export function ApplicationPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [currentStep, setCurrentStep] = useState(0);
   const [products, setProducts] = useState<any[]>([]);
+  // An upload whose column mapping is waiting for the user to confirm it
+  const [pendingUpload, setPendingUpload] = useState<{ fileName: string; review: MappingReview } | null>(null);
+  const [importing, setImporting] = useState(false);
+  // The background import saving the uploaded rows
+  const [importJob, setImportJob] = useState<ImportJob | null>(null);
+  // An import whose rows have errors, waiting for the user to import the rest or cancel
+  const [reviewedImport, setReviewedImport] = useState<{ job: ImportJob; templateApplied: boolean } | null>(null);
   
   // Mock steps for the workflow
   const steps = [
@@ -21,40 +33,271 @@ export function ApplicationPage() {
     { title: "Export", description: "Export enhanced data" },
   ];
   
-  // Handle file upload from Upload component
-  const handleFileUpload = async (file: File) => {
-    try {
-      // Create form data for file upload
-      const formData = new FormData();
+  // Send the upload request: the file itself, or the held upload with its confirmed column mapping
+  const postUpload = async (file: File | null, fields: Record<string, string> = {}) => {
+    // Create form data for file upload
+    const formData = new FormData();
+    if (file) {
       formData.append("file", file);
+    }
+    for (const [name, value] of Object.entries(fields)) {
+      formData.append(name, value);
+    }
+    
+    // Upload file to server
+    const response = await fetch("/api/upload", {
+      method: "POST",
+      body: formData,
+    });
+    
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || body?.message || "Failed to upload file");
+    }
+    
+    return response.json();
+  };
+  
+  // Follow an import's Server-Sent Events until it finishes or stops for
+  // review, falling back to polling if the stream drops. Resolves with the job.
+  const followImport = (importId: string) => new Promise<ImportJob>((resolve, reject) => {
+    const source = new EventSource(`/api/imports/${importId}/events`);
+    let finished = false;
+    
+    const update = (event: Event) => {
+      const job: ImportJob = JSON.parse((event as MessageEvent).data).job;
+      setImportJob(job);
+      return job;
+    };
+    
+    source.addEventListener("snapshot", update);
+    source.addEventListener("progress", update);
+    const settle = (event: Event) => {
+      finished = true;
+      source.close();
+      resolve(update(event));
+    };
+    source.addEventListener("finished", settle);
+    source.addEventListener("review", settle);
+    
+    source.addEventListener("error", () => {
+      if (finished) return;
+      source.close();
       
-      // Upload file to server
-      const response = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-      });
+      const poll = async () => {
+        try {
+          const response = await fetch(`/api/imports/${importId}`);
+          if (!response.ok) throw new Error("Lost track of the import");
+          const { job } = await response.json();
+          setImportJob(job);
+          if (job.status === "validating" || job.status === "running") {
+            setTimeout(poll, 2000);
+          } else {
+            resolve(job);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      };
+      poll();
+    });
+  });
+  
+  // Wait for the server's background import and move on with its products
+  const completeImport = async (importId: string, job: ImportJob, templateApplied: boolean) => {
+    setImportJob(job);
+    try {
+      const finished = await followImport(importId);
       
-      if (!response.ok) {
-        throw new Error("Failed to upload file");
+      // Rows with errors: the user sees why, and decides whether the rest are imported
+      if (finished.status === "needs_review" || (finished.status === "failed" && finished.report?.rejectedRows)) {
+        setReviewedImport({ job: finished, templateApplied });
+        return;
+      }
+      if (finished.status === "failed" || !finished.result) {
+        throw new Error(finished.error || "The import failed");
       }
       
-      const data = await response.json();
-      
-      // Debug the response data
-      console.log(`Received ${data.products?.length || 0} products from server:`, data.products);
+      const report = finished.report;
+      if (report && (report.rejectedRows > 0 || report.warningRows > 0)) {
+        toast({
+          title: "Import finished with problems",
+          description: `${report.rejectedRows.toLocaleString()} rows were left out and ${report.warningRows.toLocaleString()} were imported with warnings.`,
+        });
+      }
+      handleImported(finished.result, templateApplied);
+    } finally {
+      setImportJob(null);
+    }
+  };
+  
+  // Products arrived: show what was imported and move on to analysis
+  const handleImported = (result: NonNullable<ImportJob["result"]>, templateApplied: boolean) => {
+    // Debug the response data
+    console.log(`Received ${result.products.length} of ${result.importedCount} imported products from server:`, result.products);
+    
+    // Set products from response
+    setProducts(result.products);
+    
+    if (result.template && templateApplied) {
+      toast({
+        title: "Column mapping applied",
+        description: `Imported with your saved template "${result.template.name}"`,
+      });
+    }
+    
+    if (result.marketplace) {
+      toast({
+        title: `Recognised a ${MARKETPLACE_FORMAT_LABELS[result.marketplace]}`,
+        description: "Variants, images and listing settings were kept, so exporting to the same channel updates the same listings.",
+      });
+    }
+    
+    if (result.importedCount > result.products.length) {
+      toast({
+        title: `${result.importedCount.toLocaleString()} products imported`,
+        description: `The first ${result.products.length.toLocaleString()} are loaded here; all of them are saved to your product list.`,
+      });
+    }
+    
+    if (result.missingIdentifierCount > 0) {
+      toast({
+        title: "Product identifiers missing",
+        description: `${result.missingIdentifierCount} products have no valid UPC, EAN, GTIN, ISBN or ASIN. Add them before exporting to marketplaces that require one.`,
+      });
+    }
+    
+    // Move to analysis step
+    setCurrentStep(1);
+  };
+  
+  // Handle file upload from Upload component
+  const handleFileUpload = async (file: File) => {
+    try {
+      const data = await postUpload(file);
       
-      // Set products from response
-      setProducts(data.products);
+      // The columns need confirming before anything is imported
+      if (data.status === "needs_mapping") {
+        setPendingUpload({ fileName: file.name, review: data });
+        return;
+      }
       
-      // Move to analysis step
-      setCurrentStep(1);
+      await completeImport(data.importId, data.job, true);
     } catch (error) {
       console.error("Error uploading file:", error);
       toast({
         title: "Error uploading file",
-        description: "Please try again or contact support",
+        description: error instanceof Error ? error.message : "Please try again or contact support",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Import the held file with the mapping the user confirmed
+  const handleMappingConfirmed = async (mapping: FieldMapping[], templateName: string) => {
+    if (!pendingUpload) return;
+    setImporting(true);
+    try {
+      const { uploadId, sheet, recordPath } = pendingUpload.review;
+      const data = await postUpload(null, {
+        uploadId,
+        mapping: JSON.stringify(mapping),
+        ...(sheet ? { sheet } : {}),
+        ...(recordPath ? { recordPath } : {}),
+        ...(templateName ? { templateName } : {})
+      });
+      setPendingUpload(null);
+      await completeImport(data.importId, data.job, false);
+    } catch (error) {
+      console.error("Error importing file:", error);
+      toast({
+        title: "Error importing file",
+        description: error instanceof Error ? error.message : "Please try again or contact support",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+  
+  // Import the valid rows of the reviewed file, leaving out the rows with errors
+  const handleImportContinue = async () => {
+    if (!reviewedImport) return;
+    setImporting(true);
+    try {
+      const response = await fetch(`/api/imports/${reviewedImport.job.id}/continue`, { method: "POST" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || data?.message || "Failed to continue the import");
+      }
+      setReviewedImport(null);
+      await completeImport(data.importId, data.job, reviewedImport.templateApplied);
+    } catch (error) {
+      console.error("Error importing file:", error);
+      setReviewedImport(null);
+      toast({
+        title: "Error importing file",
+        description: error instanceof Error ? error.message : "Please try again or contact support",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+  
+  // Drop the reviewed file without importing anything
+  const handleImportCancel = async () => {
+    if (!reviewedImport) return;
+    const { job } = reviewedImport;
+    setReviewedImport(null);
+    if (job.status !== "needs_review") return;
+    
+    try {
+      await fetch(`/api/imports/${job.id}/cancel`, { method: "POST" });
+      toast({
+        title: "Import cancelled",
+        description: `Nothing from ${job.fileName} was saved`,
+      });
+    } catch (error) {
+      console.error("Error cancelling import:", error);
+    }
+  };
+  
+  // Drop the held file rather than leave it on the server until it expires
+  const handleMappingCancel = async () => {
+    if (!pendingUpload) return;
+    const { uploadId } = pendingUpload.review;
+    setPendingUpload(null);
+    
+    try {
+      await fetch(`/api/uploads/${uploadId}`, { method: "DELETE" });
+    } catch (error) {
+      console.error("Error discarding upload:", error);
+    }
+  };
+  
+  // Read the held file's columns again from another worksheet or record path
+  const handleSourceChange = async (source: { sheet?: string; recordPath?: string }) => {
+    if (!pendingUpload) return;
+    setImporting(true);
+    try {
+      const data = await postUpload(null, {
+        uploadId: pendingUpload.review.uploadId,
+        reviewMapping: "true",
+        ...source
+      });
+      setPendingUpload({ fileName: pendingUpload.fileName, review: data });
+    } catch (error) {
+      console.error("Error reading file:", error);
+      // The held file is gone once a request for it fails
+      setPendingUpload(null);
+      toast({
+        title: "Error reading file",
+        description: error instanceof Error ? error.message : "Please try again or contact support",
         variant: "destructive",
       });
+    } finally {
+      setImporting(false);
     }
   };
   
@@ -210,6 +453,24 @@ export function ApplicationPage() {
         {renderStepContent()}
       </main>
       
+      <ColumnMappingReview
+        review={pendingUpload?.review ?? null}
+        fileName={pendingUpload?.fileName ?? ""}
+        importing={importing}
+        onConfirm={handleMappingConfirmed}
+        onSourceChange={handleSourceChange}
+        onCancel={handleMappingCancel}
+      />
+      
+      <ImportProgress job={importJob} />
+      
+      <ImportReportReview
+        job={reviewedImport?.job ?? null}
+        busy={importing}
+        onContinue={handleImportContinue}
+        onCancel={handleImportCancel}
+      />
+      
       {/* Footer */}
       <footer className="bg-white border-t border-gray-200 py-4">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
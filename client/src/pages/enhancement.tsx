@@ -29,6 +29,32 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { TransformationAnimation } from "@/components/ui/transformation-animation";
+import { ListingDiff } from "@/components/listing-diff";
+
+// Summarise which provider in the fallback chain produced a product
+function describeServedBy(record?: { provider: string | null; model: string | null }) {
+  if (!record?.provider) {
+    return "Product has been successfully enhanced using AI";
+  }
+  return `Product has been successfully enhanced using ${record.provider} (${record.model})`;
+}
+
+// How often to poll a background enhancement job for progress
+const JOB_POLL_INTERVAL_MS = 1500;
+
+interface JobProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  remaining: number;
+  percent: number;
+}
+
+// Before/after content of the most recently enhanced product
+interface AnimationSample {
+  original: { title: string; description: string; bulletPoints: string[] };
+  enhanced: { title: string; description: string; bullet_points: string[] };
+}
 
 interface EnhancementProps {
   products: any[];
@@ -40,6 +66,9 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
   const [, setLocation] = useLocation();
   const [enhancingAll, setEnhancingAll] = useState(false);
   const [enhancementProgress, setEnhancementProgress] = useState(0);
+  const [enhancementJobId, setEnhancementJobId] = useState<number | null>(null);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+  const [liveStatus, setLiveStatus] = useState<string | null>(null);
   const [currentProductIndex, setCurrentProductIndex] = useState(0);
   const [enhancedProducts, setEnhancedProducts] = useState<any[]>([]);
   const [selectedTab, setSelectedTab] = useState("original");
@@ -53,6 +82,7 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
   const [editMode, setEditMode] = useState(false);
   const [showTransformationAnimation, setShowTransformationAnimation] = useState(false);
   const [animationPlaying, setAnimationPlaying] = useState(false);
+  const [animationSample, setAnimationSample] = useState<AnimationSample | null>(null);
   const [animationFieldToShow, setAnimationFieldToShow] = useState<'all' | 'title' | 'description' | 'bulletPoints'>('all');
   
   // Initialize enhanced products with original data
@@ -120,7 +150,7 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
         // Show success toast
         toast({
           title: "Enhancement Complete",
-          description: "Product has been successfully enhanced using AI",
+          description: describeServedBy(response.data.servedBy?.[0]),
         });
       } else {
         throw new Error("No enhanced product data received from API");
@@ -143,10 +173,11 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
     }
   };
   
-  // Enhance all products by calling the API
+  // Enhance all products in a background job and poll it for progress
   const enhanceAllProducts = async () => {
     setEnhancingAll(true);
-    setEnhancementProgress(5);
+    // Keep the progress screen visible until the first poll reports real progress
+    setEnhancementProgress(1);
     setCurrentProductIndex(0);
     
     // Store original values of first product
@@ -160,11 +191,7 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
     });
     
     try {
-      // Set progress to indicate work has started
-      setEnhancementProgress(20);
-      
-      // Call the API to enhance all products
-      const response = await axios.post("/api/enhance", {
+      const response = await axios.post("/api/jobs", {
         products: enhancedProducts,
         marketplace: enhancementOptions.marketplace,
         aiProvider: enhancementOptions.aiProvider,
@@ -172,27 +199,51 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
         optimizeFor: enhancementOptions.optimizeFor
       });
       
-      setEnhancementProgress(90);
+      const jobId = response.data.job.id;
+      setEnhancementJobId(jobId);
       
-      // Update the products with the enhanced data
-      if (response.data && response.data.enhancedProducts && response.data.enhancedProducts.length > 0) {
-        setEnhancedProducts(response.data.enhancedProducts);
-        setEnhancingAll(false);
-        setSelectedTab("enhanced");
-        setEditMode(false);
-        setEnhancementProgress(100);
-        
-        // Show success toast
+      const details = await streamEnhancementJob(jobId, enhancedProducts);
+      
+      setEnhancementJobId(null);
+      setJobProgress(null);
+      setLiveStatus(null);
+      setAnimationSample(null);
+      setAnimationPlaying(false);
+      setEnhancingAll(false);
+      
+      if (details.job.status === "failed") {
+        throw new Error(details.job.error || "Enhancement job failed");
+      }
+      
+      // Keep the page's product order; the job returns products as stored
+      const byId = new Map((details.products || []).map((product: any) => [product.product_id, product]));
+      setEnhancedProducts(enhancedProducts.map(product => byId.get(product.product_id) || product));
+      setSelectedTab("enhanced");
+      setEditMode(false);
+      setEnhancementProgress(100);
+      
+      if (details.job.status === "cancelled") {
         toast({
-          title: "Enhancement Complete",
-          description: `Successfully enhanced ${response.data.enhancedProducts.length} products`,
+          title: "Enhancement Cancelled",
+          description: `Enhanced ${details.progress.completed} of ${details.progress.total} products before cancelling`,
         });
       } else {
-        throw new Error("No enhanced product data received from API");
+        toast({
+          title: "Enhancement Complete",
+          description: details.progress.failed > 0
+            ? `Enhanced ${details.progress.completed} products, ${details.progress.failed} failed`
+            : `Successfully enhanced ${details.progress.completed} products`,
+          variant: details.progress.completed === 0 ? "destructive" : undefined,
+        });
       }
     } catch (error) {
       console.error("Error enhancing all products:", error);
       setEnhancementProgress(0);
+      setEnhancementJobId(null);
+      setJobProgress(null);
+      setLiveStatus(null);
+      setAnimationSample(null);
+      setAnimationPlaying(false);
       setEnhancingAll(false);
       
       // Show error toast
@@ -204,6 +255,117 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
     }
   };
   
+  const applyJobProgress = (progress?: JobProgress) => {
+    if (!progress) return;
+    setJobProgress(progress);
+    setEnhancementProgress(Math.min(99, Math.max(1, progress.percent)));
+  };
+  
+  // Follow a job's Server-Sent Events, updating each product as soon as it is
+  // finished. Falls back to polling if the stream can't be opened or drops.
+  // Resolves with the job details once the job has finished.
+  const streamEnhancementJob = (jobId: number, originalProducts: any[]) => new Promise<any>((resolve, reject) => {
+    const originals = new Map(originalProducts.map(product => [product.product_id, product]));
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    let finished = false;
+    
+    const finish = () => {
+      finished = true;
+      source.close();
+      axios.get(`/api/jobs/${jobId}`).then(response => resolve(response.data), reject);
+    };
+    
+    source.addEventListener("snapshot", (event) => {
+      applyJobProgress(JSON.parse((event as MessageEvent).data).progress);
+    });
+    
+    source.addEventListener("progress", (event) => {
+      applyJobProgress(JSON.parse((event as MessageEvent).data).progress);
+    });
+    
+    source.addEventListener("started", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      const product = originals.get(data.product_id);
+      setCurrentProductIndex(data.index);
+      setLiveStatus(`Analyzing ${product?.title || data.product_id}...`);
+    });
+    
+    source.addEventListener("field", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      const product = originals.get(data.product_id);
+      setLiveStatus(`Generated ${data.field.replace("_", " ")} for ${product?.title || data.product_id}`);
+    });
+    
+    source.addEventListener("completed", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      const original = originals.get(data.product_id) || {};
+      
+      setEnhancedProducts(current => current.map(product =>
+        product.product_id === data.product_id ? data.product : product
+      ));
+      
+      // Replay the transformation for the product that just finished
+      setAnimationSample({
+        original: {
+          title: original.title || "No title provided",
+          description: original.description || "No description provided",
+          bulletPoints: Array.isArray(original.bullet_points) ? original.bullet_points : [],
+        },
+        enhanced: {
+          title: data.product.title || "",
+          description: data.product.description || "",
+          bullet_points: Array.isArray(data.product.bullet_points) ? data.product.bullet_points : [],
+        },
+      });
+      setAnimationPlaying(true);
+    });
+    
+    // Product failures arrive as "error" messages with data; connection
+    // failures use the same event name but carry no data
+    source.addEventListener("error", (event) => {
+      if (event instanceof MessageEvent && event.data) {
+        const data = JSON.parse(event.data);
+        const product = originals.get(data.product_id);
+        setLiveStatus(`Could not enhance ${product?.title || data.product_id}: ${data.error}`);
+        return;
+      }
+      
+      if (finished) return;
+      finished = true;
+      source.close();
+      pollEnhancementJob(jobId).then(resolve, reject);
+    });
+    
+    source.addEventListener("finished", finish);
+  });
+  
+  // Poll a job until it has finished
+  const pollEnhancementJob = async (jobId: number) => {
+    let details = (await axios.get(`/api/jobs/${jobId}`)).data;
+    while (!["completed", "failed", "cancelled"].includes(details.job.status)) {
+      applyJobProgress(details.progress);
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      details = (await axios.get(`/api/jobs/${jobId}`)).data;
+    }
+    return details;
+  };
+  
+  // Ask the server to stop the running job; the job stream picks up the result
+  const cancelEnhancementJob = async () => {
+    if (enhancementJobId === null) return;
+    
+    try {
+      await axios.post(`/api/jobs/${enhancementJobId}/cancel`);
+    } catch (error) {
+      console.error("Error cancelling enhancement job:", error);
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+  
   // Apply enhancement by calling the API for a specific product
   const applyEnhancement = async (index: number) => {
     try {
@@ -228,7 +390,7 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
         // Show success toast
         toast({
           title: "Enhancement Complete",
-          description: "Product has been successfully enhanced using AI",
+          description: describeServedBy(response.data.servedBy?.[0]),
         });
       } else {
         throw new Error("No enhanced product data received from API");
@@ -356,26 +518,7 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
   // Loading state when enhancing
   if ((enhancementProgress > 0 && enhancementProgress < 100) || animationPlaying) {
     // If user chose to show the transformation animation and the animation is playing
-    if (showTransformationAnimation && animationPlaying) {
-      const originalProductData = {
-        title: originalValues.title || "No title provided",
-        description: originalValues.description || "No description provided",
-        bulletPoints: Array.isArray(originalValues.bullet_points) ? originalValues.bullet_points : [],
-      };
-      
-      // Create enhanced data for animation preview
-      const enhancedProductData = {
-        title: `Enhanced ${originalValues.title || "Product"}`,
-        description: `This is an AI-enhanced description of the product, optimized for ${enhancementOptions.marketplace} marketplace with focus on ${enhancementOptions.optimizeFor}.`,
-        bulletPoints: [
-          "First key feature or benefit of the product",
-          "Second key feature with marketplace-specific optimization",
-          "Third feature highlighting unique selling proposition",
-          "Fourth feature with SEO-optimized language",
-          "Fifth feature designed to increase conversion rate"
-        ]
-      };
-      
+    if (showTransformationAnimation && animationPlaying && animationSample) {
       return (
         <div className="max-w-6xl mx-auto py-8">
           <div className="text-center mb-8">
@@ -393,8 +536,8 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
           </div>
           
           <TransformationAnimation
-            originalData={originalProductData}
-            enhancedData={enhancedProductData}
+            originalData={animationSample.original}
+            enhancedData={animationSample.enhanced}
             isPlaying={true}
             speed="medium"
             fieldToAnimate={animationFieldToShow}
@@ -403,6 +546,25 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
           
           <div className="mt-8 flex justify-center">
             <div className="max-w-md w-full">
+              {enhancingAll && jobProgress && (
+                <div className="space-y-2 mb-6">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium text-gray-700">
+                      {jobProgress.completed + jobProgress.failed} of {jobProgress.total} products processed
+                    </span>
+                    <span>{enhancementProgress}%</span>
+                  </div>
+                  <Progress value={enhancementProgress} className="h-2" />
+                  {liveStatus && (
+                    <p className="text-xs text-gray-500 text-left truncate">{liveStatus}</p>
+                  )}
+                  <Button variant="outline" size="sm" onClick={cancelEnhancementJob}>
+                    <Pause className="h-4 w-4 mr-2" />
+                    Cancel Enhancement
+                  </Button>
+                </div>
+              )}
+              
               <div className="flex flex-col gap-3 text-left text-sm text-gray-600">
                 <div className="flex items-center">
                   <div className="w-5 h-5 rounded-full mr-3 flex items-center justify-center bg-green-100">
@@ -460,6 +622,15 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
                 <span>{enhancementProgress}%</span>
               </div>
               <Progress value={enhancementProgress} className="h-2" />
+              {enhancingAll && liveStatus && (
+                <p className="text-xs text-gray-500 text-left truncate">{liveStatus}</p>
+              )}
+              {enhancingAll && jobProgress && (
+                <p className="text-xs text-gray-500 text-left">
+                  {jobProgress.completed + jobProgress.failed} of {jobProgress.total} products processed
+                  {jobProgress.failed > 0 && ` (${jobProgress.failed} failed)`}
+                </p>
+              )}
             </div>
             
             <div className="flex flex-col gap-3 text-left text-sm text-gray-600">
@@ -519,6 +690,13 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
               </div>
             </div>
             
+            {enhancingAll && enhancementJobId !== null && (
+              <Button variant="outline" size="sm" onClick={cancelEnhancementJob}>
+                <Pause className="h-4 w-4 mr-2" />
+                Cancel Enhancement
+              </Button>
+            )}
+            
             {/* Show option to view with animation next time */}
             {!showTransformationAnimation && enhancementProgress > 40 && enhancementProgress < 80 && (
               <div className="mt-6 pt-4 border-t border-gray-200 text-left">
@@ -802,6 +980,12 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
                         AI
                       </Badge>
                     </TabsTrigger>
+                    <TabsTrigger 
+                      value="changes" 
+                      className="flex-1 rounded-none data-[state=active]:border-b-2 data-[state=active]:border-blue-600 data-[state=active]:shadow-none py-3"
+                    >
+                      Changes
+                    </TabsTrigger>
                   </TabsList>
                 </div>
                 
@@ -1021,6 +1205,19 @@ export function Enhancement({ products, onEnhancementComplete, onBack }: Enhance
                     </div>
                   )}
                 </TabsContent>
+                
+                <TabsContent value="changes" className="p-6 m-0">
+                  <div className="mb-6">
+                    <h3 className="text-lg font-medium text-gray-900">Changes from Original</h3>
+                    <p className="text-gray-600 text-sm">
+                      What changed compared with the data in your CSV file
+                    </p>
+                  </div>
+                  
+                  {currentProduct.product_id && (
+                    <ListingDiff productId={currentProduct.product_id} refreshKey={currentProduct} />
+                  )}
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
+import axios from "axios";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -20,12 +21,50 @@ import {
   Package2,
   FileText,
   History,
-  MoreHorizontal
+  MoreHorizontal,
+  AlertTriangle,
+  RefreshCw,
+  GitCompare,
+  Link2,
+  Pencil,
+  Plus,
+  Trash2
 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ExportComparison } from "@/components/export-comparison";
+import { ExportShareLinks } from "@/components/export-share-links";
+import { ExportProfileEditor } from "@/components/export-profile-editor";
 import { toast } from "@/hooks/use-toast";
+import { ExportProfile, ExportRecord } from "@/types";
+import {
+  EXPORT_FIELDS,
+  DEFAULT_EXPORT_FIELDS,
+  ETSY_WHEN_MADE_OPTIONS,
+  ETSY_WHO_MADE_OPTIONS,
+  EtsyWhenMade,
+  EtsyWhoMade,
+  exportCellValue,
+  exportFieldValue
+} from "@shared/export-fields";
+
+interface ExportIssue {
+  product_id: string;
+  field: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+// Marketplaces with their own file layout; the rest get the selected fields
+const MARKETPLACE_FORMATS: Record<string, string> = {
+  amazon: "amazon_flat",
+  ebay: "ebay_format",
+  walmart: "walmart_format",
+  etsy: "etsy_format",
+  shopify: "shopify_format",
+};
 
 interface ExportProps {
   products: any[];
@@ -42,29 +81,48 @@ export function Export({ products, onBack, onNew }: ExportProps) {
     includeUnenhanced: true,
     encodeUtf8: true,
     addQuotes: true,
-    formatForMarketplace: true,
+    formatForMarketplace: false,
   });
-  const [selectedExportFields, setSelectedExportFields] = useState<string[]>([
-    "product_id", "title", "description", "bullet_points", "brand", "category", "price", "images"
-  ]);
-  const [exportHistory, setExportHistory] = useState([
-    { 
-      id: 1, 
-      date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(), 
-      format: "CSV", 
-      marketplace: "Amazon", 
-      products: 15,
-      name: "Amazon Electronics Batch"
-    },
-    { 
-      id: 2, 
-      date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(), 
-      format: "CSV", 
-      marketplace: "eBay", 
-      products: 8,
-      name: "eBay Home Goods"
+  const [selectedExportFields, setSelectedExportFields] = useState<string[]>(DEFAULT_EXPORT_FIELDS);
+  // Etsy's declarations for every listing in the file; nothing is assumed until picked
+  const [etsyWhoMade, setEtsyWhoMade] = useState<EtsyWhoMade | "">("");
+  const [etsyWhenMade, setEtsyWhenMade] = useState<EtsyWhenMade | "">("");
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportIssues, setExportIssues] = useState<ExportIssue[]>([]);
+  // Set while the issues shown are from re-running a stored export
+  const [rerunExportId, setRerunExportId] = useState<number | null>(null);
+  const [exportHistory, setExportHistory] = useState<ExportRecord[]>([]);
+  const [compareSelection, setCompareSelection] = useState<number[]>([]);
+  const [comparedExports, setComparedExports] = useState<[number, number] | null>(null);
+  const [sharedExportId, setSharedExportId] = useState<number | null>(null);
+  // "fields" exports the selected fields; anything else is a profile's format
+  const [selectedProfile, setSelectedProfile] = useState("fields");
+  const [exportProfiles, setExportProfiles] = useState<ExportProfile[]>([]);
+  const [editingProfile, setEditingProfile] = useState<ExportProfile | null>(null);
+  const [profileEditorOpen, setProfileEditorOpen] = useState(false);
+  
+  const loadExportHistory = async () => {
+    try {
+      const response = await axios.get("/api/export-history");
+      setExportHistory(response.data.history);
+    } catch (error) {
+      console.error("Error loading export history:", error);
     }
-  ]);
+  };
+  
+  const loadExportProfiles = async () => {
+    try {
+      const response = await axios.get("/api/export-profiles");
+      setExportProfiles([...response.data.builtIn, ...response.data.profiles]);
+    } catch (error) {
+      console.error("Error loading export profiles:", error);
+    }
+  };
+  
+  useEffect(() => {
+    loadExportHistory();
+    loadExportProfiles();
+  }, []);
   
   const marketplaceOptions = [
     { id: "amazon", name: "Amazon", icon: <Package2 className="h-4 w-4 mr-2" /> },
@@ -78,23 +136,18 @@ export function Export({ products, onBack, onNew }: ExportProps) {
   const formatOptions = [
     { id: "csv", name: "CSV", icon: <FileSpreadsheet className="h-4 w-4 mr-2" />, description: "Compatible with Excel and spreadsheet software" },
     { id: "json", name: "JSON", icon: <FileJson className="h-4 w-4 mr-2" />, description: "Best for developer-friendly data" },
+    { id: "ndjson", name: "NDJSON", icon: <FileJson className="h-4 w-4 mr-2" />, description: "One JSON object per line for data pipelines" },
     { id: "tsv", name: "TSV", icon: <FileText className="h-4 w-4 mr-2" />, description: "Tab-separated values for specific systems" },
+    { id: "xlsx", name: "Excel (XLSX)", icon: <FileSpreadsheet className="h-4 w-4 mr-2" />, description: "Excel workbook with one row per product" },
   ];
   
-  const fieldOptions = [
-    { id: "product_id", label: "Product ID", required: true },
-    { id: "title", label: "Title", required: true },
-    { id: "description", label: "Description", required: false },
-    { id: "bullet_points", label: "Bullet Points", required: false },
-    { id: "brand", label: "Brand", required: false },
-    { id: "category", label: "Category", required: false },
-    { id: "price", label: "Price", required: false },
-    { id: "images", label: "Images", required: false },
-    { id: "asin", label: "ASIN", required: false },
-    { id: "sku", label: "SKU", required: false },
-    { id: "upc", label: "UPC", required: false },
-    { id: "keywords", label: "Keywords", required: false },
-  ];
+  const fieldOptions = EXPORT_FIELDS;
+  
+  const exportProducts = exportOptions.includeUnenhanced
+    ? products
+    : products.filter(p => p.status === "enhanced");
+  const marketplaceFormat = exportOptions.formatForMarketplace ? MARKETPLACE_FORMATS[targetMarketplace] : undefined;
+  const activeProfile = exportProfiles.find(profile => profile.format === selectedProfile);
   
   const toggleField = (field: string) => {
     setSelectedExportFields(prev => 
@@ -104,24 +157,54 @@ export function Export({ products, onBack, onNew }: ExportProps) {
     );
   };
   
-  const handleExport = () => {
-    // Simulate export
-    toast({
-      title: "Export completed",
-      description: `${products.length} products exported as ${exportFormat.toUpperCase()} for ${getMarketplaceName(targetMarketplace)}`,
-    });
-    
-    // Update export history
-    const newExportRecord = {
-      id: exportHistory.length + 1,
-      date: new Date().toISOString(),
-      format: exportFormat.toUpperCase(),
-      marketplace: getMarketplaceName(targetMarketplace),
-      products: products.length,
-      name: `${getMarketplaceName(targetMarketplace)} Export ${new Date().toLocaleDateString()}`
-    };
-    
-    setExportHistory([newExportRecord, ...exportHistory]);
+  const handleExport = async (skipValidation = false) => {
+    setIsExporting(true);
+    try {
+      const response = await axios.post("/api/export", {
+        products: exportProducts,
+        format: marketplaceFormat ?? activeProfile?.format ?? exportFormat,
+        fields: selectedExportFields,
+        includeHeaders: exportOptions.includeHeaders,
+        encodeUtf8: exportOptions.encodeUtf8,
+        quoteAll: exportOptions.addQuotes,
+        marketplace: getMarketplaceName(targetMarketplace),
+        etsyWhoMade: etsyWhoMade || undefined,
+        etsyWhenMade: etsyWhenMade || undefined,
+        skipValidation
+      }, { responseType: "blob" });
+      
+      const fileName = saveDownload(response, `products.${activeProfile ? "csv" : exportFormat}`);
+      setExportIssues([]);
+      setRerunExportId(null);
+      
+      toast({
+        title: "Export completed",
+        description: `${exportProducts.length} products exported as ${fileName.split(".").pop()?.toUpperCase()} for ${getMarketplaceName(targetMarketplace)}`,
+      });
+      
+      loadExportHistory();
+    } catch (error) {
+      // Error bodies arrive as blobs because of the response type
+      const body = await errorBody(error);
+      
+      if (axios.isAxiosError(error) && error.response?.status === 422 && body?.issues) {
+        setExportIssues(body.issues);
+        setRerunExportId(null);
+        toast({
+          title: "Export blocked",
+          description: `${body.issues.length} problems would stop ${getMarketplaceName(targetMarketplace)} accepting the file`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Export failed",
+          description: body?.error || body?.message || (error instanceof Error ? error.message : "Unknown error"),
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsExporting(false);
+    }
   };
   
   const getMarketplaceName = (id: string) => {
@@ -139,111 +222,249 @@ export function Export({ products, onBack, onNew }: ExportProps) {
     }).format(date);
   };
   
-  const copyToClipboard = () => {
-    toast({
-      title: "Link copied to clipboard",
-      description: "Share this link to provide access to your export",
-    });
+  // Create a link with the default expiry and copy it in one step
+  const copyToClipboard = async (id: number) => {
+    try {
+      const response = await axios.post(`/api/export-history/${id}/share-links`);
+      const { url, expires_at } = response.data.link;
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied to clipboard",
+        description: `Anyone with this link can download the export until ${formatDate(expires_at)}`,
+      });
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.message : undefined;
+      toast({
+        title: "Could not create link",
+        description: message || (error instanceof Error ? error.message : "Unknown error"),
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Save a file response through a temporary link
+  const saveDownload = (response: { data: Blob; headers: Record<string, any> }, fallbackName: string) => {
+    const disposition: string = response.headers["content-disposition"] || "";
+    const fileName = disposition.match(/filename=([^;]+)/)?.[1] || fallbackName;
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return fileName;
+  };
+  
+  // Error bodies arrive as blobs when a file was requested
+  const errorBody = async (error: unknown) => {
+    return axios.isAxiosError(error) && error.response?.data instanceof Blob
+      ? JSON.parse(await error.response.data.text())
+      : null;
   };
   
-  const downloadSelectedExport = (id: number) => {
-    toast({
-      title: "Download started",
-      description: "Your previously exported file is being downloaded",
-    });
+  const downloadSelectedExport = async (id: number) => {
+    try {
+      const response = await axios.get(`/api/export-history/${id}/download`, { responseType: "blob" });
+      const fileName = saveDownload(response, `export_${id}.csv`);
+      toast({
+        title: "Download started",
+        description: `${fileName} is being downloaded`,
+      });
+    } catch (error) {
+      const body = await errorBody(error);
+      toast({
+        title: "Download failed",
+        description: body?.message || (error instanceof Error ? error.message : "Unknown error"),
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Regenerate a stored export with the same settings from current product data
+  const rerunExport = async (id: number, skipValidation = false) => {
+    setIsExporting(true);
+    try {
+      const response = await axios.post(`/api/export-history/${id}/rerun`, { skipValidation }, { responseType: "blob" });
+      const fileName = saveDownload(response, `export_${id}.csv`);
+      setExportIssues([]);
+      setRerunExportId(null);
+      toast({
+        title: "Export re-run",
+        description: `${fileName} was regenerated from current product data`,
+      });
+      loadExportHistory();
+    } catch (error) {
+      const body = await errorBody(error);
+      
+      if (axios.isAxiosError(error) && error.response?.status === 422 && body?.issues) {
+        setExportIssues(body.issues);
+        setRerunExportId(id);
+        toast({
+          title: "Re-run blocked",
+          description: `${body.issues.length} problems found in the current product data`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Re-run failed",
+          description: body?.error || body?.message || (error instanceof Error ? error.message : "Unknown error"),
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+  
+  const toggleCompareSelection = (id: number) => {
+    setCompareSelection(prev =>
+      prev.includes(id)
+        ? prev.filter(selected => selected !== id)
+        : [...prev, id].slice(-2)
+    );
+  };
+  
+  // Older export first, so additions read as additions
+  const compareSelectedExports = () => {
+    const [first, second] = [...compareSelection].sort((a, b) => a - b);
+    setComparedExports([first, second]);
+  };
+  
+  const openProfileEditor = (profile: ExportProfile | null) => {
+    setEditingProfile(profile);
+    setProfileEditorOpen(true);
+  };
+  
+  const handleProfileSaved = async (profile: ExportProfile) => {
+    setProfileEditorOpen(false);
+    await loadExportProfiles();
+    setSelectedProfile(profile.format);
+  };
+  
+  const deleteProfile = async (profile: ExportProfile) => {
+    try {
+      await axios.delete(`/api/export-profiles/${profile.id}`);
+      setSelectedProfile("fields");
+      await loadExportProfiles();
+      toast({ title: "Export profile deleted", description: `"${profile.name}" was deleted` });
+    } catch (error) {
+      toast({ title: "Could not delete profile", variant: "destructive" });
+    }
   };
   
   const renderExportPreview = () => {
-    const enhancedProducts = products.filter(p => p.status === "enhanced");
-    const previewProducts = enhancedProducts.slice(0, 3);
+    const previewProducts = exportProducts.slice(0, 3);
+    const remaining = exportProducts.length - previewProducts.length;
     
-    if (exportFormat === "csv") {
+    if (marketplaceFormat) {
       return (
-        <div className="bg-gray-50 p-3 rounded-md border border-gray-200 text-sm font-mono overflow-x-auto max-h-[300px] text-gray-700">
-          {/* CSV header row */}
-          <div className="mb-1">
-            {selectedExportFields.join(",")}
+        <div className="text-sm text-gray-600">
+          Columns follow {getMarketplaceName(targetMarketplace)}'s own template, so the field selection doesn't apply.
+          Turn off "Format for Marketplace" to choose fields.
+        </div>
+      );
+    }
+    
+    if (activeProfile) {
+      return (
+        <div className="space-y-2 text-sm text-gray-600">
+          <div>
+            The "{activeProfile.name}" profile writes a CSV with these columns; the field selection doesn't apply.
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {activeProfile.columns.map((column, index) => (
+              <Badge key={index} variant="outline" className="bg-gray-50">{column.header}</Badge>
+            ))}
           </div>
-          
-          {/* Sample data rows */}
-          {previewProducts.map((product, index) => (
-            <div key={index} className="mb-1">
-              {selectedExportFields.map(field => {
-                // Handle special fields that might be arrays or objects
-                if (field === "bullet_points" && Array.isArray(product[field])) {
-                  return `"${product[field].join("; ")}"`;
-                }
-                if (field === "images" && Array.isArray(product[field])) {
-                  return `"${product[field].join("; ")}"`;
-                }
-                return `"${product[field] || ""}"`;
-              }).join(",")}
-            </div>
-          ))}
-          
-          {enhancedProducts.length > 3 && (
-            <div className="text-gray-500 pt-1">
-              ... and {enhancedProducts.length - 3} more rows
-            </div>
-          )}
         </div>
       );
     }
     
-    if (exportFormat === "json") {
-      const jsonPreview = previewProducts.map(product => {
-        const filteredProduct: Record<string, any> = {};
-        selectedExportFields.forEach(field => {
-          filteredProduct[field] = product[field];
-        });
-        return filteredProduct;
-      });
+    if (exportFormat === "json" || exportFormat === "ndjson") {
+      const records = previewProducts.map(product =>
+        Object.fromEntries(selectedExportFields.map(field => [field, exportFieldValue(product, field)]))
+      );
       
       return (
-        <div className="bg-gray-50 p-3 rounded-md border border-gray-200 text-sm font-mono overflow-x-auto max-h-[300px] text-gray-700">
-          {JSON.stringify(jsonPreview, null, 2)}
-          {enhancedProducts.length > 3 && (
+        <div className="bg-gray-50 p-3 rounded-md border border-gray-200 text-sm font-mono overflow-x-auto max-h-[300px] text-gray-700 whitespace-pre">
+          {exportFormat === "json"
+            ? JSON.stringify(records, null, 2)
+            : records.map(record => JSON.stringify(record)).join("\n")}
+          {remaining > 0 && (
             <div className="text-gray-500 pt-1">
-              ... and {enhancedProducts.length - 3} more items
+              ... and {remaining} more items
             </div>
           )}
         </div>
       );
     }
     
-    // TSV format
+    // CSV, TSV and XLSX are all rows of cells
+    const separator = exportFormat === "tsv" ? "\t" : ",";
+    const formatCell = (value: string) => {
+      if (exportFormat === "tsv") return value.replace(/[\t\r\n]+/g, " ");
+      if (exportFormat === "xlsx") return value;
+      return exportOptions.addQuotes || /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    };
+    
     return (
       <div className="bg-gray-50 p-3 rounded-md border border-gray-200 text-sm font-mono overflow-x-auto max-h-[300px] text-gray-700">
-        {/* TSV header row */}
-        <div className="mb-1">
-          {selectedExportFields.join("\t")}
-        </div>
+        {exportOptions.includeHeaders && (
+          <div className="mb-1">
+            {selectedExportFields.map(field => exportFormat === "csv" ? formatCell(field) : field).join(exportFormat === "xlsx" ? " | " : separator)}
+          </div>
+        )}
         
-        {/* Sample data rows */}
         {previewProducts.map((product, index) => (
           <div key={index} className="mb-1">
-            {selectedExportFields.map(field => {
-              // Handle special fields that might be arrays or objects
-              if (field === "bullet_points" && Array.isArray(product[field])) {
-                return `"${product[field].join("; ")}"`;
-              }
-              if (field === "images" && Array.isArray(product[field])) {
-                return `"${product[field].join("; ")}"`;
-              }
-              return `"${product[field] || ""}"`;
-            }).join("\t")}
+            {selectedExportFields
+              .map(field => formatCell(exportCellValue(product, field)))
+              .join(exportFormat === "xlsx" ? " | " : separator)}
           </div>
         ))}
         
-        {enhancedProducts.length > 3 && (
+        {remaining > 0 && (
           <div className="text-gray-500 pt-1">
-            ... and {enhancedProducts.length - 3} more rows
+            ... and {remaining} more rows
           </div>
         )}
       </div>
     );
   };
 
+  const renderExportIssues = () => {
+    if (exportIssues.length === 0) return null;
+    
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>
+          {rerunExportId !== null
+            ? `${exportIssues.length} problems found re-running export #${rerunExportId}`
+            : `${exportIssues.length} problems found for ${getMarketplaceName(targetMarketplace)}`}
+        </AlertTitle>
+        <AlertDescription>
+          <ul className="mt-2 space-y-1 max-h-[200px] overflow-y-auto text-sm">
+            {exportIssues.map((issue, index) => (
+              <li key={index}>
+                <span className="font-medium">{issue.product_id}</span> ({issue.field}): {issue.message}
+              </li>
+            ))}
+          </ul>
+          <Button
+            size="sm"
+            variant="outline"
+            className="mt-3"
+            onClick={() => rerunExportId !== null ? rerunExport(rerunExportId, true) : handleExport(true)}
+            disabled={isExporting}
+          >
+            Export anyway
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  };
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="flex justify-between items-center mb-6">
@@ -263,7 +484,8 @@ export function Export({ products, onBack, onNew }: ExportProps) {
           </Button>
           <Button 
             className="bg-blue-600 hover:bg-blue-700"
-            onClick={handleExport}
+            onClick={() => handleExport()}
+            disabled={isExporting || exportProducts.length === 0}
           >
             <Download className="mr-2 h-4 w-4" />
             Export Products
@@ -307,6 +529,55 @@ export function Export({ products, onBack, onNew }: ExportProps) {
             </CardContent>
           </Card>
           
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle>Column Profile</CardTitle>
+              <CardDescription>Lay out a CSV with a saved column mapping</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Select value={selectedProfile} onValueChange={setSelectedProfile}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fields">Selected fields</SelectItem>
+                  {exportProfiles.map(profile => (
+                    <SelectItem key={profile.format} value={profile.format}>
+                      {profile.name}{profile.id ? "" : " (built-in)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {activeProfile?.description && (
+                <div className="text-xs text-gray-500">{activeProfile.description}</div>
+              )}
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => openProfileEditor(null)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New
+                </Button>
+                {activeProfile && (
+                  <Button size="sm" variant="outline" onClick={() => openProfileEditor(activeProfile)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    {activeProfile.id ? "Edit" : "Copy"}
+                  </Button>
+                )}
+                {activeProfile?.id && (
+                  <Button size="sm" variant="ghost" onClick={() => deleteProfile(activeProfile)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <ExportProfileEditor
+                profile={editingProfile}
+                open={profileEditorOpen}
+                products={exportProducts}
+                onClose={() => setProfileEditorOpen(false)}
+                onSaved={handleProfileSaved}
+              />
+            </CardContent>
+          </Card>
+          
           <Card>
             <CardHeader className="pb-3">
               <CardTitle>Target Marketplace</CardTitle>
@@ -349,6 +620,40 @@ export function Export({ products, onBack, onNew }: ExportProps) {
                   />
                 </div>
               </div>
+              
+              {marketplaceFormat === "etsy_format" && (
+                <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+                  <div className="text-xs text-gray-500">
+                    Etsy asks you to declare these for every listing in the file
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="etsy-who-made">Who made the items?</Label>
+                    <Select value={etsyWhoMade} onValueChange={(value) => setEtsyWhoMade(value as EtsyWhoMade)}>
+                      <SelectTrigger id="etsy-who-made" className="w-full">
+                        <SelectValue placeholder="Select who made them" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ETSY_WHO_MADE_OPTIONS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="etsy-when-made">When were they made?</Label>
+                    <Select value={etsyWhenMade} onValueChange={(value) => setEtsyWhenMade(value as EtsyWhenMade)}>
+                      <SelectTrigger id="etsy-when-made" className="w-full">
+                        <SelectValue placeholder="Select when they were made" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ETSY_WHEN_MADE_OPTIONS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
           
@@ -463,12 +768,14 @@ export function Export({ products, onBack, onNew }: ExportProps) {
                 <CheckCircle2 className="h-4 w-4 text-blue-600" />
                 <AlertTitle>Export Ready</AlertTitle>
                 <AlertDescription>
-                  {products.filter(p => p.status === "enhanced").length} enhanced products are ready for export to {getMarketplaceName(targetMarketplace)}.
+                  {exportProducts.length} products are ready for export to {getMarketplaceName(targetMarketplace)}.
                 </AlertDescription>
               </Alert>
             </CardContent>
           </Card>
           
+          {renderExportIssues()}
+          
           <Card>
             <CardHeader className="pb-3">
               <CardTitle>Export Preview</CardTitle>
@@ -489,15 +796,27 @@ export function Export({ products, onBack, onNew }: ExportProps) {
                   </CardTitle>
                   <CardDescription>Previous exports available for download</CardDescription>
                 </div>
-                <Badge variant="secondary" className="text-gray-600">
-                  {exportHistory.length} Exports
-                </Badge>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={compareSelectedExports}
+                    disabled={compareSelection.length !== 2}
+                  >
+                    <GitCompare className="mr-2 h-4 w-4" />
+                    Compare
+                  </Button>
+                  <Badge variant="secondary" className="text-gray-600">
+                    {exportHistory.length} Exports
+                  </Badge>
+                </div>
               </div>
             </CardHeader>
             <CardContent>
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-8"></TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Marketplace</TableHead>
@@ -508,14 +827,26 @@ export function Export({ products, onBack, onNew }: ExportProps) {
                 <TableBody>
                   {exportHistory.map(item => (
                     <TableRow key={item.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={compareSelection.includes(item.id)}
+                          onCheckedChange={() => toggleCompareSelection(item.id)}
+                          aria-label={`Select export #${item.id} to compare`}
+                        />
+                      </TableCell>
                       <TableCell className="text-sm">
-                        {formatDate(item.date)}
+                        {formatDate(item.timestamp)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">Export #{item.id}</div>
+                        <div className="text-xs text-gray-500">
+                          {item.product_count} products{item.rerun_of !== null && `, re-run of #${item.rerun_of}`}
+                        </div>
                       </TableCell>
-                      <TableCell className="font-medium">{item.name}</TableCell>
                       <TableCell>{item.marketplace}</TableCell>
                       <TableCell>
                         <Badge variant="outline" className="bg-gray-100 hover:bg-gray-100">
-                          {item.format}
+                          {(item.file_name?.split(".").pop() || item.format).toUpperCase()}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-right">
@@ -523,7 +854,8 @@ export function Export({ products, onBack, onNew }: ExportProps) {
                           <Button 
                             size="sm" 
                             variant="ghost"
-                            onClick={() => copyToClipboard()}
+                            onClick={() => copyToClipboard(item.id)}
+                            disabled={!item.file_name}
                           >
                             <Copy className="h-4 w-4" />
                           </Button>
@@ -531,28 +863,57 @@ export function Export({ products, onBack, onNew }: ExportProps) {
                             size="sm" 
                             variant="ghost"
                             onClick={() => downloadSelectedExport(item.id)}
+                            disabled={!item.file_name}
                           >
                             <Download className="h-4 w-4" />
                           </Button>
-                          <Button 
-                            size="sm" 
-                            variant="ghost"
-                          >
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button 
+                                size="sm" 
+                                variant="ghost"
+                              >
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                onClick={() => rerunExport(item.id)}
+                                disabled={isExporting}
+                              >
+                                <RefreshCw className="mr-2 h-4 w-4" />
+                                Re-run with current data
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setSharedExportId(item.id)}
+                                disabled={!item.file_name}
+                              >
+                                <Link2 className="mr-2 h-4 w-4" />
+                                Manage share links
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
                         </div>
                       </TableCell>
                     </TableRow>
                   ))}
                   {exportHistory.length === 0 && (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                      <TableCell colSpan={6} className="text-center py-6 text-gray-500">
                         No export history available yet
                       </TableCell>
                     </TableRow>
                   )}
                 </TableBody>
               </Table>
+              <ExportComparison
+                exportIds={comparedExports}
+                onClose={() => setComparedExports(null)}
+              />
+              <ExportShareLinks
+                exportId={sharedExportId}
+                onClose={() => setSharedExportId(null)}
+              />
             </CardContent>
           </Card>
           
@@ -567,7 +928,8 @@ export function Export({ products, onBack, onNew }: ExportProps) {
             
             <Button 
               className="bg-blue-600 hover:bg-blue-700"
-              onClick={handleExport}
+              onClick={() => handleExport()}
+              disabled={isExporting || exportProducts.length === 0}
             >
               <Download className="mr-2 h-4 w-4" />
               Export Products
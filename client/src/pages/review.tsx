@@ -1,4 +1,5 @@
 import { useState } from "react";
+import axios from "axios";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -6,6 +7,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Product } from "@/types";
+import { useToast } from "@/hooks/use-toast";
 import { CheckCircle, Edit, Eye, Search } from "lucide-react";
 import ProductPreviewModal from "@/components/product-preview-modal";
 import ProductEditModal from "@/components/product-edit-modal";
@@ -26,6 +28,7 @@ export function Review({ enhancedData, marketplace, onContinue, onBack, onUpdate
   const [previewModalOpen, setPreviewModalOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [currentProduct, setCurrentProduct] = useState<Product | null>(null);
+  const { toast } = useToast();
   
   // Find all unique categories
   const categories = ["all", ...Array.from(new Set(enhancedData.map(p => p.category || "Uncategorized")))];
@@ -83,8 +86,23 @@ export function Review({ enhancedData, marketplace, onContinue, onBack, onUpdate
     setEditModalOpen(true);
   };
   
-  const handleSaveEdit = (updatedProduct: Product) => {
+  const handleSaveEdit = async (updatedProduct: Product) => {
     onUpdateProduct(updatedProduct);
+    
+    // Persist the edit so it is recorded in the product's revision history
+    try {
+      const { title, description, price, brand, category, bullet_points, images, asin } = updatedProduct;
+      await axios.patch(`/api/products/${encodeURIComponent(updatedProduct.product_id)}`, {
+        title, description, price, brand, category, bullet_points, images, asin
+      });
+    } catch (error) {
+      console.error("Error saving product edit:", error);
+      toast({
+        title: "Edit Not Saved",
+        description: "Your changes are shown here but could not be saved to the server",
+        variant: "destructive",
+      });
+    }
   };
   
   // Calculate stats
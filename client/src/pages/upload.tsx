@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import FileUploader from "@/components/ui/file-uploader";
 import { useToast } from "@/hooks/use-toast";
+import { IMPORT_FILE_TYPES } from "@shared/import-fields";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle2, TrendingUp, Award, ArrowRight, FileText, Zap, BarChart3 } from "lucide-react";
@@ -9,6 +10,9 @@ interface UploadProps {
   onFileUpload: (file: File) => void;
 }
 
+// CSV, Excel, JSON, NDJSON and XML product files
+const ACCEPTED_FILE_TYPES = Object.keys(IMPORT_FILE_TYPES).map(extension => `.${extension}`);
+
 export function Upload({ onFileUpload }: UploadProps) {
   const [file, setFile] = useState<File | null>(null);
   const { toast } = useToast();
@@ -20,7 +24,7 @@ export function Upload({ onFileUpload }: UploadProps) {
     if (!selectedFile) {
       toast({
         title: "No file selected",
-        description: "Please select a CSV file to upload",
+        description: "Please select a product file to upload",
         variant: "destructive",
       });
       return;
@@ -28,10 +32,10 @@ export function Upload({ onFileUpload }: UploadProps) {
     
     // Just check the file extension - more thorough validation happens in the FileUploader component
     const fileExtension = selectedFile.name.split('.').pop()?.toLowerCase();
-    if (fileExtension !== 'csv') {
+    if (!fileExtension || !(fileExtension in IMPORT_FILE_TYPES)) {
       toast({
         title: "Invalid file format",
-        description: "Please upload a CSV file",
+        description: "Please upload a CSV, Excel, JSON or XML file",
         variant: "destructive",
       });
       return;
@@ -109,7 +113,8 @@ export function Upload({ onFileUpload }: UploadProps) {
                 </div>
               </div>
               
-              <FileUploader onFileUpload={handleFileUpload} />
+              {/* Large feeds are streamed on the server, so the limit matches its upload limit */}
+              <FileUploader onFileUpload={handleFileUpload} maxSize={1024 * 1024 * 1024} acceptedFileTypes={ACCEPTED_FILE_TYPES} />
             </CardContent>
           </Card>
 
@@ -203,7 +208,7 @@ export function Upload({ onFileUpload }: UploadProps) {
                   <div className="absolute -left-3">
                     <div className="h-6 w-6 rounded-full bg-blue-600 flex items-center justify-center text-white text-xs font-medium">1</div>
                   </div>
-                  <h4 className="text-sm font-medium text-gray-900">Upload Your CSV</h4>
+                  <h4 className="text-sm font-medium text-gray-900">Upload Your Product File</h4>
                   <p className="text-sm text-gray-600">We'll analyze your products automatically</p>
                 </li>
                 <li className="mb-6">
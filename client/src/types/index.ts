@@ -1,5 +1,6 @@
 // Re-export all types from shared schema as needed for client-side code
-import type { Product as DbProduct } from '@shared/schema';
+import type { Product as DbProduct, ExportProfileColumn } from '@shared/schema';
+import type { FieldMapping, ImportFileType, ImportIssueCode, MarketplaceFormat } from '@shared/import-fields';
 
 // Define client-side types, extending shared DB types as needed
 export interface Product extends Omit<DbProduct, 'price'> {
@@ -31,4 +32,159 @@ export enum ProcessStep {
   ANALYSIS = 'analysis',
   REVIEW = 'review',
   EXPORT = 'export',
-}
\ No newline at end of file
+}
+// Original vs enhanced content, as returned by /api/products/:id/diff
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+export interface ListItemDiff {
+  type: 'unchanged' | 'added' | 'removed' | 'changed';
+  original: string | null;
+  enhanced: string | null;
+  segments?: DiffSegment[];
+}
+
+export type FieldDiff =
+  | { field: string; kind: 'text'; changed: boolean; original: string | null; enhanced: string | null; segments: DiffSegment[] }
+  | { field: string; kind: 'list'; changed: boolean; original: string[]; enhanced: string[]; items: ListItemDiff[] };
+
+export interface ProductDiff {
+  product_id: string;
+  changed: boolean;
+  fields: FieldDiff[];
+}
+
+// Stored exports, as listed by /api/export-history (file contents aren't included)
+export interface ExportRecord {
+  id: number;
+  marketplace: string;
+  format: string;
+  product_count: number;
+  timestamp: string;
+  file_name: string | null;
+  content_type: string | null;
+  options: Record<string, any> | null;
+  rerun_of: number | null;
+}
+
+// Two stored exports compared, as returned by /api/export-history/compare
+export interface ExportComparison {
+  before: { id: number; format: string; timestamp: string };
+  after: { id: number; format: string; timestamp: string };
+  products: { added: string[]; removed: string[]; kept: number };
+  // Changed lines only; null when the files were too long to compare
+  lines: ListItemDiff[] | null;
+  summary: { added: number; removed: number; changed: number; unchanged: number } | null;
+}
+
+// A signed download link for a stored export
+export interface ExportShareLink {
+  id: number;
+  export_id: number;
+  label: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  download_count: number;
+  last_downloaded_at: string | null;
+  created_at: string;
+  url: string;
+  active: boolean;
+}
+
+// A column-mapping profile, as listed by /api/export-profiles. Built-in
+// profiles have no id; the format is what /api/export takes.
+export interface ExportProfile {
+  format: string;
+  id?: number;
+  name: string;
+  description?: string | null;
+  columns: ExportProfileColumn[];
+}
+
+// A saved upload column mapping, reused for files with the same headers
+export interface ImportMappingTemplate {
+  id: number;
+  name: string;
+  header_signature: string;
+  headers: string[];
+  mappings: FieldMapping[];
+  created_at: string;
+  last_used_at: string;
+}
+
+// /api/upload's answer when the column mapping still needs confirming
+export interface MappingReview {
+  status: "needs_mapping";
+  // Imports the held file once the mapping is confirmed
+  uploadId: string;
+  fileType: ImportFileType;
+  // Worksheets in a workbook, and the one the columns were read from
+  sheets: string[];
+  sheet: string | null;
+  // Where the records could be read from in a JSON or XML file, and the one used
+  recordPaths: string[];
+  recordPath: string | null;
+  // Row the headers were read from, after any template banner
+  headerRow: number;
+  // The marketplace export the headers look like, if any
+  marketplace: MarketplaceFormat | null;
+  headers: string[];
+  mapping: FieldMapping[];
+  sampleRows: Record<string, string>[];
+  rowCount: number;
+  // The saved template the proposal came from, if any
+  template: ImportMappingTemplate | null;
+}
+
+// A problem with one imported row; rows with errors aren't imported
+export interface ImportRowIssue {
+  // Row 1 is the first row under the headers
+  row: number | null;
+  product_id: string | null;
+  code: ImportIssueCode;
+  field: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+// What checking an upload's rows found
+export interface ImportReport {
+  totalRows: number;
+  validRows: number;
+  rejectedRows: number;
+  warningRows: number;
+  counts: Partial<Record<ImportIssueCode, number>>;
+  // The first problems found
+  issues: ImportRowIssue[];
+}
+
+// A background file import, as /api/imports/:id reports it
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  // needs_review: some rows have errors and nothing is saved until the user decides
+  status: "validating" | "needs_review" | "running" | "completed" | "failed" | "cancelled";
+  percent: number;
+  importedCount: number;
+  encoding: string | null;
+  delimiter: string | null;
+  error: string | null;
+  report: ImportReport | null;
+  result: {
+    // The first products imported; all of them are stored
+    products: Product[];
+    importedCount: number;
+    skippedRows: number;
+    issues: string[];
+    missingIdentifiers: string[];
+    missingIdentifierCount: number;
+    mapping: FieldMapping[];
+    template: ImportMappingTemplate | null;
+    // Set when the file was read as a marketplace export instead of through a mapping
+    marketplace: MarketplaceFormat | null;
+  } | null;
+  started_at: string;
+  finished_at: string | null;
+}
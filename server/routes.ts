@@ -2,124 +2,186 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
-import { parseCSV, generateCSV } from "./services/csv-service";
-import { parseCSVWithAI } from "./services/enhanced-csv-service";
-import { enhanceProductData } from "./services/gemini-service";
-import { enhanceProductDataWithOpenAI } from "./services/openai-service";
-import { enhanceProductDataWithImprovedPrompts } from "./services/enhanced-openai-service";
-import { enhanceProductDataWithAnthropic } from "./services/anthropic-service";
-import { enhanceProductDataWithOpenRouter } from "./services/openrouter-service";
-import { enhanceProductDataWithOptimizedPrompts } from "./services/enhanced-openrouter-service";
+import os from "os";
+import { marketplaceExportOptionsSchema, validateExport } from "./services/csv-service";
+import { createExport, rerunExport, exportFile, exportSettings, compareExports } from "./services/export-history-service";
+import { createShareLink, listShareLinks, redeemShareLink } from "./services/export-share-service";
+import { BUILT_IN_EXPORT_PROFILES, PROFILE_FORMAT_PREFIX, exportProfileSchema, exportProfileColumnSchema, profileCellValue } from "./services/export-profile-service";
+import { ImportFileError, ImportSource, importFileType, readImportPreview } from "./services/file-import-service";
+import {
+  SAMPLE_ROW_COUNT,
+  proposeMapping,
+  findMappingTemplate,
+  templateMapping,
+  saveMappingTemplate,
+  confirmedMappingSchema
+} from "./services/column-mapping-service";
+import {
+  startImport,
+  getImportJob,
+  continueImport,
+  cancelImport,
+  getRejectedRows,
+  subscribeToImportJob,
+  holdUpload,
+  takeHeldUpload,
+  discardUpload,
+  ImportJobEvent
+} from "./services/import-job-service";
+import { resolveFallbackPolicy, enhanceWithFallback, revisionSourceFor } from "./services/provider-fallback-service";
+import {
+  createEnhancementJob,
+  getEnhancementJobDetails,
+  cancelEnhancementJob,
+  resumeEnhancementJob,
+  resumeInterruptedEnhancementJobs,
+  subscribeToEnhancementJob,
+  EnhancementJobEvent
+} from "./services/enhancement-job-service";
+import { revertProduct, isRevisionedField } from "./services/product-revision-service";
+import { buildProductDiff } from "./services/listing-diff-service";
+import { resolveProductIdentifier, validateIdentifier } from "./services/identifier-service";
+import { normalizeAttributes } from "./services/attribute-service";
 import { analyzeProductTypes } from "./services/product-detection-service";
 import { analyzeProductData, detectProductTypes, generateEnhancementPrompt } from "./services/intelligent-csv-analyzer";
-import { Product } from "@shared/schema";
+import { Product, ProductRevision } from "@shared/schema";
+import { FieldMapping, IMPORT_FILE_TYPES, MARKETPLACE_FORMAT_LABELS } from "@shared/import-fields";
+import { rejectedRowsCSV } from "./services/import-report-service";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 
-// Configure multer with increased file size limits (50MB)
+// Uploads are written to temp files and parsed as a stream, so large
+// supplier feeds never have to fit in memory
 const upload = multer({ 
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 50 * 1024 * 1024 } // 50MB file size limit
+  dest: os.tmpdir(),
+  limits: { fileSize: 1024 * 1024 * 1024 } // 1GB file size limit
 });
 
+// Products one diff request may cover; each brings its whole revision history
+const MAX_DIFF_PRODUCTS = 200;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Upload CSV file
   app.post("/api/upload", upload.single("file"), async (req: Request & { file?: any }, res: Response) => {
+    // The upload's temp file, until it is handed to an import or held for review
+    let pendingFile: { filePath: string; fileName: string } | null = null;
     try {
-      if (!req.file) {
+      // The file arrives with the request, or was held while its mapping was reviewed
+      if (req.file) {
+        pendingFile = { filePath: req.file.path, fileName: req.file.originalname };
+      } else if (req.body.uploadId) {
+        pendingFile = takeHeldUpload(String(req.body.uploadId));
+        if (!pendingFile) {
+          return res.status(410).json({ message: "This upload has expired, please choose the file again" });
+        }
+      } else {
         return res.status(400).json({ message: "No file uploaded" });
       }
+      const { filePath, fileName } = pendingFile;
 
       const marketplace = req.body.marketplace || "Amazon";
       console.log(`Processing file upload for marketplace: ${marketplace}`);
       
-      // Parse CSV content
-      const fileContent = req.file.buffer.toString("utf8");
-      
-      // Check what level of AI enhancement to use
-      const useAI = req.body.useAI === 'true';
-      const useIntelligentAnalysis = req.body.useIntelligentAnalysis === 'true';
-      let products;
+      const type = importFileType(fileName);
+      if (!type) {
+        return res.status(400).json({
+          message: "Unsupported file type",
+          error: `Upload one of: ${Object.keys(IMPORT_FILE_TYPES).map(extension => `.${extension}`).join(", ")}`
+        });
+      }
       
-      if (useIntelligentAnalysis) {
-        console.log("Using intelligent CSV analysis with OpenRouter for advanced field detection");
-        try {
-          // First parse the CSV with basic parsing to get initial product array
-          const initialProducts = await parseCSV(fileContent);
-          
-          if (initialProducts.length === 0) {
-            throw new Error("No valid products found in CSV during initial parsing");
-          }
-          
-          // Then use intelligent analysis to improve the parsing
-          const intelligentAnalysis = await analyzeProductData(initialProducts);
-          products = intelligentAnalysis.mappedProducts;
-          
-          console.log("Intelligent CSV analysis completed successfully");
-          console.log(`Detected product type: ${intelligentAnalysis.analysis.productType} (confidence: ${intelligentAnalysis.analysis.confidence.toFixed(2)})`);
-          console.log(`Field mappings applied: ${intelligentAnalysis.fieldMappings.length}`);
-          
-        } catch (aiError) {
-          console.error("Intelligent CSV analysis failed:", aiError);
-          console.log("Falling back to standard AI-enhanced CSV parsing");
-          
-          try {
-            products = await parseCSVWithAI(fileContent);
-          } catch (fallbackError) {
-            console.error("AI-enhanced CSV parsing also failed:", fallbackError);
-            console.log("Falling back to standard CSV parsing");
-            products = await parseCSV(fileContent);
-          }
+      // Encoding and delimiter are detected from the start of the file; the
+      // sheet and record path are the first found unless one was chosen
+      const requested: ImportSource = {
+        type,
+        sheet: typeof req.body.sheet === "string" ? req.body.sheet : null,
+        recordPath: typeof req.body.recordPath === "string" ? req.body.recordPath : null
+      };
+      let preview;
+      try {
+        preview = await readImportPreview(filePath, requested, SAMPLE_ROW_COUNT);
+      } catch (error) {
+        if (error instanceof ImportFileError) {
+          return res.status(400).json({ message: "Could not read the uploaded file", error: error.message });
         }
-      } else if (useAI) {
-        console.log("Using AI-enhanced CSV parsing");
-        try {
-          products = await parseCSVWithAI(fileContent);
-        } catch (aiError) {
-          console.error("AI-enhanced CSV parsing failed:", aiError);
-          console.log("Falling back to standard CSV parsing");
-          products = await parseCSV(fileContent);
-        }
-      } else {
-        console.log("Using standard CSV parsing (no AI enhancement)");
-        products = await parseCSV(fileContent);
+        throw error;
       }
+      const { headers, sampleRows, sheets, sheet, recordPaths, recordPath, headerRow } = preview;
+      const source: ImportSource = { type, sheet, recordPath, headerRow };
       
-      console.log(`Parsed ${products.length} products from CSV`);
-      
-      if (products.length === 0) {
+      if (headers.length === 0) {
         return res.status(400).json({ 
-          message: "No valid products found in CSV", 
-          error: "The uploaded file appears to contain no valid product data"
+          message: "No valid products found in the uploaded file", 
+          error: type === "csv" ? "The uploaded file has no header row" : "No records with fields were found in the uploaded file"
         });
       }
       
-      // Save to database
-      console.log("Saving products to database");
-      const savedProducts = await storage.saveProducts(products);
-      console.log(`Successfully saved ${savedProducts.length} products to database`);
+      // AI only helps propose the column mapping; the user confirms it
+      const useAI = req.body.useAI === 'true' || req.body.useIntelligentAnalysis === 'true';
+      let template = await findMappingTemplate(headers);
+      let mapping: FieldMapping[];
       
-      // Verify we have the product data to return
-      if (!savedProducts || savedProducts.length === 0) {
-        console.error("Database saved products but returned empty array");
-        // Try to recover by querying for the products directly
-        const allProducts = await storage.getProducts();
+      if (req.body.mapping) {
+        let confirmed: unknown;
+        try {
+          confirmed = JSON.parse(req.body.mapping);
+        } catch {
+          return res.status(400).json({ message: "Invalid column mapping", error: "The mapping is not valid JSON" });
+        }
+        const parsed = confirmedMappingSchema.safeParse(confirmed);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid column mapping", error: fromZodError(parsed.error).message });
+        }
+        mapping = parsed.data.filter(field => headers.includes(field.originalField));
         
-        if (allProducts && allProducts.length > 0) {
-          console.log(`Recovered ${allProducts.length} products from database after save issue`);
-          return res.json({
-            message: "File uploaded successfully with recovery",
-            products: allProducts
-          });
-        } else {
-          return res.status(500).json({
-            message: "Upload succeeded but failed to retrieve saved products",
-            error: "Database error: Failed to retrieve saved products"
-          });
+        if (typeof req.body.templateName === "string" && req.body.templateName.trim()) {
+          template = await saveMappingTemplate(req.body.templateName, headers, mapping);
+          console.log(`Saved column mapping template "${template.name}"`);
         }
+      } else if (preview.marketplace && req.body.reviewMapping !== 'true') {
+        // Marketplace exports have a known layout, so they're read without a mapping
+        console.log(`Importing ${fileName} as a ${MARKETPLACE_FORMAT_LABELS[preview.marketplace]}`);
+        source.marketplace = preview.marketplace;
+        mapping = [];
+        template = null;
+      } else if (template && req.body.reviewMapping !== 'true') {
+        console.log(`Applying column mapping template "${template.name}"`);
+        mapping = templateMapping(template, headers);
+        await storage.touchImportMappingTemplate(template.id);
+      } else {
+        // Nothing is imported until the user has confirmed the mapping; the
+        // file is kept so it doesn't have to be uploaded again
+        const { rowCount } = await readImportPreview(filePath, source, 0, true);
+        const proposal = template ? templateMapping(template, headers) : await proposeMapping(headers, sampleRows, useAI);
+        const uploadId = holdUpload(filePath, fileName);
+        pendingFile = null;
+        
+        return res.json({
+          status: "needs_mapping",
+          uploadId,
+          fileType: type,
+          sheets,
+          sheet,
+          recordPaths,
+          recordPath,
+          headerRow,
+          marketplace: preview.marketplace,
+          headers,
+          mapping: proposal,
+          sampleRows,
+          rowCount,
+          template
+        });
       }
       
-      res.json({
-        message: "File uploaded successfully",
-        products: savedProducts
+      // Parsed and saved in the background; progress comes from /api/imports/:id/events
+      const job = startImport(filePath, fileName, source, mapping, template);
+      pendingFile = null;
+      
+      res.status(202).json({
+        status: "importing",
+        importId: job.id,
+        job
       });
     } catch (error) {
       console.error("Error uploading file:", error);
@@ -128,9 +190,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: "Error processing uploaded file", 
         error: errorMessage
       });
+    } finally {
+      // Files not handed to an import or held for review aren't needed any more
+      if (pendingFile) await discardUpload(pendingFile.filePath);
     }
   });
 
+  // An import's progress, and its result once finished
+  app.get("/api/imports/:id", (req, res) => {
+    const job = getImportJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Import not found" });
+    }
+    res.json({ job });
+  });
+
+  // Stream an import's progress as Server-Sent Events
+  app.get("/api/imports/:id/events", (req, res) => {
+    const job = getImportJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Import not found" });
+    }
+
+    const send = (event: { type: string; [key: string]: unknown }) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive"
+    });
+    send({ type: "snapshot", job });
+
+    // The stream ends when the job finishes or stops for the user to review its rows
+    if (job.status !== "validating" && job.status !== "running") {
+      send({ type: job.status === "needs_review" ? "review" : "finished", job });
+      return res.end();
+    }
+
+    const unsubscribe = subscribeToImportJob(job.id, (event: ImportJobEvent) => {
+      send(event);
+      if (event.type === "finished" || event.type === "review") {
+        unsubscribe();
+        res.end();
+      }
+    });
+    req.on("close", unsubscribe);
+  });
+
+  // Delete a file held for mapping review that the user decided not to import
+  app.delete("/api/uploads/:uploadId", async (req, res) => {
+    const held = takeHeldUpload(req.params.uploadId);
+    if (!held) {
+      return res.status(404).json({ message: "No upload is held with this ID" });
+    }
+    await discardUpload(held.filePath);
+    res.json({ message: "Upload discarded" });
+  });
+
+  // Import the valid rows of a file whose check found rows with errors
+  app.post("/api/imports/:id/continue", (req, res) => {
+    const job = continueImport(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "No import is waiting for review with this ID" });
+    }
+    res.status(202).json({ status: "importing", importId: job.id, job });
+  });
+
+  // Drop an import waiting for review; nothing has been saved
+  app.post("/api/imports/:id/cancel", (req, res) => {
+    const job = cancelImport(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "No import is waiting for review with this ID" });
+    }
+    res.json({ message: "Import cancelled", job });
+  });
+
+  // Download the rows an import's check rejected, with the reasons, to fix and upload again
+  app.get("/api/imports/:id/rejected", (req, res) => {
+    const job = getImportJob(req.params.id);
+    const rows = getRejectedRows(req.params.id);
+    if (!job || !rows) {
+      return res.status(404).json({ message: "Import not found" });
+    }
+
+    const baseName = job.fileName.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_") || "import";
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename=${baseName}-rejected-rows.csv`);
+    res.send(rejectedRowsCSV(rows));
+  });
+
   // Enhance product data with OpenAI or Gemini API
   app.post("/api/enhance", async (req, res) => {
     try {
@@ -165,265 +315,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Determine which API to use
-      let enhancedProducts;
-      const openaiKey = process.env.OPENAI_API_KEY;
-      const geminiKey = process.env.GEMINI_API_KEY;
-      const anthropicKey = process.env.ANTHROPIC_API_KEY;
-      const openrouterKey = process.env.OPENROUTER_API_KEY;
-      const aiProvider = req.body.aiProvider || 'openrouter'; // Options: 'openrouter', 'openai', 'gemini', 'anthropic', 'enhanced'
+      // Resolve the provider fallback chain for this request
+      const aiProvider = req.body.aiProvider || 'openrouter'; // Options: 'openrouter', 'openai', 'gemini', 'anthropic', 'enhanced', 'optimized'
       const modelPreference = req.body.modelPreference || 'gpt4o'; // Options: 'gpt4o', 'gemini', 'claude', 'mistral', 'llama'
       
-      // Keep track of errors for better error reporting
-      const errors = [];
-      
-      if (aiProvider === 'optimized') {
-        try {
-          // Try with OpenRouter first if the key is available
-          if (openrouterKey) {
-            console.log(`Using optimized prompts with OpenRouter API for product enhancement`);
-            enhancedProducts = await enhanceProductDataWithOptimizedPrompts(productsToEnhance, marketplace, modelPreference);
-            console.log(`Product enhancement completed successfully with optimized prompts`);
-          } else if (anthropicKey) {
-            // If no OpenRouter key, try with Anthropic
-            console.log(`Using Anthropic Claude API for product enhancement (optimized prompts)`);
-            enhancedProducts = await enhanceProductDataWithAnthropic(productsToEnhance, marketplace);
-            console.log(`Product enhancement completed successfully with Anthropic Claude`);
-          } else if (openaiKey) {
-            // If no Anthropic key, try with OpenAI
-            console.log(`Using Enhanced OpenAI API for product enhancement (optimized prompts)`);
-            enhancedProducts = await enhanceProductDataWithImprovedPrompts(productsToEnhance, marketplace);
-            console.log(`Product enhancement completed successfully with Enhanced OpenAI`);
-          } else if (geminiKey) {
-            // Last resort, try with Gemini
-            console.log(`Using Gemini API for product enhancement`);
-            enhancedProducts = await enhanceProductData(productsToEnhance, marketplace);
-            console.log(`Product enhancement completed successfully with Gemini`);
-          } else {
-            throw new Error("No API keys available for product enhancement with optimized prompts");
-          }
-        } catch (optimizedError: any) {
-          console.error("Optimized prompts error:", optimizedError);
-          errors.push(`Optimized prompts error: ${optimizedError.message || 'Unknown error'}`);
-          
-          // Fall back to any available API, starting with OpenRouter
-          console.log("Falling back to standard API providers...");
-          try {
-            enhancedProducts = await enhanceProductDataWithOpenRouter(productsToEnhance, marketplace, modelPreference);
-            console.log(`Product enhancement completed successfully with standard OpenRouter fallback`);
-          } catch (openrouterError: any) {
-            errors.push(`OpenRouter fallback error: ${openrouterError.message || 'Unknown error'}`);
-            throw openrouterError; // Let the next catch block handle further fallbacks
-          }
-        }
-      } else if (aiProvider === 'openrouter' && openrouterKey) {
-        try {
-          console.log(`Using OpenRouter API with ${modelPreference} model for product enhancement`);
-          enhancedProducts = await enhanceProductDataWithOpenRouter(productsToEnhance, marketplace, modelPreference);
-          console.log(`Product enhancement completed successfully with OpenRouter (${modelPreference} model)`);
-        } catch (openrouterError: any) {
-          console.error("OpenRouter API error:", openrouterError);
-          errors.push(`OpenRouter error: ${openrouterError.message || 'Unknown error'}`);
-          
-          // Detect insufficient credits error
-          const insufficientCredits = 
-            openrouterError.message.includes('Insufficient credits') || 
-            openrouterError.message.includes('402');
-            
-          if (insufficientCredits) {
-            console.log("OpenRouter has insufficient credits. Trying alternative AI providers...");
-          }
-          
-          // Try the best available alternative based on which keys we have
-          if (openaiKey) {
-            console.log("Falling back to OpenAI API (recommended alternative)");
-            try {
-              // Use enhanced OpenAI prompts
-              enhancedProducts = await enhanceProductDataWithImprovedPrompts(productsToEnhance, marketplace);
-              console.log("Product enhancement completed successfully with OpenAI fallback");
-            } catch (fallbackError: any) {
-              errors.push(`OpenAI fallback error: ${fallbackError.message || 'Unknown error'}`);
-              
-              // If OpenAI fails, try any other available API
-              if (anthropicKey) {
-                console.log("Trying Anthropic API as second fallback");
-                try {
-                  enhancedProducts = await enhanceProductDataWithAnthropic(productsToEnhance, marketplace);
-                  console.log("Product enhancement completed successfully with Anthropic fallback");
-                } catch (secondFallbackError: any) {
-                  errors.push(`Anthropic fallback error: ${secondFallbackError.message || 'Unknown error'}`);
-                }
-              } else if (geminiKey) {
-                console.log("Trying Gemini API as second fallback");
-                try {
-                  enhancedProducts = await enhanceProductData(productsToEnhance, marketplace);
-                  console.log("Product enhancement completed successfully with Gemini fallback");
-                } catch (secondFallbackError: any) {
-                  errors.push(`Gemini fallback error: ${secondFallbackError.message || 'Unknown error'}`);
-                }
-              }
-              
-              // If we still don't have enhanced products, rethrow
-              if (!enhancedProducts) {
-                throw new Error(`All fallback strategies failed. OpenRouter: ${openrouterError.message}, OpenAI: ${fallbackError.message}`);
-              }
-            }
-          } else if (anthropicKey) {
-            console.log("Falling back to Anthropic API");
-            try {
-              enhancedProducts = await enhanceProductDataWithAnthropic(productsToEnhance, marketplace);
-              console.log("Product enhancement completed successfully with Anthropic fallback");
-            } catch (fallbackError: any) {
-              errors.push(`Anthropic fallback error: ${fallbackError.message || 'Unknown error'}`);
-              
-              // If Anthropic fails, try Gemini if available
-              if (geminiKey) {
-                console.log("Trying Gemini API as second fallback");
-                try {
-                  enhancedProducts = await enhanceProductData(productsToEnhance, marketplace);
-                  console.log("Product enhancement completed successfully with Gemini fallback");
-                } catch (secondFallbackError: any) {
-                  errors.push(`Gemini fallback error: ${secondFallbackError.message || 'Unknown error'}`);
-                  throw new Error(`All fallback strategies failed. OpenRouter: ${openrouterError.message}, Anthropic: ${fallbackError.message}, Gemini: ${secondFallbackError.message}`);
-                }
-              } else {
-                throw new Error(`Both OpenRouter and Anthropic failed. OpenRouter: ${openrouterError.message}, Anthropic: ${fallbackError.message}`);
-              }
-            }
-          } else if (geminiKey) {
-            console.log("Falling back to Gemini API");
-            try {
-              enhancedProducts = await enhanceProductData(productsToEnhance, marketplace);
-              console.log("Product enhancement completed successfully with Gemini fallback");
-            } catch (fallbackError: any) {
-              errors.push(`Gemini fallback error: ${fallbackError.message || 'Unknown error'}`);
-              throw new Error(`Both OpenRouter and Gemini failed. OpenRouter: ${openrouterError.message}, Gemini: ${fallbackError.message}`);
-            }
-          } else {
-            throw new Error(`OpenRouter enhancement failed and no alternative API keys are available. Please add funds to your OpenRouter account or provide another API key (OpenAI, Anthropic, or Gemini).`);
-          }
-        }
-      } else if (aiProvider === 'anthropic' && anthropicKey) {
-        try {
-          console.log("Using Anthropic Claude API for product enhancement");
-          enhancedProducts = await enhanceProductDataWithAnthropic(productsToEnhance, marketplace);
-          console.log("Product enhancement completed successfully with Anthropic Claude");
-        } catch (anthropicError: any) {
-          console.error("Anthropic API error:", anthropicError);
-          errors.push(`Anthropic error: ${anthropicError.message || 'Unknown error'}`);
-          
-          // Try OpenAI as fallback if available
-          if (openaiKey) {
-            console.log("Falling back to OpenAI for product enhancement");
-            try {
-              enhancedProducts = await enhanceProductDataWithOpenAI(productsToEnhance, marketplace);
-              console.log("Product enhancement completed successfully with OpenAI fallback");
-            } catch (openaiError: any) {
-              errors.push(`OpenAI error: ${openaiError.message || 'Unknown error'}`);
-              throw new Error(`Both Anthropic and OpenAI enhancement failed. Anthropic: ${anthropicError.message}, OpenAI: ${openaiError.message}`);
-            }
-          } else {
-            throw new Error(`Anthropic enhancement failed and no OpenAI API key available. Error: ${anthropicError.message}`);
-          }
-        }
-      } else if (aiProvider === 'enhanced' && openaiKey) {
-        try {
-          console.log("Using Enhanced OpenAI API for product enhancement");
-          enhancedProducts = await enhanceProductDataWithImprovedPrompts(productsToEnhance, marketplace);
-          console.log("Product enhancement completed successfully with Enhanced OpenAI");
-        } catch (openaiError: any) {
-          console.error("Enhanced OpenAI API error:", openaiError);
-          errors.push(`Enhanced OpenAI error: ${openaiError.message || 'Unknown error'}`);
-          
-          // Try regular OpenAI as fallback
-          console.log("Falling back to standard OpenAI");
-          try {
-            enhancedProducts = await enhanceProductDataWithOpenAI(productsToEnhance, marketplace);
-            console.log("Product enhancement completed successfully with standard OpenAI fallback");
-          } catch (fallbackError: any) {
-            errors.push(`OpenAI fallback error: ${fallbackError.message || 'Unknown error'}`);
-            throw new Error(`Both Enhanced and standard OpenAI enhancement failed: ${openaiError.message}, fallback: ${fallbackError.message}`);
-          }
-        }
-      } else if (aiProvider === 'gemini' && geminiKey) {
-        try {
-          console.log("Using Gemini API for product enhancement");
-          enhancedProducts = await enhanceProductData(productsToEnhance, marketplace);
-          console.log("Product enhancement completed successfully with Gemini");
-        } catch (geminiError: any) {
-          console.error("Gemini API error:", geminiError);
-          errors.push(`Gemini error: ${geminiError.message || 'Unknown error'}`);
-
-          // Try OpenAI as fallback if available
-          if (openaiKey) {
-            console.log("Falling back to OpenAI for product enhancement");
-            try {
-              enhancedProducts = await enhanceProductDataWithOpenAI(productsToEnhance, marketplace);
-              console.log("Product enhancement completed successfully with OpenAI fallback");
-            } catch (openaiError: any) {
-              errors.push(`OpenAI error: ${openaiError.message || 'Unknown error'}`);
-              throw new Error(`Both Gemini and OpenAI enhancement failed. Gemini: ${geminiError.message}, OpenAI: ${openaiError.message}`);
-            }
-          } else {
-            throw new Error(`Gemini enhancement failed and no OpenAI API key available. Error: ${geminiError.message}`);
-          }
-        }
-      } 
-      // Default to OpenAI if available
-      else if (openaiKey) {
-        try {
-          console.log("Using OpenAI API for product enhancement");
-          enhancedProducts = await enhanceProductDataWithOpenAI(productsToEnhance, marketplace);
-          console.log("Product enhancement completed successfully with OpenAI");
-        } catch (openaiError: any) {
-          console.error("OpenAI API error:", openaiError);
-          errors.push(`OpenAI error: ${openaiError.message || 'Unknown error'}`);
-          
-          // Try Gemini as fallback
-          if (geminiKey) {
-            try {
-              console.log("Falling back to Gemini API");
-              enhancedProducts = await enhanceProductData(productsToEnhance, marketplace);
-              console.log("Product enhancement completed successfully with Gemini fallback");
-            } catch (geminiError: any) {
-              console.error("Gemini API error:", geminiError);
-              errors.push(`Gemini error: ${geminiError.message || 'Unknown error'}`);
-              
-              // Both APIs failed, send specific error
-              throw new Error(`Both OpenAI and Gemini enhancement failed. OpenAI: ${openaiError.message}, Gemini: ${geminiError.message}`);
-            }
-          } else {
-            // No Gemini key available as fallback
-            throw new Error(`OpenAI enhancement failed and no Gemini API key available. Error: ${openaiError.message}`);
-          }
-        }
-      } else if (geminiKey) {
-        // No OpenAI key, try Gemini
-        try {
-          console.log("Using Gemini API for product enhancement");
-          enhancedProducts = await enhanceProductData(productsToEnhance, marketplace);
-          console.log("Product enhancement completed successfully with Gemini");
-        } catch (geminiError: any) {
-          console.error("Gemini API error:", geminiError);
-          errors.push(`Gemini error: ${geminiError.message || 'Unknown error'}`);
-          throw new Error(`Gemini enhancement failed: ${geminiError.message}`);
-        }
-      } else {
-        // No API keys available
-        throw new Error("No API keys available for product enhancement. Please set one of the following API keys in environment variables: OPENROUTER_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY, or ANTHROPIC_API_KEY.");
+      let policy;
+      try {
+        policy = resolveFallbackPolicy(aiProvider, req.body.fallbackPolicy, modelPreference);
+      } catch (policyError) {
+        return res.status(400).json({
+          message: "Invalid fallback policy",
+          error: policyError instanceof ZodError ? fromZodError(policyError).message : String(policyError)
+        });
       }
       
-      // If we don't have enhanced products at this point, something went wrong
-      if (!enhancedProducts) {
-        throw new Error(`Enhancement process failed to generate results. Errors: ${errors.join(', ')}`);
+      console.log(`Enhancing with provider chain: ${policy.steps.map(step => step.provider).join(' → ')}`);
+      const { products: enhancedProducts, servedBy } = await enhanceWithFallback(productsToEnhance, marketplace, policy);
+      
+      // If no product was served by any provider, report why
+      if (servedBy.every(record => record.provider === null)) {
+        const errors = servedBy.flatMap(record => record.attempts)
+          .filter(attempt => attempt.error)
+          .map(attempt => attempt.error!.message);
+        throw new Error(`All providers in the fallback chain failed. Errors: ${Array.from(new Set(errors)).join(', ')}`);
       }
       
-      // Save enhanced products
-      await storage.updateProducts(enhancedProducts);
+      // Save the products a provider enhanced, recording which one changed each;
+      // products every provider failed on are left as they were
+      const served = servedBy.flatMap((record, i) => record.provider ? [i] : []);
+      await storage.updateProducts(
+        served.map(i => enhancedProducts[i]),
+        served.map(i => revisionSourceFor(servedBy[i]))
+      );
       
       res.json({
         message: "Products enhanced successfully",
-        enhancedProducts
+        enhancedProducts,
+        servedBy
       });
     } catch (error) {
       console.error("Error enhancing products:", error);
@@ -435,32 +363,258 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a background enhancement job; poll GET /api/jobs/:id for progress
+  app.post("/api/jobs", async (req, res) => {
+    try {
+      const { products, productIds, marketplace } = req.body;
+      let jobProductIds: string[] = [];
+
+      if (productIds && Array.isArray(productIds) && productIds.length > 0) {
+        const storedIds = new Set((await storage.getProductsByIds(productIds)).map(product => product.product_id));
+        jobProductIds = productIds.filter((id: string) => storedIds.has(id));
+      }
+      // Products sent directly must be stored so the worker can load them later.
+      // Stored ones only take the fields that differ, recorded as manual changes,
+      // so fields the browser left out or sent empty keep their stored values.
+      else if (products && Array.isArray(products) && products.length > 0) {
+        const sent = products.filter((product: any) => typeof product?.product_id === "string" && product.product_id);
+        const storedIds = new Set((await storage.getProductsByIds(sent.map((product: any) => product.product_id))).map(product => product.product_id));
+        await storage.saveProductBatch(sent.filter((product: any) => !storedIds.has(product.product_id)), { source: "manual" });
+        await storage.saveProductChanges(sent.filter((product: any) => storedIds.has(product.product_id)), { source: "manual" });
+        jobProductIds = Array.from(new Set<string>(sent.map((product: any) => product.product_id)));
+      }
+
+      if (jobProductIds.length === 0) {
+        return res.status(400).json({
+          message: "No valid products provided",
+          error: "Could not find products to enhance. Check that product IDs are valid or products array is not empty."
+        });
+      }
+
+      const aiProvider = req.body.aiProvider || 'openrouter';
+      const modelPreference = req.body.modelPreference || 'gpt4o';
+
+      let policy;
+      try {
+        policy = resolveFallbackPolicy(aiProvider, req.body.fallbackPolicy, modelPreference);
+      } catch (policyError) {
+        return res.status(400).json({
+          message: "Invalid fallback policy",
+          error: policyError instanceof ZodError ? fromZodError(policyError).message : String(policyError)
+        });
+      }
+
+      const job = await createEnhancementJob(jobProductIds, marketplace, aiProvider, policy);
+
+      res.status(202).json({
+        message: "Enhancement job created",
+        job
+      });
+    } catch (error) {
+      console.error("Error creating enhancement job:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error creating enhancement job",
+        error: errorMessage
+      });
+    }
+  });
+
+  // Get job status with per-product progress
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const details = await getEnhancementJobDetails(Number(req.params.id));
+
+      if (!details) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      // Include the enhanced products once the job has finished
+      const finished = ['completed', 'failed', 'cancelled'].includes(details.job.status);
+      const products = finished
+        ? await storage.getProductsByIds(details.items.map(item => item.product_id))
+        : undefined;
+
+      res.json({ ...details, products });
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error fetching job",
+        error: errorMessage
+      });
+    }
+  });
+
+  // Stream job events (started, field, completed, error, progress, finished)
+  // as Server-Sent Events until the job finishes
+  app.get("/api/jobs/:id/events", async (req, res) => {
+    const jobId = Number(req.params.id);
+    let unsubscribe = () => {};
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    let closed = false;
+
+    const send = (event: { type: string; [key: string]: unknown }) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      if (heartbeat) clearInterval(heartbeat);
+      res.end();
+    };
+
+    try {
+      // Subscribe before reading the snapshot so no event falls in between
+      const buffered: EnhancementJobEvent[] = [];
+      let listener = (event: EnhancementJobEvent) => { buffered.push(event); };
+      unsubscribe = subscribeToEnhancementJob(jobId, event => listener(event));
+
+      const details = await getEnhancementJobDetails(jobId);
+      if (!details) {
+        unsubscribe();
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive"
+      });
+      send({ type: "snapshot", ...details });
+
+      if (['completed', 'failed', 'cancelled'].includes(details.job.status)) {
+        send({ type: "finished", job: details.job });
+        return close();
+      }
+
+      listener = (event) => {
+        send(event);
+        if (event.type === "finished") close();
+      };
+      buffered.forEach(listener);
+
+      // Keep proxies from timing out the idle connection between products
+      heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+      req.on("close", close);
+    } catch (error) {
+      console.error("Error streaming job events:", error);
+      unsubscribe();
+      if (heartbeat) clearInterval(heartbeat);
+      if (!res.headersSent) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        return res.status(500).json({
+          message: "Error streaming job events",
+          error: errorMessage
+        });
+      }
+      res.end();
+    }
+  });
+
+  // Cancel a queued or running job
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    try {
+      const job = await cancelEnhancementJob(Number(req.params.id));
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.json({ message: "Job cancellation requested", job });
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error cancelling job",
+        error: errorMessage
+      });
+    }
+  });
+
+  // Resume a cancelled or failed job
+  app.post("/api/jobs/:id/resume", async (req, res) => {
+    try {
+      const job = await resumeEnhancementJob(Number(req.params.id));
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.status(202).json({ message: "Job resumed", job });
+    } catch (error) {
+      console.error("Error resuming job:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(409).json({
+        message: "Error resuming job",
+        error: errorMessage
+      });
+    }
+  });
+
+  // Check products against a marketplace's upload rules before exporting
+  app.post("/api/export/validate", async (req, res) => {
+    try {
+      const { products, format } = req.body;
+      
+      if (!products || !Array.isArray(products)) {
+        return res.status(400).json({ message: "No valid products provided" });
+      }
+      const parsedOptions = marketplaceExportOptionsSchema.safeParse(req.body);
+      if (!parsedOptions.success) {
+        return res.status(400).json({ message: "Invalid export options", error: fromZodError(parsedOptions.error).message });
+      }
+      
+      const issues = await validateExport(products, format, parsedOptions.data);
+      res.json({
+        valid: !issues.some(issue => issue.severity === "error"),
+        issues
+      });
+    } catch (error) {
+      console.error("Error validating export:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error validating export", 
+        error: errorMessage
+      });
+    }
+  });
+
   // Export enhanced products
   app.post("/api/export", async (req, res) => {
     try {
-      const { products, format, includeHeaders, encodeUtf8, marketplace } = req.body;
+      const { products, format, includeHeaders, encodeUtf8, marketplace, skipValidation } = req.body;
       
       if (!products || !Array.isArray(products)) {
         return res.status(400).json({ message: "No valid products provided" });
       }
+      const parsedOptions = marketplaceExportOptionsSchema.safeParse(req.body);
+      if (!parsedOptions.success) {
+        return res.status(400).json({ message: "Invalid export options", error: fromZodError(parsedOptions.error).message });
+      }
+      const options = parsedOptions.data;
+      
+      // Don't hand over a file the marketplace would reject, unless asked to
+      if (!skipValidation) {
+        const errors = (await validateExport(products, format, options)).filter(issue => issue.severity === "error");
+        if (errors.length > 0) {
+          return res.status(422).json({ message: "Products failed marketplace validation", issues: errors });
+        }
+      }
       
-      // Generate CSV
-      const csv = generateCSV(products, format, includeHeaders, encodeUtf8);
+      // Generate the file and keep a copy, so it can be downloaded again or re-run later
+      const { record, content } = await createExport(products, {
+        marketplace, format, includeHeaders, encodeUtf8, options
+      });
       
       // Set response headers
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader("Content-Disposition", `attachment; filename=${marketplace.toLowerCase().replace(/\s+/g, '_')}_products.csv`);
+      res.setHeader("Content-Type", record.content_type!);
+      res.setHeader("Content-Disposition", `attachment; filename=${record.file_name}`);
+      res.setHeader("X-Export-Id", String(record.id));
       
-      // Send CSV content
-      res.send(csv);
-      
-      // Save export history
-      await storage.saveExportHistory({
-        marketplace,
-        format,
-        product_count: products.length,
-        timestamp: new Date()
-      });
+      res.send(content);
     } catch (error) {
       console.error("Error exporting products:", error);
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -471,6 +625,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List the built-in export profiles and the user's own
+  app.get("/api/export-profiles", async (req, res) => {
+    try {
+      const builtIn = Object.entries(BUILT_IN_EXPORT_PROFILES).map(([format, profile]) => ({ format, ...profile }));
+      const profiles = (await storage.getExportProfiles()).map(profile => ({
+        format: `${PROFILE_FORMAT_PREFIX}${profile.id}`,
+        ...profile
+      }));
+      res.json({ builtIn, profiles });
+    } catch (error) {
+      console.error("Error fetching export profiles:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error fetching export profiles", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Try out profile columns on a few products before saving
+  app.post("/api/export-profiles/preview", async (req, res) => {
+    try {
+      const parsed = exportProfileColumnSchema.array().safeParse(req.body?.columns);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid profile columns", error: fromZodError(parsed.error).message });
+      }
+      
+      const products: Product[] = Array.isArray(req.body?.products) ? req.body.products.slice(0, 5) : [];
+      res.json({
+        headers: parsed.data.map(column => column.header),
+        rows: products.map(product => parsed.data.map(column => profileCellValue(product, column)))
+      });
+    } catch (error) {
+      console.error("Error previewing export profile:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error previewing export profile", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Create an export profile
+  app.post("/api/export-profiles", async (req, res) => {
+    try {
+      const parsed = exportProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid export profile", error: fromZodError(parsed.error).message });
+      }
+      
+      const profile = await storage.createExportProfile(parsed.data);
+      res.status(201).json({ profile: { format: `${PROFILE_FORMAT_PREFIX}${profile.id}`, ...profile } });
+    } catch (error) {
+      // Profile names are unique
+      if ((error as { code?: string })?.code === "23505") {
+        return res.status(409).json({ message: "An export profile with this name already exists" });
+      }
+      console.error("Error creating export profile:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error creating export profile", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Replace an export profile's name, description and columns
+  app.put("/api/export-profiles/:id", async (req, res) => {
+    try {
+      const profileId = parseInt(req.params.id);
+      if (isNaN(profileId)) {
+        return res.status(400).json({ message: "Invalid profile ID" });
+      }
+      
+      const parsed = exportProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid export profile", error: fromZodError(parsed.error).message });
+      }
+      
+      const profile = await storage.updateExportProfile(profileId, parsed.data);
+      if (!profile) {
+        return res.status(404).json({ message: "Export profile not found" });
+      }
+      
+      res.json({ profile: { format: `${PROFILE_FORMAT_PREFIX}${profile.id}`, ...profile } });
+    } catch (error) {
+      if ((error as { code?: string })?.code === "23505") {
+        return res.status(409).json({ message: "An export profile with this name already exists" });
+      }
+      console.error("Error updating export profile:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error updating export profile", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Delete an export profile; past exports keep their stored files
+  app.delete("/api/export-profiles/:id", async (req, res) => {
+    try {
+      const profileId = parseInt(req.params.id);
+      if (isNaN(profileId)) {
+        return res.status(400).json({ message: "Invalid profile ID" });
+      }
+      
+      const deleted = await storage.deleteExportProfile(profileId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Export profile not found" });
+      }
+      
+      res.json({ message: "Export profile deleted" });
+    } catch (error) {
+      console.error("Error deleting export profile:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error deleting export profile", 
+        error: errorMessage
+      });
+    }
+  });
+
+  // Saved upload column mappings, most recently used first
+  app.get("/api/import-mapping-templates", async (req, res) => {
+    try {
+      const templates = await storage.getImportMappingTemplates();
+      res.json({ templates });
+    } catch (error) {
+      console.error("Error fetching import mapping templates:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error fetching import mapping templates", 
+        error: errorMessage
+      });
+    }
+  });
+
+  app.delete("/api/import-mapping-templates/:id", async (req, res) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      if (isNaN(templateId)) {
+        return res.status(400).json({ message: "Invalid template ID" });
+      }
+      
+      const deleted = await storage.deleteImportMappingTemplate(templateId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Import mapping template not found" });
+      }
+      
+      res.json({ message: "Import mapping template deleted" });
+    } catch (error) {
+      console.error("Error deleting import mapping template:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error deleting import mapping template", 
+        error: errorMessage
+      });
+    }
+  });
+
   // Get product list
   app.get("/api/products", async (req, res) => {
     try {
@@ -486,6 +800,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Save manual edits to a product
+  app.patch("/api/products/:id", async (req, res) => {
+    try {
+      const changes = Object.fromEntries(
+        Object.entries(req.body || {}).filter(([field]) => isRevisionedField(field))
+      );
+
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ message: "No editable fields provided" });
+      }
+
+      // Identifiers are stored normalised; reject ones that fail their checksum
+      for (const [field, type] of [["asin", "ASIN"], ["gtin", "GTIN"]] as const) {
+        if (!changes[field]) continue;
+        const check = validateIdentifier(changes[field], type);
+        if (!check.valid) {
+          return res.status(400).json({ message: `Invalid ${field}`, error: check.reason });
+        }
+        changes[field] = check.normalized;
+      }
+
+      if (changes.attributes !== undefined) {
+        if (changes.attributes !== null && typeof changes.attributes !== "object") {
+          return res.status(400).json({ message: "Invalid attributes", error: "attributes must be an object" });
+        }
+        changes.attributes = changes.attributes && normalizeAttributes(changes.attributes as Record<string, unknown>);
+      }
+
+      const product = await storage.updateProductFields(req.params.id, changes, { source: "manual" });
+
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.json({ message: "Product updated", product });
+    } catch (error) {
+      console.error("Error updating product:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error updating product",
+        error: errorMessage
+      });
+    }
+  });
+
+  // List a product's field-level change history, newest first
+  app.get("/api/products/:id/revisions", async (req, res) => {
+    try {
+      const field = typeof req.query.field === "string" ? req.query.field : undefined;
+      const revisions = await storage.getProductRevisions(req.params.id, field);
+      res.json({ revisions });
+    } catch (error) {
+      console.error("Error fetching product revisions:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error fetching product revisions",
+        error: errorMessage
+      });
+    }
+  });
+
+  // The parent and variants of the family a product belongs to
+  app.get("/api/products/:id/variants", async (req, res) => {
+    try {
+      const family = await storage.getVariantFamily(req.params.id);
+
+      if (!family) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.json(family);
+    } catch (error) {
+      console.error("Error fetching product variants:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error fetching product variants",
+        error: errorMessage
+      });
+    }
+  });
+
+  // Diff a product's original supplier content against its current content
+  app.get("/api/products/:id/diff", async (req, res) => {
+    try {
+      const product = await storage.getProductById(req.params.id);
+
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const revisions = await storage.getProductRevisions(product.product_id);
+      res.json({ diff: buildProductDiff(product, revisions) });
+    } catch (error) {
+      console.error("Error building product diff:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error building product diff",
+        error: errorMessage
+      });
+    }
+  });
+
+  // Revert a product, or one of its fields, to its state as of a revision
+  app.post("/api/products/:id/revert", async (req, res) => {
+    try {
+      const { revisionId, field } = req.body;
+
+      if (!Number.isInteger(revisionId)) {
+        return res.status(400).json({ message: "revisionId must be an integer" });
+      }
+      if (field !== undefined && !isRevisionedField(field)) {
+        return res.status(400).json({ message: `Field "${field}" cannot be reverted` });
+      }
+
+      const product = await revertProduct(req.params.id, revisionId, field);
+
+      if (!product) {
+        return res.status(404).json({ message: "Product or revision not found" });
+      }
+
+      res.json({ message: "Product reverted", product });
+    } catch (error) {
+      console.error("Error reverting product:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error reverting product",
+        error: errorMessage
+      });
+    }
+  });
+
+  // Diff original vs current content for ?productIds=a,b
+  app.get("/api/product-diffs", async (req, res) => {
+    try {
+      const productIds = typeof req.query.productIds === "string"
+        ? Array.from(new Set(req.query.productIds.split(",").map(id => id.trim()).filter(Boolean)))
+        : [];
+      const changedOnly = req.query.changedOnly === "true";
+
+      if (productIds.length === 0) {
+        return res.status(400).json({ message: "No product IDs provided", error: "Pass the products to compare as ?productIds=a,b" });
+      }
+      if (productIds.length > MAX_DIFF_PRODUCTS) {
+        return res.status(400).json({
+          message: "Too many product IDs",
+          error: `Compare at most ${MAX_DIFF_PRODUCTS} products per request`
+        });
+      }
+
+      const products = await storage.getProductsByIds(productIds);
+      const revisions = await storage.getRevisionsForProducts(products.map(product => product.product_id));
+
+      const revisionsByProduct = new Map<string, ProductRevision[]>();
+      for (const revision of revisions) {
+        const list = revisionsByProduct.get(revision.product_id) || [];
+        list.push(revision);
+        revisionsByProduct.set(revision.product_id, list);
+      }
+
+      const allDiffs = products.map(product => buildProductDiff(product, revisionsByProduct.get(product.product_id) || []));
+      const diffs = changedOnly ? allDiffs.filter(diff => diff.changed) : allDiffs;
+
+      res.json({
+        diffs,
+        summary: {
+          products: allDiffs.length,
+          changedProducts: allDiffs.filter(diff => diff.changed).length,
+          changedFields: allDiffs.reduce((count, diff) => count + diff.fields.filter(field => field.changed).length, 0)
+        }
+      });
+    } catch (error) {
+      console.error("Error building product diffs:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({
+        message: "Error building product diffs",
+        error: errorMessage
+      });
+    }
+  });
+
   // Get export history
   app.get("/api/export-history", async (req, res) => {
     try {
@@ -500,6 +994,217 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
   });
+
+  // Compare two stored exports
+  app.get("/api/export-history/compare", async (req, res) => {
+    try {
+      const beforeId = parseInt(req.query.before as string);
+      const afterId = parseInt(req.query.after as string);
+      if (isNaN(beforeId) || isNaN(afterId)) {
+        return res.status(400).json({ message: "Two export IDs are required" });
+      }
+      
+      const comparison = await compareExports(beforeId, afterId);
+      if (!comparison) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing exports:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error comparing exports", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Download a stored export again
+  app.get("/api/export-history/:id/download", async (req, res) => {
+    try {
+      const exportId = parseInt(req.params.id);
+      if (isNaN(exportId)) {
+        return res.status(400).json({ message: "Invalid export ID" });
+      }
+      
+      const record = await storage.getExport(exportId);
+      if (!record) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      
+      const file = exportFile(record);
+      if (!file) {
+        return res.status(410).json({ message: "This export was made before export files were stored" });
+      }
+      
+      res.setHeader("Content-Type", record.content_type || "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename=${record.file_name || `export_${record.id}.csv`}`);
+      res.send(file);
+    } catch (error) {
+      console.error("Error downloading export:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error downloading export", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Create a signed, expiring download link for a stored export
+  app.post("/api/export-history/:id/share-links", async (req, res) => {
+    try {
+      const exportId = parseInt(req.params.id);
+      if (isNaN(exportId)) {
+        return res.status(400).json({ message: "Invalid export ID" });
+      }
+      
+      const { expiresInHours, label } = req.body || {};
+      const link = await createShareLink(exportId, expiresInHours, label);
+      if (!link) {
+        return res.status(404).json({ message: "Export not found or has no stored file" });
+      }
+      
+      res.status(201).json({ link: { ...link, url: `${req.protocol}://${req.get("host")}${link.path}` } });
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error creating share link", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // List an export's share links with their download counts
+  app.get("/api/export-history/:id/share-links", async (req, res) => {
+    try {
+      const exportId = parseInt(req.params.id);
+      if (isNaN(exportId)) {
+        return res.status(400).json({ message: "Invalid export ID" });
+      }
+      
+      const baseUrl = `${req.protocol}://${req.get("host")}`;
+      const links = await listShareLinks(exportId);
+      res.json({ links: links.map(link => ({ ...link, url: `${baseUrl}${link.path}` })) });
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error fetching share links", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Revoke a share link; it stays listed with its download count
+  app.post("/api/export-share-links/:linkId/revoke", async (req, res) => {
+    try {
+      const linkId = parseInt(req.params.linkId);
+      if (isNaN(linkId)) {
+        return res.status(400).json({ message: "Invalid link ID" });
+      }
+      
+      const link = await storage.revokeShareLink(linkId);
+      if (!link) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      
+      res.json({ message: "Share link revoked", link });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error revoking share link", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Download through a share link; needs no app access, only a valid signature
+  app.get("/api/shared-exports/:linkId", async (req, res) => {
+    try {
+      const linkId = parseInt(req.params.linkId);
+      if (isNaN(linkId)) {
+        return res.status(404).json({ message: "Link not found" });
+      }
+      
+      const result = await redeemShareLink(
+        linkId,
+        String(req.query.expires ?? ""),
+        String(req.query.signature ?? "")
+      );
+      
+      switch (result.status) {
+        case "ok": {
+          const { record } = result;
+          res.setHeader("Content-Type", record.content_type || "text/csv");
+          res.setHeader("Content-Disposition", `attachment; filename=${record.file_name || `export_${record.id}.csv`}`);
+          res.setHeader("Cache-Control", "no-store");
+          return res.send(exportFile(record));
+        }
+        case "expired":
+          return res.status(410).json({ message: "This link has expired" });
+        case "revoked":
+          return res.status(410).json({ message: "This link has been revoked" });
+        case "unavailable":
+          return res.status(410).json({ message: "This export is no longer available" });
+        default:
+          // Unknown and tampered links look the same
+          return res.status(404).json({ message: "Link not found" });
+      }
+    } catch (error) {
+      console.error("Error downloading shared export:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error downloading shared export", 
+        error: errorMessage
+      });
+    }
+  });
+  
+  // Regenerate a stored export from the current data of the same products
+  app.post("/api/export-history/:id/rerun", async (req, res) => {
+    try {
+      const exportId = parseInt(req.params.id);
+      if (isNaN(exportId)) {
+        return res.status(400).json({ message: "Invalid export ID" });
+      }
+      
+      const original = await storage.getExport(exportId);
+      if (!original) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      
+      // Current data may no longer pass the marketplace's rules
+      if (!req.body?.skipValidation) {
+        const productIds = await storage.getExportProductIds(exportId);
+        const products = await storage.getProductsByIds(productIds);
+        const { format, options } = exportSettings(original);
+        const errors = (await validateExport(products, format, options)).filter(issue => issue.severity === "error");
+        if (errors.length > 0) {
+          return res.status(422).json({ message: "Products failed marketplace validation", issues: errors });
+        }
+      }
+      
+      const rerun = await rerunExport(exportId);
+      if (!rerun) {
+        return res.status(409).json({ message: "None of the exported products are in the catalog any more" });
+      }
+      
+      res.setHeader("Content-Type", rerun.record.content_type!);
+      res.setHeader("Content-Disposition", `attachment; filename=${rerun.record.file_name}`);
+      res.setHeader("X-Export-Id", String(rerun.record.id));
+      res.send(rerun.content);
+    } catch (error) {
+      console.error("Error re-running export:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ 
+        message: "Error re-running export", 
+        error: errorMessage
+      });
+    }
+  });
   
   // Analyze products to detect product types and suggest improvements
   app.post("/api/analyze-products", async (req, res) => {
@@ -572,7 +1277,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             marketplaceCompatibility: aiAnalysis.analysis.marketplaceCompatibility || {},
             enhancementPriorities: aiAnalysis.analysis.enhancementPriorities || [],
             enhancementPrompt: enhancementPrompt,
-            productTypeInfo: productTypeInfo
+            productTypeInfo: productTypeInfo,
+            issues: aiAnalysis.issues
           };
           
           console.log("Intelligent analysis completed successfully");
@@ -610,6 +1316,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pick up enhancement jobs interrupted by the last shutdown
+  resumeInterruptedEnhancementJobs().catch(error => {
+    console.error("Error resuming enhancement jobs:", error);
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,361 @@
+/**
+ * Amazon Export Service
+ *
+ * Builds Amazon inventory-loader flat files (category templates). The file is
+ * tab-delimited with Amazon's three-row header block: the template
+ * type/version row, the human-readable labels and the attribute names. Variant
+ * families are written as a parent row followed by its children. Columns a
+ * product kept from an Amazon flat file it was imported from, such as its
+ * product type and quantity, are written back unchanged.
+ */
+
+import { Product } from '@shared/schema';
+import { groupVariantFamilies, variationAttributes, attributeValues, sourceListingFields } from './attribute-service';
+import { resolveProductIdentifier } from './identifier-service';
+
+export type AmazonTemplateName = 'apparel' | 'home' | 'electronics';
+export type AmazonOperation = 'Update' | 'PartialUpdate' | 'Delete';
+
+export const AMAZON_TEMPLATE_NAMES: [AmazonTemplateName, ...AmazonTemplateName[]] = ['apparel', 'home', 'electronics'];
+export const AMAZON_OPERATIONS: [AmazonOperation, ...AmazonOperation[]] = ['Update', 'PartialUpdate', 'Delete'];
+
+type RowRole = 'parent' | 'child' | 'standalone';
+
+interface RowContext {
+  product: Product;
+  role: RowRole;
+  parentSku: string | null;
+  theme: string[];
+  attributes: Record<string, string>;
+  // Columns kept from the Amazon flat file the product was imported from
+  listing: Record<string, string>;
+  operation: AmazonOperation;
+}
+
+interface AmazonColumn {
+  name: string;
+  label: string;
+  // Required on buyable rows; parents only need the relationship columns
+  required?: boolean;
+  value: (context: RowContext) => string;
+}
+
+interface AmazonTemplate {
+  name: AmazonTemplateName;
+  version: string;
+  feedProductType: string;
+  // Category words that select this template when none is given
+  keywords: RegExp;
+  columns: AmazonColumn[];
+}
+
+export interface AmazonExportOptions {
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  // Chosen from the products' categories when not given
+  template?: AmazonTemplateName;
+  operation?: AmazonOperation;
+}
+
+export interface AmazonRowIssue {
+  product_id: string;
+  missing: string[];
+}
+
+const MAX_OTHER_IMAGES = 8;
+const MAX_BULLET_POINTS = 5;
+
+// Amazon's names for the themes we build from attribute names
+const VARIATION_THEMES: Record<string, string> = {
+  'size': 'Size',
+  'color': 'Color',
+  'size-color': 'SizeColor',
+  'color-size': 'SizeColor',
+  'material': 'Material',
+  'style': 'StyleName',
+  'pattern': 'PatternName',
+  'size-material': 'SizeMaterial',
+  'color-material': 'ColorMaterial'
+};
+
+const priceOf = ({ product, role }: RowContext) =>
+  role === 'parent' || !product.price ? '' : Number(product.price).toFixed(2);
+
+const identifierOf = ({ product, role }: RowContext) =>
+  role === 'parent' ? null : resolveProductIdentifier(product);
+
+const COMMON_COLUMNS: AmazonColumn[] = [
+  { name: 'item_sku', label: 'Seller SKU', required: true, value: ({ product }) => product.product_id },
+  { name: 'brand_name', label: 'Brand Name', required: true, value: ({ product }) => product.brand || '' },
+  { name: 'item_name', label: 'Product Name', required: true, value: ({ product }) => product.title || '' },
+  // Left blank when there is no valid identifier, so Amazon flags it instead of matching the wrong product
+  { name: 'external_product_id', label: 'Product ID', required: true, value: context => identifierOf(context)?.value || '' },
+  { name: 'external_product_id_type', label: 'Product ID Type', required: true, value: context => identifierOf(context)?.type || '' },
+  { name: 'manufacturer', label: 'Manufacturer', value: ({ product }) => product.brand || '' },
+  // Browse nodes are numeric IDs; a free-text category goes in item_type_keyword instead
+  { name: 'recommended_browse_nodes', label: 'Recommended Browse Nodes', value: ({ product, listing }) => /^\d+$/.test(product.category || '') ? product.category! : listing.recommended_browse_nodes || '' },
+  { name: 'item_type_keyword', label: 'Item Type Keyword', value: ({ product }) => /^\d+$/.test(product.category || '') ? '' : toKeyword(product.category) },
+  { name: 'standard_price', label: 'Standard Price', required: true, value: priceOf },
+  { name: 'list_price', label: 'Manufacturer Suggested Retail Price', value: ({ product, role }) => role === 'parent' || !product.attributes?.list_price ? '' : product.attributes.list_price.toFixed(2) },
+  { name: 'quantity', label: 'Quantity', value: ({ listing }) => listing.quantity || '' },
+  { name: 'condition_type', label: 'Item Condition', value: ({ product, role, listing }) => role === 'parent' ? '' : listing.condition_type || conditionType(product.attributes?.condition) },
+  { name: 'main_image_url', label: 'Main Image URL', required: true, value: ({ product }) => product.images?.[0] || '' },
+  ...Array.from({ length: MAX_OTHER_IMAGES }, (_, i): AmazonColumn => ({
+    name: `other_image_url${i + 1}`,
+    label: `Other Image URL${i + 1}`,
+    value: ({ product }) => product.images?.[i + 1] || ''
+  })),
+  { name: 'parent_child', label: 'Parentage', value: ({ role }) => role === 'standalone' ? '' : role },
+  { name: 'parent_sku', label: 'Parent SKU', value: ({ role, parentSku }) => role === 'child' ? parentSku || '' : '' },
+  { name: 'relationship_type', label: 'Relationship Type', value: ({ role }) => role === 'child' ? 'Variation' : '' },
+  { name: 'variation_theme', label: 'Variation Theme', value: ({ role, theme }) => role === 'standalone' ? '' : amazonVariationTheme(theme) },
+  { name: 'update_delete', label: 'Update Delete', value: ({ operation }) => operation },
+  { name: 'product_description', label: 'Product Description', value: ({ product }) => product.description || '' },
+  ...Array.from({ length: MAX_BULLET_POINTS }, (_, i): AmazonColumn => ({
+    name: `bullet_point${i + 1}`,
+    label: `Key Product Features`,
+    value: ({ product }) => product.bullet_points?.[i] || ''
+  })),
+  { name: 'part_number', label: 'Manufacturer Part Number', value: ({ attributes }) => attributes.mpn || '' },
+  { name: 'item_weight', label: 'Item Weight', value: ({ product }) => product.attributes?.weight ? String(product.attributes.weight.value) : '' },
+  { name: 'item_weight_unit_of_measure', label: 'Item Weight Unit Of Measure', value: ({ product }) => weightUnit(product.attributes?.weight?.unit) }
+];
+
+const colorColumn: AmazonColumn = { name: 'color_name', label: 'Color', required: true, value: ({ attributes }) => attributes.color || '' };
+const sizeColumn: AmazonColumn = { name: 'size_name', label: 'Size', required: true, value: ({ attributes }) => attributes.size || '' };
+const materialColumn: AmazonColumn = { name: 'material_type', label: 'Material Type', value: ({ attributes }) => attributes.material || '' };
+
+const TEMPLATES: Record<AmazonTemplateName, AmazonTemplate> = {
+  apparel: {
+    name: 'apparel',
+    version: '2023.0302',
+    feedProductType: 'shirt',
+    keywords: /\b(apparel|clothing|shirts?|t-shirts?|tees?|dress(es)?|pants|jeans|jackets?|coats?|sweaters?|hoodies?|socks|shoes|skirts?|fashion|activewear|outerwear)\b/i,
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'department_name', label: 'Department', required: true, value: ({ attributes, listing }) => departmentName(attributes.gender, attributes.age_group) || listing.department_name || '' },
+      sizeColumn,
+      colorColumn,
+      { ...materialColumn, name: 'fabric_type', label: 'Fabric Type', required: true },
+      { name: 'pattern_name', label: 'Pattern', value: ({ attributes }) => attributes.pattern || '' },
+      { name: 'style_name', label: 'Style', value: ({ attributes }) => attributes.style || '' }
+    ]
+  },
+  home: {
+    name: 'home',
+    version: '2023.0215',
+    feedProductType: 'home',
+    keywords: /\b(home|kitchen|decor|furniture|bedding|bath|garden|lighting|lamps?|rugs?|storage|cookware|mugs?|tables?)\b/i,
+    columns: [
+      ...COMMON_COLUMNS,
+      colorColumn,
+      { ...sizeColumn, required: false },
+      { ...materialColumn, required: true },
+      { name: 'pattern_name', label: 'Pattern', value: ({ attributes }) => attributes.pattern || '' },
+      { name: 'item_length', label: 'Item Length', value: ({ product }) => dimension(product, 'length') },
+      { name: 'item_width', label: 'Item Width', value: ({ product }) => dimension(product, 'width') },
+      { name: 'item_height', label: 'Item Height', value: ({ product }) => dimension(product, 'height') },
+      { name: 'item_dimensions_unit_of_measure', label: 'Item Dimensions Unit Of Measure', value: ({ product }) => lengthUnit(product.attributes?.dimensions?.unit) }
+    ]
+  },
+  electronics: {
+    name: 'electronics',
+    version: '2023.0127',
+    feedProductType: 'consumerelectronics',
+    keywords: /\b(electronics?|computers?|laptops?|phones?|smartphones?|tablets?|cameras?|audio|headphones|earbuds|speakers?|chargers?|cables?|tvs?|gaming|wireless)\b/i,
+    columns: [
+      ...COMMON_COLUMNS,
+      { name: 'model', label: 'Model Number', required: true, value: ({ attributes }) => attributes.model_number || attributes.mpn || '' },
+      { ...colorColumn, required: false },
+      { ...sizeColumn, required: false },
+      { name: 'batteries_required', label: 'Are Batteries Required', value: ({ attributes }) => attributes.batteries_required || '' }
+    ]
+  }
+};
+
+/**
+ * Generate an Amazon inventory-loader flat file for one category template
+ * @param products Products to export
+ * @param options Template, operation and encoding options
+ * @returns Tab-delimited flat file content
+ */
+export function generateAmazonFlatFile(products: Product[], options: AmazonExportOptions = {}): string {
+  const { includeHeaders = true, encodeUtf8 = true, operation = 'Update' } = options;
+  const template = TEMPLATES[options.template ?? detectAmazonTemplate(products)];
+  const columns: AmazonColumn[] = [
+    { name: 'feed_product_type', label: 'Product Type', required: true, value: ({ listing }) => listing.feed_product_type || template.feedProductType },
+    ...template.columns
+  ];
+
+  const lines: string[][] = [];
+  if (includeHeaders) {
+    lines.push([
+      `TemplateType=fptcustom`,
+      `Version=${template.version}`,
+      `TemplateSignature=${Buffer.from(template.feedProductType.toUpperCase()).toString('base64')}`,
+      'The top 3 rows are for Amazon use only. Do not modify or delete the top 3 rows.'
+    ]);
+    lines.push(columns.map(column => column.label));
+    lines.push(columns.map(column => column.name));
+  }
+
+  for (const context of buildRowContexts(products, operation)) {
+    lines.push(columns.map(column => column.value(context)));
+  }
+
+  const content = lines.map(line => line.map(toCell).join('\t')).join('\r\n');
+  return encodeUtf8 ? '\ufeff' + content : content;
+}
+
+/**
+ * List the required template columns each row would leave empty. Only a full
+ * Update needs them; Delete and PartialUpdate rows just need the SKU.
+ * @param products Products to check
+ * @param templateName Template to check against; detected from categories if omitted
+ * @param operation Operation the file will carry
+ */
+export function validateAmazonFlatFile(
+  products: Product[],
+  templateName?: AmazonTemplateName,
+  operation: AmazonOperation = 'Update'
+): AmazonRowIssue[] {
+  if (operation !== 'Update') return [];
+  const template = TEMPLATES[templateName ?? detectAmazonTemplate(products)];
+
+  return buildRowContexts(products, operation)
+    .filter(context => context.role !== 'parent')
+    .map(context => ({
+      product_id: context.product.product_id,
+      missing: template.columns
+        .filter(column => column.required && !column.value(context))
+        .map(column => column.name)
+    }))
+    .filter(issue => issue.missing.length > 0);
+}
+
+/**
+ * Pick the template whose category keywords match the most products
+ */
+export function detectAmazonTemplate(products: Product[]): AmazonTemplateName {
+  const counts = new Map<AmazonTemplateName, number>();
+  for (const product of products) {
+    const text = `${product.category || ''} ${product.title || ''}`;
+    const match = Object.values(TEMPLATES).find(template => template.keywords.test(text));
+    if (match) counts.set(match.name, (counts.get(match.name) || 0) + 1);
+  }
+
+  let best: AmazonTemplateName = 'home';
+  let bestCount = 0;
+  counts.forEach((count, name) => {
+    if (count > bestCount) {
+      best = name;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Parents first, then their children; a family with no parent product gets one under its group ID
+function buildRowContexts(products: Product[], operation: AmazonOperation): RowContext[] {
+  const contexts: RowContext[] = [];
+
+  for (const family of groupVariantFamilies(products)) {
+    if (family.variants.length === 0) {
+      contexts.push(rowContext(family.parent!, 'standalone', null, [], operation));
+      continue;
+    }
+
+    const first = family.variants[0];
+    const theme = variationAttributes(family.parent?.variation_theme || first.variation_theme);
+    // Parents are not buyable, so a generated one keeps only what the family shares
+    const parent: Product = family.parent ?? {
+      ...first,
+      product_id: family.key,
+      price: null,
+      gtin: null,
+      asin: null,
+      parent_id: null,
+      attributes: first.attributes && Object.fromEntries(
+        Object.entries(first.attributes).filter(([key]) => !theme.includes(key))
+      )
+    };
+
+    contexts.push(rowContext(parent, 'parent', null, theme, operation));
+    for (const variant of family.variants) {
+      contexts.push(rowContext(variant, 'child', family.key, theme, operation));
+    }
+  }
+
+  return contexts;
+}
+
+function rowContext(product: Product, role: RowRole, parentSku: string | null, theme: string[], operation: AmazonOperation): RowContext {
+  return {
+    product,
+    role,
+    parentSku,
+    theme,
+    attributes: attributeValues(product.attributes),
+    listing: sourceListingFields(product, 'amazon'),
+    operation
+  };
+}
+
+function amazonVariationTheme(theme: string[]): string {
+  const key = theme.join('-');
+  return VARIATION_THEMES[key] || theme.map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+}
+
+function conditionType(condition: string | undefined): string {
+  switch (condition) {
+    case 'refurbished': return 'Refurbished';
+    case 'used_like_new': return 'UsedLikeNew';
+    case 'used_good': return 'UsedGood';
+    case 'used_acceptable': return 'UsedAcceptable';
+    default: return 'New';
+  }
+}
+
+function departmentName(gender: string | undefined, ageGroup: string | undefined): string {
+  const isChild = /kid|child|youth|baby|infant|toddler/i.test(ageGroup || '');
+  const value = (gender || '').toLowerCase();
+  if (/^(women|woman|female|ladies|f)$/.test(value)) return isChild ? 'girls' : 'womens';
+  if (/^(men|man|male|m)$/.test(value)) return isChild ? 'boys' : 'mens';
+  if (/unisex/.test(value)) return isChild ? 'unisex-child' : 'unisex-adult';
+  return '';
+}
+
+function dimension(product: Product, side: 'length' | 'width' | 'height'): string {
+  const value = product.attributes?.dimensions?.[side];
+  return value === undefined ? '' : String(value);
+}
+
+function weightUnit(unit: string | undefined): string {
+  switch (unit) {
+    case 'lb': return 'LB';
+    case 'oz': return 'OZ';
+    case 'kg': return 'KG';
+    case 'g': return 'GR';
+    default: return '';
+  }
+}
+
+function lengthUnit(unit: string | undefined): string {
+  switch (unit) {
+    case 'in': return 'IN';
+    case 'ft': return 'FT';
+    case 'cm': return 'CM';
+    case 'mm': return 'MM';
+    case 'm': return 'M';
+    default: return '';
+  }
+}
+
+function toKeyword(category: string | null): string {
+  return (category || '').toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Tabs and line breaks would break the row structure
+function toCell(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ').trim();
+}
@@ -0,0 +1,499 @@
+/**
+ * Product Attribute Service
+ *
+ * Turns supplier columns such as size, colour, material, weight and
+ * dimensions into typed product attributes, and reads the parent/child
+ * columns that group variants into families. Exporters and prompts use the
+ * flattened string form.
+ */
+
+import { Measurement, Product, ProductAttributes, ProductCondition, ProductDimensions, SourceListing, SourceMarketplace } from '@shared/schema';
+
+type AttributeKey = Exclude<keyof ProductAttributes, 'custom' | 'source_listing'>;
+
+// Column names (normalised to lowercase with underscores) for each attribute
+const ATTRIBUTE_COLUMNS: Record<string, AttributeKey | 'length' | 'width' | 'height' | 'weight_unit' | 'dimension_unit'> = {
+  size: 'size',
+  sizes: 'size',
+  size_name: 'size',
+  apparel_size: 'size',
+  shoe_size: 'size',
+  color: 'color',
+  colour: 'color',
+  color_name: 'color',
+  colour_name: 'color',
+  material: 'material',
+  materials: 'material',
+  material_type: 'material',
+  fabric: 'material',
+  fabric_type: 'material',
+  composition: 'material',
+  pattern: 'pattern',
+  pattern_name: 'pattern',
+  style: 'style',
+  style_name: 'style',
+  gender: 'gender',
+  target_gender: 'gender',
+  age_group: 'age_group',
+  age_range: 'age_group',
+  mpn: 'mpn',
+  manufacturer_part_number: 'mpn',
+  model: 'model_number',
+  model_number: 'model_number',
+  model_no: 'model_number',
+  condition: 'condition',
+  item_condition: 'condition',
+  condition_type: 'condition',
+  list_price: 'list_price',
+  msrp: 'list_price',
+  rrp: 'list_price',
+  compare_at_price: 'list_price',
+  weight: 'weight',
+  item_weight: 'weight',
+  product_weight: 'weight',
+  shipping_weight: 'weight',
+  weight_unit: 'weight_unit',
+  item_weight_unit: 'weight_unit',
+  dimensions: 'dimensions',
+  item_dimensions: 'dimensions',
+  product_dimensions: 'dimensions',
+  dimension_unit: 'dimension_unit',
+  dimensions_unit: 'dimension_unit',
+  length: 'length',
+  depth: 'length',
+  item_length: 'length',
+  width: 'width',
+  item_width: 'width',
+  height: 'height',
+  item_height: 'height'
+};
+
+const PARENT_COLUMNS = ['parent_id', 'parent_sku', 'parent_product_id', 'parent_item_id', 'item_group_id', 'group_id'];
+const VARIATION_THEME_COLUMNS = ['variation_theme', 'variant_theme', 'variation_type'];
+
+// Attributes that commonly distinguish the variants of a family, in theme order
+const VARIATION_ATTRIBUTES: AttributeKey[] = ['size', 'color', 'material', 'style', 'pattern'];
+
+const WEIGHT_UNITS: Record<string, string> = {
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  kg: 'kg', kgs: 'kg', kilogram: 'kg', kilograms: 'kg',
+  g: 'g', gram: 'g', grams: 'g'
+};
+
+const LENGTH_UNITS: Record<string, string> = {
+  in: 'in', inch: 'in', inches: 'in', '"': 'in',
+  ft: 'ft', foot: 'ft', feet: 'ft',
+  mm: 'mm', cm: 'cm', m: 'm'
+};
+
+/**
+ * Build typed attributes from loosely named values, e.g. a CSV row or a
+ * manual edit. Unknown keys are ignored unless they are already under `custom`;
+ * the marketplace listing a product was imported from is kept as it is.
+ * @param raw Attribute values keyed by column or attribute name
+ * @returns Normalised attributes, or null if none were recognised
+ */
+export function normalizeAttributes(raw: Record<string, unknown>): ProductAttributes | null {
+  const attributes: ProductAttributes = {};
+  const values: Record<string, string> = {};
+  const structured: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(raw)) {
+    if (value === undefined || value === null || value === '') continue;
+
+    const { key, unit } = splitUnitSuffix(normalizeKey(column));
+    const attribute = ATTRIBUTE_COLUMNS[key];
+    if (!attribute) continue;
+
+    if (typeof value === 'object') {
+      structured[attribute] = value;
+    } else if (values[attribute] === undefined) {
+      values[attribute] = String(value).trim();
+      if (unit) values[`${attribute}_unit`] = unit;
+    }
+  }
+
+  for (const key of ['size', 'color', 'material', 'pattern', 'style', 'gender', 'age_group', 'mpn', 'model_number'] as const) {
+    if (values[key]) attributes[key] = values[key];
+  }
+
+  // Values that can't be typed are kept verbatim rather than dropped
+  const unparsed: Record<string, string> = {};
+
+  const listPrice = parseFloat((values.list_price ?? '').replace(/[^0-9.]/g, ''));
+  if (!Number.isNaN(listPrice) && listPrice > 0) attributes.list_price = listPrice;
+  else if (values.list_price) unparsed.list_price = values.list_price;
+
+  const condition = normalizeCondition(values.condition);
+  if (condition) attributes.condition = condition;
+  else if (values.condition) unparsed.condition = values.condition;
+
+  const weight = isMeasurement(structured.weight)
+    ? structured.weight
+    : parseWeight(values.weight, values.weight_unit);
+  if (weight) attributes.weight = weight;
+  else if (values.weight) unparsed.weight = values.weight;
+
+  const dimensions = isDimensions(structured.dimensions)
+    ? structured.dimensions
+    : parseDimensions(values.dimensions, values.dimension_unit ?? values.dimensions_unit)
+      ?? dimensionsFromParts(values);
+  if (dimensions) attributes.dimensions = dimensions;
+  else if (values.dimensions) unparsed.dimensions = values.dimensions;
+
+  const custom = raw.custom && typeof raw.custom === 'object' && !Array.isArray(raw.custom)
+    ? Object.entries(raw.custom as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([name, value]) => [name, String(value)])
+    : [];
+  if (custom.length > 0 || Object.keys(unparsed).length > 0) {
+    attributes.custom = { ...Object.fromEntries(custom), ...unparsed };
+  }
+  if (isSourceListing(raw.source_listing)) {
+    attributes.source_listing = raw.source_listing;
+  }
+
+  return Object.keys(attributes).length > 0 ? attributes : null;
+}
+
+/**
+ * Read typed attributes from a CSV row. Besides the known attribute columns,
+ * "Attribute: Name", "attr_name" and eBay "C:Name" columns are kept as custom attributes.
+ * @param row A row from the CSV data
+ * @returns Attributes, or null if the row has none
+ */
+export function extractAttributes(row: Record<string, unknown>): ProductAttributes | null {
+  const custom: Record<string, string> = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    const name = customAttributeName(column);
+    if (name && value !== undefined && value !== null && String(value).trim() !== '') {
+      custom[name] = String(value).trim();
+    }
+  }
+
+  return normalizeAttributes({ ...row, custom });
+}
+
+/**
+ * The custom attribute a column holds, judged by its header
+ * @param column CSV column header
+ * @returns The attribute name, or null if it isn't a custom attribute column
+ */
+export function customAttributeName(column: string): string | null {
+  const match = column.match(/^\s*(?:attribute|attr)[\s_:-]+(.+)$/i) || column.match(/^\s*C:(.+)$/);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * The attribute or variant field a column holds, judged by its header, e.g.
+ * "Colour" is color and "Length (cm)" is length
+ * @param column CSV column header
+ * @returns The field, or undefined if the column isn't read as an attribute
+ */
+export function attributeColumnField(column: string): string | undefined {
+  const key = normalizeKey(column);
+  if (PARENT_COLUMNS.includes(key)) return 'parent_id';
+  if (VARIATION_THEME_COLUMNS.includes(key)) return 'variation_theme';
+  return ATTRIBUTE_COLUMNS[splitUnitSuffix(key).key];
+}
+
+/**
+ * Read a row's variant family: the parent it belongs to and the attributes its
+ * siblings vary by. A child without an explicit theme gets one from the
+ * variation attributes it carries.
+ * @param row A row from the CSV data
+ * @param attributes The row's parsed attributes
+ */
+export function extractVariantInfo(
+  row: Record<string, unknown>,
+  attributes: ProductAttributes | null
+): { parent_id: string | null; variation_theme: string | null } {
+  const byKey = new Map(Object.entries(row).map(([column, value]) => [normalizeKey(column), value]));
+  const read = (columns: string[]) => {
+    for (const column of columns) {
+      const value = byKey.get(column);
+      if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+    }
+    return null;
+  };
+
+  const parentId = read(PARENT_COLUMNS);
+  const theme = read(VARIATION_THEME_COLUMNS);
+
+  return {
+    parent_id: parentId,
+    variation_theme: theme
+      ? normalizeVariationTheme(theme)
+      : parentId && attributes
+        ? inferVariationTheme(attributes)
+        : null
+  };
+}
+
+/**
+ * Apply a CSV row's attributes and variant family to a product
+ * @param product Product being built from the row
+ * @param row The CSV row
+ */
+export function applyRowAttributes(
+  product: { product_id: string; attributes: ProductAttributes | null; parent_id: string | null; variation_theme: string | null },
+  row: Record<string, unknown>
+): void {
+  product.attributes = extractAttributes(row);
+
+  const variant = extractVariantInfo(row, product.attributes);
+  // A row listed as its own parent is the family's parent
+  product.parent_id = variant.parent_id && variant.parent_id !== product.product_id ? variant.parent_id : null;
+  product.variation_theme = variant.variation_theme;
+}
+
+/**
+ * Attribute values as display strings, e.g. weight "2.5 lb" and dimensions "10 x 5 x 3 in"
+ * @param attributes Typed attributes
+ * @returns Flat map of attribute name to value, custom attributes included
+ */
+export function attributeValues(attributes: ProductAttributes | null | undefined): Record<string, string> {
+  if (!attributes) return {};
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined || value === null || key === 'custom' || key === 'source_listing') continue;
+    if (key === 'weight') values.weight = formatMeasurement(value as Measurement);
+    else if (key === 'dimensions') values.dimensions = formatDimensions(value as ProductDimensions);
+    else values[key] = String(value);
+  }
+
+  return { ...attributes.custom, ...values };
+}
+
+export interface VariantFamily<T> {
+  // The parent's product_id, or the shared group ID when there is no parent product
+  key: string;
+  parent: T | null;
+  variants: T[];
+}
+
+/**
+ * Group products into variant families, in the order they first appear. A
+ * product with no parent and no variants is a family of its own.
+ * @param products Products to group
+ */
+export function groupVariantFamilies<T extends { product_id: string; parent_id?: string | null }>(
+  products: T[]
+): VariantFamily<T>[] {
+  const families = new Map<string, VariantFamily<T>>();
+
+  for (const product of products) {
+    const key = product.parent_id || product.product_id;
+    let family = families.get(key);
+    if (!family) {
+      family = { key, parent: null, variants: [] };
+      families.set(key, family);
+    }
+
+    if (product.parent_id) {
+      family.variants.push(product);
+    } else {
+      family.parent = product;
+    }
+  }
+
+  return Array.from(families.values());
+}
+
+/**
+ * A variant as a standalone item: anything it leaves empty comes from its parent
+ * @param variant Variant product
+ * @param parent The family's parent product
+ */
+export function inheritFromParent(variant: Product, parent: Product): Product {
+  return {
+    ...variant,
+    title: variant.title || parent.title,
+    description: variant.description || parent.description,
+    brand: variant.brand || parent.brand,
+    category: variant.category || parent.category,
+    bullet_points: variant.bullet_points?.length ? variant.bullet_points : parent.bullet_points,
+    images: variant.images?.length ? variant.images : parent.images,
+    attributes: { ...parent.attributes, ...variant.attributes }
+  };
+}
+
+// A product as feeds list it: variants are items of their own, parents aren't
+export interface SellableItem {
+  product: Product;
+  attributes: Record<string, string>;
+  // The family key, for variants
+  itemGroupId: string | null;
+}
+
+/**
+ * Standalone products and every variant, with variants filled in from their parent
+ * @param products Products to expand
+ */
+export function expandVariantFamilies(products: Product[]): SellableItem[] {
+  return groupVariantFamilies(products).flatMap((family): SellableItem[] => {
+    if (family.variants.length === 0) {
+      const product = family.parent!;
+      return [{ product, attributes: attributeValues(product.attributes), itemGroupId: null }];
+    }
+
+    return family.variants.map(variant => {
+      const product = family.parent ? inheritFromParent(variant, family.parent) : variant;
+      return { product, attributes: attributeValues(product.attributes), itemGroupId: family.key };
+    });
+  });
+}
+
+const LINK_ATTRIBUTES = ['link', 'url', 'product_url', 'product_link'];
+
+/**
+ * The item's product page: its own link attribute, else the template with {id} filled in
+ * @param item Item to link to
+ * @param linkTemplate Product page URL containing {id}
+ */
+export function productPageLink({ product, attributes }: SellableItem, linkTemplate?: string): string {
+  const own = LINK_ATTRIBUTES.map(key => attributes[key]).find(Boolean);
+  if (own) return own;
+  return linkTemplate ? linkTemplate.replace('{id}', encodeURIComponent(product.product_id)) : '';
+}
+
+/**
+ * The columns a product kept from the marketplace export it was imported
+ * from, so an export back to that marketplace can write them again
+ * @param product Product to read
+ * @param marketplace The marketplace being exported to
+ * @returns Values by the marketplace's column name; empty for other marketplaces
+ */
+export function sourceListingFields(product: Product, marketplace: SourceMarketplace): Record<string, string> {
+  const listing = product.attributes?.source_listing;
+  return listing?.marketplace === marketplace ? listing.fields : {};
+}
+
+/**
+ * The attributes a variation theme is made of, e.g. "size-color" -> ["size", "color"]
+ */
+export function variationAttributes(theme: string | null | undefined): string[] {
+  if (!theme) return [];
+  return theme.split('-').filter(Boolean);
+}
+
+export function formatMeasurement(measurement: Measurement): string {
+  return `${measurement.value} ${measurement.unit}`;
+}
+
+export function formatDimensions(dimensions: ProductDimensions): string {
+  const parts = [dimensions.length, dimensions.width, dimensions.height].filter(part => part !== undefined);
+  return `${parts.join(' x ')} ${dimensions.unit}`.trim();
+}
+
+/**
+ * Parse a weight such as "2.5 lbs", "500g" or "1,2 kg"
+ * @param value Weight as supplied
+ * @param unit Unit from a separate column or the header, if any
+ */
+export function parseWeight(value: unknown, unit?: string): Measurement | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  const match = String(value).trim().match(/^(\d+(?:[.,]\d+)?)\s*([a-zA-Z]*)\.?$/);
+  if (!match) return null;
+
+  const weightUnit = WEIGHT_UNITS[(match[2] || unit || '').toLowerCase()];
+  if (!weightUnit) return null;
+
+  return { value: Number(match[1].replace(',', '.')), unit: weightUnit };
+}
+
+/**
+ * Parse dimensions such as "10 x 5 x 3 in", "10x5x3cm" or "L 10 W 5 H 3 inches"
+ * @param value Dimensions as supplied
+ * @param unit Unit from a separate column or the header, if any
+ */
+export function parseDimensions(value: unknown, unit?: string): ProductDimensions | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  const text = String(value).trim().toLowerCase();
+  const numbers = text.match(/\d+(?:\.\d+)?/g);
+  if (!numbers || numbers.length < 2 || numbers.length > 3) return null;
+
+  const unitMatch = text.match(/(inches|inch|in|feet|foot|ft|mm|cm|m|")\s*$/);
+  const dimensionUnit = LENGTH_UNITS[unitMatch?.[1] || (unit || '').toLowerCase()];
+  if (!dimensionUnit) return null;
+
+  const [length, width, height] = numbers.map(Number);
+  return height === undefined
+    ? { length, width, unit: dimensionUnit }
+    : { length, width, height, unit: dimensionUnit };
+}
+
+/**
+ * Map supplier condition wording to a condition code
+ */
+export function normalizeCondition(value: unknown): ProductCondition | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const text = value.toLowerCase().replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (/refurb|renewed|remanufactured/.test(text)) return 'refurbished';
+  if (/like new|open box|mint/.test(text)) return 'used_like_new';
+  if (/acceptable|fair|poor/.test(text)) return 'used_acceptable';
+  if (/used|good|pre owned|second hand/.test(text)) return 'used_good';
+  if (/new/.test(text)) return 'new';
+  return undefined;
+}
+
+function normalizeVariationTheme(theme: string): string {
+  return theme
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .map(part => (part === 'colour' || part === 'colorname' ? 'color' : part === 'sizename' ? 'size' : part))
+    .join('-');
+}
+
+function inferVariationTheme(attributes: ProductAttributes): string | null {
+  const present = VARIATION_ATTRIBUTES.filter(key => attributes[key] !== undefined);
+  return present.length > 0 ? present.join('-') : null;
+}
+
+function dimensionsFromParts(values: Record<string, string>): ProductDimensions | null {
+  const parts = (['length', 'width', 'height'] as const)
+    .map(part => [part, parseFloat(values[part])] as const)
+    .filter(([, value]) => !Number.isNaN(value));
+  if (parts.length === 0) return null;
+
+  const unit = LENGTH_UNITS[
+    (values.dimension_unit || values.length_unit || values.width_unit || values.height_unit || '').toLowerCase()
+  ];
+  if (!unit) return null;
+
+  return { ...Object.fromEntries(parts), unit };
+}
+
+function normalizeKey(column: string): string {
+  return column.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+// "weight_lbs" or "length_cm" (from headers like "Length (cm)") carry their unit
+function splitUnitSuffix(key: string): { key: string; unit?: string } {
+  const match = key.match(/^(.+?)_(lbs?|oz|kg|g|in|inches|cm|mm|m|ft)$/);
+  if (match && ATTRIBUTE_COLUMNS[match[1]]) {
+    return { key: match[1], unit: match[2] };
+  }
+  return { key };
+}
+
+function isMeasurement(value: unknown): value is Measurement {
+  return !!value && typeof value === 'object' && typeof (value as Measurement).value === 'number'
+    && typeof (value as Measurement).unit === 'string';
+}
+
+function isSourceListing(value: unknown): value is SourceListing {
+  return !!value && typeof value === 'object' && typeof (value as SourceListing).marketplace === 'string'
+    && !!(value as SourceListing).fields && typeof (value as SourceListing).fields === 'object';
+}
+
+function isDimensions(value: unknown): value is ProductDimensions {
+  return !!value && typeof value === 'object' && typeof (value as ProductDimensions).unit === 'string';
+}
@@ -0,0 +1,173 @@
+/**
+ * Column Mapping Service
+ *
+ * Proposes which product field each column of an uploaded file holds, with a
+ * confidence per column, so the user can confirm or correct it before anything
+ * is imported. Confirmed mappings are saved as named templates and applied
+ * again when a file with the same headers comes back.
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { ImportMappingTemplate } from '@shared/schema';
+import { CUSTOM_ATTRIBUTE_FIELD, FieldMapping, IGNORE_FIELD, IMPORT_FIELDS, isImportField } from '@shared/import-fields';
+import { storage } from '../storage';
+import { attributeColumnField, customAttributeName } from './attribute-service';
+import { identifierColumnType } from './identifier-service';
+import { suggestFieldMappings, suggestFieldMappingsWithAI } from './intelligent-csv-analyzer';
+
+export const SAMPLE_ROW_COUNT = 5;
+
+// Headers that hold the product's own ID rather than a marketplace identifier
+const PRODUCT_ID_COLUMNS = [
+  'product_id', 'productid', 'id', 'sku', 'item_id', 'itemid', 'item_sku', 'seller_sku',
+  'variant_sku', 'product_code', 'productcode', 'part_number', 'partnumber'
+];
+
+// Fields that several columns can fill, e.g. bullet_point1 to bullet_point5
+const LIST_FIELDS = ['bullet_points', 'images'];
+
+export const fieldMappingSchema = z.object({
+  originalField: z.string(),
+  standardField: z.string().refine(isImportField, field => ({ message: `Unknown import field "${field}"` })),
+  confidence: z.number().min(0).max(1).default(1)
+});
+
+export const confirmedMappingSchema = z.array(fieldMappingSchema);
+
+/**
+ * Identify a file layout by its headers, ignoring order, case and punctuation
+ * @param headers Column headers
+ */
+export function headerSignature(headers: string[]): string {
+  const normalized = Array.from(new Set(headers.map(normalizeHeader))).sort();
+  return createHash('sha256').update(normalized.join('\n')).digest('hex');
+}
+
+/**
+ * Propose a field for every column. Headers the importer already recognises
+ * score highest; the AI, when asked, can raise the confidence of the rest.
+ * Columns with no match map to IGNORE_FIELD with confidence 0.
+ * @param headers Column headers
+ * @param sampleRows First rows of the file, shown to the AI
+ * @param useAI Whether to ask the AI as well
+ */
+export async function proposeMapping(
+  headers: string[],
+  sampleRows: Record<string, string>[],
+  useAI: boolean = false
+): Promise<FieldMapping[]> {
+  const proposals = headers.map(headerMapping);
+  if (!useAI) return proposals;
+
+  const suggestions = await suggestFieldMappingsWithAI(headers, sampleRows, IMPORT_FIELDS.map(field => field.id));
+  return proposals.map(proposal => {
+    const suggestion = suggestions.find(candidate => candidate.originalField === proposal.originalField);
+    return suggestion && suggestion.confidence > proposal.confidence
+      ? { ...suggestion, confidence: Math.min(suggestion.confidence, 1) }
+      : proposal;
+  });
+}
+
+/**
+ * The saved template for files with these headers, if there is one
+ */
+export async function findMappingTemplate(headers: string[]): Promise<ImportMappingTemplate | null> {
+  return storage.getImportMappingTemplateBySignature(headerSignature(headers));
+}
+
+/**
+ * A template's mapping for a file's headers, which may differ from the
+ * template's in order and case. Confirmed mappings have full confidence.
+ */
+export function templateMapping(template: ImportMappingTemplate, headers: string[]): FieldMapping[] {
+  const fields = new Map(template.mappings.map(mapping => [normalizeHeader(mapping.originalField), mapping.standardField]));
+
+  return headers.map(header => ({
+    originalField: header,
+    standardField: fields.get(normalizeHeader(header)) ?? IGNORE_FIELD,
+    confidence: 1
+  }));
+}
+
+/**
+ * Save a confirmed mapping as a named template, replacing any template with that name
+ */
+export async function saveMappingTemplate(
+  name: string,
+  headers: string[],
+  mappings: FieldMapping[]
+): Promise<ImportMappingTemplate> {
+  return storage.saveImportMappingTemplate({
+    name: name.trim(),
+    header_signature: headerSignature(headers),
+    headers,
+    mappings: mappings.map(mapping => ({ ...mapping, confidence: 1 }))
+  });
+}
+
+/**
+ * Rename a row's columns to the fields they're mapped to, so the parser reads
+ * each value as the user confirmed. Ignored and unmapped columns are dropped;
+ * several columns mapped to a list field are joined.
+ * @param row A row from the CSV data
+ * @param mappings Confirmed mapping for the file
+ */
+export function renameColumns(row: Record<string, unknown>, mappings: FieldMapping[]): Record<string, unknown> {
+  const renamed: Record<string, unknown> = {};
+
+  for (const { originalField, standardField } of mappings) {
+    const value = row[originalField];
+    if (standardField === IGNORE_FIELD || value === undefined || value === null) continue;
+
+    const column = targetColumn(originalField, standardField);
+    const existing = renamed[column];
+    if (existing === undefined || String(existing).trim() === '') {
+      renamed[column] = value;
+    } else if (LIST_FIELDS.includes(standardField) && String(value).trim() !== '') {
+      renamed[column] = `${existing};${value}`;
+    }
+  }
+
+  return renamed;
+}
+
+// Columns the identifier and attribute readers already recognise as this
+// field keep their header, so units in names like "Length (cm)" and the
+// barcode type of an ISBN or UPC column survive the rename
+function targetColumn(header: string, field: string): string {
+  if (field === CUSTOM_ATTRIBUTE_FIELD) {
+    return customAttributeName(header) ? header : `attribute: ${header}`;
+  }
+  if (attributeColumnField(header) === field) return header;
+
+  const identifierType = identifierColumnType(header);
+  if (field === 'asin' && identifierType === 'ASIN') return header;
+  if (field === 'gtin' && identifierType && identifierType !== 'ASIN') return header;
+
+  return field;
+}
+
+function headerMapping(header: string): FieldMapping {
+  const mapping = (standardField: string, confidence: number) => ({ originalField: header, standardField, confidence });
+
+  if (customAttributeName(header)) return mapping(CUSTOM_ATTRIBUTE_FIELD, 0.9);
+
+  const identifierType = identifierColumnType(header);
+  // Generic barcode columns are usually UPCs or EANs, but could hold anything
+  if (identifierType === null) return mapping('gtin', 0.6);
+  if (identifierType !== undefined) return mapping(identifierType === 'ASIN' ? 'asin' : 'gtin', 0.95);
+
+  const attribute = attributeColumnField(header);
+  if (attribute) return mapping(attribute, 0.95);
+
+  const key = normalizeHeader(header);
+  if (PRODUCT_ID_COLUMNS.includes(key)) return mapping('product_id', 0.9);
+
+  const [suggestion] = suggestFieldMappings([key]);
+  return suggestion ? mapping(suggestion.standardField, suggestion.confidence) : mapping(IGNORE_FIELD, 0);
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
@@ -1,12 +1,38 @@
 import Papa from 'papaparse';
 import { Product } from '@shared/schema';
+import { generateShopifyCSV, validateShopifyProducts } from './shopify-export-service';
+import {
+  generateAmazonFlatFile, validateAmazonFlatFile, AMAZON_OPERATIONS, AMAZON_TEMPLATE_NAMES, AmazonTemplateName, AmazonOperation
+} from './amazon-export-service';
+import { generateEbayCSV, validateEbayListings, EBAY_SITE_IDS, EbaySiteId } from './ebay-export-service';
+import { generateEtsyCSV, validateEtsyListings } from './etsy-export-service';
+import {
+  generateGoogleXMLFeed, generateGoogleTSVFeed, validateGoogleFeed, GOOGLE_AVAILABILITIES, GoogleAvailability
+} from './google-export-service';
+import { generateMetaCatalogCSV, validateMetaCatalog } from './meta-export-service';
+import {
+  generateWalmartItemFeed, generateWalmartWorkbook, validateWalmartItems, WALMART_CATEGORY_NAMES, WalmartCategoryName
+} from './walmart-export-service';
+import { generateFieldExport } from './field-export-service';
+import { z } from 'zod';
+import {
+  ETSY_WHEN_MADE_OPTIONS, ETSY_WHO_MADE_OPTIONS, EXPORT_FILE_FORMATS, EtsyWhenMade, EtsyWhoMade, ExportFileFormat
+} from '@shared/export-fields';
+import { applyRowIdentifiers, IdentifierCheck } from './identifier-service';
+import { applyRowAttributes } from './attribute-service';
+import { BUILT_IN_EXPORT_PROFILES, PROFILE_FORMAT_PREFIX, generateProfileExport, resolveExportProfile } from './export-profile-service';
+import { renameColumns } from './column-mapping-service';
+import { FieldMapping } from '@shared/import-fields';
+import type { ImportFieldIssue } from './import-report-service';
 
 /**
- * Parses CSV string into an array of product objects with intelligent field detection
+ * Parses CSV string into an array of product objects with intelligent field
+ * detection. Rows with errors, such as no product ID, are left out.
  * @param csvString CSV content as a string
+ * @param mappings Confirmed column mapping; the fields are guessed from the headers without one
  * @returns Array of product objects
  */
-export async function parseCSV(csvString: string): Promise<Product[]> {
+export async function parseCSV(csvString: string, mappings?: FieldMapping[]): Promise<Product[]> {
   return new Promise<Product[]>((resolve, reject) => {
     // Use type assertion to overcome type checking limitations with papaparse
     (Papa as any).parse(csvString, {
@@ -14,35 +40,23 @@ export async function parseCSV(csvString: string): Promise<Product[]> {
       skipEmptyLines: true,
       complete: (results: any) => {
         try {
+          const rows = results.data.filter((row: any) => typeof row === 'object' && row !== null);
+          
           // Analyze CSV structure first to better understand the data
-          const csvStructure = analyzeCSVStructure(results.data);
-          console.log("CSV Analysis:", JSON.stringify(csvStructure, null, 2));
+          const csvStructure = mappings ? null : analyzeCSVStructure(rows);
+          if (csvStructure) console.log("CSV Analysis:", JSON.stringify(csvStructure, null, 2));
           
           const products: Product[] = [];
-          
-          for (const row of results.data) {
-            if (typeof row !== 'object' || row === null) continue;
-            
-            const product: Product = {
-              product_id: extractProductId(row) || generateRandomId(),
-              title: null,
-              description: null,
-              price: null,
-              brand: null,
-              category: null,
-              bullet_points: null,
-              images: null,
-              asin: null,
-              status: 'pending',
-              created_at: new Date(),
-              updated_at: new Date()
-            };
-            
-            // Map CSV columns to product fields using intelligent mapping
-            mapCSVRowToProduct(row, product, csvStructure);
-            
-            products.push(product);
-          }
+          rows.forEach((row: Record<string, unknown>, index: number) => {
+            const issues: ImportFieldIssue[] = [];
+            const product = mappings ? productFromMappedRow(row, mappings, issues) : buildProduct(row, csvStructure, issues);
+            const errors = issues.filter(issue => issue.severity === 'error');
+            if (errors.length > 0) {
+              console.warn(`Skipping row ${index + 1}: ${errors.map(issue => issue.message).join('; ')}`);
+            } else {
+              products.push(product);
+            }
+          });
           
           resolve(products);
         } catch (error) {
@@ -57,6 +71,95 @@ export async function parseCSV(csvString: string): Promise<Product[]> {
   });
 }
 
+/**
+ * Builds a product from one CSV row, reading each column as the confirmed
+ * mapping says
+ * @param row A row from the CSV data
+ * @param mappings Confirmed column mapping for the file
+ * @param issues Receives the row's problems; a row with errors shouldn't be imported
+ * @returns Product object
+ */
+export function productFromMappedRow(
+  row: Record<string, unknown>,
+  mappings: FieldMapping[],
+  issues: ImportFieldIssue[] = []
+): Product {
+  // The renamed columns already carry their field names
+  return buildProduct(renameColumns(row, mappings), { columns: [] }, issues);
+}
+
+function buildProduct(row: Record<string, unknown>, csvStructure: any, issues: ImportFieldIssue[] = []): Product {
+  const product: Product = {
+    // Never invented: a row without an ID can't be matched to its product again
+    product_id: extractProductId(row) || '',
+    title: null,
+    description: null,
+    price: null,
+    brand: null,
+    category: null,
+    bullet_points: null,
+    images: null,
+    asin: null,
+    gtin: null,
+    attributes: null,
+    parent_id: null,
+    variation_theme: null,
+    status: 'pending',
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+  
+  // Map CSV columns to product fields using intelligent mapping
+  mapCSVRowToProduct(row, product, csvStructure, issues);
+  
+  // Keep only identifiers that pass validation; never invent one
+  for (const invalid of applyRowIdentifiers(product, row)) {
+    issues.push(invalidIdentifierIssue(invalid));
+  }
+  applyRowAttributes(product, row);
+  
+  const idIssue = productIdIssue(product);
+  if (idIssue) issues.push(idIssue);
+  
+  return product;
+}
+
+/**
+ * The error for a product that can't be imported because it has no ID, or
+ * nothing besides one
+ * @param product A product as read from a file
+ * @returns The error, or null if the product has an ID and data
+ */
+export function productIdIssue(product: Product): ImportFieldIssue | null {
+  if (!product.product_id) {
+    return { code: 'missing_id', field: 'product_id', severity: 'error', message: 'No product ID or SKU' };
+  }
+  if (!hasProductData(product)) {
+    return { code: 'no_product_data', field: 'product_id', severity: 'error', message: 'Row has nothing besides the product ID' };
+  }
+  return null;
+}
+
+/**
+ * The warning for an identifier left off a product because it failed validation
+ * @param invalid The failed check
+ */
+export function invalidIdentifierIssue(invalid: IdentifierCheck): ImportFieldIssue {
+  return {
+    code: 'invalid_identifier',
+    field: invalid.type ? invalid.type.toLowerCase() : 'gtin',
+    severity: 'warning',
+    message: `${invalid.reason ?? `"${invalid.value}" is not a valid identifier`}; left out`
+  };
+}
+
+function hasProductData(product: Product): boolean {
+  return Boolean(
+    product.title || product.description || product.price || product.brand || product.category ||
+    product.bullet_points?.length || product.images?.length || product.asin || product.gtin || product.attributes
+  );
+}
+
 /**
  * Extracts a product ID from a CSV row, looking at various possible column names
  * @param row A row from the CSV data
@@ -222,8 +325,9 @@ function analyzeCSVStructure(data: any[]): any {
  * @param row The CSV row data
  * @param product The product object to map to
  * @param csvStructure Analysis of the CSV structure
+ * @param issues Receives values that couldn't be read
  */
-function mapCSVRowToProduct(row: any, product: Product, csvStructure: any): void {
+function mapCSVRowToProduct(row: any, product: Product, csvStructure: any, issues: ImportFieldIssue[]): void {
   // Create a mapping from CSV columns to product fields
   const columnMappings: Record<string, string> = {};
   
@@ -248,6 +352,9 @@ function mapCSVRowToProduct(row: any, product: Product, csvStructure: any): void
       const price = parseFloat(numericPrice);
       // Store as string (will be handled as decimal in the database)
       product.price = isNaN(price) ? null : String(price);
+      if (isNaN(price)) {
+        issues.push({ code: 'invalid_price', field: 'price', severity: 'error', message: `Price "${strValue}" is not a number` });
+      }
     } else if (mappedField === 'images') {
       // Check for different image separators (semicolon, comma, space)
       if (strValue.includes(';')) {
@@ -262,8 +369,20 @@ function mapCSVRowToProduct(row: any, product: Product, csvStructure: any): void
         product.images = [strValue];
       }
     } else if (mappedField === 'bullet_points') {
-      // Check for different bullet point separators
-      if (strValue.includes(';')) {
+      // A JSON list first, then the different bullet point separators
+      const listed = parseBulletList(strValue);
+      if (listed) {
+        product.bullet_points = listed;
+      } else if (/^\[[\s\S]*\]$/.test(strValue)) {
+        // Looks like a JSON list but isn't one, so it's kept whole rather than split at random
+        product.bullet_points = [strValue];
+        issues.push({
+          code: 'unreadable_bullets',
+          field: 'bullet_points',
+          severity: 'warning',
+          message: 'Bullet points look like a list but could not be read; imported as one bullet'
+        });
+      } else if (strValue.includes(';')) {
         product.bullet_points = strValue.split(';').map(point => point.trim()).filter(Boolean);
       } else if (strValue.includes(',')) {
         product.bullet_points = strValue.split(',').map(point => point.trim()).filter(Boolean);
@@ -273,6 +392,10 @@ function mapCSVRowToProduct(row: any, product: Product, csvStructure: any): void
         // Single bullet point
         product.bullet_points = [strValue];
       }
+      if (product.bullet_points?.length === 0) {
+        product.bullet_points = null;
+        issues.push({ code: 'unreadable_bullets', field: 'bullet_points', severity: 'warning', message: 'Bullet points have no text' });
+      }
     } else if (
       mappedField === 'title' || 
       mappedField === 'description' || 
@@ -283,7 +406,121 @@ function mapCSVRowToProduct(row: any, product: Product, csvStructure: any): void
       // For standard fields in our schema
       (product as any)[mappedField] = strValue;
     }
-    // We're ignoring any fields not in our schema (dimensions, weight, color, material, etc.)
+    // Attributes (dimensions, weight, color, material, etc.) are read from the row separately
+  }
+}
+
+// Options only some marketplace exporters use
+export interface MarketplaceExportOptions {
+  amazonTemplate?: AmazonTemplateName;
+  amazonOperation?: AmazonOperation;
+  ebayCategoryId?: string;
+  ebaySiteId?: EbaySiteId;
+  walmartCategory?: WalmartCategoryName;
+  etsyWhoMade?: EtsyWhoMade;
+  etsyWhenMade?: EtsyWhenMade;
+  etsyIsSupply?: boolean;
+  // Column selection and order for the plain file formats
+  fields?: string[];
+  quoteAll?: boolean;
+  // Shared by the feed formats (Google, Meta)
+  linkTemplate?: string;
+  availability?: GoogleAvailability;
+  currency?: string;
+}
+
+// A request's export options, checked as it arrives since a bad value would be
+// written into the file as it is; unknown keys are dropped
+export const marketplaceExportOptionsSchema = z.object({
+  amazonTemplate: z.enum(AMAZON_TEMPLATE_NAMES).optional(),
+  amazonOperation: z.enum(AMAZON_OPERATIONS).optional(),
+  ebayCategoryId: z.string().optional(),
+  ebaySiteId: z.enum(EBAY_SITE_IDS).optional(),
+  walmartCategory: z.enum(WALMART_CATEGORY_NAMES).optional(),
+  etsyWhoMade: z.enum(Object.keys(ETSY_WHO_MADE_OPTIONS) as [EtsyWhoMade, ...EtsyWhoMade[]]).optional(),
+  etsyWhenMade: z.enum(Object.keys(ETSY_WHEN_MADE_OPTIONS) as [EtsyWhenMade, ...EtsyWhenMade[]]).optional(),
+  etsyIsSupply: z.boolean().optional(),
+  fields: z.array(z.string()).optional(),
+  quoteAll: z.boolean().optional(),
+  linkTemplate: z.string().optional(),
+  availability: z.enum(GOOGLE_AVAILABILITIES).optional(),
+  // ISO 4217 code, as the Google and Meta feeds expect after the price
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code such as USD').optional()
+}) satisfies z.ZodType<MarketplaceExportOptions>;
+
+// A problem with one product that would stop the marketplace accepting the file
+export interface ExportRowIssue {
+  product_id: string;
+  field: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Check products against a format's upload rules before the file is generated
+ * @param products Products to export
+ * @param format Export format
+ * @param options Marketplace-specific export options
+ * @returns Per-row issues; empty for formats without marketplace rules
+ */
+export async function validateExport(
+  products: Product[],
+  format: string,
+  options: MarketplaceExportOptions = {}
+): Promise<ExportRowIssue[]> {
+  switch (format) {
+    case 'shopify_format':
+      return validateShopifyProducts(products);
+    case 'ebay_format':
+      return validateEbayListings(products, { categoryId: options.ebayCategoryId });
+    case 'walmart_format':
+    case 'walmart_xlsx':
+      return validateWalmartItems(products, { category: options.walmartCategory });
+    case 'etsy_format':
+      return validateEtsyListings(products, etsyOptions(options));
+    case 'google_xml':
+    case 'google_tsv':
+      return validateGoogleFeed(products, feedOptions(options));
+    case 'meta_catalog':
+      return validateMetaCatalog(products, feedOptions(options));
+    case 'amazon_flat':
+      return validateAmazonFlatFile(products, options.amazonTemplate, options.amazonOperation).flatMap(issue =>
+        issue.missing.map(column => ({
+          product_id: issue.product_id,
+          field: column,
+          severity: 'error' as const,
+          message: `${column} is required by the Amazon template`
+        }))
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * File extension and content type for an export format
+ * @param format Export format
+ */
+export function getExportFileType(format: string): { extension: string; contentType: string } {
+  switch (format) {
+    case 'amazon_flat':
+      // Amazon's inventory loader takes tab-delimited text
+      return { extension: 'txt', contentType: 'text/tab-separated-values' };
+    case 'json':
+    case 'walmart_format':
+      return { extension: 'json', contentType: 'application/json' };
+    case 'ndjson':
+      return { extension: 'ndjson', contentType: 'application/x-ndjson' };
+    case 'tsv':
+    case 'google_tsv':
+      return { extension: 'tsv', contentType: 'text/tab-separated-values' };
+    case 'xlsx':
+    case 'walmart_xlsx':
+      return { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' };
+    case 'google_xml':
+      return { extension: 'xml', contentType: 'application/xml' };
+    default:
+      return { extension: 'csv', contentType: 'text/csv' };
   }
 }
 
@@ -293,191 +530,94 @@ function mapCSVRowToProduct(row: any, product: Product, csvStructure: any): void
  * @param format Export format
  * @param includeHeaders Whether to include headers in the CSV
  * @param encodeUtf8 Whether to add UTF-8 BOM marker
- * @returns CSV string
+ * @param options Marketplace-specific export options
+ * @returns CSV string, or file content for formats that aren't CSV
  */
-export function generateCSV(
+export async function generateCSV(
   products: Product[], 
   format: string = 'standard_csv',
   includeHeaders: boolean = true,
-  encodeUtf8: boolean = true
-): string {
-  // Define columns based on export format
-  let columns: string[] = [];
-  
-  switch (format) {
-    case 'amazon_seller':
-      columns = [
-        'product_id', 'asin', 'title', 'description', 'bullet_points', 
-        'brand', 'category', 'price', 'images'
-      ];
-      break;
-    case 'amazon_vendor':
-      columns = [
-        'product_id', 'asin', 'item_name', 'product_description', 'bullet_point1', 
-        'bullet_point2', 'bullet_point3', 'bullet_point4', 'bullet_point5',
-        'brand_name', 'department', 'standard_price', 'main_image_url'
-      ];
-      break;
-    case 'amazon_flat':
-      columns = [
-        'sku', 'product-id', 'product-id-type', 'title', 'product-description',
-        'bullet-point-1', 'bullet-point-2', 'bullet-point-3', 'bullet-point-4', 'bullet-point-5',
-        'brand', 'recommended-browse-nodes', 'price', 'main-image-url'
-      ];
-      break;
-    case 'ebay_format':
-      columns = [
-        'item_id', 'title', 'description', 'condition', 'price', 
-        'category', 'images', 'brand'
-      ];
-      break;
-    case 'shopify_format':
-      columns = [
-        'Handle', 'Title', 'Body HTML', 'Vendor', 'Type', 
-        'Price', 'Compare at Price', 'Image Src'
-      ];
-      break;
-    case 'walmart_format':
-      columns = [
-        'sku', 'product_name', 'short_description', 'long_description', 
-        'brand', 'category', 'price', 'images'
-      ];
-      break;
-    case 'etsy_format':
-      columns = [
-        'listing_id', 'title', 'description', 'materials', 'price', 
-        'category', 'tags', 'images'
-      ];
-      break;
-    default: // standard_csv
-      columns = [
-        'product_id', 'title', 'description', 'price', 'brand', 
-        'category', 'bullet_points', 'images', 'asin'
-      ];
+  encodeUtf8: boolean = true,
+  options: MarketplaceExportOptions = {}
+): Promise<string | Buffer> {
+  // Plain files with the user's choice of columns
+  if (EXPORT_FILE_FORMATS.includes(format as ExportFileFormat)) {
+    return generateFieldExport(products, format as ExportFileFormat, {
+      fields: options.fields,
+      includeHeaders,
+      encodeUtf8,
+      quoteAll: options.quoteAll
+    });
   }
   
-  // Format product data based on selected format
-  const formattedProducts = products.map(product => {
-    const formattedProduct: Record<string, any> = {};
-    
-    // Map product fields to CSV columns based on format
-    if (format === 'standard_csv' || format === 'amazon_seller') {
-      // Standard or Amazon Seller format
-      columns.forEach(column => {
-        if (column === 'bullet_points' && product.bullet_points) {
-          formattedProduct[column] = product.bullet_points.join(';');
-        } else if (column === 'images' && product.images) {
-          formattedProduct[column] = product.images.join(';');
-        } else if (column === 'price' && product.price) {
-          formattedProduct[column] = product.price.toString();
-        } else {
-          formattedProduct[column] = (product as any)[column] || '';
-        }
-      });
-    } else if (format === 'amazon_vendor') {
-      // Amazon Vendor format
-      formattedProduct['product_id'] = product.product_id;
-      formattedProduct['asin'] = product.asin || '';
-      formattedProduct['item_name'] = product.title || '';
-      formattedProduct['product_description'] = product.description || '';
-      
-      // Handle bullet points
-      if (product.bullet_points && product.bullet_points.length > 0) {
-        for (let i = 0; i < 5; i++) {
-          formattedProduct[`bullet_point${i+1}`] = product.bullet_points[i] || '';
-        }
-      } else {
-        for (let i = 0; i < 5; i++) {
-          formattedProduct[`bullet_point${i+1}`] = '';
-        }
-      }
-      
-      formattedProduct['brand_name'] = product.brand || '';
-      formattedProduct['department'] = product.category || '';
-      formattedProduct['standard_price'] = product.price ? product.price.toString() : '';
-      formattedProduct['main_image_url'] = product.images && product.images.length > 0 ? product.images[0] : '';
-    } else if (format === 'amazon_flat') {
-      // Amazon Flat File format
-      formattedProduct['sku'] = product.product_id;
-      formattedProduct['product-id'] = product.asin || '';
-      formattedProduct['product-id-type'] = 'ASIN';
-      formattedProduct['title'] = product.title || '';
-      formattedProduct['product-description'] = product.description || '';
-      
-      // Handle bullet points
-      if (product.bullet_points && product.bullet_points.length > 0) {
-        for (let i = 0; i < 5; i++) {
-          formattedProduct[`bullet-point-${i+1}`] = product.bullet_points[i] || '';
-        }
-      } else {
-        for (let i = 0; i < 5; i++) {
-          formattedProduct[`bullet-point-${i+1}`] = '';
-        }
-      }
-      
-      formattedProduct['brand'] = product.brand || '';
-      formattedProduct['recommended-browse-nodes'] = product.category || '';
-      formattedProduct['price'] = product.price ? product.price.toString() : '';
-      formattedProduct['main-image-url'] = product.images && product.images.length > 0 ? product.images[0] : '';
-    } else if (format === 'ebay_format') {
-      // eBay format
-      formattedProduct['item_id'] = product.product_id;
-      formattedProduct['title'] = product.title || '';
-      formattedProduct['description'] = product.description || '';
-      formattedProduct['condition'] = 'New';
-      formattedProduct['price'] = product.price ? product.price.toString() : '';
-      formattedProduct['category'] = product.category || '';
-      formattedProduct['images'] = product.images ? product.images.join(';') : '';
-      formattedProduct['brand'] = product.brand || '';
-    } else if (format === 'shopify_format') {
-      // Shopify format
-      formattedProduct['Handle'] = product.product_id;
-      formattedProduct['Title'] = product.title || '';
-      formattedProduct['Body HTML'] = product.description || '';
-      formattedProduct['Vendor'] = product.brand || '';
-      formattedProduct['Type'] = product.category || '';
-      formattedProduct['Price'] = product.price ? product.price.toString() : '';
-      formattedProduct['Compare at Price'] = '';
-      formattedProduct['Image Src'] = product.images && product.images.length > 0 ? product.images[0] : '';
-    } else if (format === 'walmart_format') {
-      // Walmart format
-      formattedProduct['sku'] = product.product_id;
-      formattedProduct['product_name'] = product.title || '';
-      formattedProduct['short_description'] = product.bullet_points ? product.bullet_points.join('. ') : '';
-      formattedProduct['long_description'] = product.description || '';
-      formattedProduct['brand'] = product.brand || '';
-      formattedProduct['category'] = product.category || '';
-      formattedProduct['price'] = product.price ? product.price.toString() : '';
-      formattedProduct['images'] = product.images ? product.images.join(';') : '';
-    } else if (format === 'etsy_format') {
-      // Etsy format
-      formattedProduct['listing_id'] = product.product_id;
-      formattedProduct['title'] = product.title || '';
-      formattedProduct['description'] = product.description || '';
-      formattedProduct['materials'] = '';
-      formattedProduct['price'] = product.price ? product.price.toString() : '';
-      formattedProduct['category'] = product.category || '';
-      formattedProduct['tags'] = product.bullet_points ? product.bullet_points.join(',') : '';
-      formattedProduct['images'] = product.images ? product.images.join(';') : '';
-    }
-    
-    return formattedProduct;
-  });
+  // Marketplaces with their own exporter
+  if (format === 'shopify_format') {
+    return generateShopifyCSV(products, { includeHeaders, encodeUtf8 });
+  }
+  if (format === 'amazon_flat') {
+    return generateAmazonFlatFile(products, {
+      includeHeaders,
+      encodeUtf8,
+      template: options.amazonTemplate,
+      operation: options.amazonOperation
+    });
+  }
+  if (format === 'ebay_format') {
+    return generateEbayCSV(products, {
+      includeHeaders,
+      encodeUtf8,
+      categoryId: options.ebayCategoryId,
+      siteId: options.ebaySiteId
+    });
+  }
+  if (format === 'etsy_format') {
+    return generateEtsyCSV(products, { includeHeaders, encodeUtf8, ...etsyOptions(options) });
+  }
+  if (format === 'google_xml') {
+    return generateGoogleXMLFeed(products, feedOptions(options));
+  }
+  if (format === 'google_tsv') {
+    return generateGoogleTSVFeed(products, { includeHeaders, encodeUtf8, ...feedOptions(options) });
+  }
+  if (format === 'meta_catalog') {
+    return generateMetaCatalogCSV(products, { includeHeaders, encodeUtf8, ...feedOptions(options) });
+  }
+  if (format === 'walmart_format') {
+    return generateWalmartItemFeed(products, { category: options.walmartCategory });
+  }
+  if (format === 'walmart_xlsx') {
+    return generateWalmartWorkbook(products, { category: options.walmartCategory });
+  }
   
-  // Convert to CSV string
-  const csv = Papa.unparse(formattedProducts, {
-    header: includeHeaders,
-    skipEmptyLines: true
+  // Everything else is laid out by a column-mapping profile; unknown formats get the standard one
+  const profile = await resolveExportProfile(format);
+  if (!profile && format.startsWith(PROFILE_FORMAT_PREFIX)) {
+    throw new Error(`Export profile ${format.slice(PROFILE_FORMAT_PREFIX.length)} not found`);
+  }
+  return generateProfileExport(products, (profile ?? BUILT_IN_EXPORT_PROFILES.standard_csv).columns, {
+    includeHeaders,
+    encodeUtf8,
+    quoteAll: options.quoteAll
   });
-  
-  // Add BOM for UTF-8 encoding if requested
-  return encodeUtf8 ? '\ufeff' + csv : csv;
 }
 
-/**
- * Generates a random product ID
- * @returns Random product ID
- */
-function generateRandomId(): string {
-  return 'PROD-' + Math.random().toString(36).substring(2, 10).toUpperCase();
+function etsyOptions(options: MarketplaceExportOptions) {
+  return { whoMade: options.etsyWhoMade, whenMade: options.etsyWhenMade, isSupply: options.etsyIsSupply };
+}
+
+function feedOptions(options: MarketplaceExportOptions) {
+  return { linkTemplate: options.linkTemplate, availability: options.availability, currency: options.currency };
+}
+
+// Bullet points given as a JSON list of strings, e.g. ["Soft", "Warm"]
+function parseBulletList(value: string): string[] | null {
+  if (!value.startsWith('[')) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.every(item => typeof item === 'string')
+      ? parsed.map(item => item.trim()).filter(Boolean)
+      : null;
+  } catch {
+    return null;
+  }
 }
@@ -0,0 +1,284 @@
+/**
+ * eBay Export Service
+ *
+ * Builds eBay File Exchange / Seller Hub listing CSVs: the *Action header with
+ * site and currency, ConditionID codes, C:-prefixed item specifics from product
+ * attributes and pipe-joined PicURL images. Variant families become a parent
+ * listing with Variation rows. Listings imported from a File Exchange file
+ * keep their site, format, duration and quantity, and those with an eBay item
+ * ID are written as revisions of the live listing.
+ */
+
+import Papa from 'papaparse';
+import { Product } from '@shared/schema';
+import { groupVariantFamilies, variationAttributes, attributeValues, sourceListingFields } from './attribute-service';
+import { resolveProductIdentifier } from './identifier-service';
+import type { ExportRowIssue } from './csv-service';
+
+export type EbaySiteId = 'US' | 'UK' | 'Germany' | 'Australia' | 'eBayMotors';
+
+export interface EbayExportOptions {
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  // Defaults to the site the products were imported from, then US
+  siteId?: EbaySiteId;
+  // eBay leaf category ID for the whole file; otherwise numeric product categories are used
+  categoryId?: string;
+  // Stock isn't tracked here, so every listing starts with this quantity;
+  // otherwise imported listings keep theirs and the rest start at 1
+  quantity?: number;
+}
+
+export const EBAY_TITLE_MAX = 80;
+
+// File Exchange site IDs with the country and currency each one expects
+const EBAY_SITES: Record<EbaySiteId, { country: string; currency: string }> = {
+  US: { country: 'US', currency: 'USD' },
+  UK: { country: 'GB', currency: 'GBP' },
+  Germany: { country: 'DE', currency: 'EUR' },
+  Australia: { country: 'AU', currency: 'AUD' },
+  eBayMotors: { country: 'US', currency: 'USD' }
+};
+
+export const EBAY_SITE_IDS = Object.keys(EBAY_SITES) as [EbaySiteId, ...EbaySiteId[]];
+
+const MAX_PICTURES = 24;
+
+// Attributes written as item specifics, with eBay's names
+const ITEM_SPECIFICS: Array<[string, string]> = [
+  ['color', 'Color'],
+  ['size', 'Size'],
+  ['material', 'Material'],
+  ['pattern', 'Pattern'],
+  ['style', 'Style'],
+  ['gender', 'Department'],
+  ['model_number', 'Model'],
+  ['mpn', 'MPN'],
+  ['weight', 'Item Weight'],
+  ['dimensions', 'Item Dimensions']
+];
+
+/**
+ * Generate an eBay File Exchange CSV
+ * @param products Products to export
+ * @param options Site, category and encoding options
+ * @returns CSV string
+ */
+export function generateEbayCSV(products: Product[], options: EbayExportOptions = {}): string {
+  const { includeHeaders = true, encodeUtf8 = true } = options;
+  const importedSiteId = products.map(product => sourceListingFields(product, 'ebay').SiteID).find(Boolean);
+  const siteId = [options.siteId, importedSiteId].find(isEbaySite) ?? 'US';
+  const site = EBAY_SITES[siteId];
+  const specifics = itemSpecificColumns(products);
+  // Listings that are already live are revised by their item ID
+  const withItemId = products.some(product => sourceListingFields(product, 'ebay').ItemID);
+
+  const columns = [
+    `*Action(SiteID=${siteId}|Country=${site.country}|Currency=${site.currency}|Version=1193|CC=UTF-8)`,
+    ...(withItemId ? ['ItemID'] : []),
+    'CustomLabel', '*Category', '*Title', '*ConditionID', 'ConditionDescription',
+    'C:Brand', ...specifics.map(([, name]) => `C:${name}`),
+    'PicURL', 'UPC', 'EAN', 'ISBN', '*Description', '*Format', '*Duration',
+    '*StartPrice', '*Quantity', 'Relationship', 'RelationshipDetails'
+  ];
+
+  const rows: string[][] = [];
+  for (const family of groupVariantFamilies(products)) {
+    if (family.variants.length === 0) {
+      rows.push(listingRow(family.parent!, null, specifics, withItemId, options));
+      continue;
+    }
+
+    // eBay lists a variation family as one listing; its rows carry only what differs
+    const main = family.parent ?? family.variants[0];
+    const theme = variationAttributes(main.variation_theme || family.variants[0].variation_theme);
+    const parentRow = listingRow(main, theme, specifics, withItemId, options);
+    parentRow[parentRow.length - 1] = variationSummary(family.variants, theme);
+    parentRow[columns.indexOf('*StartPrice')] = '';
+    parentRow[columns.indexOf('*Quantity')] = '';
+    rows.push(parentRow);
+
+    for (const variant of family.variants) {
+      rows.push(variationRow(variant, theme, columns, options));
+    }
+  }
+
+  const csv = Papa.unparse({ fields: columns, data: rows }, { header: includeHeaders });
+  return encodeUtf8 ? '\ufeff' + csv : csv;
+}
+
+/**
+ * Check each listing against eBay's upload rules before the file is downloaded
+ * @param products Products to export
+ * @param options The options the file will be generated with
+ * @returns One entry per problem, errors block the upload and warnings don't
+ */
+export function validateEbayListings(products: Product[], options: EbayExportOptions = {}): ExportRowIssue[] {
+  const issues: ExportRowIssue[] = [];
+  const add = (product: Product, field: string, severity: ExportRowIssue['severity'], message: string) =>
+    issues.push({ product_id: product.product_id, field, severity, message });
+
+  for (const family of groupVariantFamilies(products)) {
+    const listing = family.parent ?? family.variants[0];
+
+    if (!listing.title) {
+      add(listing, 'title', 'error', 'Title is required');
+    } else if (listing.title.length > EBAY_TITLE_MAX) {
+      add(listing, 'title', 'warning', `Title is ${listing.title.length} characters and will be cut to ${EBAY_TITLE_MAX}`);
+    }
+    if (!categoryIdFor(listing, options)) {
+      add(listing, 'category', 'error', 'eBay needs a numeric category ID; choose one for the export or use it as the product category');
+    }
+    if (!listing.description) {
+      add(listing, 'description', 'error', 'Description is required');
+    }
+    if (!(family.parent?.images?.length || family.variants.some(variant => variant.images?.length))) {
+      add(listing, 'images', 'error', 'At least one picture is required');
+    }
+
+    for (const item of family.variants.length > 0 ? family.variants : [listing]) {
+      const price = Number(item.price);
+      if (!item.price || Number.isNaN(price) || price <= 0) {
+        add(item, 'price', 'error', 'Start price must be greater than 0');
+      }
+      if (!resolveProductIdentifier({ gtin: item.gtin })) {
+        add(item, 'gtin', 'warning', 'No UPC, EAN or ISBN; many eBay categories require one');
+      }
+    }
+  }
+
+  return issues;
+}
+
+function listingRow(
+  product: Product,
+  theme: string[] | null,
+  specifics: Array<[string, string]>,
+  withItemId: boolean,
+  options: EbayExportOptions
+): string[] {
+  const attributes = attributeValues(product.attributes);
+  const identifier = theme ? null : resolveProductIdentifier({ gtin: product.gtin });
+  const condition = product.attributes?.condition;
+  const listing = sourceListingFields(product, 'ebay');
+
+  return [
+    listing.ItemID ? 'Revise' : 'Add',
+    ...(withItemId ? [listing.ItemID || ''] : []),
+    product.product_id,
+    categoryIdFor(product, options),
+    truncateTitle(product.title || ''),
+    listing.ConditionID || conditionId(condition),
+    listing.ConditionDescription || (condition && condition !== 'new' ? conditionLabel(condition) : ''),
+    product.brand || '',
+    // Attributes that vary go in RelationshipDetails instead
+    ...specifics.map(([key]) => theme?.includes(key) ? '' : attributes[key] || ''),
+    (product.images || []).slice(0, MAX_PICTURES).join('|'),
+    identifier?.type === 'UPC' ? identifier.value : '',
+    identifier?.type === 'EAN' || identifier?.type === 'GTIN' ? identifier.value : '',
+    identifier?.type === 'ISBN' ? identifier.value : '',
+    product.description || '',
+    listing.Format || 'FixedPrice',
+    listing.Duration || 'GTC',
+    product.price ? Number(product.price).toFixed(2) : '',
+    quantityFor(product, options),
+    '',
+    ''
+  ];
+}
+
+function variationRow(variant: Product, theme: string[], columns: string[], options: EbayExportOptions): string[] {
+  const row = columns.map(() => '');
+  const attributes = attributeValues(variant.attributes);
+  const identifier = resolveProductIdentifier({ gtin: variant.gtin });
+
+  row[columns.indexOf('CustomLabel')] = variant.product_id;
+  row[columns.indexOf('PicURL')] = variant.images?.[0] || '';
+  row[columns.indexOf('UPC')] = identifier?.type === 'UPC' ? identifier.value : '';
+  row[columns.indexOf('EAN')] = identifier?.type === 'EAN' || identifier?.type === 'GTIN' ? identifier.value : '';
+  row[columns.indexOf('*StartPrice')] = variant.price ? Number(variant.price).toFixed(2) : '';
+  row[columns.indexOf('*Quantity')] = quantityFor(variant, options);
+  row[columns.indexOf('Relationship')] = 'Variation';
+  row[columns.indexOf('RelationshipDetails')] = theme
+    .map(key => `${specificName(key)}=${escapeRelationshipValue(attributes[key] || '')}`)
+    .join('|');
+
+  return row;
+}
+
+// e.g. "Size=S;M;L|Color=Red;Blue"
+// Only the site IDs listed above, not any key an object happens to have
+function isEbaySite(id: string | undefined): id is EbaySiteId {
+  return id !== undefined && Object.hasOwn(EBAY_SITES, id);
+}
+
+function variationSummary(variants: Product[], theme: string[]): string {
+  return theme
+    .map(key => {
+      const values = Array.from(new Set(
+        variants.map(variant => attributeValues(variant.attributes)[key]).filter(Boolean)
+      ));
+      return `${specificName(key)}=${values.map(escapeRelationshipValue).join(';')}`;
+    })
+    .join('|');
+}
+
+// Only specifics that at least one product has, plus custom attributes
+function itemSpecificColumns(products: Product[]): Array<[string, string]> {
+  const present = new Set(products.flatMap(product => Object.keys(attributeValues(product.attributes))));
+  const known = ITEM_SPECIFICS.filter(([key]) => present.has(key));
+  const knownKeys = new Set(ITEM_SPECIFICS.map(([key]) => key));
+  const custom = Array.from(present)
+    .filter(key => !knownKeys.has(key) && !['condition', 'list_price', 'age_group'].includes(key))
+    .map((key): [string, string] => [key, specificName(key)]);
+
+  return [...known, ...custom];
+}
+
+function specificName(key: string): string {
+  return ITEM_SPECIFICS.find(([attribute]) => attribute === key)?.[1]
+    ?? key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+function quantityFor(product: Product, options: EbayExportOptions): string {
+  if (options.quantity !== undefined) return String(options.quantity);
+  return sourceListingFields(product, 'ebay').Quantity || '1';
+}
+
+function categoryIdFor(product: Product, options: EbayExportOptions): string {
+  if (options.categoryId) return options.categoryId;
+  return /^\d+$/.test(product.category || '') ? product.category! : '';
+}
+
+function conditionId(condition: string | undefined): string {
+  switch (condition) {
+    case 'refurbished': return '2500';
+    case 'used_like_new':
+    case 'used_good':
+    case 'used_acceptable': return '3000';
+    default: return '1000';
+  }
+}
+
+function conditionLabel(condition: string): string {
+  switch (condition) {
+    case 'refurbished': return 'Seller refurbished';
+    case 'used_like_new': return 'Used - like new';
+    case 'used_good': return 'Used - good condition';
+    case 'used_acceptable': return 'Used - acceptable condition, shows signs of wear';
+    default: return '';
+  }
+}
+
+// Cut at a word boundary so titles don't end mid-word
+function truncateTitle(title: string): string {
+  if (title.length <= EBAY_TITLE_MAX) return title;
+  const cut = title.substring(0, EBAY_TITLE_MAX);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > EBAY_TITLE_MAX / 2 ? cut.substring(0, lastSpace) : cut).trim();
+}
+
+// | and ; separate names and values in RelationshipDetails
+function escapeRelationshipValue(value: string): string {
+  return value.replace(/[|;=]/g, ' ').trim();
+}
@@ -5,34 +5,98 @@
 
 import Papa from 'papaparse';
 import { Product } from '../../shared/schema';
+import { FieldMapping } from '../../shared/import-fields';
 import { analyzeCSVStructureWithAI } from './enhanced-openai-service';
+import { applyRowIdentifiers } from './identifier-service';
+import { applyRowAttributes, attributeValues } from './attribute-service';
+import { productFromMappedRow, productIdIssue } from './csv-service';
+import { ImportFieldIssue, ImportReport, ImportRowIssue, RejectedRow, createImportReport, recordImportRow } from './import-report-service';
 import { Transform, TransformCallback } from 'stream';
 import { createReadStream } from 'fs';
-// @ts-ignore
+import { open, stat } from 'fs/promises';
 import { detect } from 'jschardet';
 
-interface CSVProcessingOptions {
+export interface CSVProcessingOptions {
   delimiter?: string;
-  encoding?: BufferEncoding;
+  encoding?: string;
+  // Rows per onChunk call
   chunkSize?: number;
+  // Lines above the header row, such as the banner of a marketplace template
+  skipLines?: number;
+  // Confirmed column mapping; without one the columns are read by name
+  mappings?: FieldMapping[];
+  // Builds the products instead of the mapping, for layouts that spread a product over several rows
+  assembler?: RowAssembler;
+  // Receives the products in batches instead of them being collected in the result
+  onChunk?: (products: Product[]) => Promise<void>;
+  // Receives each row kept out of the import, with why
+  onRejectedRow?: (row: RejectedRow) => void;
+  // Share of the file read so far, from 0 to 1
   onProgress?: (progress: number) => void;
 }
 
-interface CSVProcessingResult {
+export interface RowProcessingResult {
+  // Empty when the products were handed to onChunk
   products: Product[];
+  // Problems reading the file itself; row problems are in the report
   issues: string[];
+  report: ImportReport;
   stats: {
     totalRows: number;
     processedRows: number;
     skippedRows: number;
+  };
+}
+
+interface CSVProcessingResult extends RowProcessingResult {
+  stats: RowProcessingResult['stats'] & {
     encoding: string;
     delimiter: string;
   };
 }
 
-interface EncodingResult {
+// Turns rows into products when a product can take more than one row, e.g.
+// one row per variant or image. Rows arrive in file order, numbered from 1.
+// The products one call returns are a family, such as a product and its
+// variants, whose rows are imported or rejected together.
+export interface RowAssembler {
+  // The family the row completes, if any
+  add(row: Record<string, string>, rowNumber: number): AssembledProduct[];
+  // The family still open when the file ends
+  finish(): AssembledProduct[];
+}
+
+export interface AssembledProduct {
+  product: Product;
+  // Numbers of the rows the product was read from
+  rows: number[];
+  // Problems found reading those rows
+  issues: ImportRowIssue[];
+}
+
+// Receives each batch of rows as they are read, with problems found in the
+// batch and the share of the file read so far. Returning false stops the read.
+export type RowBatchHandler = (
+  rows: Record<string, string>[],
+  fields: string[],
+  issues: string[],
+  progress: number
+) => boolean | void | Promise<boolean | void>;
+
+// Reads a file's rows in order, waiting for the handler between batches
+export type RowStreamer = (onRows: RowBatchHandler) => Promise<void>;
+
+export interface CSVFileFormat {
+  // A WHATWG encoding label, as TextDecoder takes
   encoding: string;
-  confidence: number;
+  delimiter: string;
+}
+
+export interface CSVFilePreview extends CSVFileFormat {
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  // Null unless the rows were counted
+  rowCount: number | null;
 }
 
 interface PapaParseResult<T> {
@@ -41,136 +105,374 @@ interface PapaParseResult<T> {
   meta: Papa.ParseMeta;
 }
 
+const FORMAT_SAMPLE_BYTES = 64 * 1024;
+const DEFAULT_CHUNK_SIZE = 500;
+// Row problems beyond this are counted but not listed
+const MAX_ISSUES = 100;
+
 /**
- * Detects CSV file encoding and delimiter
+ * Detects CSV file encoding and delimiter from the start of the file. A byte
+ * order mark or valid UTF-8 wins; otherwise the encoding is guessed.
  */
-async function detectCSVFormat(filePath: string): Promise<{ encoding: BufferEncoding; delimiter: string }> {
-  return new Promise((resolve, reject) => {
-    const sampleSize = 4096;
-    const buffer = Buffer.alloc(sampleSize);
-    const stream = createReadStream(filePath, { start: 0, end: sampleSize - 1 });
-    
-    stream.on('data', (chunk: Buffer) => {
-      buffer.fill(chunk);
-    });
-    
-    stream.on('end', () => {
-      // Detect encoding
-      const encodingResult = detect(buffer) as EncodingResult;
-      const encoding = (encodingResult.encoding || 'utf-8') as BufferEncoding;
-      
-      // Detect delimiter
-      const content = buffer.toString(encoding);
-      const lines = content.split('\n').slice(0, 5);
-      const delimiters = [',', ';', '\t', '|'];
-      const delimiterCounts = delimiters.map(d => ({
-        delimiter: d,
-        count: lines.reduce((sum: number, line: string) => sum + (line.match(new RegExp(d, 'g')) || []).length, 0)
-      }));
-      
-      const mostCommon = delimiterCounts.reduce((max, curr) => 
-        curr.count > max.count ? curr : max
-      );
-      
-      resolve({
-        encoding,
-        delimiter: mostCommon.delimiter
-      });
-    });
-    
-    stream.on('error', (error: Error) => reject(error));
+export async function detectCSVFormat(filePath: string): Promise<CSVFileFormat> {
+  const sample = await readFileSample(filePath);
+  const encoding = detectEncoding(sample);
+  const content = new TextDecoder(encoding).decode(sample);
+
+  return {
+    encoding,
+    delimiter: detectDelimiter(content)
+  };
+}
+
+/**
+ * Detects a text file's encoding from its start
+ * @returns A WHATWG encoding label, as TextDecoder takes
+ */
+export async function detectFileEncoding(filePath: string): Promise<string> {
+  return detectEncoding(await readFileSample(filePath));
+}
+
+/**
+ * Reads the header and first rows of a CSV file without holding the whole
+ * file in memory
+ * @param filePath Path of the file
+ * @param sampleSize Rows to return
+ * @param countRows Whether to read on to the end to count the rows
+ */
+export async function readCSVPreview(
+  filePath: string,
+  sampleSize: number = 5,
+  countRows: boolean = false,
+  skipLines: number = 0
+): Promise<CSVFilePreview> {
+  const format = await detectCSVFormat(filePath);
+  const sampleRows: Record<string, string>[] = [];
+  let headers: string[] = [];
+  let rowCount = 0;
+
+  await streamCSVRows(filePath, format, skipLines, (rows, fields) => {
+    headers = fields;
+    for (const row of rows) {
+      if (sampleRows.length < sampleSize) sampleRows.push(row);
+    }
+    rowCount += rows.length;
+    return countRows || sampleRows.length < sampleSize;
   });
+
+  return {
+    ...format,
+    headers: headers.filter(header => header.trim() !== ''),
+    sampleRows,
+    rowCount: countRows ? rowCount : null
+  };
 }
 
 /**
- * Processes CSV file with streaming support for large files
+ * Processes CSV file with streaming support for large files. Rows are parsed
+ * as the file is read and handed on in batches, so memory use doesn't grow
+ * with the file.
  */
 export async function processCSVFile(
   filePath: string,
   options: CSVProcessingOptions = {}
 ): Promise<CSVProcessingResult> {
-  const format = await detectCSVFormat(filePath);
+  const detected = await detectCSVFormat(filePath);
+  const format = {
+    encoding: options.encoding || detected.encoding,
+    delimiter: options.delimiter || detected.delimiter
+  };
+  const result = await processRowStream(onRows => streamCSVRows(filePath, format, options.skipLines ?? 0, onRows), options);
+
+  return {
+    ...result,
+    stats: {
+      ...result.stats,
+      encoding: format.encoding,
+      delimiter: format.delimiter
+    }
+  };
+}
+
+/**
+ * Turns a stream of rows from any file format into products, handing them on
+ * in batches so memory use doesn't grow with the file
+ * @param streamRows Reads the file's rows
+ * @param options Mapping, batching and progress options
+ */
+export async function processRowStream(
+  streamRows: RowStreamer,
+  options: CSVProcessingOptions = {}
+): Promise<RowProcessingResult> {
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
   const issues: string[] = [];
   const products: Product[] = [];
+  const report = createImportReport();
+  // The row each product ID was first seen on, so a repeated SKU doesn't overwrite it
+  const seenIds = new Map<string, number | null>();
+  // Rows handed to the assembler that aren't in a finished family yet
+  const openRows = new Map<number, Record<string, string>>();
+  let batch: Product[] = [];
   let totalRows = 0;
   let processedRows = 0;
   let skippedRows = 0;
-  
-  return new Promise((resolve, reject) => {
-    const stream = createReadStream(filePath, {
-      encoding: options.encoding || format.encoding
+
+  const addIssue = (issue: string) => {
+    if (issues.length < MAX_ISSUES) issues.push(issue);
+  };
+
+  const duplicateIssue = (productId: string, firstRows = seenIds): ImportFieldIssue | null => {
+    if (!firstRows.has(productId)) return null;
+    const firstRow = firstRows.get(productId);
+    return {
+      code: 'duplicate_id',
+      field: 'product_id',
+      severity: 'error',
+      message: `Duplicate SKU ${productId}${firstRow ? `, first seen on row ${firstRow}` : ''}`
+    };
+  };
+
+  const rejectRow = (row: number, values: Record<string, string>, productId: string | null, rowIssues: ImportFieldIssue[]) => {
+    recordImportRow(report, row, productId, rowIssues);
+    skippedRows++;
+    options.onRejectedRow?.({
+      row,
+      values,
+      reasons: rowIssues.filter(issue => issue.severity === 'error').map(issue => issue.message)
     });
-    
-    const transform = new Transform({
-      objectMode: true,
-      transform(chunk: Buffer, encoding: string, callback: TransformCallback) {
-        try {
-          const lines = chunk.toString().split('\n');
-          totalRows += lines.length;
-          
-          for (const line of lines) {
-            if (!line.trim()) continue;
-            
-            try {
-              const result = Papa.parse<Record<string, string>>(line, {
-                delimiter: options.delimiter || format.delimiter,
-                header: true
-              });
-              
-              if (result.data && result.data.length > 0) {
-                const row = result.data[0];
-                const product = mapCSVRowToProduct(row);
-                if (product) {
-                  products.push(product);
-                  processedRows++;
-                } else {
-                  skippedRows++;
-                }
-              }
-            } catch (error) {
-              if (error instanceof Error) {
-                issues.push(`Error processing row: ${error.message}`);
-              } else {
-                issues.push('Unknown error processing row');
-              }
-              skippedRows++;
-            }
-          }
-          
-          if (options.onProgress) {
-            options.onProgress(processedRows / totalRows);
-          }
-          
-          callback();
-        } catch (error) {
-          if (error instanceof Error) {
-            callback(error);
+  };
+
+  // A family is checked like a row, and rejected whole if any of its products
+  // has an error, so its rejected rows can be fixed and uploaded again as they are
+  const acceptAssembled = (family: AssembledProduct[]) => {
+    if (family.length === 0) return;
+
+    const familyIssues: ImportRowIssue[] = [];
+    const familyIds = new Map<string, number | null>();
+    for (const { product, rows, issues } of family) {
+      const idIssue = productIdIssue(product)
+        ?? duplicateIssue(product.product_id)
+        ?? duplicateIssue(product.product_id, familyIds);
+      familyIssues.push(...issues);
+      if (idIssue) familyIssues.push({ ...idIssue, row: rows[0] ?? null, product_id: product.product_id || null });
+      if (!familyIds.has(product.product_id)) familyIds.set(product.product_id, rows[0] ?? null);
+    }
+
+    const familyRows = Array.from(new Set(family.flatMap(({ rows }) => rows))).sort((a, b) => a - b);
+    const firstError = familyIssues.find(issue => issue.severity === 'error');
+
+    for (const row of familyRows) {
+      const values = openRows.get(row) ?? {};
+      openRows.delete(row);
+      const rowIssues = familyIssues.filter(issue => issue.row === row);
+      const productId = rowIssues[0]?.product_id ?? family.find(({ rows }) => rows.includes(row))!.product.product_id;
+
+      if (!firstError) {
+        recordImportRow(report, row, productId, rowIssues);
+        processedRows++;
+      } else {
+        if (!rowIssues.some(issue => issue.severity === 'error')) {
+          rowIssues.push({
+            code: 'rejected_with_product',
+            field: '',
+            severity: 'error',
+            message: `Part of ${family[0].product.product_id || 'a product'}, which has errors${firstError.row ? ` on row ${firstError.row}` : ''}`,
+            row,
+            product_id: productId || null
+          });
+        }
+        rejectRow(row, values, productId || null, rowIssues);
+      }
+    }
+
+    if (!firstError) {
+      for (const { product, rows } of family) {
+        seenIds.set(product.product_id, rows[0] ?? null);
+        batch.push(product);
+      }
+    }
+  };
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const ready = batch;
+    batch = [];
+    if (options.onChunk) {
+      await options.onChunk(ready);
+    } else {
+      products.push(...ready);
+    }
+  };
+
+  await streamRows(async (rows, _fields, rowIssues, progress) => {
+    rowIssues.forEach(addIssue);
+
+    for (const row of rows) {
+      totalRows++;
+      try {
+        if (options.assembler) {
+          // A row may only add to a family that a later row completes
+          openRows.set(totalRows, row);
+          acceptAssembled(options.assembler.add(row, totalRows));
+        } else {
+          const rowIssues: ImportFieldIssue[] = [];
+          const product = options.mappings
+            ? productFromMappedRow(row, options.mappings, rowIssues)
+            : mapCSVRowToProduct(row, undefined, rowIssues);
+          const duplicate = product.product_id ? duplicateIssue(product.product_id) : null;
+          if (duplicate) rowIssues.push(duplicate);
+
+          if (rowIssues.some(issue => issue.severity === 'error')) {
+            rejectRow(totalRows, row, product.product_id || null, rowIssues);
           } else {
-            callback(new Error('Unknown error in transform'));
+            recordImportRow(report, totalRows, product.product_id, rowIssues);
+            seenIds.set(product.product_id, totalRows);
+            batch.push(product);
+            processedRows++;
           }
         }
+      } catch (error) {
+        openRows.delete(totalRows);
+        rejectRow(totalRows, row, null, [{
+          code: 'unreadable_row',
+          field: '',
+          severity: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        }]);
+      }
+
+      if (batch.length >= chunkSize) {
+        await flush();
       }
+    }
+
+    if (options.onProgress) {
+      options.onProgress(progress);
+    }
+  });
+
+  if (options.assembler) {
+    acceptAssembled(options.assembler.finish());
+  }
+  await flush();
+
+  return {
+    products,
+    issues,
+    report,
+    stats: {
+      totalRows,
+      processedRows,
+      skippedRows
+    }
+  };
+}
+
+/**
+ * Stream a CSV file's rows in the order they appear. The parser waits for each
+ * handler call to finish, so a slow handler holds back reading instead of
+ * letting rows pile up in memory. A handler returning false stops the read.
+ */
+async function streamCSVRows(
+  filePath: string,
+  format: CSVFileFormat,
+  skipLines: number,
+  onRows: RowBatchHandler
+): Promise<void> {
+  const { size } = await stat(filePath);
+  const decoder = new TextDecoder(format.encoding);
+  let bytesRead = 0;
+
+  const input = createReadStream(filePath);
+  const decode = new Transform({
+    transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+      bytesRead += chunk.length;
+      callback(null, decoder.decode(chunk, { stream: true }));
+    },
+    flush(callback: TransformCallback) {
+      callback(null, decoder.decode());
+    }
+  });
+
+  return new Promise<void>((resolve, reject) => {
+    let failed = false;
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      input.destroy();
+      reject(error instanceof Error ? error : new Error(String(error)));
+    };
+
+    input.on('error', fail);
+    decode.on('error', fail);
+
+    Papa.parse<Record<string, string>>(input.pipe(decode), {
+      header: true,
+      skipEmptyLines: true,
+      skipFirstNLines: skipLines,
+      delimiter: format.delimiter,
+      chunk: (results: Papa.ParseResult<Record<string, string>>, parser: Papa.Parser) => {
+        parser.pause();
+        const issues = results.errors.map(error => `Row ${error.row !== undefined ? error.row + 2 : '?'}: ${error.message}`);
+        Promise.resolve(onRows(results.data, results.meta.fields || [], issues, size > 0 ? bytesRead / size : 1))
+          .then(keepReading => {
+            if (keepReading === false) {
+              parser.abort();
+              input.destroy();
+            } else {
+              parser.resume();
+            }
+          })
+          .catch(error => {
+            parser.abort();
+            fail(error);
+          });
+      },
+      complete: () => {
+        if (!failed) resolve();
+      },
+      error: (error: Error) => fail(error)
     });
-    
-    stream
-      .pipe(transform)
-      .on('finish', () => {
-        resolve({
-          products,
-          issues,
-          stats: {
-            totalRows,
-            processedRows,
-            skippedRows,
-            encoding: format.encoding,
-            delimiter: format.delimiter
-          }
-        });
-      })
-      .on('error', (error: Error) => reject(error));
   });
 }
 
+async function readFileSample(filePath: string): Promise<Buffer> {
+  const file = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(FORMAT_SAMPLE_BYTES);
+    const { bytesRead } = await file.read(buffer, 0, FORMAT_SAMPLE_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+// A BOM or valid UTF-8 settles it; otherwise take the detector's guess if
+// TextDecoder can read it
+function detectEncoding(sample: Buffer): string {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  try {
+    // Streaming mode, since the sample may end partway through a character
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    // Not UTF-8; fall through to detection
+  }
+
+  const guess = detect(sample).encoding;
+  if (guess) {
+    try {
+      return new TextDecoder(guess).encoding;
+    } catch {
+      console.warn(`Unsupported CSV encoding ${guess}, reading the file as windows-1252`);
+    }
+  }
+  return 'windows-1252';
+}
+
 /**
  * Enhanced CSV parsing with support for multiple formats and large files
  */
@@ -229,8 +531,9 @@ export async function parseCSVWithAI(
                 }
               }
               
-              const product = mapCSVRowToProduct(row, fieldMappings);
-              if (product) {
+              const rowIssues: ImportFieldIssue[] = [];
+              const product = mapCSVRowToProduct(row, fieldMappings, rowIssues);
+              if (!rowIssues.some(issue => issue.severity === 'error')) {
                 products.push(product);
               }
             }
@@ -251,15 +554,16 @@ export async function parseCSVWithAI(
 }
 
 /**
- * Detects the most likely delimiter in a CSV string
+ * Detects the most likely delimiter in a CSV string from its first lines,
+ * ignoring delimiters inside quoted values
  */
 function detectDelimiter(csvString: string): string {
   const delimiters = [',', ';', '\t', '|'];
-  const lines = csvString.split('\n').slice(0, 5);
+  const lines = csvString.split('\n').filter(line => line.trim() !== '').slice(0, 5);
   
   const delimiterCounts = delimiters.map(d => ({
     delimiter: d,
-    count: lines.reduce((sum, line) => sum + (line.match(new RegExp(d, 'g')) || []).length, 0)
+    count: lines.reduce((sum, line) => sum + line.replace(/"[^"]*"/g, '').split(d).length - 1, 0)
   }));
   
   const mostCommon = delimiterCounts.reduce((max, curr) => 
@@ -302,12 +606,18 @@ function createFieldMappings(aiAnalysis: any, columnNames: string[]): Record<str
 
 /**
  * Maps a CSV row to a product object
+ * @param issues Receives the row's problems; a row with errors shouldn't be imported
  */
-function mapCSVRowToProduct(row: Record<string, string>, fieldMappings?: Record<string, string>): Product | null {
-  if (!row) return null;
-  
-  // Create product ID (use existing or generate new)
-  const productId = extractProductId(row) || generateRandomId();
+function mapCSVRowToProduct(
+  row: Record<string, string>,
+  fieldMappings?: Record<string, string>,
+  issues: ImportFieldIssue[] = []
+): Product {
+  // Never invented: a row without an ID can't be matched to its product again
+  const productId = extractProductId(row) || '';
+  if (!productId) {
+    issues.push({ code: 'missing_id', field: 'product_id', severity: 'error', message: 'No product ID or SKU' });
+  }
   
   // Initialize product object with required fields
   const product: Product = {
@@ -320,6 +630,10 @@ function mapCSVRowToProduct(row: Record<string, string>, fieldMappings?: Record<
     bullet_points: null,
     images: [],
     asin: null,
+    gtin: null,
+    attributes: null,
+    parent_id: null,
+    variation_theme: null,
     status: "pending",
     created_at: new Date(),
     updated_at: new Date()
@@ -337,6 +651,9 @@ function mapCSVRowToProduct(row: Record<string, string>, fieldMappings?: Record<
       const numericPrice = strValue.replace(/[^0-9.]/g, '');
       const price = parseFloat(numericPrice);
       product.price = isNaN(price) ? null : String(price);
+      if (isNaN(price)) {
+        issues.push({ code: 'invalid_price', field: 'price', severity: 'error', message: `Price "${strValue}" is not a number` });
+      }
     }
     else if (mappedField === 'images') {
       const imageUrls = strValue.split(/[,;]/).map(url => url.trim()).filter(url => url.length > 0);
@@ -351,13 +668,24 @@ function mapCSVRowToProduct(row: Record<string, string>, fieldMappings?: Record<
       }
     }
     else if (mappedField in product) {
-      const stringFields = ['product_id', 'title', 'description', 'brand', 'category', 'asin', 'material', 'color', 'status', 'price'];
+      const stringFields = ['product_id', 'title', 'description', 'brand', 'category', 'asin', 'gtin', 'material', 'color', 'status', 'price'];
       if (stringFields.includes(mappedField)) {
         (product as any)[mappedField] = strValue;
       }
     }
   }
   
+  // Keep only identifiers that pass validation; never invent one
+  for (const invalid of applyRowIdentifiers(product, row)) {
+    issues.push({
+      code: 'invalid_identifier',
+      field: invalid.type ? invalid.type.toLowerCase() : 'gtin',
+      severity: 'warning',
+      message: `${invalid.reason ?? `"${invalid.value}" is not a valid identifier`}; left out`
+    });
+  }
+  applyRowAttributes(product, row);
+  
   return product;
 }
 
@@ -403,22 +731,6 @@ function extractProductId(row: any): string | undefined {
   return undefined;
 }
 
-/**
- * Generates a random product ID
- * @returns Random product ID string
- */
-function generateRandomId(): string {
-  const prefix = 'PROD-';
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let id = '';
-  
-  for (let i = 0; i < 8; i++) {
-    id += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  
-  return `${prefix}${id}`;
-}
-
 /**
  * Generates a CSV string from product data
  * @param products Array of product objects
@@ -441,7 +753,7 @@ export function generateCSV(
   let fields: string[] = [];
   
   if (format === 'amazon') {
-    fields = ['product_id', 'title', 'description', 'bullet_points', 'brand', 'category', 'price', 'images', 'asin'];
+    fields = ['product_id', 'title', 'description', 'bullet_points', 'brand', 'category', 'price', 'images', 'asin', 'gtin'];
   } else if (format === 'ebay') {
     fields = ['product_id', 'title', 'description', 'bullet_points', 'brand', 'category', 'price', 'images'];
   } else if (format === 'etsy') {
@@ -450,13 +762,16 @@ export function generateCSV(
     // Standard format with all fields
     fields = [
       'product_id', 'title', 'description', 'price', 'brand', 'category',
-      'bullet_points', 'images', 'asin', 'status', 'created_at', 'updated_at'
+      'bullet_points', 'images', 'asin', 'gtin', 'parent_id', 'variation_theme',
+      'size', 'color', 'material', 'weight', 'dimensions', 'condition',
+      'status', 'created_at', 'updated_at'
     ];
   }
   
   // Convert products to format-specific rows
   const rows = products.map(product => {
     const row: Record<string, any> = {};
+    const attributes = attributeValues(product.attributes);
     
     fields.forEach(field => {
       // Special handling for arrays
@@ -465,7 +780,7 @@ export function generateCSV(
       } else if (field === 'images' && Array.isArray(product[field])) {
         row[field] = product[field].join(', ');
       } else {
-        row[field] = product[field] || '';
+        row[field] = product[field] || attributes[field] || '';
       }
     });
     
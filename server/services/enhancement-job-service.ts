@@ -0,0 +1,317 @@
+/**
+ * Enhancement Job Service
+ *
+ * Runs product enhancement in the background so large catalogs don't have
+ * to fit in one HTTP request. Jobs and per-product progress are persisted,
+ * which lets clients poll for progress and lets unfinished jobs resume
+ * after a server restart. Running jobs also publish per-product events
+ * that clients can subscribe to for live updates.
+ */
+
+import { EventEmitter } from 'events';
+import { EnhancementJob, EnhancementJobItem } from '@shared/schema';
+import { storage } from '../storage';
+import { mapWithConcurrency } from './llm';
+import {
+  enhanceWithFallback,
+  EnhancementEvent,
+  FallbackPolicy,
+  fallbackPolicySchema,
+  revisionSourceFor
+} from './provider-fallback-service';
+
+export type EnhancementJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface EnhancementJobProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  remaining: number;
+  percent: number;
+}
+
+export interface EnhancementJobDetails {
+  job: EnhancementJob;
+  items: EnhancementJobItem[];
+  progress: EnhancementJobProgress;
+}
+
+export type EnhancementJobEvent =
+  | EnhancementEvent
+  | { type: 'progress'; progress: EnhancementJobProgress }
+  | { type: 'finished'; job: EnhancementJob };
+
+export type EnhancementJobListener = (event: EnhancementJobEvent) => void;
+
+// Jobs waiting for the worker, processed one at a time in FIFO order
+const jobQueue: number[] = [];
+const cancelRequested = new Set<number>();
+let workerRunning = false;
+
+// Live job events, keyed by job ID
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+/**
+ * Create an enhancement job and queue it for processing
+ * @param productIds IDs of stored products to enhance, in processing order
+ * @param marketplace Target marketplace
+ * @param aiProvider Provider preference the policy was resolved from
+ * @param policy Provider fallback policy used for every product
+ */
+export async function createEnhancementJob(
+  productIds: string[],
+  marketplace: string,
+  aiProvider: string,
+  policy: FallbackPolicy
+): Promise<EnhancementJob> {
+  const job = await storage.createEnhancementJob({
+    status: 'queued',
+    marketplace,
+    ai_provider: aiProvider,
+    fallback_policy: policy
+  }, productIds);
+
+  console.log(`Created enhancement job ${job.id} for ${productIds.length} products`);
+  enqueueJob(job.id);
+  return job;
+}
+
+/**
+ * Get a job with its per-product progress
+ * @returns Job details, or null if the job doesn't exist
+ */
+export async function getEnhancementJobDetails(jobId: number): Promise<EnhancementJobDetails | null> {
+  const job = await storage.getEnhancementJob(jobId);
+  if (!job) return null;
+
+  const items = await storage.getEnhancementJobItems(jobId);
+  return { job, items, progress: summarizeProgress(items) };
+}
+
+/**
+ * Subscribe to live events for a job. Events are only published while the
+ * job runs, so fetch the job's details first to catch up on earlier progress.
+ * @returns A function that removes the listener
+ */
+export function subscribeToEnhancementJob(jobId: number, listener: EnhancementJobListener): () => void {
+  jobEvents.on(String(jobId), listener);
+  return () => {
+    jobEvents.off(String(jobId), listener);
+  };
+}
+
+/**
+ * Request cancellation of a job. Queued jobs stop immediately; a running
+ * job stops once the products it is currently enhancing have finished.
+ * @returns The updated job, or null if it doesn't exist
+ */
+export async function cancelEnhancementJob(jobId: number): Promise<EnhancementJob | null> {
+  const job = await storage.getEnhancementJob(jobId);
+  if (!job) return null;
+  if (isTerminal(job.status)) return job;
+
+  const queuedIndex = jobQueue.indexOf(jobId);
+  if (queuedIndex !== -1) {
+    jobQueue.splice(queuedIndex, 1);
+  }
+
+  if (job.status === 'running') {
+    cancelRequested.add(jobId);
+    return job;
+  }
+
+  return finishJob(jobId, 'cancelled');
+}
+
+/**
+ * Resume a cancelled or failed job, re-running every product that didn't complete
+ * @returns The updated job, or null if it doesn't exist
+ * @throws Error if the job is still in progress or already completed
+ */
+export async function resumeEnhancementJob(jobId: number): Promise<EnhancementJob | null> {
+  const job = await storage.getEnhancementJob(jobId);
+  if (!job) return null;
+
+  if (job.status !== 'cancelled' && job.status !== 'failed') {
+    throw new Error(`Only cancelled or failed jobs can be resumed (job ${jobId} is ${job.status})`);
+  }
+
+  await storage.resetEnhancementJobItems(jobId, ['cancelled', 'error', 'processing'], 'pending');
+  const updatedJob = await storage.updateEnhancementJob(jobId, { status: 'queued', error: null, finished_at: null });
+  enqueueJob(jobId);
+  return updatedJob;
+}
+
+/**
+ * Re-queue jobs that were queued or running when the server last stopped.
+ * Call once at startup.
+ */
+export async function resumeInterruptedEnhancementJobs(): Promise<void> {
+  const jobs = await storage.getEnhancementJobsByStatus(['queued', 'running']);
+
+  for (const job of jobs) {
+    console.log(`Resuming interrupted enhancement job ${job.id}`);
+    // Products that were mid-enhancement when the server stopped are redone
+    await storage.resetEnhancementJobItems(job.id, ['processing'], 'pending');
+    await storage.updateEnhancementJob(job.id, { status: 'queued' });
+    enqueueJob(job.id);
+  }
+}
+
+function enqueueJob(jobId: number): void {
+  if (!jobQueue.includes(jobId)) {
+    jobQueue.push(jobId);
+  }
+  void runWorker();
+}
+
+async function runWorker(): Promise<void> {
+  if (workerRunning) return;
+  workerRunning = true;
+
+  try {
+    while (jobQueue.length > 0) {
+      const jobId = jobQueue.shift()!;
+      try {
+        await processJob(jobId);
+      } catch (error) {
+        console.error(`Enhancement job ${jobId} failed:`, error);
+        await finishJob(jobId, 'failed', error instanceof Error ? error.message : 'Unknown error')
+          .catch(finishError => console.error(`Error marking job ${jobId} as failed:`, finishError));
+      }
+    }
+  } finally {
+    workerRunning = false;
+  }
+}
+
+async function processJob(jobId: number): Promise<void> {
+  const job = await storage.getEnhancementJob(jobId);
+  if (!job || job.status !== 'queued') return;
+
+  const policy = fallbackPolicySchema.parse(job.fallback_policy);
+  const items = await storage.getEnhancementJobItems(jobId);
+  const progress = summarizeProgress(items);
+
+  await storage.updateEnhancementJob(jobId, {
+    status: 'running',
+    started_at: job.started_at ?? new Date(),
+    completed_count: progress.completed,
+    failed_count: progress.failed
+  });
+  console.log(`Processing enhancement job ${jobId}: ${progress.remaining} of ${progress.total} products remaining`);
+
+  let completed = progress.completed;
+  let failed = progress.failed;
+
+  const recordOutcome = async () => {
+    await storage.updateEnhancementJob(jobId, { completed_count: completed, failed_count: failed });
+    publishProgress(jobId, items.length, completed, failed);
+  };
+
+  // Products run in parallel up to the policy's concurrency; provider calls
+  // are additionally limited by each provider's scheduler
+  const pendingItems = items.filter(item => item.status === 'pending');
+  await mapWithConcurrency(pendingItems, policy.concurrency, async (item) => {
+    // Items not yet started when cancellation is requested are left pending
+    if (cancelRequested.has(jobId)) return;
+
+    await storage.updateEnhancementJobItem(item.id, { status: 'processing' });
+
+    const product = await storage.getProductById(item.product_id);
+    if (!product) {
+      failed++;
+      await storage.updateEnhancementJobItem(item.id, { status: 'error', error: 'Product no longer exists' });
+      await recordOutcome();
+      return;
+    }
+
+    // The chain only sees one product, so report the item's position in the job instead
+    const { products: [enhanced], servedBy: [record] } = await enhanceWithFallback(
+      [product],
+      job.marketplace,
+      policy,
+      event => publish(jobId, { ...event, index: item.position })
+    );
+
+    if (record.provider) {
+      await storage.updateProducts([enhanced], revisionSourceFor(record));
+      completed++;
+      await storage.updateEnhancementJobItem(item.id, {
+        status: 'completed',
+        provider: record.provider,
+        model: record.model
+      });
+    } else {
+      failed++;
+      const lastError = record.attempts[record.attempts.length - 1]?.error;
+      await storage.updateEnhancementJobItem(item.id, {
+        status: 'error',
+        error: lastError?.message || 'All providers failed'
+      });
+    }
+
+    await recordOutcome();
+  });
+
+  // Write the final counts, since parallel updates can land out of order
+  await storage.updateEnhancementJob(jobId, { completed_count: completed, failed_count: failed });
+
+  if (cancelRequested.delete(jobId)) {
+    await finishJob(jobId, 'cancelled');
+    return;
+  }
+
+  await finishJob(jobId, 'completed');
+  console.log(`Enhancement job ${jobId} finished: ${completed} completed, ${failed} failed`);
+}
+
+async function finishJob(jobId: number, status: EnhancementJobStatus, error?: string): Promise<EnhancementJob | null> {
+  if (status === 'cancelled') {
+    await storage.resetEnhancementJobItems(jobId, ['pending', 'processing'], 'cancelled');
+  }
+
+  const job = await storage.updateEnhancementJob(jobId, {
+    status,
+    error: error ?? null,
+    finished_at: new Date()
+  });
+
+  if (job) {
+    publish(jobId, { type: 'finished', job });
+  }
+  return job;
+}
+
+function publish(jobId: number, event: EnhancementJobEvent): void {
+  jobEvents.emit(String(jobId), event);
+}
+
+function publishProgress(jobId: number, total: number, completed: number, failed: number): void {
+  publish(jobId, { type: 'progress', progress: buildProgress(total, completed, failed) });
+}
+
+function summarizeProgress(items: EnhancementJobItem[]): EnhancementJobProgress {
+  return buildProgress(
+    items.length,
+    items.filter(item => item.status === 'completed').length,
+    items.filter(item => item.status === 'error').length
+  );
+}
+
+function buildProgress(total: number, completed: number, failed: number): EnhancementJobProgress {
+  const done = completed + failed;
+
+  return {
+    total,
+    completed,
+    failed,
+    remaining: total - done,
+    percent: total === 0 ? 100 : Math.round((done / total) * 100)
+  };
+}
+
+function isTerminal(status: string): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
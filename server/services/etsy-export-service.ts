@@ -0,0 +1,240 @@
+/**
+ * Etsy Export Service
+ *
+ * Builds Etsy listing CSVs in the layout of Etsy's own listing export. Tags come
+ * from the SEO keywords, trimmed to Etsy's limits, materials from product
+ * attributes and the taxonomy ID from the bundled seller taxonomy. Variant
+ * families become one listing with up to two variations.
+ */
+
+import Papa from 'papaparse';
+import { Product } from '@shared/schema';
+import { EtsyWhenMade, EtsyWhoMade } from '@shared/export-fields';
+import { generateSEOKeywords } from './seo-keyword-service';
+import { groupVariantFamilies, variationAttributes, attributeValues } from './attribute-service';
+import { matchTaxonomyNode, TaxonomyNode } from './taxonomy-service';
+import type { ExportRowIssue } from './csv-service';
+import taxonomy from '../data/etsy-taxonomy.json';
+
+interface EtsyListing {
+  product: Product;
+  sku: string;
+  price: number | null;
+  images: string[];
+  variations: Array<{ type: string; values: string[] }>;
+}
+
+export interface EtsyExportOptions {
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  currency?: string;
+  // Etsy asks sellers to declare these; they aren't product data so nothing is assumed
+  whoMade?: EtsyWhoMade;
+  whenMade?: EtsyWhenMade;
+  isSupply?: boolean;
+  quantity?: number;
+}
+
+export const ETSY_MAX_TAGS = 13;
+export const ETSY_TAG_MAX_LENGTH = 20;
+const MAX_MATERIALS = 13;
+const MATERIAL_MAX_LENGTH = 45;
+const TITLE_MAX = 140;
+const MAX_IMAGES = 10;
+const MAX_VARIATIONS = 2;
+const MIN_PRICE = 0.2;
+
+const TAXONOMY_NODES: TaxonomyNode[] = taxonomy.nodes;
+
+const COLUMNS = [
+  'TITLE', 'DESCRIPTION', 'PRICE', 'CURRENCY_CODE', 'QUANTITY', 'TAGS', 'MATERIALS', 'TAXONOMY_ID',
+  'WHO_MADE', 'WHEN_MADE', 'IS_SUPPLY',
+  ...Array.from({ length: MAX_IMAGES }, (_, i) => `IMAGE${i + 1}`),
+  'VARIATION 1 TYPE', 'VARIATION 1 NAME', 'VARIATION 1 VALUES',
+  'VARIATION 2 TYPE', 'VARIATION 2 NAME', 'VARIATION 2 VALUES',
+  'SKU'
+];
+
+/**
+ * Generate an Etsy listing CSV
+ * @param products Products to export
+ * @param options Listing declarations and encoding options
+ * @returns CSV string
+ */
+export async function generateEtsyCSV(products: Product[], options: EtsyExportOptions = {}): Promise<string> {
+  const { includeHeaders = true, encodeUtf8 = true, currency = 'USD' } = options;
+  const rows: string[][] = [];
+
+  for (const listing of buildListings(products)) {
+    const { product } = listing;
+    const tags = await buildEtsyTags(product);
+    const variationCells = Array.from({ length: MAX_VARIATIONS }, (_, i) => {
+      const variation = listing.variations[i];
+      return variation ? [variation.type, variation.type, variation.values.join(',')] : ['', '', ''];
+    }).flat();
+
+    rows.push([
+      (product.title || '').substring(0, TITLE_MAX),
+      product.description || '',
+      listing.price === null ? '' : listing.price.toFixed(2),
+      currency,
+      String(options.quantity ?? 1),
+      tags.join(','),
+      buildEtsyMaterials(product).join(','),
+      String(findEtsyTaxonomyId(product.category) ?? ''),
+      options.whoMade || '',
+      options.whenMade || '',
+      options.isSupply === undefined ? '' : String(options.isSupply),
+      ...Array.from({ length: MAX_IMAGES }, (_, i) => listing.images[i] || ''),
+      ...variationCells,
+      listing.sku
+    ]);
+  }
+
+  const csv = Papa.unparse({ fields: COLUMNS, data: rows }, { header: includeHeaders });
+  return encodeUtf8 ? '\ufeff' + csv : csv;
+}
+
+/**
+ * Report the listings Etsy would reject, and why
+ * @param products Products to check
+ * @param options The declarations the file will be generated with
+ * @returns One entry per problem
+ */
+export async function validateEtsyListings(products: Product[], options: EtsyExportOptions = {}): Promise<ExportRowIssue[]> {
+  const issues: ExportRowIssue[] = [];
+
+  for (const listing of buildListings(products)) {
+    const { product } = listing;
+    const add = (field: string, severity: ExportRowIssue['severity'], message: string) =>
+      issues.push({ product_id: listing.sku, field, severity, message });
+
+    if (!product.title) add('title', 'error', 'Title is required');
+    else if (product.title.length > TITLE_MAX) {
+      add('title', 'warning', `Title is ${product.title.length} characters and will be cut to ${TITLE_MAX}`);
+    }
+    if (!product.description) add('description', 'error', 'Description is required');
+    if (listing.price === null || listing.price < MIN_PRICE) {
+      add('price', 'error', `Price must be at least ${MIN_PRICE.toFixed(2)}`);
+    }
+    if (listing.images.length === 0) add('images', 'error', 'At least one photo is required');
+    else if (listing.images.length > MAX_IMAGES) {
+      add('images', 'warning', `Only the first ${MAX_IMAGES} of ${listing.images.length} photos will be used`);
+    }
+    if (findEtsyTaxonomyId(product.category) === null) {
+      add('category', 'error', `No Etsy category matches "${product.category || ''}"`);
+    }
+    if (!options.whoMade) add('who_made', 'error', 'Who made the item must be declared');
+    if (!options.whenMade) add('when_made', 'error', 'When the item was made must be declared');
+    if (listing.variations.length < variationAttributes(product.variation_theme).length) {
+      add('variation_theme', 'warning', `Etsy allows ${MAX_VARIATIONS} variations; the rest are dropped`);
+    }
+
+    const tags = await buildEtsyTags(product);
+    if (tags.length === 0) add('tags', 'warning', 'No tags could be made; listings without tags are hard to find');
+  }
+
+  return issues;
+}
+
+/**
+ * Build up to 13 Etsy tags of at most 20 characters from the product's SEO keywords
+ * @param product Product to tag
+ * @returns Tags, most relevant first
+ */
+export async function buildEtsyTags(product: Product): Promise<string[]> {
+  const keywords = await generateSEOKeywords(product, 'etsy');
+  const attributes = attributeValues(product.attributes);
+  const candidates = [
+    ...keywords.primary,
+    ...keywords.longTail,
+    ...keywords.secondary,
+    ...['color', 'material', 'style', 'pattern'].map(key => attributes[key] || ''),
+    product.brand || ''
+  ];
+
+  const tags = new Map<string, string>();
+  for (const candidate of candidates) {
+    const tag = toEtsyText(candidate).toLowerCase();
+    // Long phrases can't be shortened without losing their meaning, so they're skipped
+    if (tag && tag.length <= ETSY_TAG_MAX_LENGTH && !tags.has(tag)) {
+      tags.set(tag, tag);
+    }
+    if (tags.size === ETSY_MAX_TAGS) break;
+  }
+
+  return Array.from(tags.values());
+}
+
+/**
+ * Split the product's material attribute into Etsy materials
+ */
+export function buildEtsyMaterials(product: Product): string[] {
+  const material = attributeValues(product.attributes).material || '';
+  const materials = material
+    .split(/[,;/&]|\band\b/i)
+    .map(part => toEtsyText(part.replace(/\d+\s*%/g, '')))
+    .filter(part => part && part.length <= MATERIAL_MAX_LENGTH);
+
+  return Array.from(new Set(materials)).slice(0, MAX_MATERIALS);
+}
+
+/**
+ * Map a category to an Etsy taxonomy ID using the bundled taxonomy
+ * @param category Our category, or an Etsy taxonomy ID
+ * @returns Taxonomy ID, or null when nothing matches
+ */
+export function findEtsyTaxonomyId(category: string | null | undefined): number | null {
+  if (!category) return null;
+  // Already an Etsy taxonomy ID, possibly deeper than the bundled nodes
+  if (/^\d+$/.test(category.trim())) return Number(category.trim());
+
+  return matchTaxonomyNode(category, TAXONOMY_NODES)?.id ?? null;
+}
+
+// One listing per family: variant values become the variation options
+function buildListings(products: Product[]): EtsyListing[] {
+  return groupVariantFamilies(products).map(family => {
+    if (family.variants.length === 0) {
+      const product = family.parent!;
+      return {
+        product,
+        sku: product.product_id,
+        price: priceOf(product),
+        images: product.images || [],
+        variations: []
+      };
+    }
+
+    const main = family.parent ?? family.variants[0];
+    const theme = variationAttributes(main.variation_theme || family.variants[0].variation_theme);
+    const prices = family.variants.map(priceOf).filter((price): price is number => price !== null);
+    const images = [main, ...family.variants].flatMap(product => product.images || []);
+
+    return {
+      product: main,
+      sku: family.key,
+      price: prices.length > 0 ? Math.min(...prices) : priceOf(main),
+      images: Array.from(new Set(images.filter(Boolean))),
+      variations: theme.slice(0, MAX_VARIATIONS).map(key => ({
+        type: key.charAt(0).toUpperCase() + key.slice(1),
+        values: Array.from(new Set(
+          family.variants.map(variant => toEtsyText(attributeValues(variant.attributes)[key] || '')).filter(Boolean)
+        ))
+      }))
+    };
+  });
+}
+
+function priceOf(product: Product): number | null {
+  const price = Number(product.price);
+  return product.price && !Number.isNaN(price) ? price : null;
+}
+
+// Etsy only accepts letters, numbers, spaces, hyphens and apostrophes in tags and materials
+function toEtsyText(text: string): string {
+  return text
+    .replace(/[^a-zA-Z0-9\u00C0-\u024F\s'-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
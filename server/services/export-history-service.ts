@@ -0,0 +1,176 @@
+/**
+ * Export History Service
+ *
+ * Stores each generated export with the products it contained, so the file
+ * can be downloaded again, compared with another export, or regenerated from
+ * the current product data with the same settings.
+ */
+
+import Papa from 'papaparse';
+import { ExportHistoryItem, Product } from '@shared/schema';
+import { storage } from '../storage';
+import { generateCSV, getExportFileType, MarketplaceExportOptions } from './csv-service';
+import { diffList, ListItemDiff } from './listing-diff-service';
+import { readWorkbookSheets } from './workbook-service';
+
+export interface ExportSettings {
+  marketplace: string;
+  format: string;
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  options?: MarketplaceExportOptions;
+}
+
+export interface StoredExport {
+  record: ExportHistoryItem;
+  content: string | Buffer;
+}
+
+export interface ExportComparison {
+  before: { id: number; format: string; timestamp: Date };
+  after: { id: number; format: string; timestamp: Date };
+  products: { added: string[]; removed: string[]; kept: number };
+  // Changed lines only; null when the files are too long to diff line by line
+  lines: ListItemDiff[] | null;
+  summary: { added: number; removed: number; changed: number; unchanged: number } | null;
+}
+
+// The line diff's LCS table grows with the product of both line counts
+const MAX_DIFF_LINES = 3000;
+
+/**
+ * Generate an export file and store it with its settings and product links
+ * @param products Products to export
+ * @param settings Format, marketplace and generation options
+ * @param rerunOf The export this one re-runs, if any
+ * @returns The saved history record and the file content
+ */
+export async function createExport(
+  products: Product[],
+  settings: ExportSettings,
+  rerunOf?: number
+): Promise<StoredExport> {
+  const { marketplace, format, includeHeaders = true, encodeUtf8 = true, options = {} } = settings;
+  const content = await generateCSV(products, format, includeHeaders, encodeUtf8, options);
+  const fileType = getExportFileType(format);
+  const baseName = (marketplace || 'products').toLowerCase().replace(/\s+/g, '_');
+
+  const record = await storage.saveExportHistory({
+    marketplace,
+    format,
+    product_count: products.length,
+    timestamp: new Date(),
+    file_name: `${baseName}_products.${fileType.extension}`,
+    content_type: fileType.contentType,
+    file_data: toBuffer(content).toString('base64'),
+    options: { includeHeaders, encodeUtf8, ...options },
+    rerun_of: rerunOf ?? null
+  }, products.map(product => product.product_id));
+
+  return { record, content };
+}
+
+/**
+ * Regenerate a stored export from the current data of the products it contained
+ * @param exportId Export to re-run
+ * @returns The new export, or null if the original doesn't exist or none of its products remain
+ */
+export async function rerunExport(exportId: number): Promise<StoredExport | null> {
+  const record = await storage.getExport(exportId);
+  if (!record) return null;
+
+  const productIds = await storage.getExportProductIds(exportId);
+  const products = sortByIds(await storage.getProductsByIds(productIds), productIds);
+  if (products.length === 0) return null;
+
+  return createExport(products, exportSettings(record), record.id);
+}
+
+/**
+ * The settings an export was generated with, in the form createExport takes
+ */
+export function exportSettings(record: ExportHistoryItem): ExportSettings {
+  const { includeHeaders, encodeUtf8, ...options } = record.options ?? {};
+  return {
+    marketplace: record.marketplace,
+    format: record.format,
+    includeHeaders,
+    encodeUtf8,
+    options
+  };
+}
+
+/**
+ * The stored file of an export
+ * @returns File content, or null for exports made before files were stored
+ */
+export function exportFile(record: ExportHistoryItem): Buffer | null {
+  return record.file_data ? Buffer.from(record.file_data, 'base64') : null;
+}
+
+/**
+ * Compare two stored exports: which products were added or dropped, and
+ * which lines of the files changed
+ * @param beforeId The earlier export
+ * @param afterId The later export
+ * @returns The comparison, or null if either export doesn't exist
+ */
+export async function compareExports(beforeId: number, afterId: number): Promise<ExportComparison | null> {
+  const [before, after] = await Promise.all([storage.getExport(beforeId), storage.getExport(afterId)]);
+  if (!before || !after) return null;
+
+  const [beforeIds, afterIds] = await Promise.all([
+    storage.getExportProductIds(beforeId),
+    storage.getExportProductIds(afterId)
+  ]);
+  const beforeSet = new Set(beforeIds);
+  const afterSet = new Set(afterIds);
+
+  const [beforeLines, afterLines] = await Promise.all([fileLines(before), fileLines(after)]);
+  const comparable = beforeLines.length <= MAX_DIFF_LINES && afterLines.length <= MAX_DIFF_LINES;
+  const items = comparable ? diffList(beforeLines, afterLines) : null;
+
+  return {
+    before: { id: before.id, format: before.format, timestamp: before.timestamp },
+    after: { id: after.id, format: after.format, timestamp: after.timestamp },
+    products: {
+      added: afterIds.filter(id => !beforeSet.has(id)),
+      removed: beforeIds.filter(id => !afterSet.has(id)),
+      kept: afterIds.filter(id => beforeSet.has(id)).length
+    },
+    lines: items ? items.filter(item => item.type !== 'unchanged') : null,
+    summary: items ? {
+      added: items.filter(item => item.type === 'added').length,
+      removed: items.filter(item => item.type === 'removed').length,
+      changed: items.filter(item => item.type === 'changed').length,
+      unchanged: items.filter(item => item.type === 'unchanged').length
+    } : null
+  };
+}
+
+// Text lines of a stored file; workbooks are compared sheet by sheet as CSV
+async function fileLines(record: ExportHistoryItem): Promise<string[]> {
+  const file = exportFile(record);
+  if (!file) return [];
+
+  let text: string;
+  if (getExportFileType(record.format).extension === 'xlsx') {
+    const sheets = await readWorkbookSheets(file);
+    text = sheets
+      .map(sheet => `# ${sheet.name}\n${Papa.unparse(sheet.rows.map(row => row.map(cell => cell === null ? '' : String(cell))))}`)
+      .join('\n');
+  } else {
+    text = file.toString('utf8').replace(/^\ufeff/, '');
+  }
+
+  return text.split(/\r?\n/).filter(line => line.trim() !== '');
+}
+
+function toBuffer(content: string | Buffer): Buffer {
+  return typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+}
+
+function sortByIds(products: Product[], productIds: string[]): Product[] {
+  const byId = new Map(products.map(product => [product.product_id, product]));
+  return productIds.map(id => byId.get(id)).filter((product): product is Product => Boolean(product));
+}
@@ -0,0 +1,210 @@
+/**
+ * Export Profile Service
+ *
+ * Column-mapping profiles describe a CSV layout as data: each column takes a
+ * field, a template or a constant, with optional list joining, transforms and
+ * a length limit. The built-in layouts are profiles too; users add their own
+ * in the database, so a new channel doesn't need an exporter of its own.
+ */
+
+import Papa from 'papaparse';
+import { z } from 'zod';
+import { ExportColumnTransform, ExportProfileColumn, Product } from '@shared/schema';
+import { LIST_SEPARATOR } from '@shared/export-fields';
+import { storage } from '../storage';
+import { attributeValues } from './attribute-service';
+import { resolveProductIdentifier } from './identifier-service';
+
+export interface ExportProfileDefinition {
+  name: string;
+  description?: string | null;
+  columns: ExportProfileColumn[];
+}
+
+export interface ProfileExportOptions {
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  quoteAll?: boolean;
+}
+
+export const EXPORT_COLUMN_TRANSFORMS: [ExportColumnTransform, ...ExportColumnTransform[]] = [
+  'strip_html', 'uppercase', 'lowercase', 'title_case', 'trim', 'collapse_whitespace'
+];
+
+// Formats that select a stored profile look like "profile:12"
+export const PROFILE_FORMAT_PREFIX = 'profile:';
+
+export const exportProfileColumnSchema = z.object({
+  header: z.string().trim().min(1, 'Column header is required'),
+  source: z.string().trim().min(1).optional(),
+  expression: z.string().min(1).optional(),
+  constant: z.string().optional(),
+  join: z.string().optional(),
+  maxLength: z.number().int().positive().optional(),
+  transforms: z.array(z.enum(EXPORT_COLUMN_TRANSFORMS)).optional()
+}).refine(
+  column => [column.source, column.expression, column.constant].filter(value => value !== undefined).length === 1,
+  { message: 'Each column needs exactly one of source, expression or constant' }
+);
+
+export const exportProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Profile name is required'),
+  description: z.string().nullish(),
+  columns: z.array(exportProfileColumnSchema).min(1, 'A profile needs at least one column')
+});
+
+const bullet = (index: number): ExportProfileColumn => ({ header: `bullet_point${index + 1}`, source: `bullet_points[${index}]` });
+
+// The layouts that used to be hard-coded, kept under their original format names
+export const BUILT_IN_EXPORT_PROFILES: Record<string, ExportProfileDefinition> = {
+  standard_csv: {
+    name: 'Standard CSV',
+    description: 'Every product field, lists separated by semicolons',
+    columns: [
+      'product_id', 'title', 'description', 'price', 'brand', 'category', 'bullet_points', 'images', 'asin', 'gtin',
+      'parent_id', 'variation_theme', 'size', 'color', 'material', 'weight', 'dimensions', 'condition'
+    ].map(field => ({ header: field, source: field, join: ';' }))
+  },
+  amazon_seller: {
+    name: 'Amazon Seller',
+    description: 'Product content columns for Seller Central',
+    columns: ['product_id', 'asin', 'title', 'description', 'bullet_points', 'brand', 'category', 'price', 'images']
+      .map(field => ({ header: field, source: field, join: ';' }))
+  },
+  amazon_vendor: {
+    name: 'Amazon Vendor',
+    description: 'Vendor Central layout with one column per bullet point',
+    columns: [
+      { header: 'product_id', source: 'product_id' },
+      { header: 'asin', source: 'identifier.asin' },
+      { header: 'item_name', source: 'title' },
+      { header: 'product_description', source: 'description' },
+      ...Array.from({ length: 5 }, (_, index) => bullet(index)),
+      { header: 'brand_name', source: 'brand' },
+      { header: 'department', source: 'category' },
+      { header: 'standard_price', source: 'price' },
+      { header: 'main_image_url', source: 'images[0]' }
+    ]
+  }
+};
+
+/**
+ * Find the profile an export format refers to
+ * @param format A built-in profile name or "profile:<id>"
+ * @returns The profile, or null when the format names none
+ */
+export async function resolveExportProfile(format: string): Promise<ExportProfileDefinition | null> {
+  if (format.startsWith(PROFILE_FORMAT_PREFIX)) {
+    const profileId = parseInt(format.slice(PROFILE_FORMAT_PREFIX.length));
+    return isNaN(profileId) ? null : storage.getExportProfile(profileId);
+  }
+  return BUILT_IN_EXPORT_PROFILES[format] ?? null;
+}
+
+/**
+ * Generate a CSV laid out by a profile
+ * @param products Products to export
+ * @param columns The profile's columns
+ * @param options Formatting options
+ * @returns CSV string
+ */
+export function generateProfileExport(
+  products: Product[],
+  columns: ExportProfileColumn[],
+  options: ProfileExportOptions = {}
+): string {
+  const { includeHeaders = true, encodeUtf8 = true, quoteAll = false } = options;
+
+  const csv = Papa.unparse({
+    fields: columns.map(column => column.header),
+    data: products.map(product => columns.map(column => profileCellValue(product, column)))
+  }, {
+    header: includeHeaders,
+    quotes: quoteAll
+  });
+
+  return encodeUtf8 ? '\ufeff' + csv : csv;
+}
+
+/**
+ * One column's value for a product
+ */
+export function profileCellValue(product: Product, column: ExportProfileColumn): string {
+  const join = column.join ?? LIST_SEPARATOR;
+  let value: string;
+
+  if (column.constant !== undefined) {
+    value = column.constant;
+  } else if (column.expression !== undefined) {
+    value = column.expression.replace(/\{([^{}]+)\}/g, (_, path: string) => toText(sourceValue(product, path.trim()), join));
+  } else {
+    value = toText(sourceValue(product, column.source || ''), join);
+  }
+
+  for (const transform of column.transforms || []) {
+    value = applyTransform(value, transform);
+  }
+
+  return column.maxLength && value.length > column.maxLength ? value.substring(0, column.maxLength).trimEnd() : value;
+}
+
+// Resolve a path like title, attributes.color, bullet_points[0] or identifier.gtin.
+// A bare name that isn't a product field is looked up in the attributes.
+function sourceValue(product: Product, path: string): unknown {
+  const [head, ...rest] = path.match(/[^.[\]]+/g) || [];
+  if (!head) return null;
+
+  let value: unknown;
+  if (head === 'identifier') {
+    const type = rest.shift();
+    value = type === 'asin' ? resolveProductIdentifier({ asin: product.asin })?.value ?? null
+      : type === 'gtin' ? resolveProductIdentifier({ gtin: product.gtin })?.value ?? null
+      : null;
+  } else if (head === 'attributes') {
+    value = attributeValues(product.attributes)[rest.shift() || ''];
+  } else {
+    const field = (product as Record<string, unknown>)[head];
+    value = field === undefined || field === null ? attributeValues(product.attributes)[head] : field;
+  }
+
+  for (const key of rest) {
+    if (value === null || value === undefined) return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+function toText(value: unknown, join: string): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.filter(item => item !== null && item !== '').map(String).join(join);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function applyTransform(value: string, transform: ExportColumnTransform): string {
+  switch (transform) {
+    case 'strip_html':
+      return value
+        .replace(/<(br|\/p|\/li|\/div)\s*\/?>/gi, ' ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'title_case':
+      return value.toLowerCase().replace(/(^|[\s-])([a-z])/g, (_, start: string, letter: string) => start + letter.toUpperCase());
+    case 'trim':
+      return value.trim();
+    case 'collapse_whitespace':
+      return value.replace(/\s+/g, ' ').trim();
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Export Share Service
+ *
+ * Signed, expiring download links for stored exports, so a file can be handed
+ * to someone without giving them access to the app. The signature covers the
+ * link, its export and its expiry, so links can't be guessed or extended; the
+ * database record adds revocation and download counting.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ExportHistoryItem, ExportShareLink } from '@shared/schema';
+import { storage } from '../storage';
+
+export type SharedDownloadResult =
+  | { status: 'ok'; record: ExportHistoryItem; link: ExportShareLink }
+  | { status: 'invalid' | 'expired' | 'revoked' | 'unavailable' };
+
+export interface ShareLinkWithPath extends ExportShareLink {
+  path: string;
+  active: boolean;
+}
+
+export const DEFAULT_LINK_HOURS = 72;
+export const MAX_LINK_HOURS = 30 * 24;
+
+let generatedSecret: string | null = null;
+
+/**
+ * Create a share link for a stored export
+ * @param exportId Export to share
+ * @param expiresInHours How long the link works; clamped to 1 hour to 30 days
+ * @param label Who the link is for
+ * @returns The link, or null if the export doesn't exist or has no stored file
+ */
+export async function createShareLink(
+  exportId: number,
+  expiresInHours: number = DEFAULT_LINK_HOURS,
+  label?: string
+): Promise<ShareLinkWithPath | null> {
+  const record = await storage.getExport(exportId);
+  if (!record || !record.file_data) return null;
+
+  const hours = Math.min(Math.max(Number(expiresInHours) || DEFAULT_LINK_HOURS, 1), MAX_LINK_HOURS);
+  // Whole seconds, since that's what the URL carries
+  const expiresAt = new Date(Math.floor((Date.now() + hours * 60 * 60 * 1000) / 1000) * 1000);
+  const link = await storage.createShareLink(exportId, expiresAt, label?.trim());
+
+  return withPath(link);
+}
+
+/**
+ * An export's share links, newest first, with their URLs
+ */
+export async function listShareLinks(exportId: number): Promise<ShareLinkWithPath[]> {
+  const links = await storage.getShareLinks(exportId);
+  return links.map(withPath);
+}
+
+/**
+ * Check a shared download request and count the download if it's allowed
+ * @param linkId Link ID from the URL
+ * @param expires Expiry from the URL, in Unix seconds
+ * @param signature Signature from the URL
+ * @returns The export to send, or why the download was refused
+ */
+export async function redeemShareLink(linkId: number, expires: string, signature: string): Promise<SharedDownloadResult> {
+  const link = await storage.getShareLink(linkId);
+  if (!link || !signatureMatches(sign(link.id, link.export_id, expires), signature)) {
+    return { status: 'invalid' };
+  }
+  // The signed expiry must be the one on record, not just any validly signed value
+  if (Number(expires) !== unixSeconds(link.expires_at)) return { status: 'invalid' };
+  if (link.revoked_at) return { status: 'revoked' };
+  if (link.expires_at.getTime() <= Date.now()) return { status: 'expired' };
+
+  const record = await storage.getExport(link.export_id);
+  if (!record || !record.file_data) return { status: 'unavailable' };
+
+  const counted = await storage.recordShareLinkDownload(link.id);
+  if (!counted) return { status: 'revoked' };
+
+  return { status: 'ok', record, link: counted };
+}
+
+function withPath(link: ExportShareLink): ShareLinkWithPath {
+  const expires = String(unixSeconds(link.expires_at));
+  const query = new URLSearchParams({ expires, signature: sign(link.id, link.export_id, expires) });
+
+  return {
+    ...link,
+    path: `/api/shared-exports/${link.id}?${query.toString()}`,
+    active: !link.revoked_at && link.expires_at.getTime() > Date.now()
+  };
+}
+
+function sign(linkId: number, exportId: number, expires: string): string {
+  return createHmac('sha256', signingSecret())
+    .update(`${linkId}:${exportId}:${expires}`)
+    .digest('base64url');
+}
+
+function signatureMatches(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual || '');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function unixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+// Without a configured secret, links only work until the server restarts
+function signingSecret(): string {
+  if (process.env.EXPORT_LINK_SECRET) return process.env.EXPORT_LINK_SECRET;
+  if (!generatedSecret) {
+    console.warn('EXPORT_LINK_SECRET is not set; shared export links will stop working when the server restarts');
+    generatedSecret = randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+}
@@ -0,0 +1,72 @@
+/**
+ * Field Export Service
+ *
+ * Writes plain exports with the columns the user picked, in their order, as
+ * CSV, TSV, JSON, NDJSON or XLSX. Values come from the shared export field
+ * definitions the export page previews with.
+ */
+
+import Papa from 'papaparse';
+import { Product } from '@shared/schema';
+import { ExportFileFormat, exportCellValue, exportFieldValue, normalizeExportFields } from '@shared/export-fields';
+import { writeWorkbook } from './workbook-service';
+
+export interface FieldExportOptions {
+  fields?: string[];
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  // Quote every CSV cell rather than only those that need it
+  quoteAll?: boolean;
+}
+
+/**
+ * Generate a plain export of the selected fields
+ * @param products Products to export
+ * @param format File format
+ * @param options Field selection and formatting options
+ * @returns File content; XLSX is binary
+ */
+export async function generateFieldExport(
+  products: Product[],
+  format: ExportFileFormat,
+  options: FieldExportOptions = {}
+): Promise<string | Buffer> {
+  const { includeHeaders = true, encodeUtf8 = true, quoteAll = false } = options;
+  const fields = normalizeExportFields(options.fields);
+  const withBom = (content: string) => encodeUtf8 ? '\ufeff' + content : content;
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(products.map(product => toRecord(product, fields)), null, 2);
+    case 'ndjson':
+      return products.map(product => JSON.stringify(toRecord(product, fields)) + '\n').join('');
+    case 'tsv': {
+      const rows = products.map(product => fields.map(field => toTsvCell(exportCellValue(product, field))));
+      const lines = includeHeaders ? [fields, ...rows] : rows;
+      return withBom(lines.map(line => line.join('\t')).join('\n'));
+    }
+    case 'xlsx': {
+      const rows = products.map(product => fields.map(field => exportCellValue(product, field)));
+      return writeWorkbook([{ name: 'Products', rows: includeHeaders ? [fields, ...rows] : rows }]);
+    }
+    default: {
+      const csv = Papa.unparse({
+        fields,
+        data: products.map(product => fields.map(field => exportCellValue(product, field)))
+      }, {
+        header: includeHeaders,
+        quotes: quoteAll
+      });
+      return withBom(csv);
+    }
+  }
+}
+
+function toRecord(product: Product, fields: string[]): Record<string, string | string[] | null> {
+  return Object.fromEntries(fields.map(field => [field, exportFieldValue(product, field)]));
+}
+
+// TSV has no quoting, so tabs and line breaks inside a value become spaces
+function toTsvCell(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
@@ -1,4 +1,6 @@
 import { getMarketplaceGuidelines } from './smart-prompts';
+import { validateIdentifier } from './identifier-service';
+import { attributeValues } from './attribute-service';
 
 interface ValidationIssue {
   field: string;
@@ -70,9 +72,22 @@ export async function validateProductFields(
     score -= priceIssues.length * 5;
   }
   
-  // Validate attributes
+  const identifierIssues = validateIdentifiers(product, marketplace);
+  issues.push(...identifierIssues);
+  score -= identifierIssues.filter(issue => issue.type === 'error').length * 10;
+  if (identifierIssues.some(issue => issue.type === 'error' && issue.message.startsWith('Missing'))) {
+    missingFields.push('product_identifier');
+  }
+  
+  // Validate attributes, counting brand and category as attributes too
   if (product.attributes) {
-    const attributeIssues = validateAttributes(product.attributes, marketplace);
+    const attributeIssues = validateAttributes({
+      ...attributeValues(product.attributes),
+      brand: product.brand,
+      vendor: product.brand,
+      category: product.category,
+      product_type: product.category
+    }, marketplace);
     issues.push(...attributeIssues);
     score -= attributeIssues.length * 2;
   }
@@ -215,6 +230,45 @@ function validatePrice(price: string | number, marketplace: string): ValidationI
   return issues;
 }
 
+function validateIdentifiers(product: any, marketplace: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  
+  if (product.asin) {
+    const check = validateIdentifier(product.asin, 'ASIN');
+    if (!check.valid) {
+      issues.push({
+        field: 'asin',
+        type: 'error',
+        message: check.reason || 'Invalid ASIN',
+        recommendation: 'Use the ASIN shown on the Amazon product page, or leave it blank'
+      });
+    }
+  }
+  
+  if (product.gtin) {
+    const check = validateIdentifier(product.gtin, 'GTIN');
+    if (!check.valid) {
+      issues.push({
+        field: 'gtin',
+        type: 'error',
+        message: check.reason || 'Invalid GTIN',
+        recommendation: 'Copy the UPC, EAN or ISBN from the product packaging'
+      });
+    }
+  }
+  
+  if (!product.asin && !product.gtin && requiresProductIdentifier(marketplace)) {
+    issues.push({
+      field: 'gtin',
+      type: marketplace.toLowerCase() === 'amazon' ? 'error' : 'warning',
+      message: 'Missing product identifier (UPC, EAN, GTIN, ISBN or ASIN)',
+      recommendation: 'Add the barcode number from the manufacturer, or apply for a GTIN exemption'
+    });
+  }
+  
+  return issues;
+}
+
 function validateAttributes(attributes: Record<string, any>, marketplace: string): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
   const requiredAttributes = getRequiredAttributes(marketplace);
@@ -320,6 +374,16 @@ function getImageRequirements(marketplace: string): { min: number; max: number }
   }
 }
 
+function requiresProductIdentifier(marketplace: string): boolean {
+  switch (marketplace.toLowerCase()) {
+    case 'amazon': return true;
+    case 'walmart': return true;
+    case 'ebay': return true;
+    case 'google': return true;
+    default: return false;
+  }
+}
+
 function getRequiredAttributes(marketplace: string): string[] {
   switch (marketplace.toLowerCase()) {
     case 'amazon': return ['brand', 'category', 'condition'];
@@ -0,0 +1,623 @@
+/**
+ * File Import Service
+ *
+ * Reads supplier files that aren't CSV - Excel workbooks, JSON and NDJSON
+ * dumps and XML catalogs - as rows of named columns, so they go through the
+ * same column mapping review and chunked import as CSV files. Nested values
+ * become dotted column names ("dimensions.width") and repeated ones are
+ * joined with semicolons, as list columns are in CSV files.
+ */
+
+import sax from 'sax';
+import { createReadStream } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import { IMPORT_FILE_TYPES, ImportFileType, MarketplaceFormat } from '@shared/import-fields';
+import {
+  CSVProcessingOptions,
+  RowBatchHandler,
+  RowProcessingResult,
+  RowStreamer,
+  detectFileEncoding,
+  processCSVFile,
+  processRowStream,
+  readCSVPreview
+} from './enhanced-csv-service';
+import {
+  AMAZON_TEMPLATE_HEADER_ROW,
+  createMarketplaceAssembler,
+  detectMarketplaceFormat,
+  isAmazonTemplateBanner
+} from './marketplace-import-service';
+import { streamWorkbookSheet, WorkbookCell, WorkbookScan } from './workbook-service';
+
+export type { ImportFileType };
+
+// Which part of the file holds the products
+export interface ImportSource {
+  type: ImportFileType;
+  // Worksheet to read; the first sheet by default
+  sheet?: string | null;
+  // Where the records are: dotted keys to an array in JSON, or the slash
+  // separated path of the repeated element in XML. Detected by default.
+  recordPath?: string | null;
+  // Rows above the header row in CSV files and worksheets
+  headerRow?: number | null;
+  // Read as this marketplace's export instead of through a column mapping
+  marketplace?: MarketplaceFormat | null;
+}
+
+export interface ImportFilePreview {
+  type: ImportFileType;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  // Null unless the rows were counted
+  rowCount: number | null;
+  encoding: string | null;
+  delimiter: string | null;
+  // Worksheets in the workbook, and the one read
+  sheets: string[];
+  sheet: string | null;
+  // Places records could be read from, and the one read
+  recordPaths: string[];
+  recordPath: string | null;
+  headerRow: number;
+  // The marketplace whose export layout the headers match, if any
+  marketplace: MarketplaceFormat | null;
+}
+
+export interface ImportProcessingResult extends RowProcessingResult {
+  stats: RowProcessingResult['stats'] & {
+    encoding: string | null;
+    delimiter: string | null;
+  };
+}
+
+/**
+ * A file that can't be read as the import asked, e.g. a missing worksheet
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+// Rows read for column names; later rows rarely add new ones
+const HEADER_SCAN_ROWS = 1000;
+// Rows handed on at a time from formats that are read whole
+const ROW_BATCH_SIZE = 500;
+// How much of an XML file is read to find its repeated records
+const XML_SCAN_BYTES = 1024 * 1024;
+// How deep into a JSON document arrays of records are looked for
+const JSON_SEARCH_DEPTH = 4;
+
+/**
+ * The kind of file an upload is, from its name
+ * @returns The file type, or null if it isn't one that can be imported
+ */
+export function importFileType(fileName: string): ImportFileType | null {
+  const match = /\.([^.]+)$/.exec(fileName);
+  return match ? IMPORT_FILE_TYPES[match[1].toLowerCase()] ?? null : 'csv';
+}
+
+/**
+ * Read a file's columns and first rows for the mapping review, settling which
+ * sheet or record path the import will read
+ * @param filePath File to read
+ * @param source File type, with the sheet or record path if one was chosen
+ * @param sampleSize Number of rows to return
+ * @param countRows Whether to read the whole file to count its rows
+ */
+export async function readImportPreview(
+  filePath: string,
+  source: ImportSource,
+  sampleSize: number = 5,
+  countRows: boolean = false
+): Promise<ImportFilePreview> {
+  const preview: ImportFilePreview = {
+    type: source.type,
+    headers: [],
+    sampleRows: [],
+    rowCount: null,
+    encoding: null,
+    delimiter: null,
+    sheets: [],
+    sheet: null,
+    recordPaths: [],
+    recordPath: null,
+    headerRow: source.headerRow ?? 0,
+    marketplace: null
+  };
+
+  switch (source.type) {
+    case 'csv':
+    case 'xlsx': {
+      const table = await readTablePreview(filePath, source, preview, sampleSize, countRows);
+      // Amazon templates have their headers below a banner and a row of labels
+      if (source.headerRow == null && isAmazonTemplateBanner(table.headers)) {
+        return readImportPreview(filePath, { ...source, headerRow: AMAZON_TEMPLATE_HEADER_ROW }, sampleSize, countRows);
+      }
+      return { ...table, marketplace: detectMarketplaceFormat(table.headers) };
+    }
+
+    case 'json': {
+      const document = await readJSONFile(filePath);
+      preview.encoding = document.encoding;
+      preview.recordPaths = jsonRecordPaths(document.value);
+      preview.recordPath = source.recordPath || preview.recordPaths[0] || null;
+      const rows = jsonRowStreamer(document.value, preview.recordPath);
+      return { ...preview, ...(await previewRows(rows, sampleSize, countRows)) };
+    }
+
+    case 'ndjson': {
+      preview.encoding = await detectFileEncoding(filePath);
+      const rows = ndjsonRowStreamer(filePath, preview.encoding);
+      return { ...preview, ...(await previewRows(rows, sampleSize, countRows)) };
+    }
+
+    case 'xml': {
+      preview.encoding = await detectFileEncoding(filePath);
+      preview.recordPaths = await xmlRecordPaths(filePath, preview.encoding);
+      preview.recordPath = source.recordPath || preview.recordPaths[0] || null;
+      if (!preview.recordPath) {
+        throw new ImportFileError('No repeated elements were found to import as products');
+      }
+      const rows = xmlRowStreamer(filePath, preview.encoding, preview.recordPath);
+      return { ...preview, ...(await previewRows(rows, sampleSize, countRows)) };
+    }
+  }
+}
+
+/**
+ * Turn a file's rows into products, as processCSVFile does for CSV files
+ * @param filePath File to read
+ * @param source File type, with the sheet or record path to read
+ * @param options Mapping, batching and progress options
+ */
+export async function processImportFile(
+  filePath: string,
+  source: ImportSource,
+  options: CSVProcessingOptions = {}
+): Promise<ImportProcessingResult> {
+  // Marketplace exports are read by their own layout rather than the column mapping
+  const processing: CSVProcessingOptions = {
+    ...options,
+    skipLines: source.headerRow ?? 0,
+    assembler: source.marketplace ? createMarketplaceAssembler(source.marketplace) : options.assembler
+  };
+
+  if (source.type === 'csv') {
+    return processCSVFile(filePath, processing);
+  }
+
+  let encoding: string | null = null;
+  let rows: RowStreamer;
+
+  switch (source.type) {
+    case 'xlsx':
+      rows = async (onRows) => {
+        await streamWorkbookRows(filePath, source.sheet, source.headerRow ?? 0, onRows);
+      };
+      break;
+
+    case 'json': {
+      const document = await readJSONFile(filePath);
+      encoding = document.encoding;
+      rows = jsonRowStreamer(document.value, source.recordPath || jsonRecordPaths(document.value)[0] || null);
+      break;
+    }
+
+    case 'ndjson':
+      encoding = await detectFileEncoding(filePath);
+      rows = ndjsonRowStreamer(filePath, encoding);
+      break;
+
+    case 'xml': {
+      encoding = await detectFileEncoding(filePath);
+      const recordPath = source.recordPath || (await xmlRecordPaths(filePath, encoding))[0];
+      if (!recordPath) {
+        throw new ImportFileError('No repeated elements were found to import as products');
+      }
+      rows = xmlRowStreamer(filePath, encoding, recordPath);
+      break;
+    }
+  }
+
+  const result = await processRowStream(rows, processing);
+  return {
+    ...result,
+    stats: { ...result.stats, encoding, delimiter: null }
+  };
+}
+
+async function readTablePreview(
+  filePath: string,
+  source: ImportSource,
+  preview: ImportFilePreview,
+  sampleSize: number,
+  countRows: boolean
+): Promise<ImportFilePreview> {
+  if (source.type === 'csv') {
+    const { headers, sampleRows, rowCount, encoding, delimiter } = await readCSVPreview(filePath, sampleSize, countRows, preview.headerRow);
+    return { ...preview, headers, sampleRows, rowCount, encoding, delimiter };
+  }
+
+  // Without a count the file is only read as far as the rows the preview needs
+  let workbook: WorkbookScan = { sheets: [], sheet: null };
+  const rows: RowStreamer = async (onRows) => {
+    workbook = await streamWorkbookRows(filePath, source.sheet, preview.headerRow, onRows);
+  };
+  const table = await previewRows(rows, sampleSize, countRows);
+  return { ...preview, ...workbook, ...table };
+}
+
+// Column names are collected from the first rows, since records in these
+// formats don't all have the same fields
+async function previewRows(
+  streamRows: RowStreamer,
+  sampleSize: number,
+  countRows: boolean
+): Promise<Pick<ImportFilePreview, 'headers' | 'sampleRows' | 'rowCount'>> {
+  const headers = new Set<string>();
+  const sampleRows: Record<string, string>[] = [];
+  let rowCount = 0;
+
+  await streamRows((rows) => {
+    for (const row of rows) {
+      if (rowCount < HEADER_SCAN_ROWS) {
+        Object.keys(row).forEach(header => headers.add(header));
+      }
+      if (sampleRows.length < sampleSize) sampleRows.push(row);
+      rowCount++;
+    }
+    return countRows || rowCount < HEADER_SCAN_ROWS;
+  });
+
+  return {
+    headers: Array.from(headers).filter(header => header.trim() !== ''),
+    sampleRows,
+    rowCount: countRows ? rowCount : null
+  };
+}
+
+// Hands rows that are already in memory on in batches
+async function streamRowList(
+  records: unknown[],
+  toRow: (record: unknown, index: number) => Record<string, string> | string,
+  onRows: RowBatchHandler
+): Promise<void> {
+  for (let start = 0; start < records.length; start += ROW_BATCH_SIZE) {
+    const rows: Record<string, string>[] = [];
+    const issues: string[] = [];
+
+    records.slice(start, start + ROW_BATCH_SIZE).forEach((record, offset) => {
+      const row = toRow(record, start + offset);
+      if (typeof row === 'string') {
+        issues.push(row);
+      } else {
+        rows.push(row);
+      }
+    });
+
+    const end = Math.min(start + ROW_BATCH_SIZE, records.length);
+    if (await onRows(rows, [], issues, end / records.length) === false) return;
+  }
+}
+
+// Reads a decoded text file a chunk at a time, waiting for each to be handled
+async function streamText(
+  filePath: string,
+  encoding: string,
+  onText: (text: string, progress: number) => boolean | void | Promise<boolean | void>
+): Promise<void> {
+  const { size } = await stat(filePath);
+  const decoder = new TextDecoder(encoding);
+  let bytesRead = 0;
+
+  for await (const chunk of createReadStream(filePath)) {
+    bytesRead += chunk.length;
+    const text = decoder.decode(chunk, { stream: true });
+    if (await onText(text, size > 0 ? bytesRead / size : 1) === false) return;
+  }
+
+  const rest = decoder.decode();
+  if (rest) await onText(rest, 1);
+}
+
+// Rows above the header row are skipped, and the header row names the columns
+async function streamWorkbookRows(
+  filePath: string,
+  sheet: string | null | undefined,
+  headerRow: number,
+  onRows: RowBatchHandler
+): Promise<WorkbookScan> {
+  let skipped = 0;
+  let headers: string[] | null = null;
+  let batch: Record<string, string>[] = [];
+
+  const scan = await streamWorkbookSheet(filePath, sheet, async (cells, progress) => {
+    if (skipped < headerRow) {
+      skipped++;
+      return;
+    }
+    // Values as stored rather than as displayed, so long barcodes aren't in scientific notation
+    if (!headers) {
+      headers = uniqueHeaders(cells.map(cell => cellText(cell).trim()));
+      return;
+    }
+
+    batch.push(workbookRow(headers, cells));
+    if (batch.length < ROW_BATCH_SIZE) return;
+    const rows = batch;
+    batch = [];
+    return onRows(rows, [], [], progress);
+  });
+
+  if (!scan.sheet) {
+    throw new ImportFileError(sheet ? `The workbook has no sheet named "${sheet}"` : 'The workbook has no sheets');
+  }
+  if (batch.length > 0) {
+    await onRows(batch, [], [], 1);
+  }
+  return scan;
+}
+
+function workbookRow(headers: string[], cells: WorkbookCell[]): Record<string, string> {
+  const row: Record<string, string> = {};
+  headers.forEach((header, column) => {
+    if (header) row[header] = cellText(cells[column]);
+  });
+  return row;
+}
+
+// Repeated column names get a number, so no column hides another
+function uniqueHeaders(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map(header => {
+    if (!header) return header;
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count === 1 ? header : `${header} (${count})`;
+  });
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  return String(value);
+}
+
+async function readJSONFile(filePath: string): Promise<{ value: unknown; encoding: string }> {
+  const encoding = await detectFileEncoding(filePath);
+  const text = new TextDecoder(encoding).decode(await readFile(filePath));
+
+  try {
+    return { value: JSON.parse(text), encoding };
+  } catch (error) {
+    throw new ImportFileError(`The file is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Dotted paths to the arrays of objects in a document, most records first.
+// A document that is itself an array has no path.
+function jsonRecordPaths(document: unknown): string[] {
+  if (Array.isArray(document)) return [];
+
+  const found: { path: string; count: number }[] = [];
+  const search = (value: unknown, path: string[]) => {
+    if (path.length > JSON_SEARCH_DEPTH || !isPlainObject(value)) return;
+
+    for (const [key, child] of Object.entries(value)) {
+      if (Array.isArray(child)) {
+        if (child.some(isPlainObject)) found.push({ path: [...path, key].join('.'), count: child.length });
+      } else {
+        search(child, [...path, key]);
+      }
+    }
+  };
+  search(document, []);
+
+  return found.sort((a, b) => b.count - a.count).map(candidate => candidate.path);
+}
+
+function jsonRowStreamer(document: unknown, recordPath: string | null): RowStreamer {
+  return async (onRows) => {
+    let records: unknown = document;
+    if (recordPath) {
+      for (const key of recordPath.split('.')) {
+        records = isPlainObject(records) ? records[key] : undefined;
+      }
+    }
+    if (!Array.isArray(records)) {
+      throw new ImportFileError(recordPath
+        ? `"${recordPath}" is not a list of records`
+        : 'The file has no list of records to import');
+    }
+
+    await streamRowList(records, (record, index) =>
+      isPlainObject(record) ? flattenRecord(record) : `Record ${index + 1}: not an object`, onRows);
+  };
+}
+
+function ndjsonRowStreamer(filePath: string, encoding: string): RowStreamer {
+  return async (onRows) => {
+    let buffered = '';
+    let lineNumber = 0;
+
+    const readLines = (lines: string[]) => {
+      const rows: Record<string, string>[] = [];
+      const issues: string[] = [];
+
+      for (const line of lines) {
+        lineNumber++;
+        if (line.trim() === '') continue;
+        try {
+          const record = JSON.parse(line);
+          if (isPlainObject(record)) {
+            rows.push(flattenRecord(record));
+          } else {
+            issues.push(`Line ${lineNumber}: not an object`);
+          }
+        } catch {
+          issues.push(`Line ${lineNumber}: invalid JSON`);
+        }
+      }
+      return { rows, issues };
+    };
+
+    let stopped = false;
+    await streamText(filePath, encoding, async (text, progress) => {
+      const lines = (buffered + text).split(/\r?\n/);
+      buffered = lines.pop() ?? '';
+      const { rows, issues } = readLines(lines);
+      stopped = await onRows(rows, [], issues, progress) === false;
+      return !stopped;
+    });
+
+    if (!stopped && buffered.trim() !== '') {
+      const { rows, issues } = readLines([buffered]);
+      await onRows(rows, [], issues, 1);
+    }
+  };
+}
+
+// Element paths that repeat and have child elements, shallowest first, then
+// most repeated. Only the start of the file is read.
+async function xmlRecordPaths(filePath: string, encoding: string): Promise<string[]> {
+  const parser = sax.parser(true, { trim: true });
+  const path: string[] = [];
+  const hasChildren: boolean[] = [];
+  const counts = new Map<string, number>();
+  let scanned = 0;
+
+  parser.onopentag = (tag) => {
+    if (hasChildren.length > 0) hasChildren[hasChildren.length - 1] = true;
+    path.push(tag.name);
+    hasChildren.push(false);
+  };
+  parser.onclosetag = () => {
+    if (hasChildren.pop()) {
+      const key = path.join('/');
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    path.pop();
+  };
+  parser.onerror = (error) => {
+    throw new ImportFileError(`The file is not valid XML: ${error.message.split('\n')[0]}`);
+  };
+
+  await streamText(filePath, encoding, (text) => {
+    parser.write(text);
+    scanned += text.length;
+    return scanned < XML_SCAN_BYTES;
+  });
+
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .sort(([a, countA], [b, countB]) => a.split('/').length - b.split('/').length || countB - countA)
+    .map(([key]) => key);
+}
+
+// Each element at the record path becomes a row: its attributes are "@name"
+// columns and its descendants are columns named by their path below it
+function xmlRowStreamer(filePath: string, encoding: string, recordPath: string): RowStreamer {
+  return async (onRows) => {
+    const parser = sax.parser(true, { trim: true });
+    const path: string[] = [];
+    const texts: string[] = [];
+    const hasChildren: boolean[] = [];
+    let record: Record<string, string> | null = null;
+    let recordDepth = 0;
+    let rows: Record<string, string>[] = [];
+    let parseError: string | null = null;
+
+    const fieldName = (name: string) => path.slice(recordDepth).join('.') + name;
+
+    parser.onopentag = (tag) => {
+      if (hasChildren.length > 0) hasChildren[hasChildren.length - 1] = true;
+      path.push(tag.name);
+      texts.push('');
+      hasChildren.push(false);
+
+      if (!record && path.join('/') === recordPath) {
+        record = {};
+        recordDepth = path.length;
+      }
+      if (record) {
+        const prefix = path.length === recordDepth ? '' : '.';
+        for (const [name, value] of Object.entries(tag.attributes)) {
+          addValue(record, fieldName(`${prefix}@${name}`), String(value));
+        }
+      }
+    };
+    parser.ontext = (text) => {
+      if (texts.length > 0) texts[texts.length - 1] += text;
+    };
+    parser.oncdata = parser.ontext;
+    parser.onclosetag = () => {
+      const text = texts.pop() ?? '';
+      const parent = hasChildren.pop();
+
+      if (record) {
+        if (path.length === recordDepth) {
+          rows.push(record);
+          record = null;
+        } else if (!parent) {
+          addValue(record, fieldName(''), text.trim());
+        }
+      }
+      path.pop();
+    };
+    parser.onerror = (error) => {
+      parseError = error.message.split('\n')[0];
+    };
+
+    await streamText(filePath, encoding, async (text, progress) => {
+      parser.write(text);
+      const batch = rows;
+      rows = [];
+      if (parseError) {
+        await onRows(batch, [], [`Stopped reading the file at invalid XML: ${parseError}`], progress);
+        return false;
+      }
+      return onRows(batch, [], [], progress);
+    });
+  };
+}
+
+// Nested objects become dotted columns; lists are joined with semicolons
+function flattenRecord(record: Record<string, unknown>): Record<string, string> {
+  const row: Record<string, string> = {};
+
+  const flatten = (value: unknown, key: string) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => flatten(item, key));
+    } else if (isPlainObject(value)) {
+      for (const [childKey, child] of Object.entries(value)) {
+        flatten(child, key ? `${key}.${childKey}` : childKey);
+      }
+    } else {
+      addValue(row, key, value === undefined || value === null ? '' : String(value));
+    }
+  };
+  flatten(record, '');
+
+  return row;
+}
+
+function addValue(row: Record<string, string>, key: string, value: string): void {
+  const existing = row[key];
+  if (existing === undefined || existing === '') {
+    row[key] = value;
+  } else if (value !== '') {
+    row[key] = `${existing};${value}`;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,247 @@
+/**
+ * Google Merchant Center Export Service
+ *
+ * Builds Google Shopping product feeds, either as RSS 2.0 XML with the g:
+ * namespace or as a tab-separated file. Variants are submitted as separate
+ * items sharing an item_group_id; the parent itself isn't an item.
+ */
+
+import { Product } from '@shared/schema';
+import { expandVariantFamilies, productPageLink, SellableItem } from './attribute-service';
+import { resolveProductIdentifier } from './identifier-service';
+import { matchTaxonomyNode, TaxonomyNode } from './taxonomy-service';
+import type { ExportRowIssue } from './csv-service';
+import taxonomy from '../data/google-product-taxonomy.json';
+
+export type GoogleAvailability = 'in_stock' | 'out_of_stock' | 'preorder' | 'backorder';
+
+export const GOOGLE_AVAILABILITIES: [GoogleAvailability, ...GoogleAvailability[]] = ['in_stock', 'out_of_stock', 'preorder', 'backorder'];
+
+interface GoogleAttribute {
+  name: string;
+  // Repeated attributes are separate elements in XML and comma-joined in TSV
+  value: (item: SellableItem, options: GoogleExportOptions) => string | string[];
+}
+
+export interface GoogleExportOptions {
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  currency?: string;
+  // Product page URL with {id} for the product ID, used when a product has no link of its own
+  linkTemplate?: string;
+  availability?: GoogleAvailability;
+  feedTitle?: string;
+  storeUrl?: string;
+}
+
+const NAMESPACE = 'http://base.google.com/ns/1.0';
+const TITLE_MAX = 150;
+const DESCRIPTION_MAX = 5000;
+const ID_MAX = 50;
+const MAX_ADDITIONAL_IMAGES = 10;
+
+const TAXONOMY_NODES: TaxonomyNode[] = taxonomy.nodes;
+
+const priceWithCurrency = (value: number, currency: string) => `${value.toFixed(2)} ${currency}`;
+
+const GOOGLE_ATTRIBUTES: GoogleAttribute[] = [
+  { name: 'id', value: ({ product }) => product.product_id },
+  { name: 'title', value: ({ product }) => product.title || '' },
+  { name: 'description', value: ({ product }) => product.description || '' },
+  { name: 'link', value: (item, options) => productPageLink(item, options.linkTemplate) },
+  { name: 'image_link', value: ({ product }) => product.images?.[0] || '' },
+  { name: 'additional_image_link', value: ({ product }) => (product.images || []).slice(1, MAX_ADDITIONAL_IMAGES + 1) },
+  { name: 'availability', value: (_, options) => options.availability ?? 'in_stock' },
+  // A higher list price becomes the regular price and ours the sale price
+  {
+    name: 'price',
+    value: ({ product }, { currency = 'USD' }) => {
+      const price = priceOf(product);
+      const listPrice = product.attributes?.list_price;
+      if (price === null) return '';
+      return priceWithCurrency(listPrice && listPrice > price ? listPrice : price, currency);
+    }
+  },
+  {
+    name: 'sale_price',
+    value: ({ product }, { currency = 'USD' }) => {
+      const price = priceOf(product);
+      const listPrice = product.attributes?.list_price;
+      return price !== null && listPrice && listPrice > price ? priceWithCurrency(price, currency) : '';
+    }
+  },
+  { name: 'brand', value: ({ product }) => product.brand || '' },
+  { name: 'gtin', value: ({ product }) => resolveProductIdentifier({ gtin: product.gtin })?.value || '' },
+  { name: 'mpn', value: ({ attributes }) => attributes.mpn || '' },
+  // Google assumes identifiers exist unless told otherwise
+  { name: 'identifier_exists', value: item => hasIdentifier(item) ? '' : 'no' },
+  { name: 'condition', value: ({ product }) => googleCondition(product.attributes?.condition) },
+  { name: 'google_product_category', value: ({ product }) => googleProductCategory(product.category) },
+  { name: 'product_type', value: ({ product }) => /^\d+$/.test(product.category || '') ? '' : product.category || '' },
+  { name: 'item_group_id', value: ({ itemGroupId }) => itemGroupId || '' },
+  { name: 'color', value: ({ attributes }) => attributes.color || '' },
+  { name: 'size', value: ({ attributes }) => attributes.size || '' },
+  { name: 'material', value: ({ attributes }) => attributes.material || '' },
+  { name: 'pattern', value: ({ attributes }) => attributes.pattern || '' },
+  { name: 'gender', value: ({ attributes }) => googleGender(attributes.gender) },
+  { name: 'age_group', value: ({ attributes }) => googleAgeGroup(attributes.age_group) },
+  { name: 'product_highlight', value: ({ product }) => (product.bullet_points || []).filter(Boolean).slice(0, 10) }
+];
+
+/**
+ * Generate a Google Merchant Center RSS 2.0 feed
+ * @param products Products to export
+ * @param options Feed options
+ * @returns XML feed
+ */
+export function generateGoogleXMLFeed(products: Product[], options: GoogleExportOptions = {}): string {
+  const items = expandVariantFamilies(products).map(item => {
+    const elements = GOOGLE_ATTRIBUTES.flatMap(attribute => {
+      const value = attribute.value(item, options);
+      return (Array.isArray(value) ? value : [value])
+        .filter(Boolean)
+        .map(entry => `      <g:${attribute.name}>${escapeXml(entry)}</g:${attribute.name}>`);
+    });
+    return ['    <item>', ...elements, '    </item>'].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rss version="2.0" xmlns:g="${NAMESPACE}">`,
+    '  <channel>',
+    `    <title>${escapeXml(options.feedTitle || 'Product feed')}</title>`,
+    `    <link>${escapeXml(options.storeUrl || '')}</link>`,
+    `    <description>${escapeXml(options.feedTitle || 'Product feed')}</description>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Generate a Google Merchant Center tab-separated feed
+ * @param products Products to export
+ * @param options Feed options
+ * @returns TSV content
+ */
+export function generateGoogleTSVFeed(products: Product[], options: GoogleExportOptions = {}): string {
+  const { includeHeaders = true, encodeUtf8 = true } = options;
+  const lines: string[] = [];
+
+  if (includeHeaders) {
+    lines.push(GOOGLE_ATTRIBUTES.map(attribute => attribute.name).join('\t'));
+  }
+  for (const item of expandVariantFamilies(products)) {
+    lines.push(GOOGLE_ATTRIBUTES.map(attribute => {
+      const value = attribute.value(item, options);
+      return toCell(Array.isArray(value) ? value.join(',') : value);
+    }).join('\t'));
+  }
+
+  const content = lines.join('\n');
+  return encodeUtf8 ? '\ufeff' + content : content;
+}
+
+/**
+ * Check the feed-level rules Merchant Center disapproves items for
+ * @param products Products to check
+ * @param options The options the feed will be generated with
+ * @returns One entry per problem
+ */
+export function validateGoogleFeed(products: Product[], options: GoogleExportOptions = {}): ExportRowIssue[] {
+  const issues: ExportRowIssue[] = [];
+
+  for (const item of expandVariantFamilies(products)) {
+    const { product } = item;
+    const add = (field: string, severity: ExportRowIssue['severity'], message: string) =>
+      issues.push({ product_id: product.product_id, field, severity, message });
+
+    if (product.product_id.length > ID_MAX) add('product_id', 'error', `ID must be ${ID_MAX} characters or fewer`);
+    if (!product.title) add('title', 'error', 'Title is required');
+    else if (product.title.length > TITLE_MAX) add('title', 'error', `Title must be ${TITLE_MAX} characters or fewer`);
+    if (!product.description) add('description', 'error', 'Description is required');
+    else if (product.description.length > DESCRIPTION_MAX) {
+      add('description', 'error', `Description must be ${DESCRIPTION_MAX} characters or fewer`);
+    }
+    if (!productPageLink(item, options.linkTemplate)) add('link', 'error', 'Product page link is required; set a link template or a link attribute');
+    if (!product.images?.[0]) add('images', 'error', 'Image link is required');
+    if (priceOf(product) === null) add('price', 'error', 'Price is required');
+
+    if (!hasIdentifier(item)) {
+      // identifier_exists=no is only accepted for products that genuinely have no GTIN
+      add('gtin', 'warning', product.brand
+        ? 'No GTIN or MPN; branded products sent with identifier_exists=no may be limited'
+        : 'No GTIN, MPN or brand; sent with identifier_exists=no');
+    } else if (!resolveProductIdentifier({ gtin: product.gtin }) && !product.brand) {
+      add('brand', 'error', 'An MPN without a GTIN also needs a brand');
+    }
+    if (!googleProductCategory(product.category)) {
+      add('category', 'warning', `No Google product category matches "${product.category || ''}"; Google will assign one`);
+    }
+    if (item.itemGroupId && !item.attributes.color && !item.attributes.size && !item.attributes.material && !item.attributes.pattern) {
+      add('attributes', 'error', 'Variants need the attribute they vary by (color, size, material or pattern)');
+    }
+  }
+
+  return issues;
+}
+
+function hasIdentifier({ product, attributes }: SellableItem): boolean {
+  return Boolean(resolveProductIdentifier({ gtin: product.gtin }) || attributes.mpn);
+}
+
+function priceOf(product: Product): number | null {
+  const price = Number(product.price);
+  return product.price && !Number.isNaN(price) && price > 0 ? price : null;
+}
+
+function googleProductCategory(category: string | null): string {
+  if (/^\d+$/.test(category || '')) return category!;
+  const node = matchTaxonomyNode(category, TAXONOMY_NODES);
+  return node ? String(node.id) : '';
+}
+
+function googleCondition(condition: string | undefined): string {
+  switch (condition) {
+    case 'refurbished': return 'refurbished';
+    case 'used_like_new':
+    case 'used_good':
+    case 'used_acceptable': return 'used';
+    default: return 'new';
+  }
+}
+
+function googleGender(gender: string | undefined): string {
+  const value = (gender || '').toLowerCase();
+  if (/^(women|woman|female|ladies|f|girls?)$/.test(value)) return 'female';
+  if (/^(men|man|male|m|boys?)$/.test(value)) return 'male';
+  if (/unisex/.test(value)) return 'unisex';
+  return '';
+}
+
+function googleAgeGroup(ageGroup: string | undefined): string {
+  const value = (ageGroup || '').toLowerCase();
+  if (/newborn/.test(value)) return 'newborn';
+  if (/infant|baby/.test(value)) return 'infant';
+  if (/toddler/.test(value)) return 'toddler';
+  if (/kid|child|youth|teen/.test(value)) return 'kids';
+  if (/adult/.test(value)) return 'adult';
+  return '';
+}
+
+// Control characters aren't allowed in XML 1.0 at all
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Tabs and line breaks would break the row structure
+function toCell(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ').trim();
+}
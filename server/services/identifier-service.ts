@@ -0,0 +1,286 @@
+/**
+ * Product Identifier Service
+ *
+ * Validates and normalises product identifiers: ASIN, UPC-A, EAN-13, GTIN-14
+ * and ISBN-10/13. Identifiers are only ever taken from supplier data; when a
+ * product has none it is flagged so the seller can supply one, because a
+ * made-up identifier gets a listing rejected or matched to the wrong product.
+ */
+
+export type IdentifierType = 'ASIN' | 'UPC' | 'EAN' | 'GTIN' | 'ISBN';
+
+export interface IdentifierCheck {
+  type: IdentifierType | null;
+  // Value as supplied
+  value: string;
+  // Canonical form: digits only for GTINs, uppercase for ASINs, ISBN-10s as ISBN-13
+  normalized: string | null;
+  valid: boolean;
+  reason?: string;
+}
+
+export interface ProductIdentifiers {
+  asin: string | null;
+  gtin: string | null;
+  // Identifier values that were present but failed validation
+  invalid: IdentifierCheck[];
+}
+
+// Column names (normalised to lowercase with underscores) that hold each kind of identifier
+const IDENTIFIER_COLUMNS: Record<string, IdentifierType | null> = {
+  asin: 'ASIN',
+  amazon_asin: 'ASIN',
+  upc: 'UPC',
+  upc_code: 'UPC',
+  upca: 'UPC',
+  ean: 'EAN',
+  ean13: 'EAN',
+  ean_code: 'EAN',
+  gtin: 'GTIN',
+  gtin14: 'GTIN',
+  gtin13: 'GTIN',
+  gtin12: 'GTIN',
+  barcode: null,
+  isbn: 'ISBN',
+  isbn10: 'ISBN',
+  isbn13: 'ISBN',
+  product_identifier: null,
+  external_product_id: null
+};
+
+/**
+ * Strip the formatting suppliers put around identifiers: spaces, hyphens and
+ * the leading apostrophe spreadsheets use to keep a number as text
+ */
+export function cleanIdentifier(raw: unknown): string {
+  if (raw === undefined || raw === null) return '';
+  return String(raw).trim().replace(/^'/, '').replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Check the GS1 mod-10 check digit shared by UPC-A, EAN-13, GTIN-14 and ISBN-13
+ */
+export function hasValidGTINCheckDigit(digits: string): boolean {
+  if (!/^\d{8,14}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = weight === 3 ? 1 : 3) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Check an ISBN-10's mod-11 check digit (X stands for 10)
+ */
+export function isValidISBN10(value: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(value)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = value[i] === 'X' ? 10 : Number(value[i]);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+/**
+ * Convert an ISBN-10 to its ISBN-13 (978-prefixed EAN) form
+ */
+export function isbn10ToIsbn13(isbn10: string): string {
+  const body = '978' + isbn10.slice(0, 9);
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(body[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return body + String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * ASINs are ten characters: B0 followed by eight alphanumerics, or a book's ISBN-10
+ */
+export function isValidASIN(value: string): boolean {
+  return /^B0[A-Z0-9]{8}$/.test(value) || isValidISBN10(value);
+}
+
+/**
+ * Work out what kind of identifier a value is from its shape
+ * @param raw Identifier as supplied
+ * @returns The identifier type, or null if it doesn't look like one
+ */
+export function detectIdentifierType(raw: unknown): IdentifierType | null {
+  const value = cleanIdentifier(raw);
+
+  if (/^B0[A-Z0-9]{8}$/.test(value)) return 'ASIN';
+  if (/^\d{9}[\dX]$/.test(value)) return 'ISBN';
+  if (/^97[89]\d{10}$/.test(value)) return 'ISBN';
+  if (/^\d{12}$/.test(value)) return 'UPC';
+  if (/^\d{13}$/.test(value)) return 'EAN';
+  if (/^\d{14}$/.test(value)) return 'GTIN';
+  return null;
+}
+
+/**
+ * Validate an identifier, optionally as a specific type
+ * @param raw Identifier as supplied
+ * @param expectedType The type the source column says it is, if known
+ * @returns The detected type, normalised value and whether it passed its checksum
+ */
+export function validateIdentifier(raw: unknown, expectedType?: IdentifierType | null): IdentifierCheck {
+  const value = raw === undefined || raw === null ? '' : String(raw).trim();
+  let cleaned = cleanIdentifier(raw);
+
+  if (!cleaned) {
+    return { type: expectedType ?? null, value, normalized: null, valid: false, reason: 'Identifier is empty' };
+  }
+
+  if (/^\d+(\.\d+)?E\+\d+$/.test(cleaned)) {
+    return {
+      type: expectedType ?? null,
+      value,
+      normalized: null,
+      valid: false,
+      reason: 'Identifier was converted to scientific notation by a spreadsheet and has lost digits'
+    };
+  }
+
+  // Spreadsheets drop the leading zero of UPCs stored as numbers
+  if (expectedType === 'UPC' && /^\d{11}$/.test(cleaned)) {
+    cleaned = '0' + cleaned;
+  }
+
+  const type = detectIdentifierType(cleaned);
+
+  if (!type || (expectedType && !isCompatibleType(expectedType, type, cleaned))) {
+    return {
+      type: expectedType ?? type,
+      value,
+      normalized: null,
+      valid: false,
+      reason: expectedType
+        ? `"${value}" is not a valid ${expectedType} format`
+        : `"${value}" is not a recognised product identifier`
+    };
+  }
+
+  if (expectedType === 'ASIN' || type === 'ASIN') {
+    return isValidASIN(cleaned)
+      ? { type: 'ASIN', value, normalized: cleaned, valid: true }
+      : { type: 'ASIN', value, normalized: null, valid: false, reason: `"${value}" is not a valid ASIN` };
+  }
+
+  if (type === 'ISBN' && cleaned.length === 10) {
+    return isValidISBN10(cleaned)
+      ? { type, value, normalized: isbn10ToIsbn13(cleaned), valid: true }
+      : { type, value, normalized: null, valid: false, reason: `"${value}" has an invalid ISBN-10 check digit` };
+  }
+
+  return hasValidGTINCheckDigit(cleaned)
+    ? { type, value, normalized: cleaned, valid: true }
+    : { type, value, normalized: null, valid: false, reason: `"${value}" has an invalid ${type} check digit` };
+}
+
+/**
+ * The identifier type a column holds, judged by its header
+ * @param column CSV column header
+ * @returns The identifier type, null for generic barcode columns, or undefined if it isn't an identifier column
+ */
+export function identifierColumnType(column: string): IdentifierType | null | undefined {
+  const key = column.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return key in IDENTIFIER_COLUMNS ? IDENTIFIER_COLUMNS[key] : undefined;
+}
+
+/**
+ * Pull validated identifiers out of a CSV row's identifier columns. An ASIN
+ * goes to `asin`; UPC, EAN, GTIN and ISBN values go to `gtin`.
+ * @param row A row from the CSV data
+ * @returns Normalised identifiers plus any values that failed validation
+ */
+export function extractIdentifiers(row: Record<string, unknown>): ProductIdentifiers {
+  const result: ProductIdentifiers = { asin: null, gtin: null, invalid: [] };
+
+  for (const [column, rawValue] of Object.entries(row)) {
+    const columnType = identifierColumnType(column);
+    if (columnType === undefined || cleanIdentifier(rawValue) === '') continue;
+
+    const check = validateIdentifier(rawValue, columnType);
+    if (!check.valid || !check.normalized) {
+      result.invalid.push(check);
+    } else if (check.type === 'ASIN') {
+      result.asin = result.asin ?? check.normalized;
+    } else {
+      result.gtin = result.gtin ?? check.normalized;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply the validated identifiers from a CSV row to a product, replacing
+ * whatever the column mapping copied over verbatim
+ * @param product Product being built from the row
+ * @param row The CSV row
+ * @returns Values that failed validation, so the caller can report them
+ */
+export function applyRowIdentifiers(
+  product: { asin: string | null; gtin: string | null },
+  row: Record<string, unknown>
+): IdentifierCheck[] {
+  const identifiers = extractIdentifiers(row);
+
+  product.asin = identifiers.asin ?? validIdentifierOrNull(product.asin, 'ASIN');
+  product.gtin = identifiers.gtin ?? validIdentifierOrNull(product.gtin, 'GTIN');
+
+  return identifiers.invalid;
+}
+
+// Suppliers often label any barcode as UPC or EAN, so those columns accept the
+// whole GTIN family; ASIN columns also accept the ISBN-10s books are listed under
+function isCompatibleType(expected: IdentifierType, detected: IdentifierType, value: string): boolean {
+  switch (expected) {
+    case 'ASIN': return detected === 'ASIN' || (detected === 'ISBN' && value.length === 10);
+    case 'ISBN': return detected === 'ISBN';
+    default: return detected !== 'ASIN';
+  }
+}
+
+function validIdentifierOrNull(value: string | null, type: IdentifierType): string | null {
+  if (!value) return null;
+  const check = validateIdentifier(value, type);
+  return check.valid ? check.normalized : null;
+}
+
+/**
+ * Pick the identifier to export for a product, as the marketplace's
+ * product-id/product-id-type pair. GTINs are preferred over ASINs since they
+ * identify the product on every marketplace.
+ * @param product Product with stored identifiers
+ * @returns The identifier, or null when the product has no valid one
+ */
+export function resolveProductIdentifier(
+  product: { asin?: string | null; gtin?: string | null }
+): { type: IdentifierType; value: string } | null {
+  if (product.gtin) {
+    const check = validateIdentifier(product.gtin, 'GTIN');
+    if (check.valid && check.normalized) {
+      return { type: gtinExportType(check.normalized), value: check.normalized };
+    }
+  }
+
+  if (product.asin) {
+    const check = validateIdentifier(product.asin, 'ASIN');
+    if (check.valid && check.normalized) {
+      return { type: 'ASIN', value: check.normalized };
+    }
+  }
+
+  return null;
+}
+
+// UPC-A is 12 digits, EAN-13 is 13 (ISBN-13 when it starts 978/979) and GTIN-14 is 14
+function gtinExportType(gtin: string): IdentifierType {
+  if (gtin.length === 12) return 'UPC';
+  if (gtin.length === 13) return /^97[89]/.test(gtin) ? 'ISBN' : 'EAN';
+  return 'GTIN';
+}
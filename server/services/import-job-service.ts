@@ -0,0 +1,359 @@
+/**
+ * Import Job Service
+ *
+ * Imports uploaded product files in the background. Uploads are written to
+ * temp files, parsed as a stream and saved in chunks, so a supplier feed with
+ * hundreds of thousands of rows never has to fit in memory. Every row is
+ * checked before anything is saved; when some rows have errors the job waits
+ * for the user to import the valid rows or cancel. Clients follow progress
+ * through job events. Jobs live in memory, like the temp files they read, and
+ * are forgotten an hour after they finish.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { unlink } from 'fs/promises';
+import { ImportMappingTemplate, Product } from '@shared/schema';
+import { FieldMapping, MarketplaceFormat } from '@shared/import-fields';
+import { storage } from '../storage';
+import { ImportSource, processImportFile } from './file-import-service';
+import { ImportReport, RejectedRow } from './import-report-service';
+import { resolveProductIdentifier } from './identifier-service';
+
+export type ImportJobStatus = 'validating' | 'needs_review' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ImportJobResult {
+  // The first products imported, for the rest of the workflow; all of them are stored
+  products: Product[];
+  importedCount: number;
+  skippedRows: number;
+  issues: string[];
+  // Flagged rather than filled in, so no listing goes out with a made-up identifier
+  missingIdentifiers: string[];
+  missingIdentifierCount: number;
+  mapping: FieldMapping[];
+  template: ImportMappingTemplate | null;
+  // The marketplace export the file was read as, instead of a mapping
+  marketplace: MarketplaceFormat | null;
+}
+
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  status: ImportJobStatus;
+  // Share of the file read in the current pass, 0-100
+  percent: number;
+  importedCount: number;
+  encoding: string | null;
+  delimiter: string | null;
+  error: string | null;
+  // The rows' problems, once they've been checked
+  report: ImportReport | null;
+  result: ImportJobResult | null;
+  started_at: Date;
+  finished_at: Date | null;
+}
+
+export type ImportJobEvent =
+  | { type: 'progress'; job: ImportJob }
+  | { type: 'review'; job: ImportJob }
+  | { type: 'finished'; job: ImportJob };
+
+export type ImportJobListener = (event: ImportJobEvent) => void;
+
+interface HeldUpload {
+  filePath: string;
+  fileName: string;
+  timer: NodeJS.Timeout;
+}
+
+// What an import reads, kept while the user reviews its rejected rows
+interface ImportRun {
+  filePath: string;
+  source: ImportSource;
+  mapping: FieldMapping[];
+  template: ImportMappingTemplate | null;
+}
+
+export const RESULT_PRODUCT_LIMIT = 1000;
+const MISSING_IDENTIFIER_LIMIT = 1000;
+const REJECTED_ROW_LIMIT = 10000;
+const RETENTION_MS = 60 * 60 * 1000;
+
+const jobs = new Map<string, ImportJob>();
+const heldUploads = new Map<string, HeldUpload>();
+// Imports waiting for the user to decide about rows with errors
+const reviews = new Map<string, ImportRun & { timer: NodeJS.Timeout }>();
+// Kept out of job events, which would otherwise carry every rejected row
+const rejectedRows = new Map<string, RejectedRow[]>();
+
+// Live job events, keyed by job ID
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+/**
+ * Start importing an uploaded file: its rows are checked first, and saved
+ * straight away if none has an error. The temp file is deleted once the
+ * import has finished, whether or not it succeeded.
+ * @param filePath Temp file holding the upload
+ * @param fileName The file's original name
+ * @param source File type, with the sheet or record path the mapping was confirmed for
+ * @param mapping Confirmed column mapping
+ * @param template The mapping template used or saved, if any
+ * @returns The running job
+ */
+export function startImport(
+  filePath: string,
+  fileName: string,
+  source: ImportSource,
+  mapping: FieldMapping[],
+  template: ImportMappingTemplate | null
+): ImportJob {
+  const job: ImportJob = {
+    id: randomUUID(),
+    fileName,
+    status: 'validating',
+    percent: 0,
+    importedCount: 0,
+    encoding: null,
+    delimiter: null,
+    error: null,
+    report: null,
+    result: null,
+    started_at: new Date(),
+    finished_at: null
+  };
+  jobs.set(job.id, job);
+
+  checkImport(job, { filePath, source, mapping, template }).catch(error => failJob(job, error));
+
+  return job;
+}
+
+/**
+ * Import the valid rows of a file whose check found rows with errors
+ * @returns The running job, or null if no import is waiting for review under this ID
+ */
+export function continueImport(jobId: string): ImportJob | null {
+  const job = jobs.get(jobId);
+  const run = takeReview(jobId);
+  if (!job || !run) return null;
+
+  job.status = 'running';
+  job.percent = 0;
+  runImport(job, run).catch(error => failJob(job, error));
+  return job;
+}
+
+/**
+ * Drop an import waiting for review without saving anything
+ * @returns The cancelled job, or null if no import is waiting for review under this ID
+ */
+export function cancelImport(jobId: string): ImportJob | null {
+  const job = jobs.get(jobId);
+  const run = takeReview(jobId);
+  if (!job || !run) return null;
+
+  discardUpload(run.filePath);
+  finishJob(job, 'cancelled');
+  return job;
+}
+
+/**
+ * The rows an import's check kept out, with their values and reasons
+ * @returns The first rejected rows, or null if the import is unknown
+ */
+export function getRejectedRows(jobId: string): RejectedRow[] | null {
+  return rejectedRows.get(jobId) ?? null;
+}
+
+/**
+ * An import job, while it runs and for an hour after
+ */
+export function getImportJob(jobId: string): ImportJob | null {
+  return jobs.get(jobId) ?? null;
+}
+
+/**
+ * Subscribe to an import's live events
+ * @returns A function that unsubscribes the listener
+ */
+export function subscribeToImportJob(jobId: string, listener: ImportJobListener): () => void {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+/**
+ * Keep an upload's temp file while the user reviews its column mapping, so
+ * the file doesn't have to be sent again. Unclaimed files are deleted after an hour.
+ * @returns The ID to import the file with
+ */
+export function holdUpload(filePath: string, fileName: string): string {
+  const uploadId = randomUUID();
+  const timer = setTimeout(() => {
+    heldUploads.delete(uploadId);
+    discardUpload(filePath);
+  }, RETENTION_MS);
+  timer.unref();
+
+  heldUploads.set(uploadId, { filePath, fileName, timer });
+  return uploadId;
+}
+
+/**
+ * Claim a held upload; each can be claimed once
+ * @returns The temp file and original name, or null if the upload has expired
+ */
+export function takeHeldUpload(uploadId: string): { filePath: string; fileName: string } | null {
+  const held = heldUploads.get(uploadId);
+  if (!held) return null;
+
+  clearTimeout(held.timer);
+  heldUploads.delete(uploadId);
+  return { filePath: held.filePath, fileName: held.fileName };
+}
+
+/**
+ * Delete an upload's temp file
+ */
+export async function discardUpload(filePath: string): Promise<void> {
+  try {
+    await unlink(filePath);
+  } catch (error) {
+    console.warn(`Could not delete upload ${filePath}:`, error);
+  }
+}
+
+// Read every row without saving, so rows with errors are known up front
+async function checkImport(job: ImportJob, run: ImportRun): Promise<void> {
+  const rejected: RejectedRow[] = [];
+  rejectedRows.set(job.id, rejected);
+
+  let report: ImportReport;
+  try {
+    ({ report } = await processImportFile(run.filePath, run.source, {
+      mappings: run.mapping,
+      // Nothing is saved or kept while checking
+      onChunk: async () => {},
+      onRejectedRow: (row) => {
+        if (rejected.length < REJECTED_ROW_LIMIT) rejected.push(row);
+      },
+      onProgress: (progress) => setProgress(job, progress)
+    }));
+  } catch (error) {
+    await discardUpload(run.filePath);
+    throw error;
+  }
+
+  job.report = report;
+  if (report.rejectedRows === 0) {
+    job.status = 'running';
+    job.percent = 0;
+    return runImport(job, run);
+  }
+
+  if (report.validRows === 0) {
+    await discardUpload(run.filePath);
+    finishJob(job, 'failed', `None of the ${report.totalRows} rows can be imported`);
+    return;
+  }
+
+  // The user decides whether the valid rows are imported without the rest
+  const timer = setTimeout(() => cancelImport(job.id), RETENTION_MS);
+  timer.unref();
+  reviews.set(job.id, { ...run, timer });
+  job.status = 'needs_review';
+  console.log(`Import ${job.id}: ${report.rejectedRows} of ${report.totalRows} rows have errors, waiting for review`);
+  publish(job, { type: 'review', job });
+}
+
+async function runImport(job: ImportJob, { filePath, source, mapping, template }: ImportRun): Promise<void> {
+  const products: Product[] = [];
+  const missingIdentifiers: string[] = [];
+  let missingIdentifierCount = 0;
+
+  try {
+    const { issues, stats } = await processImportFile(filePath, source, {
+      mappings: mapping,
+      onChunk: async (chunk) => {
+        const saved = await storage.saveProductBatch(chunk);
+        job.importedCount += saved.length;
+
+        for (const product of saved) {
+          if (products.length < RESULT_PRODUCT_LIMIT) products.push(product);
+          if (!resolveProductIdentifier(product)) {
+            missingIdentifierCount++;
+            if (missingIdentifiers.length < MISSING_IDENTIFIER_LIMIT) missingIdentifiers.push(product.product_id);
+          }
+        }
+      },
+      onProgress: (progress) => setProgress(job, progress)
+    });
+
+    job.encoding = stats.encoding;
+    job.delimiter = stats.delimiter;
+    console.log(`Imported ${job.importedCount} products from ${job.fileName} (${source.type}, ${stats.skippedRows} rows skipped)`);
+
+    if (job.importedCount === 0) {
+      finishJob(job, 'failed', 'The uploaded file appears to contain no valid product data');
+      return;
+    }
+
+    job.result = {
+      products,
+      importedCount: job.importedCount,
+      skippedRows: stats.skippedRows,
+      issues,
+      missingIdentifiers,
+      missingIdentifierCount,
+      mapping,
+      template,
+      marketplace: source.marketplace ?? null
+    };
+    finishJob(job, 'completed');
+  } finally {
+    await discardUpload(filePath);
+  }
+}
+
+function takeReview(jobId: string): ImportRun | null {
+  const review = reviews.get(jobId);
+  if (!review) return null;
+
+  clearTimeout(review.timer);
+  reviews.delete(jobId);
+  return { filePath: review.filePath, source: review.source, mapping: review.mapping, template: review.template };
+}
+
+function setProgress(job: ImportJob, progress: number): void {
+  const percent = Math.min(100, Math.round(progress * 100));
+  if (percent === job.percent) return;
+  job.percent = percent;
+  publish(job, { type: 'progress', job });
+}
+
+function failJob(job: ImportJob, error: unknown): void {
+  console.error(`Import ${job.id} failed:`, error);
+  finishJob(job, 'failed', error instanceof Error ? error.message : String(error));
+}
+
+function finishJob(job: ImportJob, status: ImportJobStatus, error?: string): void {
+  if (job.finished_at) return;
+
+  job.status = status;
+  job.error = error ?? null;
+  job.finished_at = new Date();
+  if (status === 'completed') job.percent = 100;
+  publish(job, { type: 'finished', job });
+
+  setTimeout(() => {
+    jobs.delete(job.id);
+    rejectedRows.delete(job.id);
+  }, RETENTION_MS).unref();
+}
+
+function publish(job: ImportJob, event: ImportJobEvent): void {
+  jobEvents.emit(job.id, event);
+}
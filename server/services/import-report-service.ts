@@ -0,0 +1,108 @@
+/**
+ * Import Report Service
+ *
+ * Collects the problems found in an import's rows into a report: each row's
+ * errors and warnings, how often each kind came up, and the rows kept out of
+ * the import with why, which can be downloaded as a CSV to fix and upload again.
+ */
+
+import Papa from 'papaparse';
+import { ImportIssueCode } from '@shared/import-fields';
+
+// A problem with one field of a row, as the row is read
+export interface ImportFieldIssue {
+  code: ImportIssueCode;
+  field: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportRowIssue extends ImportFieldIssue {
+  // Row 1 is the first row under the headers; null when the problem isn't one row's
+  row: number | null;
+  product_id: string | null;
+}
+
+export interface ImportReport {
+  totalRows: number;
+  validRows: number;
+  // Rows kept out of the import
+  rejectedRows: number;
+  // Rows imported despite a warning
+  warningRows: number;
+  // How many times each kind of problem came up
+  counts: Partial<Record<ImportIssueCode, number>>;
+  // The first problems found; the counts cover all of them
+  issues: ImportRowIssue[];
+}
+
+// A row kept out of the import, with its values as read
+export interface RejectedRow {
+  row: number;
+  values: Record<string, string>;
+  reasons: string[];
+}
+
+const MAX_REPORT_ISSUES = 200;
+
+export function createImportReport(): ImportReport {
+  return {
+    totalRows: 0,
+    validRows: 0,
+    rejectedRows: 0,
+    warningRows: 0,
+    counts: {},
+    issues: []
+  };
+}
+
+/**
+ * Record a row's problems in the report
+ * @param report Report to add to
+ * @param row The row's number, from 1, or null for a problem that isn't one row's
+ * @param productId The product the row is for, if it has one
+ * @param issues The row's problems, if any
+ * @returns Whether the row can be imported, i.e. it has no errors
+ */
+export function recordImportRow(
+  report: ImportReport,
+  row: number | null,
+  productId: string | null,
+  issues: ImportFieldIssue[]
+): boolean {
+  const accepted = !issues.some(issue => issue.severity === 'error');
+
+  if (row !== null) report.totalRows++;
+  if (accepted) {
+    report.validRows++;
+    if (issues.length > 0) report.warningRows++;
+  } else {
+    report.rejectedRows++;
+  }
+
+  for (const issue of issues) {
+    report.counts[issue.code] = (report.counts[issue.code] ?? 0) + 1;
+    if (report.issues.length < MAX_REPORT_ISSUES) {
+      report.issues.push({ ...issue, row, product_id: productId || null });
+    }
+  }
+
+  return accepted;
+}
+
+/**
+ * A CSV of rejected rows with their original columns, after the row number
+ * and the reasons it was rejected
+ * @param rows Rejected rows in file order
+ */
+export function rejectedRowsCSV(rows: RejectedRow[]): string {
+  // Rows from JSON and XML files may not all have the same columns
+  const headers = Array.from(new Set(rows.flatMap(row => Object.keys(row.values))));
+
+  const csv = Papa.unparse({
+    fields: ['Row', 'Rejected because', ...headers],
+    data: rows.map(row => [String(row.row), row.reasons.join('; '), ...headers.map(header => row.values[header] ?? '')])
+  });
+
+  return '\ufeff' + csv;
+}
@@ -7,6 +7,11 @@
 
 import axios from 'axios';
 import { Product } from '@shared/schema';
+import { FieldMapping, isImportField } from '@shared/import-fields';
+import { validateIdentifier } from './identifier-service';
+import type { ImportRowIssue } from './import-report-service';
+
+export type { FieldMapping };
 
 // API key configuration
 const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
@@ -34,13 +39,6 @@ interface AnalysisResult {
   enhancementPriorities: string[];
 }
 
-// Field mapping interface
-interface FieldMapping {
-  originalField: string;
-  standardField: string;
-  confidence: number;
-}
-
 /**
  * Analyze CSV data structure and product information using AI
  * @param products Raw product data from CSV
@@ -49,6 +47,8 @@ export async function analyzeProductData(products: any[]): Promise<{
   analysis: AnalysisResult;
   mappedProducts: Product[];
   fieldMappings: FieldMapping[];
+  // Products left out of the mapping, such as those without an ID
+  issues: ImportRowIssue[];
 }> {
   try {
     console.log(`Analyzing ${products.length} products with intelligent analyzer`);
@@ -125,7 +125,8 @@ Respond with ONLY a JSON object with the following structure:
     
     // Map ALL products based on detected mappings, not just the samples
     console.log(`Mapping ${products.length} products with detected field mappings`);
-    const mappedProducts = mapProductFields(products, fieldMappings);
+    const issues: ImportRowIssue[] = [];
+    const mappedProducts = mapProductFields(products, fieldMappings, issues);
     console.log(`Successfully mapped ${mappedProducts.length} products with detected field mappings`);
     
     // Log the first few product IDs from the mapped products to verify all were processed
@@ -141,6 +142,7 @@ Respond with ONLY a JSON object with the following structure:
       analysis: analysisResult as AnalysisResult,
       mappedProducts,
       fieldMappings,
+      issues,
     };
   } catch (error) {
     console.error('Error analyzing product data:', error);
@@ -149,7 +151,8 @@ Respond with ONLY a JSON object with the following structure:
     console.log('Falling back to basic analysis');
     console.log(`Attempting to map all ${products.length} products with basic field detection`);
     const fieldMappings = detectFieldMappings(products);
-    const mappedProducts = mapProductFields(products, fieldMappings);
+    const issues: ImportRowIssue[] = [];
+    const mappedProducts = mapProductFields(products, fieldMappings, issues);
     console.log(`Fallback mapping completed successfully with ${mappedProducts.length} products`);
     
     // Log the first few product IDs from the mapped products to verify all were processed
@@ -172,7 +175,7 @@ Respond with ONLY a JSON object with the following structure:
             case 'category': return !!p.category;
             case 'bullet_points': return !!p.bullet_points;
             case 'images': return !!p.images;
-            case 'asin': return !!p.asin;
+            case 'asin': return !!p.asin || !!p.gtin;
             default: return false;
           }
         }),
@@ -188,7 +191,7 @@ Respond with ONLY a JSON object with the following structure:
             case 'category': return !!p.category;
             case 'bullet_points': return !!p.bullet_points;
             case 'images': return !!p.images;
-            case 'asin': return !!p.asin;
+            case 'asin': return !!p.asin || !!p.gtin;
             default: return false;
           }
         })
@@ -208,6 +211,7 @@ Respond with ONLY a JSON object with the following structure:
       analysis: fallbackAnalysis,
       mappedProducts,
       fieldMappings,
+      issues,
     };
   }
 }
@@ -314,14 +318,28 @@ function extractJsonResponse(responseText: string): any {
 }
 
 /**
- * Map product fields based on detected mappings
+ * Map product fields based on detected mappings. Products without an ID are
+ * left out and reported, by their position in the list from 1; an ID is never
+ * invented, since the product couldn't be matched to its row again.
  */
-function mapProductFields(products: any[], fieldMappings: FieldMapping[]): Product[] {
-  return products.map(product => {
+function mapProductFields(products: any[], fieldMappings: FieldMapping[], issues: ImportRowIssue[]): Product[] {
+  const mapped: Product[] = [];
+  products.forEach((product, index) => {
+    if (!product.product_id) {
+      issues.push({
+        code: 'missing_id',
+        field: 'product_id',
+        severity: 'error',
+        message: 'No product ID or SKU',
+        row: index + 1,
+        product_id: null
+      });
+      return;
+    }
+
     // Create a new product object with standardized fields
     const mappedProduct: Partial<Product> = {
-      // Preserve existing product_id if present, otherwise generate a new one
-      product_id: product.product_id || generateProductId(),
+      product_id: product.product_id,
       status: "pending",
       title: null,
       description: null,
@@ -330,7 +348,12 @@ function mapProductFields(products: any[], fieldMappings: FieldMapping[]): Produ
       category: null,
       bullet_points: null,
       images: null,
-      asin: null,
+      // Identifiers were already validated when the CSV was parsed
+      asin: product.asin ?? null,
+      gtin: product.gtin ?? null,
+      attributes: product.attributes ?? null,
+      parent_id: product.parent_id ?? null,
+      variation_theme: product.variation_theme ?? null,
       created_at: new Date(),
       updated_at: new Date()
     };
@@ -364,9 +387,16 @@ function mapProductFields(products: any[], fieldMappings: FieldMapping[]): Produ
           case 'images':
             mappedProduct.images = product[originalField];
             break;
-          case 'asin':
-            mappedProduct.asin = product[originalField];
+          case 'asin': {
+            const check = validateIdentifier(product[originalField], 'ASIN');
+            if (check.valid) mappedProduct.asin = check.normalized;
+            break;
+          }
+          case 'gtin': {
+            const check = validateIdentifier(product[originalField], 'GTIN');
+            if (check.valid) mappedProduct.gtin = check.normalized;
             break;
+          }
         }
       }
     }
@@ -380,18 +410,9 @@ function mapProductFields(products: any[], fieldMappings: FieldMapping[]): Produ
     mappedProduct.created_at = new Date();
     mappedProduct.updated_at = new Date();
     
-    return mappedProduct as Product;
+    mapped.push(mappedProduct as Product);
   });
-}
-
-/**
- * Generate a random product ID
- */
-function generateProductId(): string {
-  // Use timestamp to ensure uniqueness
-  const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `PROD-${timestamp}-${random}`;
+  return mapped;
 }
 
 /**
@@ -419,9 +440,15 @@ function detectFieldMappings(products: any[]): FieldMapping[] {
   }
   
   // Get all keys from the first product
-  const sampleProduct = products[0];
-  const keys = Object.keys(sampleProduct);
-  
+  return suggestFieldMappings(Object.keys(products[0]));
+}
+
+/**
+ * Suggest a standard field for column headers by name. Exact matches score
+ * 0.9, headers that merely contain a known name 0.7; unmatched headers are left out.
+ * @param keys Column headers
+ */
+export function suggestFieldMappings(keys: string[]): FieldMapping[] {
   const mappings: FieldMapping[] = [];
   
   // Field name normalization mapping
@@ -464,7 +491,9 @@ function detectFieldMappings(products: any[]): FieldMapping[] {
     
     // Bullet point mappings
     'bullet_points': 'bullet_points',
+    'bullet_point': 'bullet_points',
     'bullets': 'bullet_points',
+    'bullet': 'bullet_points',
     'features': 'bullet_points',
     'product_features': 'bullet_points',
     'key_features': 'bullet_points',
@@ -483,6 +512,13 @@ function detectFieldMappings(products: any[]): FieldMapping[] {
     'amazon_id': 'asin',
     'amazon_identifier': 'asin',
     'amazon_asin': 'asin',
+
+    // Barcode mappings
+    'gtin': 'gtin',
+    'upc': 'gtin',
+    'ean': 'gtin',
+    'isbn': 'gtin',
+    'barcode': 'gtin',
   };
   
   // Loop through all keys in the sample product
@@ -516,6 +552,63 @@ function detectFieldMappings(products: any[]): FieldMapping[] {
   return mappings;
 }
 
+/**
+ * Ask the AI which import field each column holds, judging by the headers and
+ * a few sample rows. Falls back to matching header names when no AI is available.
+ * @param headers Column headers
+ * @param sampleRows First rows of the file
+ * @param fields Field IDs the AI may choose from
+ */
+export async function suggestFieldMappingsWithAI(
+  headers: string[],
+  sampleRows: Record<string, string>[],
+  fields: string[]
+): Promise<FieldMapping[]> {
+  try {
+    const systemPrompt = `
+You are an e-commerce product data expert.
+Your task is to decide which standard product field each column of a supplier file holds.
+Respond in a structured JSON format that can be directly parsed by a program.
+`;
+
+    const userPrompt = `
+Columns: ${JSON.stringify(headers)}
+
+Sample rows:
+${JSON.stringify(sampleRows.slice(0, 3), null, 2)}
+
+Map each column to one of these fields: ${JSON.stringify(fields)}
+Use "" for columns that hold none of them. Use each field for one column at most,
+except bullet_points and images, which may take several columns.
+
+Respond with ONLY a JSON object with the following structure:
+{
+  "fieldMappings": [
+    {
+      "originalField": "string",
+      "standardField": "string",
+      "confidence": number (0-1)
+    }
+  ]
+}
+`;
+
+    const response = await callOpenRouterAPI(systemPrompt, userPrompt);
+    const suggestions: FieldMapping[] = extractJsonResponse(response).fieldMappings || [];
+
+    // Only keep answers about real columns and fields
+    return suggestions.filter(mapping =>
+      headers.includes(mapping.originalField) &&
+      typeof mapping.standardField === 'string' &&
+      isImportField(mapping.standardField) &&
+      typeof mapping.confidence === 'number'
+    );
+  } catch (error) {
+    console.error('Error suggesting field mappings with AI:', error);
+    return suggestFieldMappings(headers);
+  }
+}
+
 /**
  * Analyze products to detect their type and other attributes
  */
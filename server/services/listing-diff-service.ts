@@ -0,0 +1,235 @@
+/**
+ * Listing Diff Service
+ *
+ * Builds structured diffs between a product's original supplier content and
+ * its current (enhanced) content: word-level for text fields and per item for
+ * bullet points. The original values come from the product's revision
+ * history, so the comparison survives reloads and covers the whole catalog.
+ */
+
+import { Product, ProductRevision } from '@shared/schema';
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  value: string;
+}
+
+export interface ListItemDiff {
+  type: 'unchanged' | 'added' | 'removed' | 'changed';
+  original: string | null;
+  enhanced: string | null;
+  // Word-level changes for items that were reworded
+  segments?: DiffSegment[];
+}
+
+export type FieldDiff =
+  | { field: string; kind: 'text'; changed: boolean; original: string | null; enhanced: string | null; segments: DiffSegment[] }
+  | { field: string; kind: 'list'; changed: boolean; original: string[]; enhanced: string[]; items: ListItemDiff[] };
+
+export interface ProductDiff {
+  product_id: string;
+  changed: boolean;
+  fields: FieldDiff[];
+}
+
+// Content fields shown in the diff, in display order
+const TEXT_FIELDS = ['title', 'brand', 'category', 'description'] as const;
+const LIST_FIELDS = ['bullet_points'] as const;
+
+// Above this many tokens the LCS table gets too large; show a full replacement instead
+const MAX_DIFF_TOKENS = 4000;
+
+/**
+ * Diff a product's original content against its current content
+ * @param product Current product
+ * @param revisions The product's revision history (any order)
+ */
+export function buildProductDiff(product: Product, revisions: ProductRevision[]): ProductDiff {
+  const fields: FieldDiff[] = [];
+
+  for (const field of TEXT_FIELDS) {
+    const original = asText(originalValue(product, revisions, field));
+    const enhanced = asText(product[field]);
+    fields.push({
+      field,
+      kind: 'text',
+      changed: original !== enhanced,
+      original,
+      enhanced,
+      segments: diffText(original ?? '', enhanced ?? '')
+    });
+  }
+
+  for (const field of LIST_FIELDS) {
+    const original = asList(originalValue(product, revisions, field));
+    const enhanced = asList(product[field]);
+    const items = diffList(original, enhanced);
+    fields.push({
+      field,
+      kind: 'list',
+      changed: items.some(item => item.type !== 'unchanged'),
+      original,
+      enhanced,
+      items
+    });
+  }
+
+  return {
+    product_id: product.product_id,
+    changed: fields.some(field => field.changed),
+    fields
+  };
+}
+
+/**
+ * A field's value as last imported from the supplier. Falls back to the value
+ * before the first recorded change, or the current value if it never changed.
+ */
+function originalValue(product: Product, revisions: ProductRevision[], field: keyof Product): unknown {
+  const fieldHistory = revisions
+    .filter(revision => revision.field === field)
+    .sort((a, b) => a.id - b.id);
+
+  const imports = fieldHistory.filter(revision => revision.source === 'csv_import');
+  if (imports.length > 0) return imports[imports.length - 1].new_value;
+  if (fieldHistory.length > 0) return fieldHistory[0].previous_value;
+  return product[field];
+}
+
+/**
+ * Word-level diff of two strings. Whitespace is kept in the segments so
+ * joining them reproduces either side exactly.
+ */
+export function diffText(original: string, enhanced: string): DiffSegment[] {
+  if (original === enhanced) {
+    return original ? [{ type: 'equal', value: original }] : [];
+  }
+
+  const before = tokenize(original);
+  const after = tokenize(enhanced);
+
+  if (before.length + after.length > MAX_DIFF_TOKENS) {
+    return mergeSegments([
+      { type: 'delete', value: original },
+      { type: 'insert', value: enhanced }
+    ]);
+  }
+
+  return mergeSegments(
+    diffSequences(before, after, (a, b) => a === b).map(step => ({
+      type: step.type,
+      value: step.type === 'insert' ? after[step.afterIndex!] : before[step.beforeIndex!]
+    }))
+  );
+}
+
+/**
+ * Per-item diff of two lists. Runs of removed items directly followed by
+ * added items are paired up as rewordings and given a word-level diff.
+ */
+export function diffList(original: string[], enhanced: string[]): ListItemDiff[] {
+  const steps = diffSequences(original, enhanced, (a, b) => a.trim() === b.trim());
+  const items: ListItemDiff[] = [];
+
+  for (let i = 0; i < steps.length;) {
+    if (steps[i].type === 'equal') {
+      const value = original[steps[i].beforeIndex!];
+      items.push({ type: 'unchanged', original: value, enhanced: enhanced[steps[i].afterIndex!] ?? value });
+      i++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (i < steps.length && steps[i].type === 'delete') removed.push(original[steps[i++].beforeIndex!]);
+    while (i < steps.length && steps[i].type === 'insert') added.push(enhanced[steps[i++].afterIndex!]);
+
+    const paired = Math.min(removed.length, added.length);
+    for (let j = 0; j < paired; j++) {
+      items.push({ type: 'changed', original: removed[j], enhanced: added[j], segments: diffText(removed[j], added[j]) });
+    }
+    removed.slice(paired).forEach(value => items.push({ type: 'removed', original: value, enhanced: null }));
+    added.slice(paired).forEach(value => items.push({ type: 'added', original: null, enhanced: value }));
+  }
+
+  return items;
+}
+
+interface DiffStep {
+  type: DiffOperation;
+  beforeIndex?: number;
+  afterIndex?: number;
+}
+
+// Longest-common-subsequence edit script, deletions before insertions
+function diffSequences<T>(before: T[], after: T[], equals: (a: T, b: T) => boolean): DiffStep[] {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = equals(before[i], after[j])
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const steps: DiffStep[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (equals(before[i], after[j])) {
+      steps.push({ type: 'equal', beforeIndex: i++, afterIndex: j++ });
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      steps.push({ type: 'delete', beforeIndex: i++ });
+    } else {
+      steps.push({ type: 'insert', afterIndex: j++ });
+    }
+  }
+  while (i < before.length) steps.push({ type: 'delete', beforeIndex: i++ });
+  while (j < after.length) steps.push({ type: 'insert', afterIndex: j++ });
+
+  // Within each run of changes, list every deletion before the insertions
+  const ordered: DiffStep[] = [];
+  for (let k = 0; k < steps.length;) {
+    if (steps[k].type === 'equal') {
+      ordered.push(steps[k++]);
+      continue;
+    }
+    const run: DiffStep[] = [];
+    while (k < steps.length && steps[k].type !== 'equal') run.push(steps[k++]);
+    ordered.push(...run.filter(step => step.type === 'delete'), ...run.filter(step => step.type === 'insert'));
+  }
+
+  return ordered;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    if (!segment.value) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.value += segment.value;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+function asText(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  return String(value);
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(item => String(item)) : [];
+}
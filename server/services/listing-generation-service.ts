@@ -0,0 +1,444 @@
+/**
+ * Listing Generation Service
+ *
+ * Provider-agnostic product enhancement: research, title, description,
+ * bullet point, brand and category generation written once against the
+ * LLMProvider interface so any vendor adapter can be plugged in.
+ */
+
+import { Product } from '@shared/schema';
+import { getMarketplaceRequirements } from '../../client/src/lib/marketplace-requirements';
+import { LLMErrorCode, LLMProvider, LLMProviderError } from './llm';
+import { systemPrompts } from './smart-prompts';
+import {
+  generateTitlePrompt,
+  generateDescriptionPrompt,
+  generateBulletPointsPrompt
+} from './prompt-utils';
+import * as marketplacePrompts from './marketplace-optimized-prompts';
+
+/**
+ * Which prompt family to use:
+ * - standard: smart-prompts guidance per product type and marketplace
+ * - optimized: the marketplace-optimized JSON prompts
+ */
+export type PromptSet = 'standard' | 'optimized';
+
+/**
+ * Version recorded with each generated field in the product's revision
+ * history. Bump when a prompt family changes meaningfully.
+ */
+export const PROMPT_VERSIONS: Record<PromptSet, string> = {
+  standard: 'standard-v1',
+  optimized: 'optimized-v1'
+};
+
+export interface ListingGenerationOptions {
+  promptSet?: PromptSet;
+  /** Regenerate title/description/bullets even when they are already present */
+  regenerateExisting?: boolean;
+  /**
+   * Provider error codes that abort the whole product instead of leaving the
+   * failing field unchanged; fatal errors (bad key, no credits) always abort
+   */
+  failOn?: LLMErrorCode[];
+  /** Called with each field as soon as it has been generated */
+  onField?: (field: string, value: unknown) => void;
+}
+
+export interface ProductResearch {
+  product_type: string;
+  likely_features: string[];
+  target_audience: string;
+  search_terms: string[];
+  price_tier: string;
+  enhanced_understanding?: string;
+  confidence_score: number;
+}
+
+/**
+ * Enhances a list of products with the given provider
+ * @param products List of products to enhance
+ * @param marketplace Target marketplace (e.g., "Amazon", "eBay")
+ * @param provider LLM provider adapter to generate content with
+ * @param options Prompt set and regeneration options
+ * @returns Enhanced product data
+ * @throws LLMProviderError when the provider becomes unusable (bad key, no credits),
+ * or with one of the codes listed in options.failOn
+ */
+export async function enhanceProductsWithProvider(
+  products: any[],
+  marketplace: string,
+  provider: LLMProvider,
+  options: ListingGenerationOptions = {}
+): Promise<Product[]> {
+  console.log(`Enhancing ${products.length} products for ${marketplace} with ${provider.displayName} (${provider.model.id})`);
+  const startTime = Date.now();
+  const enhancedProducts: Product[] = [];
+
+  for (let i = 0; i < products.length; i++) {
+    enhancedProducts.push(await enhanceProductWithProvider(products[i], marketplace, provider, options));
+
+    if ((i + 1) % 10 === 0 || i === products.length - 1) {
+      console.log(`Progress: ${i + 1}/${products.length} products enhanced (${Math.round((i + 1) / products.length * 100)}%)`);
+    }
+  }
+
+  const duration = (Date.now() - startTime) / 1000;
+  console.log(`Enhancement completed in ${duration.toFixed(1)} seconds for ${products.length} products`);
+
+  return enhancedProducts;
+}
+
+/**
+ * Enhances a single product, filling in the fields it is missing.
+ * Field-level failures leave the original value and mark the product "partial".
+ */
+export async function enhanceProductWithProvider(
+  product: any,
+  marketplace: string,
+  provider: LLMProvider,
+  options: ListingGenerationOptions = {}
+): Promise<Product> {
+  const promptSet = options.promptSet || 'standard';
+  const regenerate = !!options.regenerateExisting;
+  const guidelines = getMarketplaceRequirements(marketplace).formatGuidelines;
+  const enhancedProduct = { ...product };
+  let failedFields = 0;
+
+  // Wraps each generation step so one failing field doesn't lose the others
+  const step = async <T>(field: string, generate: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      return await generate();
+    } catch (error) {
+      if (error instanceof LLMProviderError && (error.isFatal || options.failOn?.includes(error.code))) {
+        throw error;
+      }
+      failedFields++;
+      console.error(`Error generating ${field} for product ${product.product_id}:`, error);
+      return undefined;
+    }
+  };
+
+  // Research the product first when core information is missing, so later
+  // prompts have a better understanding of what it is
+  let research: ProductResearch | undefined;
+  if (promptSet === 'optimized' || !product.category || !product.title || !product.description) {
+    research = await step('research', () => researchProduct(product, provider, promptSet));
+    if (research) {
+      enhancedProduct._research = research;
+      console.log(`Research complete for ${product.product_id}, identified as: ${research.product_type}`);
+    }
+  }
+
+  if (regenerate || !product.title || (promptSet === 'optimized' && product.title.length < 10)) {
+    const maxLength = guidelines.title?.maxLength || 200;
+    const title = await step('title', () => generateTitle(enhancedProduct, marketplace, provider, maxLength, promptSet));
+    if (title) {
+      enhancedProduct.title = title;
+      options.onField?.('title', title);
+    }
+  }
+
+  if (regenerate || !product.description || (promptSet === 'optimized' && product.description.length < 50)) {
+    const maxLength = guidelines.description?.maxLength || 2000;
+    const description = await step('description', () => generateDescription(enhancedProduct, marketplace, provider, maxLength, promptSet));
+    if (description) {
+      enhancedProduct.description = description;
+      options.onField?.('description', description);
+    }
+  }
+
+  if (regenerate || !Array.isArray(product.bullet_points) || product.bullet_points.length === 0) {
+    const count = guidelines.bullet_points?.count || 5;
+    const bulletPoints = await step('bullet points', () => generateBulletPoints(enhancedProduct, marketplace, provider, count, promptSet));
+    if (bulletPoints && bulletPoints.length > 0) {
+      enhancedProduct.bullet_points = bulletPoints;
+      options.onField?.('bullet_points', bulletPoints);
+    }
+  }
+
+  if (!product.brand) {
+    const brand = await step('brand', () => suggestBrand(enhancedProduct, provider, promptSet));
+    if (brand) {
+      enhancedProduct.brand = brand;
+      options.onField?.('brand', brand);
+    }
+  }
+
+  if (!product.category) {
+    const category = research?.product_type || await step('category', () => suggestCategory(enhancedProduct, marketplace, provider));
+    if (category) {
+      enhancedProduct.category = category;
+      options.onField?.('category', category);
+    }
+  }
+
+  delete enhancedProduct._research;
+  enhancedProduct.status = failedFields > 0 ? 'partial' : 'enhanced';
+
+  return enhancedProduct as Product;
+}
+
+/**
+ * Researches a product to understand what it is based on limited information
+ * @param product Product data with limited information
+ * @param provider LLM provider adapter
+ * @param promptSet Prompt family to use
+ * @returns Enhanced understanding of the product
+ */
+export async function researchProduct(
+  product: any,
+  provider: LLMProvider,
+  promptSet: PromptSet = 'standard'
+): Promise<ProductResearch> {
+  if (promptSet === 'optimized') {
+    const { data } = await provider.completeJSON({
+      systemPrompt: 'You are an expert retail product analyst specialized in identifying specific product types and categories from limited data.',
+      userPrompt: marketplacePrompts.generateProductTypeDetectionPrompt([product]),
+      temperature: 0.3,
+      maxTokens: 1000
+    });
+
+    return {
+      product_type: data.product_type || product.category || 'General merchandise',
+      likely_features: data.key_features || [],
+      target_audience: data.target_audience || 'general consumers',
+      search_terms: [],
+      price_tier: data.price_tier || 'mid-range',
+      confidence_score: data.confidence_score ?? 0.5
+    };
+  }
+
+  const productInfo = {
+    product_id: product.product_id,
+    title: product.title || null,
+    description: product.description || null,
+    price: product.price || null,
+    brand: product.brand || null,
+    category: product.category || null,
+    attributes: product.attributes || null,
+    available_data: Object.keys(product).filter(key => !!product[key])
+  };
+
+  const { data } = await provider.completeJSON({
+    systemPrompt: systemPrompts.productResearch,
+    userPrompt: `
+Analyze this product data and help me understand what this product is. The information may be incomplete.
+
+Product Information:
+${JSON.stringify(productInfo, null, 2)}
+
+Format your response as JSON with these fields:
+{
+  "product_type": "String describing the specific product type",
+  "likely_features": ["Array of strings with likely key features"],
+  "target_audience": "String describing the target audience",
+  "search_terms": ["Array of strings with likely search terms"],
+  "pricing_tier": "budget|mid-range|premium",
+  "enhanced_understanding": "String with overall assessment of what this product is",
+  "confidence_score": number from 0-1 indicating confidence in the analysis
+}
+`,
+    temperature: 0.5,
+    maxTokens: 800
+  });
+
+  return {
+    product_type: data.product_type || product.category || 'General Merchandise',
+    likely_features: data.likely_features || [],
+    target_audience: data.target_audience || 'General consumers',
+    search_terms: data.search_terms || [],
+    price_tier: data.pricing_tier || 'mid-range',
+    enhanced_understanding: data.enhanced_understanding,
+    confidence_score: data.confidence_score ?? 0.5
+  };
+}
+
+/**
+ * Generates an SEO-optimized product title
+ * @returns Generated title, trimmed to maxLength
+ */
+export async function generateTitle(
+  product: any,
+  marketplace: string,
+  provider: LLMProvider,
+  maxLength: number,
+  promptSet: PromptSet = 'standard'
+): Promise<string> {
+  let title: string;
+
+  if (promptSet === 'optimized') {
+    const { data } = await provider.completeJSON({
+      systemPrompt: `You are an SEO specialist for ${marketplace} with expertise in creating high-converting product titles.`,
+      userPrompt: marketplacePrompts.generateProductTitlePrompt(product, productTypeOf(product), marketplace, maxLength),
+      temperature: 0.3,
+      maxTokens: 600
+    });
+    title = Array.isArray(data.titles) ? data.titles[0] || '' : '';
+  } else {
+    const { text } = await provider.complete({
+      systemPrompt: systemPrompts.titleGeneration,
+      userPrompt: generateTitlePrompt(product, marketplace, maxLength),
+      temperature: 0.7,
+      maxTokens: 150
+    });
+    title = text;
+  }
+
+  return cleanText(title).replace(/\n+/g, ' ').substring(0, maxLength);
+}
+
+/**
+ * Generates a detailed product description
+ * @returns Generated description, trimmed to maxLength
+ */
+export async function generateDescription(
+  product: any,
+  marketplace: string,
+  provider: LLMProvider,
+  maxLength: number,
+  promptSet: PromptSet = 'standard'
+): Promise<string> {
+  const research: ProductResearch | undefined = product._research;
+  const { text } = await provider.complete(
+    promptSet === 'optimized'
+      ? {
+          systemPrompt: 'You are an experienced e-commerce copywriter who specializes in writing product descriptions that convert.',
+          userPrompt: marketplacePrompts.generateProductDescriptionPrompt(
+            product,
+            productTypeOf(product),
+            research?.target_audience,
+            research?.price_tier
+          ),
+          temperature: 0.3,
+          maxTokens: 1500
+        }
+      : {
+          systemPrompt: systemPrompts.descriptionGeneration,
+          userPrompt: generateDescriptionPrompt(product, marketplace, maxLength),
+          temperature: 0.7,
+          maxTokens: Math.ceil(maxLength / 3)
+        }
+  );
+
+  return cleanText(text).substring(0, maxLength);
+}
+
+/**
+ * Generates bullet points highlighting key product features
+ * @returns Up to `count` bullet points
+ */
+export async function generateBulletPoints(
+  product: any,
+  marketplace: string,
+  provider: LLMProvider,
+  count: number,
+  promptSet: PromptSet = 'standard'
+): Promise<string[]> {
+  let lines: string[];
+
+  if (promptSet === 'optimized') {
+    const { data } = await provider.completeJSON({
+      systemPrompt: `You are a product marketer for ${marketplace} with expertise in creating persuasive bullet points.`,
+      userPrompt: marketplacePrompts.generateBulletPointsPrompt(product, productTypeOf(product), marketplace),
+      temperature: 0.3,
+      maxTokens: 1000
+    });
+    lines = Array.isArray(data.bullet_points) ? data.bullet_points.map(String) : [];
+  } else {
+    const { text } = await provider.complete({
+      systemPrompt: systemPrompts.bulletPointGeneration,
+      userPrompt: generateBulletPointsPrompt(product, marketplace, count),
+      temperature: 0.7,
+      maxTokens: count * 100
+    });
+    lines = text.split('\n');
+  }
+
+  return lines
+    .map(line => cleanText(line.replace(/^\s*(?:[•\-*]|\d+[.)])\s*/, '')))
+    .filter(line => line.length > 0)
+    .slice(0, count);
+}
+
+/**
+ * Suggests a brand name based on product information
+ * @returns Suggested brand name
+ */
+export async function suggestBrand(
+  product: any,
+  provider: LLMProvider,
+  promptSet: PromptSet = 'standard'
+): Promise<string> {
+  let brand: string;
+
+  if (promptSet === 'optimized') {
+    const { data } = await provider.completeJSON({
+      systemPrompt: 'You are a branding expert specializing in creating authentic brand names for e-commerce products.',
+      userPrompt: marketplacePrompts.generateBrandSuggestionPrompt(product, productTypeOf(product)),
+      temperature: 0.5,
+      maxTokens: 600
+    });
+    brand = data.recommended_brand || '';
+  } else {
+    const { text } = await provider.complete({
+      systemPrompt: `You are a product branding expert. Only suggest existing brands that would likely make this type of product, or a generic but realistic manufacturer name. Never invent fictional brands with unrealistic names.`,
+      userPrompt: `
+Based on the following product information, suggest a plausible brand name.
+If there are any brand hints in the product title, description, or category, use those.
+
+Product Information:
+${JSON.stringify(product, null, 2)}
+
+Return ONLY the brand name, nothing else.
+`,
+      temperature: 0.5,
+      maxTokens: 50
+    });
+    brand = text;
+  }
+
+  brand = cleanText(brand).replace(/\n/g, ' ');
+  if (!brand || brand.length > 50) {
+    throw new Error('Invalid brand name generated');
+  }
+
+  return brand;
+}
+
+/**
+ * Suggests a product category for the target marketplace
+ * @returns Suggested category name
+ */
+export async function suggestCategory(
+  product: any,
+  marketplace: string,
+  provider: LLMProvider
+): Promise<string> {
+  const { text } = await provider.complete({
+    systemPrompt: systemPrompts.productResearch,
+    userPrompt: `
+Based on the following product information, suggest the most appropriate product category for ${marketplace} marketplace.
+Do not invent details, but work only with what's provided in the product information.
+
+Product Information:
+${JSON.stringify(product, null, 2)}
+
+Return ONLY the category name (e.g., "Electronics", "Home & Kitchen", "Sporting Goods", etc.), nothing else.
+`,
+    temperature: 0.3,
+    maxTokens: 50
+  });
+
+  return cleanText(text).split('\n')[0];
+}
+
+function productTypeOf(product: any): string {
+  return product._research?.product_type || product.category || 'General merchandise';
+}
+
+// Strip wrapping quotes and whitespace that models commonly add
+function cleanText(text: string): string {
+  return text.trim().replace(/^["'“]+|["'”]+$/g, '').trim();
+}
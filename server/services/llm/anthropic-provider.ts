@@ -0,0 +1,76 @@
+/**
+ * Anthropic Claude adapter for the LLM provider interface
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { BaseProvider, SendResult } from './base-provider';
+import { CompletionRequest, CostInfo, ModelInfo } from './types';
+
+// the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+const DEFAULT_MODEL = 'claude-3-7-sonnet-20250219';
+
+const MODELS: Record<string, { model: ModelInfo; cost: CostInfo }> = {
+  'claude-3-7-sonnet-20250219': {
+    model: { id: 'claude-3-7-sonnet-20250219', displayName: 'Claude 3.7 Sonnet', contextWindow: 200000, maxOutputTokens: 8192, supportsJsonMode: false },
+    cost: { inputPerMillion: 3, outputPerMillion: 15, currency: 'USD' }
+  },
+  'claude-3-5-haiku-20241022': {
+    model: { id: 'claude-3-5-haiku-20241022', displayName: 'Claude 3.5 Haiku', contextWindow: 200000, maxOutputTokens: 8192, supportsJsonMode: false },
+    cost: { inputPerMillion: 0.8, outputPerMillion: 4, currency: 'USD' }
+  }
+};
+
+export class AnthropicProvider extends BaseProvider {
+  readonly name = 'anthropic' as const;
+  readonly displayName = 'Anthropic Claude';
+  readonly model: ModelInfo;
+  readonly cost: CostInfo;
+
+  private readonly apiKey: string | undefined;
+  private client: Anthropic | null = null;
+
+  constructor(options: { apiKey?: string; model?: string } = {}) {
+    super();
+    this.apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY;
+    const entry = MODELS[options.model || DEFAULT_MODEL] || MODELS[DEFAULT_MODEL];
+    this.model = entry.model;
+    this.cost = entry.cost;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected async send(request: CompletionRequest, jsonMode: boolean): Promise<SendResult> {
+    if (!this.client) {
+      // Retries are left to the scheduler and fallback policy so 429s back off once
+      this.client = new Anthropic({ apiKey: this.apiKey, maxRetries: 0 });
+    }
+
+    // Claude has no JSON mode, so ask for it explicitly
+    const userPrompt = jsonMode
+      ? `${request.userPrompt}\n\nRespond with valid JSON only, with no surrounding text.`
+      : request.userPrompt;
+
+    const { data: response, response: raw } = await this.client.messages.create({
+      model: this.model.id,
+      ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
+      messages: [{ role: 'user', content: userPrompt }],
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1024
+    }).withResponse();
+
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      text,
+      headers: raw.headers,
+      usage: {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0
+      }
+    };
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Base LLM Provider
+ *
+ * Behaviour shared by every adapter: request scheduling and rate-limit
+ * handling, JSON extraction, cost estimation and translation of vendor/HTTP
+ * errors into LLMProviderError.
+ */
+
+import { getProviderScheduler, parseResetTime, readHeader } from './scheduler';
+import {
+  CompletionRequest,
+  CompletionResult,
+  CostInfo,
+  JSONCompletionResult,
+  LLMProvider,
+  LLMProviderError,
+  ModelInfo,
+  ProviderName,
+  TokenUsage
+} from './types';
+
+export interface SendResult {
+  text: string;
+  usage: TokenUsage;
+  /** Response headers, used to track the provider's rate limits */
+  headers?: unknown;
+}
+
+export abstract class BaseProvider implements LLMProvider {
+  abstract readonly name: ProviderName;
+  abstract readonly displayName: string;
+  abstract readonly model: ModelInfo;
+  abstract readonly cost: CostInfo;
+
+  abstract isConfigured(): boolean;
+
+  /**
+   * Vendor-specific call. `jsonMode` asks the vendor for a JSON response, natively
+   * where supported or via the prompt otherwise; completeJSON still validates it.
+   */
+  protected abstract send(request: CompletionRequest, jsonMode: boolean): Promise<SendResult>;
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.assertConfigured();
+
+    const { text, usage } = await this.scheduledSend(request, false);
+    return this.buildResult(text.trim(), usage);
+  }
+
+  async completeJSON<T = any>(request: CompletionRequest): Promise<JSONCompletionResult<T>> {
+    this.assertConfigured();
+
+    const { text: raw, usage } = await this.scheduledSend(request, true);
+
+    const data = extractJSON<T>(raw);
+    if (data === undefined) {
+      throw new LLMProviderError(this.name, 'bad_response', `${this.displayName} did not return valid JSON`);
+    }
+
+    const { text: _text, ...result } = this.buildResult(raw, usage);
+    return { ...result, data, raw };
+  }
+
+  estimateCost(usage: TokenUsage): number {
+    return (
+      (usage.inputTokens / 1_000_000) * this.cost.inputPerMillion +
+      (usage.outputTokens / 1_000_000) * this.cost.outputPerMillion
+    );
+  }
+
+  /**
+   * Send through the provider's shared scheduler, which bounds concurrency and
+   * pauses every caller while the provider's rate limit is exhausted
+   */
+  private async scheduledSend(request: CompletionRequest, jsonMode: boolean): Promise<SendResult> {
+    const scheduler = getProviderScheduler(this.name);
+
+    try {
+      const result = await scheduler.schedule(() => this.send(request, jsonMode));
+      scheduler.recordSuccess(result.headers);
+      return result;
+    } catch (error) {
+      const providerError = toProviderError(this.name, error);
+      if (providerError.code === 'rate_limited') {
+        const headers = (error as any)?.headers ?? (error as any)?.response?.headers;
+        const pausedFor = scheduler.recordRateLimit(providerError.retryAfterMs, headers);
+        // Callers that retry wait as long as the scheduler pauses the provider
+        throw new LLMProviderError(this.name, 'rate_limited', providerError.message, {
+          status: providerError.status,
+          retryAfterMs: pausedFor,
+          cause: error
+        });
+      }
+      throw providerError;
+    }
+  }
+
+  private buildResult(text: string, usage: TokenUsage): CompletionResult {
+    return {
+      text,
+      provider: this.name,
+      model: this.model.id,
+      usage,
+      costUsd: this.estimateCost(usage)
+    };
+  }
+
+  private assertConfigured(): void {
+    if (!this.isConfigured()) {
+      throw new LLMProviderError(this.name, 'not_configured', `${this.displayName} API key is not set`);
+    }
+  }
+}
+
+/**
+ * Parse JSON from a model response, tolerating markdown fences and
+ * surrounding prose
+ * @returns Parsed value, or undefined if no JSON could be found
+ */
+export function extractJSON<T = any>(text: string): T | undefined {
+  const candidates = [
+    text.trim(),
+    text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1],
+    text.match(/\{[\s\S]*\}/)?.[0],
+    text.match(/\[[\s\S]*\]/)?.[0]
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert an SDK, axios or fetch error into an LLMProviderError
+ */
+export function toProviderError(provider: ProviderName, error: any): LLMProviderError {
+  if (error instanceof LLMProviderError) return error;
+
+  const status: number | undefined = error?.status ?? error?.response?.status;
+  const headers = error?.headers ?? error?.response?.headers;
+  const body = error?.error ?? error?.response?.data?.error ?? error?.response?.data;
+  // Gemini reports the delay in a RetryInfo detail rather than a header
+  const retryAfterMs = parseRetryAfter(readHeader(headers, 'retry-after')) ??
+    parseResetTime(body?.details?.find((detail: any) => detail?.retryDelay)?.retryDelay);
+  const vendorMessage: string =
+    (typeof body?.message === 'string' && body.message) ||
+    error?.message ||
+    'Unknown error';
+  const message = `${provider}: ${vendorMessage}`;
+  const options = { status, retryAfterMs, cause: error };
+
+  if (
+    status === 402 ||
+    body?.type === 'insufficient_quota' ||
+    body?.code === 'insufficient_quota' ||
+    /insufficient (credits|quota)|credit balance/i.test(vendorMessage)
+  ) {
+    return new LLMProviderError(provider, 'insufficient_credits', message, options);
+  }
+  if (status === 401 || status === 403) {
+    return new LLMProviderError(provider, 'auth', message, options);
+  }
+  if (status === 429) {
+    return new LLMProviderError(provider, 'rate_limited', message, options);
+  }
+  if (
+    status === 408 ||
+    error?.code === 'ECONNABORTED' ||
+    error?.code === 'ETIMEDOUT' ||
+    error?.name === 'APIConnectionTimeoutError' ||
+    /timed? ?out/i.test(vendorMessage)
+  ) {
+    return new LLMProviderError(provider, 'timeout', message, options);
+  }
+  if (status !== undefined && status >= 500) {
+    return new LLMProviderError(provider, 'server_error', message, options);
+  }
+
+  return new LLMProviderError(provider, 'unknown', message, options);
+}
+
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
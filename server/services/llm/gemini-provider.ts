@@ -0,0 +1,83 @@
+/**
+ * Google Gemini adapter for the LLM provider interface
+ */
+
+import axios from 'axios';
+import { BaseProvider, SendResult } from './base-provider';
+import { CompletionRequest, CostInfo, ModelInfo } from './types';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const DEFAULT_MODEL = 'gemini-1.5-pro';
+
+const MODELS: Record<string, { model: ModelInfo; cost: CostInfo }> = {
+  'gemini-1.5-pro': {
+    model: { id: 'gemini-1.5-pro', displayName: 'Gemini 1.5 Pro', contextWindow: 2000000, maxOutputTokens: 8192, supportsJsonMode: true },
+    cost: { inputPerMillion: 1.25, outputPerMillion: 5, currency: 'USD' }
+  },
+  'gemini-1.5-flash': {
+    model: { id: 'gemini-1.5-flash', displayName: 'Gemini 1.5 Flash', contextWindow: 1000000, maxOutputTokens: 8192, supportsJsonMode: true },
+    cost: { inputPerMillion: 0.075, outputPerMillion: 0.3, currency: 'USD' }
+  }
+};
+
+export class GeminiProvider extends BaseProvider {
+  readonly name = 'gemini' as const;
+  readonly displayName = 'Google Gemini';
+  readonly model: ModelInfo;
+  readonly cost: CostInfo;
+
+  private readonly apiKey: string | undefined;
+
+  constructor(options: { apiKey?: string; model?: string } = {}) {
+    super();
+    this.apiKey = options.apiKey ?? process.env.GEMINI_API_KEY;
+    const entry = MODELS[options.model || DEFAULT_MODEL] || MODELS[DEFAULT_MODEL];
+    this.model = entry.model;
+    this.cost = entry.cost;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected async send(request: CompletionRequest, jsonMode: boolean): Promise<SendResult> {
+    const response = await axios.post(
+      `${GEMINI_BASE_URL}/${this.model.id}:generateContent`,
+      {
+        ...(request.systemPrompt
+          ? { systemInstruction: { parts: [{ text: request.systemPrompt }] } }
+          : {}),
+        contents: [
+          {
+            role: 'user',
+            parts: [{ text: request.userPrompt }]
+          }
+        ],
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.maxTokens ?? 1024,
+          topP: 0.95,
+          ...(jsonMode ? { responseMimeType: 'application/json' } : {})
+        }
+      },
+      {
+        headers: { 'Content-Type': 'application/json' },
+        params: { key: this.apiKey }
+      }
+    );
+
+    const parts = response.data?.candidates?.[0]?.content?.parts;
+    if (!Array.isArray(parts)) {
+      throw new Error('Unexpected response format from Gemini API');
+    }
+
+    return {
+      text: parts.map((part: any) => part.text || '').join(''),
+      headers: response.headers,
+      usage: {
+        inputTokens: response.data.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.data.usageMetadata?.candidatesTokenCount ?? 0
+      }
+    };
+  }
+}
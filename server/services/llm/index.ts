@@ -0,0 +1,58 @@
+/**
+ * LLM Provider Registry
+ *
+ * Entry point for code that needs to talk to a language model. Adding a
+ * vendor means writing one adapter and registering it here.
+ */
+
+import { AnthropicProvider } from './anthropic-provider';
+import { GeminiProvider } from './gemini-provider';
+import { OpenAIProvider } from './openai-provider';
+import { OpenRouterProvider } from './openrouter-provider';
+import { LLMProvider, ProviderName } from './types';
+
+export * from './types';
+export { extractJSON } from './base-provider';
+export { getProviderScheduler, mapWithConcurrency } from './scheduler';
+export { resolveOpenRouterModel } from './openrouter-provider';
+
+export interface ProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+const PROVIDER_FACTORIES: Record<ProviderName, (options: ProviderOptions) => LLMProvider> = {
+  openai: options => new OpenAIProvider(options),
+  anthropic: options => new AnthropicProvider(options),
+  gemini: options => new GeminiProvider(options),
+  openrouter: options => new OpenRouterProvider(options)
+};
+
+// Order used when the caller has no preference
+export const PROVIDER_NAMES: ProviderName[] = ['openrouter', 'openai', 'anthropic', 'gemini'];
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && value in PROVIDER_FACTORIES;
+}
+
+/**
+ * Create a provider adapter
+ * @param name Provider to create
+ * @param options Optional API key and model overrides (defaults come from the environment)
+ */
+export function createProvider(name: ProviderName, options: ProviderOptions = {}): LLMProvider {
+  const factory = PROVIDER_FACTORIES[name];
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return factory(options);
+}
+
+/**
+ * List providers whose API keys are present in the environment
+ */
+export function getConfiguredProviders(): LLMProvider[] {
+  return PROVIDER_NAMES
+    .map(name => createProvider(name))
+    .filter(provider => provider.isConfigured());
+}
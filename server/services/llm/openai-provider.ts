@@ -0,0 +1,74 @@
+/**
+ * OpenAI adapter for the LLM provider interface
+ */
+
+import OpenAI from 'openai';
+import { BaseProvider, SendResult } from './base-provider';
+import { CompletionRequest, CostInfo, ModelInfo } from './types';
+
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+const DEFAULT_MODEL = 'gpt-4o';
+
+const MODELS: Record<string, { model: ModelInfo; cost: CostInfo }> = {
+  'gpt-4o': {
+    model: { id: 'gpt-4o', displayName: 'GPT-4o', contextWindow: 128000, maxOutputTokens: 16384, supportsJsonMode: true },
+    cost: { inputPerMillion: 2.5, outputPerMillion: 10, currency: 'USD' }
+  },
+  'gpt-4o-mini': {
+    model: { id: 'gpt-4o-mini', displayName: 'GPT-4o mini', contextWindow: 128000, maxOutputTokens: 16384, supportsJsonMode: true },
+    cost: { inputPerMillion: 0.15, outputPerMillion: 0.6, currency: 'USD' }
+  }
+};
+
+export class OpenAIProvider extends BaseProvider {
+  readonly name = 'openai' as const;
+  readonly displayName = 'OpenAI';
+  readonly model: ModelInfo;
+  readonly cost: CostInfo;
+
+  private readonly apiKey: string | undefined;
+  private client: OpenAI | null = null;
+
+  constructor(options: { apiKey?: string; model?: string } = {}) {
+    super();
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    const entry = MODELS[options.model || DEFAULT_MODEL] || MODELS[DEFAULT_MODEL];
+    this.model = entry.model;
+    this.cost = entry.cost;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected async send(request: CompletionRequest, jsonMode: boolean): Promise<SendResult> {
+    // Created lazily because the SDK throws when constructed without a key
+    if (!this.client) {
+      // Retries are left to the scheduler and fallback policy so 429s back off once
+      this.client = new OpenAI({ apiKey: this.apiKey, maxRetries: 0 });
+    }
+
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    messages.push({ role: 'user', content: request.userPrompt });
+
+    const { data: response, response: raw } = await this.client.chat.completions.create({
+      model: this.model.id,
+      messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1024,
+      ...(jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    }).withResponse();
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      headers: raw.headers,
+      usage: {
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0
+      }
+    };
+  }
+}
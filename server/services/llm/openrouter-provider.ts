@@ -0,0 +1,134 @@
+/**
+ * OpenRouter adapter for the LLM provider interface
+ *
+ * OpenRouter proxies many vendors' models behind one OpenAI-compatible API,
+ * so the model is chosen per instance from the aliases the client sends.
+ */
+
+import axios from 'axios';
+import { BaseProvider, SendResult } from './base-provider';
+import { CompletionRequest, CostInfo, ModelInfo } from './types';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+// Optional referer for OpenRouter API call tracking (for analytics)
+const REFERER_URL = 'https://productdataenhancer.app';
+
+const DEFAULT_MODEL = 'anthropic/claude-3-7-sonnet-20250219';
+
+const MODELS: Record<string, { model: ModelInfo; cost: CostInfo }> = {
+  'anthropic/claude-3-7-sonnet-20250219': {
+    model: { id: 'anthropic/claude-3-7-sonnet-20250219', displayName: 'Claude 3.7 Sonnet (OpenRouter)', contextWindow: 200000, maxOutputTokens: 8192, supportsJsonMode: false },
+    cost: { inputPerMillion: 3, outputPerMillion: 15, currency: 'USD' }
+  },
+  'openai/gpt-4o': {
+    model: { id: 'openai/gpt-4o', displayName: 'GPT-4o (OpenRouter)', contextWindow: 128000, maxOutputTokens: 16384, supportsJsonMode: true },
+    cost: { inputPerMillion: 2.5, outputPerMillion: 10, currency: 'USD' }
+  },
+  'google/gemini-pro-1.5': {
+    model: { id: 'google/gemini-pro-1.5', displayName: 'Gemini 1.5 Pro (OpenRouter)', contextWindow: 2000000, maxOutputTokens: 8192, supportsJsonMode: true },
+    cost: { inputPerMillion: 1.25, outputPerMillion: 5, currency: 'USD' }
+  },
+  'mistralai/mistral-large': {
+    model: { id: 'mistralai/mistral-large', displayName: 'Mistral Large (OpenRouter)', contextWindow: 128000, maxOutputTokens: 8192, supportsJsonMode: true },
+    cost: { inputPerMillion: 2, outputPerMillion: 6, currency: 'USD' }
+  },
+  'meta-llama/llama-3.1-70b-instruct': {
+    model: { id: 'meta-llama/llama-3.1-70b-instruct', displayName: 'Llama 3.1 70B (OpenRouter)', contextWindow: 131072, maxOutputTokens: 8192, supportsJsonMode: false },
+    cost: { inputPerMillion: 0.4, outputPerMillion: 0.4, currency: 'USD' }
+  }
+};
+
+// Short names used by the client's model preference setting
+const MODEL_ALIASES: Record<string, string> = {
+  gpt4o: 'openai/gpt-4o',
+  claude: 'anthropic/claude-3-7-sonnet-20250219',
+  gemini: 'google/gemini-pro-1.5',
+  mistral: 'mistralai/mistral-large',
+  llama: 'meta-llama/llama-3.1-70b-instruct'
+};
+
+export class OpenRouterProvider extends BaseProvider {
+  readonly name = 'openrouter' as const;
+  readonly displayName = 'OpenRouter';
+  readonly model: ModelInfo;
+  readonly cost: CostInfo;
+
+  private readonly apiKey: string | undefined;
+
+  constructor(options: { apiKey?: string; model?: string } = {}) {
+    super();
+    this.apiKey = options.apiKey ?? process.env.OPENROUTER_API_KEY;
+
+    const modelId = resolveOpenRouterModel(options.model);
+    const entry = MODELS[modelId];
+    this.model = entry?.model ?? {
+      id: modelId,
+      displayName: `${modelId} (OpenRouter)`,
+      contextWindow: 32000,
+      maxOutputTokens: 4096,
+      supportsJsonMode: false
+    };
+    // Unknown models are priced at zero; OpenRouter reports real charges on its dashboard
+    this.cost = entry?.cost ?? { inputPerMillion: 0, outputPerMillion: 0, currency: 'USD' };
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected async send(request: CompletionRequest, jsonMode: boolean): Promise<SendResult> {
+    const messages = [];
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+    messages.push({
+      role: 'user',
+      content: jsonMode && !this.model.supportsJsonMode
+        ? `${request.userPrompt}\n\nRespond with valid JSON only, with no surrounding text.`
+        : request.userPrompt
+    });
+
+    const response = await axios.post(
+      `${OPENROUTER_BASE_URL}/chat/completions`,
+      {
+        model: this.model.id,
+        messages,
+        max_tokens: request.maxTokens ?? 1024,
+        temperature: request.temperature ?? 0.7,
+        ...(jsonMode && this.model.supportsJsonMode ? { response_format: { type: 'json_object' } } : {})
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+          'HTTP-Referer': REFERER_URL,
+          'X-Title': 'Product Data Enhancer'
+        }
+      }
+    );
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Unexpected response format from OpenRouter API');
+    }
+
+    return {
+      text: content,
+      headers: response.headers,
+      usage: {
+        inputTokens: response.data.usage?.prompt_tokens ?? 0,
+        outputTokens: response.data.usage?.completion_tokens ?? 0
+      }
+    };
+  }
+}
+
+/**
+ * Resolve a client model preference ('gpt4o', 'claude', ...) or a full
+ * OpenRouter model ID to the ID sent to the API
+ */
+export function resolveOpenRouterModel(preference?: string): string {
+  if (!preference) return DEFAULT_MODEL;
+  return MODEL_ALIASES[preference] || preference;
+}
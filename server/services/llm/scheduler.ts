@@ -0,0 +1,228 @@
+/**
+ * LLM Request Scheduler
+ *
+ * Bounds how many requests run against each provider at once and pauses a
+ * provider when it reports that its rate limit is exhausted, either through
+ * rate-limit response headers or a 429.
+ */
+
+import { ProviderName } from './types';
+
+// Concurrent requests per provider unless overridden by LLM_CONCURRENCY_<PROVIDER>
+// or LLM_CONCURRENCY
+const DEFAULT_CONCURRENCY: Record<ProviderName, number> = {
+  openai: 4,
+  anthropic: 2,
+  gemini: 2,
+  openrouter: 4
+};
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+export interface RateLimitStatus {
+  /** Requests (or tokens) left in the current window, when the provider reports it */
+  remaining?: number;
+  /** Time until the window resets */
+  resetAfterMs?: number;
+}
+
+export class ProviderScheduler {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private pausedUntil = 0;
+  private consecutiveRateLimits = 0;
+
+  constructor(readonly provider: ProviderName, private limit: number) {}
+
+  get concurrency(): number {
+    return this.limit;
+  }
+
+  setConcurrency(limit: number): void {
+    this.limit = Math.max(1, Math.floor(limit));
+    this.wakeWaiting();
+  }
+
+  /**
+   * Run a request once a slot is free and the provider isn't paused
+   */
+  async schedule<T>(request: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.waitForPause();
+      return await request();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Record a successful response, pausing if its headers show the limit is used up
+   */
+  recordSuccess(headers?: unknown): void {
+    this.consecutiveRateLimits = 0;
+
+    const status = parseRateLimitHeaders(headers);
+    if (status.remaining === 0 && status.resetAfterMs) {
+      console.log(`${this.provider} rate limit exhausted, pausing for ${status.resetAfterMs}ms`);
+      this.pause(status.resetAfterMs);
+    }
+  }
+
+  /**
+   * Record a 429, pausing for the provider's retry-after or an exponential backoff
+   * @returns How long the provider is paused for
+   */
+  recordRateLimit(retryAfterMs?: number, headers?: unknown): number {
+    this.consecutiveRateLimits++;
+
+    const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (this.consecutiveRateLimits - 1));
+    const delay = retryAfterMs ?? parseRateLimitHeaders(headers).resetAfterMs ?? backoff;
+    console.log(`${this.provider} returned 429, pausing for ${delay}ms`);
+    this.pause(delay);
+    return delay;
+  }
+
+  private pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async acquire(): Promise<void> {
+    while (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+  }
+
+  private release(): void {
+    this.active--;
+    this.wakeWaiting();
+  }
+
+  private wakeWaiting(): void {
+    const slots = this.limit - this.active;
+    this.waiting.splice(0, Math.max(0, slots)).forEach(resolve => resolve());
+  }
+
+  private async waitForPause(): Promise<void> {
+    while (Date.now() < this.pausedUntil) {
+      await new Promise(resolve => setTimeout(resolve, this.pausedUntil - Date.now()));
+    }
+  }
+}
+
+const schedulers = new Map<ProviderName, ProviderScheduler>();
+
+/**
+ * Get the shared scheduler for a provider. All adapter instances for the same
+ * provider share it, since rate limits apply per API key.
+ */
+export function getProviderScheduler(provider: ProviderName): ProviderScheduler {
+  let scheduler = schedulers.get(provider);
+  if (!scheduler) {
+    scheduler = new ProviderScheduler(provider, getConfiguredConcurrency(provider));
+    schedulers.set(provider, scheduler);
+  }
+  return scheduler;
+}
+
+function getConfiguredConcurrency(provider: ProviderName): number {
+  const configured = Number(
+    process.env[`LLM_CONCURRENCY_${provider.toUpperCase()}`] ?? process.env.LLM_CONCURRENCY
+  );
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY[provider];
+}
+
+/**
+ * Run an async function over items with at most `limit` running at once
+ * @returns Results in the same order as the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Read rate-limit state from OpenAI (x-ratelimit-*-requests/tokens),
+ * Anthropic (anthropic-ratelimit-*) and OpenRouter (x-ratelimit-*) headers.
+ * When several limits are reported the most constrained one wins.
+ */
+export function parseRateLimitHeaders(headers: unknown): RateLimitStatus {
+  const pairs: Array<[string, string]> = [
+    ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+    ['x-ratelimit-remaining-tokens', 'x-ratelimit-reset-tokens'],
+    ['anthropic-ratelimit-requests-remaining', 'anthropic-ratelimit-requests-reset'],
+    ['anthropic-ratelimit-tokens-remaining', 'anthropic-ratelimit-tokens-reset'],
+    ['x-ratelimit-remaining', 'x-ratelimit-reset']
+  ];
+
+  const status: RateLimitStatus = {};
+  for (const [remainingHeader, resetHeader] of pairs) {
+    const remaining = Number(readHeader(headers, remainingHeader));
+    if (readHeader(headers, remainingHeader) === undefined || Number.isNaN(remaining)) continue;
+
+    const resetAfterMs = parseResetTime(readHeader(headers, resetHeader));
+    if (status.remaining === undefined || remaining < status.remaining) {
+      status.remaining = remaining;
+    }
+    if (remaining === 0 && resetAfterMs !== undefined) {
+      status.resetAfterMs = Math.max(status.resetAfterMs ?? 0, resetAfterMs);
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Parse a reset time given as a duration ("1s", "6m0s", "20ms"), an
+ * RFC 3339 date, or a Unix timestamp in seconds or milliseconds
+ * @returns Milliseconds from now, or undefined if unparseable
+ */
+export function parseResetTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const duration = value.match(/^(?:(\d+)h)?(?:(\d+)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+)ms)?$/);
+  if (duration && value.length > 0 && duration.slice(1).some(part => part !== undefined)) {
+    const [, hours, minutes, seconds, millis] = duration;
+    return (
+      Number(hours ?? 0) * 3600000 +
+      Number(minutes ?? 0) * 60000 +
+      Number(seconds ?? 0) * 1000 +
+      Number(millis ?? 0)
+    );
+  }
+
+  const numeric = Number(value);
+  if (!Number.isNaN(numeric)) {
+    if (numeric > 1e12) return Math.max(0, numeric - Date.now());
+    if (numeric > 1e9) return Math.max(0, numeric * 1000 - Date.now());
+    return numeric * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Read a header from fetch Headers, axios headers or a plain object
+ */
+export function readHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === 'function') return headers.get(name) ?? undefined;
+  return headers[name] ?? headers[name.toLowerCase()];
+}
@@ -0,0 +1,114 @@
+/**
+ * LLM Provider Types
+ *
+ * Shared contract implemented by every vendor adapter so that product
+ * enhancement logic can be written once and run against any provider.
+ */
+
+export type ProviderName = 'openai' | 'anthropic' | 'gemini' | 'openrouter';
+
+// Metadata about the model a provider instance will call
+export interface ModelInfo {
+  id: string;
+  displayName: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsJsonMode: boolean;
+}
+
+// Pricing in USD per million tokens
+export interface CostInfo {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  currency: 'USD';
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionRequest {
+  systemPrompt?: string;
+  userPrompt: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  provider: ProviderName;
+  model: string;
+  usage: TokenUsage;
+  costUsd: number;
+}
+
+export interface JSONCompletionResult<T> extends Omit<CompletionResult, 'text'> {
+  data: T;
+  raw: string;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly displayName: string;
+  readonly model: ModelInfo;
+  readonly cost: CostInfo;
+
+  /** Whether the credentials needed by this provider are present */
+  isConfigured(): boolean;
+
+  /** Generate free-form text */
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+
+  /** Generate a response and parse it as JSON */
+  completeJSON<T = any>(request: CompletionRequest): Promise<JSONCompletionResult<T>>;
+
+  /** Estimate the cost of a call from its token usage */
+  estimateCost(usage: TokenUsage): number;
+}
+
+export type LLMErrorCode =
+  | 'not_configured'
+  | 'auth'
+  | 'insufficient_credits'
+  | 'rate_limited'
+  | 'timeout'
+  | 'server_error'
+  | 'bad_response'
+  | 'unknown';
+
+/**
+ * Normalised error raised by every adapter, so callers can decide how to
+ * react (fail over, back off, give up) without knowing vendor error shapes.
+ */
+export class LLMProviderError extends Error {
+  readonly provider: ProviderName;
+  readonly code: LLMErrorCode;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    provider: ProviderName,
+    code: LLMErrorCode,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    if (options.cause !== undefined) {
+      (this as any).cause = options.cause;
+    }
+  }
+
+  /**
+   * Errors that will fail every subsequent call to the same provider
+   * (bad key, no credits) rather than just the current request
+   */
+  get isFatal(): boolean {
+    return this.code === 'not_configured' || this.code === 'auth' || this.code === 'insufficient_credits';
+  }
+}
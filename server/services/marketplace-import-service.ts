@@ -0,0 +1,650 @@
+/**
+ * Marketplace Import Service
+ *
+ * Recognises files exported from Shopify (product CSV), Amazon (inventory
+ * loader and category listings flat files) and eBay (File Exchange) by their
+ * headers, and reads them straight into products without a column mapping.
+ * Shopify spreads a product over one row per variant or image and eBay puts
+ * variations on rows below their listing, so families are rebuilt as the rows
+ * arrive. Columns with no product field are kept on the product's source
+ * listing, so exporting back to the same marketplace updates the same listings.
+ */
+
+import { Product, ProductAttributes, ProductDimensions } from '@shared/schema';
+import { MarketplaceFormat } from '@shared/import-fields';
+import { AssembledProduct, RowAssembler } from './enhanced-csv-service';
+import { ImportRowIssue } from './import-report-service';
+import { attributeColumnField, normalizeCondition, parseDimensions, parseWeight } from './attribute-service';
+import { applyRowIdentifiers, identifierColumnType } from './identifier-service';
+import { invalidIdentifierIssue } from './csv-service';
+
+type Row = Record<string, string>;
+
+// A row with its number in the file, from 1
+interface SourceRow {
+  number: number;
+  values: Row;
+}
+
+// Attributes that can tell variants apart, as typed attributes
+type VariantAttribute = 'size' | 'color' | 'material' | 'pattern' | 'style';
+type TextAttribute = VariantAttribute | 'gender' | 'mpn' | 'model_number';
+
+// Amazon flat files start with a template banner and a row of labels; the
+// attribute names are the third row
+export const AMAZON_TEMPLATE_HEADER_ROW = 2;
+
+// Normalised headers each export always has
+const SIGNATURES: Array<[MarketplaceFormat, string[]]> = [
+  ['shopify', ['handle', 'title', 'body_html', 'option1_name', 'variant_sku', 'variant_price']],
+  ['amazon', ['item_sku', 'item_name', 'feed_product_type']],
+  ['ebay', ['action', 'title', 'startprice']]
+];
+
+const VARIANT_ATTRIBUTES: VariantAttribute[] = ['size', 'color', 'material', 'pattern', 'style'];
+
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+
+// Shopify columns read into product fields rather than kept on the listing
+const SHOPIFY_FIELD_COLUMNS = [
+  'handle', 'title', 'body_html', 'vendor', 'type',
+  'option1_name', 'option1_value', 'option2_name', 'option2_value', 'option3_name', 'option3_value',
+  'variant_sku', 'variant_grams', 'variant_weight_unit', 'variant_price', 'variant_compare_at_price',
+  'variant_barcode', 'variant_image', 'image_src', 'image_position', 'image_alt_text'
+];
+
+// Shopify's per-variant columns besides the Variant ones
+const SHOPIFY_VARIANT_COLUMNS = ['cost_per_item'];
+
+const AMAZON_FIELD_COLUMNS = [
+  'item_sku', 'item_name', 'brand_name', 'product_description', 'main_image_url', 'standard_price', 'list_price',
+  'external_product_id', 'external_product_id_type', 'parent_child', 'parent_sku', 'relationship_type',
+  'variation_theme', 'color_name', 'size_name', 'material_type', 'fabric_type', 'pattern_name', 'style_name',
+  'department_name', 'part_number', 'model', 'item_weight', 'item_weight_unit_of_measure', 'item_length',
+  'item_width', 'item_height', 'item_dimensions_unit_of_measure', 'condition_type', 'item_type_keyword',
+  'update_delete', 'batteries_required'
+];
+
+const AMAZON_CONDITIONS: Record<string, ProductAttributes['condition']> = {
+  new: 'new',
+  refurbished: 'refurbished',
+  usedlikenew: 'used_like_new',
+  usedverygood: 'used_good',
+  usedgood: 'used_good',
+  usedacceptable: 'used_acceptable'
+};
+
+const AMAZON_DEPARTMENTS: Record<string, { gender: string; age_group?: string }> = {
+  womens: { gender: 'women' },
+  mens: { gender: 'men' },
+  girls: { gender: 'women', age_group: 'kids' },
+  boys: { gender: 'men', age_group: 'kids' },
+  'unisex-adult': { gender: 'unisex' },
+  'unisex-child': { gender: 'unisex', age_group: 'kids' },
+  'unisex-baby': { gender: 'unisex', age_group: 'baby' }
+};
+
+const AMAZON_WEIGHT_UNITS: Record<string, string> = { LB: 'lb', OZ: 'oz', KG: 'kg', GR: 'g', G: 'g' };
+const AMAZON_LENGTH_UNITS: Record<string, string> = { IN: 'in', FT: 'ft', CM: 'cm', MM: 'mm', M: 'm' };
+
+const EBAY_FIELD_COLUMNS = [
+  'action', 'customlabel', 'category', 'title', 'conditionid', 'picurl', 'upc', 'ean', 'isbn',
+  'description', 'startprice', 'relationship', 'relationshipdetails'
+];
+
+// eBay item specifics with a product field, by eBay's name
+const EBAY_SPECIFICS: Record<string, TextAttribute | 'brand' | 'weight' | 'dimensions'> = {
+  'brand': 'brand',
+  'color': 'color',
+  'size': 'size',
+  'material': 'material',
+  'pattern': 'pattern',
+  'style': 'style',
+  'department': 'gender',
+  'model': 'model_number',
+  'mpn': 'mpn',
+  'item weight': 'weight',
+  'item dimensions': 'dimensions'
+};
+
+const EBAY_CONDITIONS: Record<string, ProductAttributes['condition']> = {
+  '1000': 'new',
+  '2500': 'refurbished',
+  '3000': 'used_good'
+};
+
+/**
+ * The marketplace a file was exported from, judged by its headers
+ * @param headers Column headers, below any template banner
+ * @returns The marketplace, or null for any other layout
+ */
+export function detectMarketplaceFormat(headers: string[]): MarketplaceFormat | null {
+  const keys = new Set(headers.map(headerKey));
+  const match = SIGNATURES.find(([, required]) => required.every(key => keys.has(key)));
+  return match ? match[0] : null;
+}
+
+/**
+ * Whether a file's first row is the banner above an Amazon template's headers
+ * @param headers The file's first row
+ */
+export function isAmazonTemplateBanner(headers: string[]): boolean {
+  return /^TemplateType=/i.test((headers[0] || '').trim());
+}
+
+/**
+ * Build products from a marketplace export's rows
+ * @param format The marketplace the file came from
+ */
+export function createMarketplaceAssembler(format: MarketplaceFormat): RowAssembler {
+  switch (format) {
+    case 'shopify': return shopifyAssembler();
+    case 'amazon': return amazonAssembler();
+    case 'ebay': return ebayAssembler();
+  }
+}
+
+// Shopify rows are grouped by handle: the first row has the product, and each
+// row may add a variant, an image or both
+function shopifyAssembler(): RowAssembler {
+  let handle: string | null = null;
+  let rows: SourceRow[] = [];
+
+  const complete = (): AssembledProduct[] => {
+    const products = handle ? shopifyProducts(handle, rows) : [];
+    handle = null;
+    rows = [];
+    return products;
+  };
+
+  return {
+    add(row, number) {
+      const rowHandle = columnReader(row)('handle');
+      if (!rowHandle && !handle) {
+        throw new Error('Row has no Handle');
+      }
+
+      const completed = rowHandle && rowHandle !== handle ? complete() : [];
+      if (rowHandle) handle = rowHandle;
+      rows.push({ number, values: row });
+      return completed;
+    },
+    finish: complete
+  };
+}
+
+function shopifyProducts(handle: string, rows: SourceRow[]): AssembledProduct[] {
+  const read = columnReader(rows[0].values);
+  const optionNames = ([1, 2, 3] as const).map(position => read(`option${position}_name`));
+  const listingFields = leftoverFields(rows[0].values, SHOPIFY_FIELD_COLUMNS, key => !isShopifyVariantColumn(key));
+
+  // Images in position order, with any alt text kept against its image
+  const images = rows
+    .map((row, index) => {
+      const readRow = columnReader(row.values);
+      return { src: readRow('image_src'), position: Number(readRow('image_position')) || index + 1, alt: readRow('image_alt_text') };
+    })
+    .filter(image => image.src)
+    .sort((a, b) => a.position - b.position);
+  for (const image of images) {
+    if (image.alt) listingFields[`Image Alt Text: ${image.src}`] = image.alt;
+  }
+
+  const variantRows = rows.filter(row => {
+    const readRow = columnReader(row.values);
+    return readRow('variant_sku') || readRow('option1_value') || readRow('variant_price');
+  });
+
+  const base = newProduct(handle);
+  base.title = read('title') || null;
+  base.description = read('body_html') || null;
+  base.brand = read('vendor') || null;
+  base.category = read('type') || null;
+  base.images = uniqueValues(images.map(image => image.src));
+
+  const isDefaultVariant = variantRows.length <= 1
+    && (!optionNames[0] || (optionNames[0] === 'Title' && columnReader((variantRows[0] ?? rows[0]).values)('option1_value') === 'Default Title'));
+
+  if (isDefaultVariant) {
+    const row = variantRows[0] ?? rows[0];
+    const product = { ...base, product_id: columnReader(row.values)('variant_sku') || handle };
+    const issues: ImportRowIssue[] = [];
+    applyShopifyVariant(product, row, [], issues);
+    setSourceListing(product, 'shopify', {
+      ...listingFields,
+      ...leftoverFields(row.values, SHOPIFY_FIELD_COLUMNS, isShopifyVariantColumn),
+      Handle: handle
+    });
+    return [{ product, rows: rows.map(source => source.number), issues }];
+  }
+
+  const options = optionNames
+    .map((name, index) => ({ name, position: index + 1, key: variantAttributeKey(name) }))
+    .filter(option => option.name);
+  const theme = options.map(option => option.key).join('-') || null;
+
+  const parent = { ...base, variation_theme: theme };
+  setSourceListing(parent, 'shopify', { ...listingFields, Handle: handle });
+
+  const variants = variantRows.map((row, index): AssembledProduct => {
+    const readRow = columnReader(row.values);
+    const variant = newProduct(readRow('variant_sku') || `${handle}-${index + 1}`);
+    const values = options.map(option => ({ ...option, value: readRow(`option${option.position}_value`) }));
+    const issues: ImportRowIssue[] = [];
+
+    variant.parent_id = parent.product_id;
+    variant.variation_theme = theme;
+    variant.title = [parent.title, values.map(option => option.value).filter(Boolean).join(' / ')].filter(Boolean).join(' - ') || null;
+    variant.images = readRow('variant_image') ? [readRow('variant_image')] : null;
+    applyShopifyVariant(variant, row, values, issues);
+    setSourceListing(variant, 'shopify', {
+      ...leftoverFields(row.values, SHOPIFY_FIELD_COLUMNS, isShopifyVariantColumn),
+      Handle: handle
+    });
+    return { product: variant, rows: [row.number], issues };
+  });
+
+  // The parent has the product's first row and any rows with only an image
+  const parentRows = rows.filter((row, index) => index === 0 || !variantRows.includes(row));
+  return [{ product: parent, rows: parentRows.map(row => row.number), issues: [] }, ...variants];
+}
+
+function applyShopifyVariant(
+  product: Product,
+  row: SourceRow,
+  options: Array<{ key: string; value: string }>,
+  issues: ImportRowIssue[]
+): void {
+  const read = columnReader(row.values);
+  const attributes: ProductAttributes = { ...product.attributes };
+
+  for (const option of options) {
+    setVariantAttribute(attributes, option.key, option.value);
+  }
+
+  product.price = checkedPrice(read('variant_price'), 'price', row.number, product.product_id, issues);
+  const listPrice = Number(checkedPrice(read('variant_compare_at_price'), 'list_price', row.number, product.product_id, issues));
+  if (listPrice > 0) attributes.list_price = listPrice;
+
+  // Shopify stores weight in grams and shows it in the variant's unit
+  const grams = Number(read('variant_grams'));
+  if (grams > 0) {
+    const unit = GRAMS_PER_UNIT[read('variant_weight_unit').toLowerCase()] ? read('variant_weight_unit').toLowerCase() : 'g';
+    attributes.weight = { value: Math.round(grams / GRAMS_PER_UNIT[unit] * 1000) / 1000, unit };
+  }
+
+  product.attributes = Object.keys(attributes).length > 0 ? attributes : null;
+  applyIdentifiers(product, { barcode: read('variant_barcode') }, row.number, issues);
+}
+
+function isShopifyVariantColumn(key: string): boolean {
+  return key.startsWith('variant_') || SHOPIFY_VARIANT_COLUMNS.includes(key);
+}
+
+// Each Amazon row is a product; parents and children are linked by SKU
+function amazonAssembler(): RowAssembler {
+  return {
+    add(row, number) {
+      return [amazonProduct({ number, values: row })];
+    },
+    finish: () => []
+  };
+}
+
+function amazonProduct(source: SourceRow): AssembledProduct {
+  const row = source.values;
+  const read = columnReader(row);
+  const product = newProduct(read('item_sku'));
+  const issues: ImportRowIssue[] = [];
+  const attributes: ProductAttributes = {};
+  const fields = leftoverFields(row, AMAZON_FIELD_COLUMNS, key => !/^(bullet_point|other_image_url)\d+$/.test(key));
+
+  product.title = read('item_name') || null;
+  product.brand = read('brand_name') || null;
+  product.description = read('product_description') || null;
+  product.price = checkedPrice(read('standard_price'), 'price', source.number, product.product_id, issues);
+
+  const bullets = columnsMatching(row, /^bullet_point\d+$/);
+  product.bullet_points = bullets.length > 0 ? bullets : null;
+  product.images = uniqueValues([read('main_image_url'), ...columnsMatching(row, /^other_image_url\d+$/)]);
+
+  // A numeric category is a browse node, which the export writes back as one
+  const browseNode = fields.recommended_browse_nodes || '';
+  product.category = read('item_type_keyword') || (/^\d+$/.test(browseNode) ? browseNode : null);
+  if (product.category === browseNode) delete fields.recommended_browse_nodes;
+
+  if (read('parent_child').toLowerCase() === 'child' && read('parent_sku')) {
+    product.parent_id = read('parent_sku');
+  }
+  if (read('parent_child') && read('variation_theme')) {
+    product.variation_theme = amazonVariationTheme(read('variation_theme'));
+  }
+
+  for (const [column, key] of [
+    ['size_name', 'size'], ['color_name', 'color'], ['material_type', 'material'], ['fabric_type', 'material'],
+    ['pattern_name', 'pattern'], ['style_name', 'style']
+  ] as const) {
+    if (read(column) && !attributes[key]) attributes[key] = read(column);
+  }
+  if (read('part_number')) attributes.mpn = read('part_number');
+  if (read('model')) attributes.model_number = read('model');
+  if (read('batteries_required')) attributes.custom = { batteries_required: read('batteries_required') };
+
+  const listPrice = Number(checkedPrice(read('list_price'), 'list_price', source.number, product.product_id, issues));
+  if (listPrice > 0) attributes.list_price = listPrice;
+
+  const department = AMAZON_DEPARTMENTS[read('department_name').toLowerCase()];
+  if (department) Object.assign(attributes, department);
+  else if (read('department_name')) fields.department_name = read('department_name');
+
+  const condition = read('condition_type');
+  if (condition) {
+    const mapped = AMAZON_CONDITIONS[condition.toLowerCase().replace(/[^a-z]/g, '')] ?? normalizeCondition(condition);
+    if (mapped) attributes.condition = mapped;
+    else fields.condition_type = condition;
+  }
+
+  const weight = parseWeight(read('item_weight'), AMAZON_WEIGHT_UNITS[read('item_weight_unit_of_measure').toUpperCase()]);
+  if (weight) attributes.weight = weight;
+  else if (read('item_weight')) fields.item_weight = read('item_weight');
+
+  const dimensions = amazonDimensions(read);
+  if (dimensions) attributes.dimensions = dimensions;
+
+  product.attributes = Object.keys(attributes).length > 0 ? attributes : null;
+
+  // Parents aren't buyable and have no identifier
+  const idType = read('external_product_id_type');
+  if (read('external_product_id') && identifierColumnType(idType) !== undefined) {
+    applyIdentifiers(product, { [idType]: read('external_product_id') }, source.number, issues);
+  } else if (read('external_product_id')) {
+    fields.external_product_id = read('external_product_id');
+    fields.external_product_id_type = idType;
+  }
+
+  setSourceListing(product, 'amazon', fields);
+  return { product, rows: [source.number], issues };
+}
+
+// e.g. "SizeColor" and "SizeName-ColorName" are both size-color
+function amazonVariationTheme(theme: string): string | null {
+  const parts = theme
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(part => part && part !== 'name')
+    .map(part => part === 'colour' ? 'color' : part);
+  return parts.length > 0 ? parts.join('-') : null;
+}
+
+function amazonDimensions(read: (key: string) => string): ProductDimensions | null {
+  const unit = AMAZON_LENGTH_UNITS[read('item_dimensions_unit_of_measure').toUpperCase()];
+  if (!unit) return null;
+
+  const dimensions: ProductDimensions = { unit };
+  for (const side of ['length', 'width', 'height'] as const) {
+    const value = parseFloat(read(`item_${side}`));
+    if (!Number.isNaN(value)) dimensions[side] = value;
+  }
+  return Object.keys(dimensions).length > 1 ? dimensions : null;
+}
+
+// An eBay listing row is followed by its Variation rows, if it has any
+function ebayAssembler(): RowAssembler {
+  let listing: SourceRow | null = null;
+  let listingId = '';
+  let variations: SourceRow[] = [];
+  let siteId: string | null = null;
+
+  const complete = (): AssembledProduct[] => {
+    const products = listing ? ebayProducts(listing, listingId, variations, siteId) : [];
+    listing = null;
+    variations = [];
+    return products;
+  };
+
+  return {
+    add(row, number) {
+      const read = columnReader(row);
+      siteId = siteId ?? ebaySiteId(Object.keys(row));
+
+      if (read('relationship').toLowerCase() === 'variation') {
+        if (!listing) throw new Error('Variation row has no listing above it');
+        variations.push({ number, values: row });
+        return [];
+      }
+
+      const id = read('customlabel') || (read('itemid') ? `ebay-${read('itemid')}` : '');
+      if (!id) throw new Error('Listing has no CustomLabel or ItemID');
+
+      const completed = complete();
+      listing = { number, values: row };
+      listingId = id;
+      return completed;
+    },
+    finish: complete
+  };
+}
+
+function ebayProducts(source: SourceRow, listingId: string, variations: SourceRow[], siteId: string | null): AssembledProduct[] {
+  const listing = source.values;
+  const read = columnReader(listing);
+  const product = newProduct(listingId);
+  const issues: ImportRowIssue[] = [];
+  const attributes: ProductAttributes = {};
+  const fields = leftoverFields(listing, EBAY_FIELD_COLUMNS, key => !key.startsWith('c_'));
+  if (siteId) fields.SiteID = siteId;
+
+  product.title = read('title') || null;
+  product.description = read('description') || null;
+  product.category = read('category') || null;
+  product.images = uniqueValues(read('picurl').split('|'));
+
+  for (const [header, value] of Object.entries(listing)) {
+    const name = /^\s*C:(.+)$/i.exec(header)?.[1]?.trim();
+    if (name && String(value ?? '').trim()) {
+      setSpecific(product, attributes, name, String(value).trim());
+    }
+  }
+
+  const condition = EBAY_CONDITIONS[read('conditionid')];
+  if (condition) attributes.condition = condition;
+  else if (read('conditionid')) fields.ConditionID = read('conditionid');
+
+  // Names in the listing's RelationshipDetails, e.g. "Size=S;M;L|Color=Red;Blue"
+  const variationNames = read('relationshipdetails')
+    .split('|')
+    .map(part => part.split('=')[0].trim())
+    .filter(Boolean);
+  const theme = variationNames.map(ebaySpecificKey).join('-') || null;
+
+  if (variations.length === 0) {
+    product.price = checkedPrice(read('startprice'), 'price', source.number, product.product_id, issues);
+    product.attributes = Object.keys(attributes).length > 0 ? attributes : null;
+    applyIdentifiers(product, ebayIdentifiers(read), source.number, issues);
+    setSourceListing(product, 'ebay', fields);
+    return [{ product, rows: [source.number], issues }];
+  }
+
+  product.variation_theme = theme;
+  product.attributes = Object.keys(attributes).length > 0 ? attributes : null;
+  setSourceListing(product, 'ebay', fields);
+
+  const variants = variations.map((row, index): AssembledProduct => {
+    const readRow = columnReader(row.values);
+    const variant = newProduct(readRow('customlabel') || `${listingId}-${index + 1}`);
+    const variantIssues: ImportRowIssue[] = [];
+    const variantAttributes: ProductAttributes = {};
+
+    for (const detail of readRow('relationshipdetails').split('|')) {
+      const [name, value] = detail.split('=').map(part => part.trim());
+      if (name && value) setVariantAttribute(variantAttributes, ebaySpecificKey(name), value);
+    }
+
+    variant.parent_id = product.product_id;
+    variant.variation_theme = theme;
+    variant.title = [product.title, Object.values(attributeSummary(variantAttributes)).join(' / ')].filter(Boolean).join(' - ') || null;
+    variant.price = checkedPrice(readRow('startprice'), 'price', row.number, variant.product_id, variantIssues);
+    variant.images = readRow('picurl') ? uniqueValues(readRow('picurl').split('|')) : null;
+    variant.attributes = Object.keys(variantAttributes).length > 0 ? variantAttributes : null;
+    applyIdentifiers(variant, ebayIdentifiers(readRow), row.number, variantIssues);
+    setSourceListing(variant, 'ebay', leftoverFields(row.values, EBAY_FIELD_COLUMNS, key => !key.startsWith('c_')));
+    return { product: variant, rows: [row.number], issues: variantIssues };
+  });
+
+  return [{ product, rows: [source.number], issues }, ...variants];
+}
+
+// Item specifics go to product fields and typed attributes where they have
+// one, and are kept as custom attributes under eBay's name otherwise
+function setSpecific(product: Product, attributes: ProductAttributes, name: string, value: string): void {
+  const field = EBAY_SPECIFICS[name.toLowerCase()];
+  const weight = field === 'weight' ? parseWeight(value) : null;
+  const dimensions = field === 'dimensions' ? parseDimensions(value) : null;
+
+  if (field === 'brand') {
+    product.brand = value;
+  } else if (weight) {
+    attributes.weight = weight;
+  } else if (dimensions) {
+    attributes.dimensions = dimensions;
+  } else if (field && field !== 'weight' && field !== 'dimensions') {
+    attributes[field] = value;
+  } else {
+    attributes.custom = { ...attributes.custom, [name]: value };
+  }
+}
+
+function ebaySpecificKey(name: string): string {
+  const field = EBAY_SPECIFICS[name.toLowerCase()];
+  return field && VARIANT_ATTRIBUTES.includes(field as VariantAttribute) ? field : variantAttributeKey(name);
+}
+
+function ebayIdentifiers(read: (key: string) => string): Record<string, string> {
+  const identifiers: Record<string, string> = {};
+  for (const type of ['upc', 'ean', 'isbn']) {
+    // eBay accepts "Does not apply" where a product has no barcode
+    if (read(type) && !/^does not apply$/i.test(read(type))) identifiers[type] = read(type);
+  }
+  return identifiers;
+}
+
+// e.g. "*Action(SiteID=UK|Country=GB|Currency=GBP|Version=1193)" is site UK
+function ebaySiteId(headers: string[]): string | null {
+  const action = headers.find(header => /^\*?Action\(/i.test(header.trim()));
+  return action ? /SiteID=([^|)]+)/i.exec(action)?.[1] ?? null : null;
+}
+
+// A product field or typed attribute option, else the option's own name as a custom attribute
+function variantAttributeKey(name: string): string {
+  const field = attributeColumnField(name);
+  return field && VARIANT_ATTRIBUTES.includes(field as VariantAttribute)
+    ? field
+    : name.replace(/-/g, ' ').trim();
+}
+
+function setVariantAttribute(attributes: ProductAttributes, key: string, value: string): void {
+  if (!value) return;
+  if (VARIANT_ATTRIBUTES.includes(key as VariantAttribute)) {
+    attributes[key as VariantAttribute] = value;
+  } else {
+    attributes.custom = { ...attributes.custom, [key]: value };
+  }
+}
+
+function attributeSummary(attributes: ProductAttributes): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const key of VARIANT_ATTRIBUTES) {
+    if (attributes[key]) values[key] = attributes[key]!;
+  }
+  return { ...values, ...attributes.custom };
+}
+
+// Identifiers that fail validation are left off, with a warning
+function applyIdentifiers(product: Product, identifiers: Record<string, string>, row: number, issues: ImportRowIssue[]): void {
+  for (const invalid of applyRowIdentifiers(product, identifiers)) {
+    issues.push({ ...invalidIdentifierIssue(invalid), row, product_id: product.product_id || null });
+  }
+}
+
+function setSourceListing(product: Product, marketplace: MarketplaceFormat, fields: Record<string, string>): void {
+  product.attributes = { ...product.attributes, source_listing: { marketplace, fields } };
+}
+
+function newProduct(productId: string): Product {
+  return {
+    product_id: productId,
+    title: null,
+    description: null,
+    price: null,
+    brand: null,
+    category: null,
+    bullet_points: null,
+    images: null,
+    asin: null,
+    gtin: null,
+    attributes: null,
+    parent_id: null,
+    variation_theme: null,
+    status: 'pending',
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+}
+
+// Reads a row's values by normalised header, so "*Title" and "Title" match
+function columnReader(row: Row): (key: string) => string {
+  const values = new Map<string, string>();
+  for (const [header, value] of Object.entries(row)) {
+    const key = headerKey(header);
+    if (!values.has(key)) values.set(key, String(value ?? '').trim());
+  }
+  return (key) => values.get(key) ?? '';
+}
+
+// Non-empty values of the columns a product field doesn't hold, by header
+// without eBay's required-column asterisk
+function leftoverFields(row: Row, fieldColumns: string[], include: (key: string) => boolean): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [header, value] of Object.entries(row)) {
+    const key = headerKey(header);
+    const text = String(value ?? '').trim();
+    if (text && !fieldColumns.includes(key) && include(key)) fields[header.trim().replace(/^\*/, '')] = text;
+  }
+  return fields;
+}
+
+// Values of the columns matching a pattern, in column order
+function columnsMatching(row: Row, pattern: RegExp): string[] {
+  return Object.entries(row)
+    .filter(([header, value]) => pattern.test(headerKey(header)) && String(value ?? '').trim())
+    .map(([, value]) => String(value).trim());
+}
+
+function headerKey(header: string): string {
+  if (/^\*?Action\(/i.test(header.trim())) return 'action';
+  return header.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+// A price column's value; one that isn't a number is left out, with an error
+// for the price and a warning for the list price
+function checkedPrice(
+  value: string,
+  field: 'price' | 'list_price',
+  row: number,
+  productId: string,
+  issues: ImportRowIssue[]
+): string | null {
+  const price = parseFloat(value.replace(/[^0-9.]/g, ''));
+  if (value && Number.isNaN(price)) {
+    issues.push(field === 'price'
+      ? { code: 'invalid_price', field, severity: 'error', message: `Price "${value}" is not a number`, row, product_id: productId || null }
+      : { code: 'invalid_price', field, severity: 'warning', message: `List price "${value}" is not a number; left out`, row, product_id: productId || null });
+  }
+  return Number.isNaN(price) ? null : String(price);
+}
+
+function uniqueValues(values: string[]): string[] | null {
+  const unique = Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+  return unique.length > 0 ? unique : null;
+}
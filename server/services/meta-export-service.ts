@@ -0,0 +1,145 @@
+/**
+ * Meta Catalog Export Service
+ *
+ * Builds Meta commerce catalog CSVs for Facebook and Instagram shops. Variants
+ * are separate items sharing an item_group_id; the parent itself isn't an item.
+ */
+
+import Papa from 'papaparse';
+import { Product } from '@shared/schema';
+import { expandVariantFamilies, productPageLink, SellableItem } from './attribute-service';
+import { resolveProductIdentifier } from './identifier-service';
+import type { ExportRowIssue } from './csv-service';
+import type { GoogleAvailability } from './google-export-service';
+
+export interface MetaExportOptions {
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  currency?: string;
+  // Product page URL with {id} for the product ID, used when a product has no link of its own
+  linkTemplate?: string;
+  availability?: GoogleAvailability;
+}
+
+const TITLE_MAX = 200;
+const DESCRIPTION_MAX = 9999;
+const ID_MAX = 100;
+const MAX_ADDITIONAL_IMAGES = 20;
+
+const REQUIRED_COLUMNS = ['id', 'title', 'description', 'availability', 'condition', 'price', 'link', 'image_link', 'brand'];
+
+const META_COLUMNS: Array<[string, (item: SellableItem, options: MetaExportOptions) => string]> = [
+  ['id', ({ product }) => product.product_id],
+  ['title', ({ product }) => product.title || ''],
+  ['description', ({ product }) => product.description || ''],
+  ['availability', (_, options) => metaAvailability(options.availability)],
+  ['condition', ({ product }) => metaCondition(product.attributes?.condition)],
+  // A higher list price is the regular price and ours the sale price
+  ['price', ({ product }, { currency = 'USD' }) => {
+    const price = priceOf(product);
+    const listPrice = product.attributes?.list_price;
+    if (price === null) return '';
+    return `${(listPrice && listPrice > price ? listPrice : price).toFixed(2)} ${currency}`;
+  }],
+  ['sale_price', ({ product }, { currency = 'USD' }) => {
+    const price = priceOf(product);
+    const listPrice = product.attributes?.list_price;
+    return price !== null && listPrice && listPrice > price ? `${price.toFixed(2)} ${currency}` : '';
+  }],
+  ['link', (item, options) => productPageLink(item, options.linkTemplate)],
+  ['image_link', ({ product }) => product.images?.[0] || ''],
+  ['additional_image_link', ({ product }) => (product.images || []).slice(1, MAX_ADDITIONAL_IMAGES + 1).join(',')],
+  ['brand', ({ product }) => product.brand || ''],
+  ['item_group_id', ({ itemGroupId }) => itemGroupId || ''],
+  ['gtin', ({ product }) => resolveProductIdentifier({ gtin: product.gtin })?.value || ''],
+  ['mpn', ({ attributes }) => attributes.mpn || ''],
+  ['product_type', ({ product }) => product.category || ''],
+  ['color', ({ attributes }) => attributes.color || ''],
+  ['size', ({ attributes }) => attributes.size || ''],
+  ['material', ({ attributes }) => attributes.material || ''],
+  ['pattern', ({ attributes }) => attributes.pattern || ''],
+  ['gender', ({ attributes }) => metaGender(attributes.gender)]
+];
+
+/**
+ * Generate a Meta catalog CSV
+ * @param products Products to export
+ * @param options Catalog options
+ * @returns CSV string
+ */
+export function generateMetaCatalogCSV(products: Product[], options: MetaExportOptions = {}): string {
+  const { includeHeaders = true, encodeUtf8 = true } = options;
+
+  const csv = Papa.unparse({
+    fields: META_COLUMNS.map(([name]) => name),
+    data: expandVariantFamilies(products).map(item => META_COLUMNS.map(([, value]) => value(item, options)))
+  }, {
+    header: includeHeaders
+  });
+
+  return encodeUtf8 ? '\ufeff' + csv : csv;
+}
+
+/**
+ * Check each item has the columns Meta requires
+ * @param products Products to check
+ * @param options The options the catalog will be generated with
+ * @returns One entry per problem
+ */
+export function validateMetaCatalog(products: Product[], options: MetaExportOptions = {}): ExportRowIssue[] {
+  const issues: ExportRowIssue[] = [];
+
+  for (const item of expandVariantFamilies(products)) {
+    const { product } = item;
+    const add = (field: string, severity: ExportRowIssue['severity'], message: string) =>
+      issues.push({ product_id: product.product_id, field, severity, message });
+
+    for (const [name, value] of META_COLUMNS) {
+      if (REQUIRED_COLUMNS.includes(name) && !value(item, options)) {
+        add(name, 'error', name === 'link'
+          ? 'Product page link is required; set a link template or a link attribute'
+          : `${name} is required`);
+      }
+    }
+
+    if (product.product_id.length > ID_MAX) add('id', 'error', `ID must be ${ID_MAX} characters or fewer`);
+    if ((product.title || '').length > TITLE_MAX) add('title', 'error', `Title must be ${TITLE_MAX} characters or fewer`);
+    if ((product.description || '').length > DESCRIPTION_MAX) {
+      add('description', 'error', `Description must be ${DESCRIPTION_MAX} characters or fewer`);
+    }
+  }
+
+  return issues;
+}
+
+function priceOf(product: Product): number | null {
+  const price = Number(product.price);
+  return product.price && !Number.isNaN(price) && price > 0 ? price : null;
+}
+
+function metaAvailability(availability: GoogleAvailability | undefined): string {
+  switch (availability) {
+    case 'out_of_stock': return 'out of stock';
+    case 'preorder':
+    case 'backorder': return 'available for order';
+    default: return 'in stock';
+  }
+}
+
+function metaCondition(condition: string | undefined): string {
+  switch (condition) {
+    case 'refurbished': return 'refurbished';
+    case 'used_like_new': return 'used_like_new';
+    case 'used_good': return 'used_good';
+    case 'used_acceptable': return 'used_fair';
+    default: return 'new';
+  }
+}
+
+function metaGender(gender: string | undefined): string {
+  const value = (gender || '').toLowerCase();
+  if (/^(women|woman|female|ladies|f|girls?)$/.test(value)) return 'female';
+  if (/^(men|man|male|m|boys?)$/.test(value)) return 'male';
+  if (/unisex/.test(value)) return 'unisex';
+  return '';
+}
@@ -3,6 +3,7 @@ import { generateImageAltText } from './image-alt-text-service';
 import { checkPolicyCompliance } from './policy-compliance-service';
 import { validateProductFields } from './field-validation-service';
 import { getMarketplaceGuidelines } from './smart-prompts';
+import { attributeValues } from './attribute-service';
 
 interface EnhancementResult {
   product: any;
@@ -49,7 +50,7 @@ export async function enhanceProduct(
         productType: product.category || 'product',
         brand: product.brand,
         features: product.bullet_points,
-        attributes: product.attributes
+        attributes: attributeValues(product.attributes)
       };
       
       const altText = await generateImageAltText(imageContext, marketplace);
@@ -0,0 +1,66 @@
+/**
+ * Product Revision Service
+ *
+ * Reverts products to earlier states using the field-level history in
+ * product_revisions. Reverts are themselves recorded as revisions, so they
+ * can be undone the same way.
+ */
+
+import { Product, ProductRevision } from '@shared/schema';
+import { REVISIONED_FIELDS, RevisionedField, storage } from '../storage';
+
+/**
+ * Restore one field, or every revisioned field, to its value as of a revision
+ * @param productId Product to revert
+ * @param revisionId Revision marking the point in history to go back to
+ * @param field Optional single field to revert; defaults to all revisioned fields
+ * @returns The updated product, or null if the product or revision doesn't exist
+ */
+export async function revertProduct(
+  productId: string,
+  revisionId: number,
+  field?: RevisionedField
+): Promise<Product | null> {
+  const revision = await storage.getProductRevision(revisionId);
+  if (!revision || revision.product_id !== productId) return null;
+
+  const history = await storage.getProductRevisions(productId);
+  const fields = field ? [field] : REVISIONED_FIELDS;
+
+  const changes: Partial<Record<RevisionedField, any>> = {};
+  for (const name of fields) {
+    const value = valueAsOf(history, name, revisionId);
+    if (value !== undefined) {
+      changes[name] = value;
+    }
+  }
+
+  return storage.updateProductFields(productId, changes, {
+    source: 'revert',
+    reverted_to_id: revisionId
+  });
+}
+
+/**
+ * A field's value right after the given revision was applied
+ * @returns The value, or undefined if the field has no history to go back to
+ */
+function valueAsOf(history: ProductRevision[], field: RevisionedField, revisionId: number): unknown {
+  const fieldHistory = history.filter(revision => revision.field === field);
+
+  // Latest change at or before the revision
+  const atOrBefore = fieldHistory
+    .filter(revision => revision.id <= revisionId)
+    .sort((a, b) => b.id - a.id)[0];
+  if (atOrBefore) return atOrBefore.new_value;
+
+  // Otherwise the field was unchanged until its first later revision
+  const firstAfter = fieldHistory
+    .filter(revision => revision.id > revisionId)
+    .sort((a, b) => a.id - b.id)[0];
+  return firstAfter ? firstAfter.previous_value : undefined;
+}
+
+export function isRevisionedField(value: unknown): value is RevisionedField {
+  return typeof value === 'string' && (REVISIONED_FIELDS as readonly string[]).includes(value);
+}
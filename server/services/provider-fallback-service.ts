@@ -0,0 +1,349 @@
+/**
+ * Provider Fallback Service
+ *
+ * Runs product enhancement through an ordered, declarative chain of LLM
+ * providers. A policy lists the providers to try, how often to retry each
+ * one and which errors move on to the next provider, replacing hard-coded
+ * try/catch fallbacks in the route handlers.
+ */
+
+import { z } from 'zod';
+import { Product } from '@shared/schema';
+import {
+  createProvider,
+  LLMErrorCode,
+  LLMProvider,
+  LLMProviderError,
+  mapWithConcurrency,
+  PROVIDER_NAMES,
+  ProviderName
+} from './llm';
+import { enhanceProductWithProvider, PROMPT_VERSIONS } from './listing-generation-service';
+import type { RevisionSource } from '../storage';
+
+const DEFAULT_CONCURRENCY = 4;
+// Longest wait before retrying a provider; a longer Retry-After fails over instead
+const MAX_RETRY_DELAY_MS = 60000;
+
+function getDefaultConcurrency(): number {
+  const configured = Number(process.env.ENHANCEMENT_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? Math.min(configured, 32) : DEFAULT_CONCURRENCY;
+}
+
+const errorCodeSchema = z.enum([
+  'not_configured',
+  'auth',
+  'insufficient_credits',
+  'rate_limited',
+  'timeout',
+  'server_error',
+  'bad_response',
+  'unknown'
+]);
+
+const fallbackStepSchema = z.object({
+  provider: z.enum(PROVIDER_NAMES as [ProviderName, ...ProviderName[]]),
+  model: z.string().optional(),
+  promptSet: z.enum(['standard', 'optimized']).optional(),
+  regenerateExisting: z.boolean().optional(),
+  retries: z.number().int().min(0).max(5).optional()
+});
+
+export const fallbackPolicySchema = z.object({
+  steps: z.array(fallbackStepSchema).min(1),
+  // Products enhanced in parallel; provider calls are further limited per provider
+  concurrency: z.number().int().min(1).max(32).default(getDefaultConcurrency),
+  // Default retry count for steps that don't set their own
+  retries: z.number().int().min(0).max(5).default(1),
+  retryDelayMs: z.number().int().min(0).max(MAX_RETRY_DELAY_MS).default(1000),
+  // Errors that retry the same provider before failing over
+  retryOn: z.array(errorCodeSchema).default(['rate_limited', 'timeout', 'server_error']),
+  // Errors that move on to the next provider; anything else fails the product
+  failoverOn: z.array(errorCodeSchema).default([
+    'not_configured',
+    'auth',
+    'insufficient_credits',
+    'rate_limited',
+    'timeout',
+    'server_error'
+  ])
+});
+
+export type FallbackStep = z.infer<typeof fallbackStepSchema>;
+export type FallbackPolicy = z.infer<typeof fallbackPolicySchema>;
+
+export interface ProviderAttempt {
+  provider: ProviderName;
+  model: string;
+  error?: { code: LLMErrorCode; message: string };
+}
+
+export interface ProductServiceRecord {
+  product_id: string;
+  // null when every provider in the chain failed for this product
+  provider: ProviderName | null;
+  model: string | null;
+  promptVersion: string | null;
+  attempts: ProviderAttempt[];
+}
+
+export interface FallbackEnhancementResult {
+  products: Product[];
+  servedBy: ProductServiceRecord[];
+}
+
+/**
+ * Per-product progress reported while a batch is enhanced. Field events can
+ * come from a provider that later fails over, so the product in the
+ * "completed" event is the authoritative result.
+ */
+export type EnhancementEvent =
+  | { type: 'started'; product_id: string; index: number }
+  | { type: 'field'; product_id: string; index: number; provider: ProviderName; field: string; value: unknown }
+  | { type: 'completed'; product_id: string; index: number; product: Product; servedBy: ProductServiceRecord }
+  | { type: 'error'; product_id: string; index: number; error: string; servedBy: ProductServiceRecord };
+
+export type EnhancementEventListener = (event: EnhancementEvent) => void;
+
+// Default chains for each `aiProvider` value the client can send
+const DEFAULT_POLICIES: Record<string, FallbackStep[]> = {
+  optimized: [
+    { provider: 'openrouter', promptSet: 'optimized' },
+    { provider: 'anthropic' },
+    { provider: 'openai' },
+    { provider: 'gemini' }
+  ],
+  openrouter: [
+    { provider: 'openrouter', regenerateExisting: true },
+    { provider: 'openai' },
+    { provider: 'anthropic' },
+    { provider: 'gemini' }
+  ],
+  anthropic: [
+    { provider: 'anthropic' },
+    { provider: 'openai' }
+  ],
+  enhanced: [
+    { provider: 'openai' }
+  ],
+  openai: [
+    { provider: 'openai' },
+    { provider: 'gemini' }
+  ],
+  gemini: [
+    { provider: 'gemini' },
+    { provider: 'openai' }
+  ]
+};
+
+/**
+ * Resolve the fallback policy for an enhancement request.
+ * Precedence: explicit policy in the request, then ENHANCEMENT_FALLBACK_POLICY
+ * (JSON, either one policy or a map keyed by aiProvider), then the built-in defaults.
+ * @param aiProvider Provider preference sent by the client
+ * @param requestPolicy Optional policy from the request body
+ * @param modelPreference OpenRouter model alias applied to steps without a model
+ * @throws ZodError if a supplied policy is malformed
+ */
+export function resolveFallbackPolicy(
+  aiProvider: string = 'openrouter',
+  requestPolicy?: unknown,
+  modelPreference?: string
+): FallbackPolicy {
+  let policy: FallbackPolicy;
+
+  if (requestPolicy) {
+    policy = fallbackPolicySchema.parse(requestPolicy);
+  } else {
+    policy = getConfiguredPolicy(aiProvider) ?? fallbackPolicySchema.parse({
+      steps: DEFAULT_POLICIES[aiProvider] ?? DEFAULT_POLICIES.openai
+    });
+  }
+
+  if (modelPreference) {
+    policy.steps = policy.steps.map(step =>
+      step.provider === 'openrouter' && !step.model ? { ...step, model: modelPreference } : step
+    );
+  }
+
+  return policy;
+}
+
+function getConfiguredPolicy(aiProvider: string): FallbackPolicy | null {
+  const raw = process.env.ENHANCEMENT_FALLBACK_POLICY;
+  if (!raw) return null;
+
+  try {
+    const config = JSON.parse(raw);
+    const candidate = config.steps ? config : config[aiProvider];
+    return candidate ? fallbackPolicySchema.parse(candidate) : null;
+  } catch (error) {
+    console.error('Ignoring invalid ENHANCEMENT_FALLBACK_POLICY:', error);
+    return null;
+  }
+}
+
+/**
+ * Enhance products, trying each provider in the policy in order for every product.
+ * Up to policy.concurrency products are enhanced at once.
+ * @param products Products to enhance
+ * @param marketplace Target marketplace
+ * @param policy Fallback policy to follow
+ * @param onEvent Optional listener for per-product progress events
+ * @returns Enhanced products and which provider served each one
+ */
+export async function enhanceWithFallback(
+  products: any[],
+  marketplace: string,
+  policy: FallbackPolicy,
+  onEvent?: EnhancementEventListener
+): Promise<FallbackEnhancementResult> {
+  const providers = policy.steps.map(step => createProvider(step.provider, { model: step.model }));
+  // Providers that failed fatally are skipped for the rest of the batch
+  const disabled = new Map<number, LLMProviderError>();
+
+  const results = await mapWithConcurrency(products, policy.concurrency, async (product, index) => {
+    onEvent?.({ type: 'started', product_id: product.product_id, index });
+
+    const record: ProductServiceRecord = {
+      product_id: product.product_id,
+      provider: null,
+      model: null,
+      promptVersion: null,
+      attempts: []
+    };
+    let enhanced: Product | null = null;
+
+    for (let i = 0; i < policy.steps.length && !enhanced; i++) {
+      const step = policy.steps[i];
+      const provider = providers[i];
+
+      const skipReason = disabled.get(i) ??
+        (provider.isConfigured() ? undefined : new LLMProviderError(provider.name, 'not_configured', `${provider.displayName} API key is not set`));
+      if (skipReason) {
+        record.attempts.push(attemptFor(provider, skipReason));
+        continue;
+      }
+
+      try {
+        const onField = onEvent && ((field: string, value: unknown) => onEvent({
+          type: 'field',
+          product_id: product.product_id,
+          index,
+          provider: provider.name,
+          field,
+          value
+        }));
+        enhanced = await runStep(product, marketplace, provider, step, policy, record, onField);
+        record.provider = provider.name;
+        record.model = provider.model.id;
+        record.promptVersion = PROMPT_VERSIONS[step.promptSet || 'standard'];
+        record.attempts.push({ provider: provider.name, model: provider.model.id });
+      } catch (error) {
+        let providerError: LLMProviderError;
+        if (error instanceof LLMProviderError) {
+          providerError = error;
+        } else {
+          providerError = new LLMProviderError(provider.name, 'unknown', error instanceof Error ? error.message : String(error));
+          record.attempts.push(attemptFor(provider, providerError));
+        }
+
+        if (providerError.isFatal) {
+          disabled.set(i, providerError);
+        }
+        if (!policy.failoverOn.includes(providerError.code)) {
+          break;
+        }
+        console.log(`Failing over from ${provider.displayName} for product ${product.product_id}: ${providerError.code}`);
+      }
+    }
+
+    if (enhanced) {
+      enhanced = { ...enhanced, status: 'enhanced' };
+      onEvent?.({ type: 'completed', product_id: product.product_id, index, product: enhanced, servedBy: record });
+    } else {
+      console.error(`All providers failed for product ${product.product_id}`);
+      enhanced = { ...product, status: 'error' } as Product;
+
+      const lastError = record.attempts[record.attempts.length - 1]?.error;
+      onEvent?.({
+        type: 'error',
+        product_id: product.product_id,
+        index,
+        error: lastError?.message || 'All providers failed',
+        servedBy: record
+      });
+    }
+
+    return { product: enhanced, record };
+  });
+
+  return {
+    products: results.map(result => result.product),
+    servedBy: results.map(result => result.record)
+  };
+}
+
+/**
+ * Run one provider step for a product, retrying retryable errors
+ */
+async function runStep(
+  product: any,
+  marketplace: string,
+  provider: LLMProvider,
+  step: FallbackStep,
+  policy: FallbackPolicy,
+  record: ProductServiceRecord,
+  onField?: (field: string, value: unknown) => void
+): Promise<Product> {
+  const retries = step.retries ?? policy.retries;
+  // Abort the product on anything that could trigger a retry or failover,
+  // rather than silently keeping a partially enhanced product
+  const failOn = Array.from(new Set([...policy.retryOn, ...policy.failoverOn]));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await enhanceProductWithProvider(product, marketplace, provider, {
+        promptSet: step.promptSet,
+        regenerateExisting: step.regenerateExisting,
+        failOn,
+        onField
+      });
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        record.attempts.push(attemptFor(provider, error));
+      }
+      if (!(error instanceof LLMProviderError) || attempt >= retries || !policy.retryOn.includes(error.code)) {
+        throw error;
+      }
+      // Waiting out a long Retry-After would hold the request open, so move on
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > MAX_RETRY_DELAY_MS) {
+        throw error;
+      }
+
+      const delay = Math.min(error.retryAfterMs ?? policy.retryDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+      console.log(`Retrying ${provider.displayName} for product ${product.product_id} in ${delay}ms (${error.code})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function attemptFor(provider: LLMProvider, error: LLMProviderError): ProviderAttempt {
+  return {
+    provider: provider.name,
+    model: provider.model.id,
+    error: { code: error.code, message: error.message }
+  };
+}
+
+/**
+ * Revision source for a product served by the fallback chain
+ */
+export function revisionSourceFor(record: ProductServiceRecord): RevisionSource {
+  return {
+    source: 'ai',
+    provider: record.provider,
+    model: record.model,
+    prompt_version: record.promptVersion
+  };
+}
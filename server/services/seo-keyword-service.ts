@@ -1,4 +1,5 @@
 import { getMarketplaceGuidelines } from './smart-prompts';
+import { attributeValues } from './attribute-service';
 
 interface KeywordTier {
   primary: string[];
@@ -23,7 +24,7 @@ export async function generateSEOKeywords(
     brand: product.brand,
     features: product.bullet_points || [],
     price: product.price,
-    attributes: product.attributes || {}
+    attributes: attributeValues(product.attributes)
   };
 
   // Generate keywords based on product type and marketplace
@@ -34,7 +35,7 @@ export async function generateSEOKeywords(
   };
 
   // Add brand + product type combinations as primary keywords
-  if (productInfo.brand) {
+  if (productInfo.brand && productInfo.category) {
     keywords.primary.push(`${productInfo.brand} ${productInfo.category}`);
   }
 
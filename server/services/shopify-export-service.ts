@@ -0,0 +1,338 @@
+/**
+ * Shopify Export Service
+ *
+ * Builds a Shopify product import CSV. Each product takes one row per variant
+ * or image, whichever is more: the first row carries the product details and
+ * later rows only the variant and image columns, as Shopify expects.
+ * Products imported from a Shopify export keep their handle, tags and
+ * inventory settings, so re-importing the file updates the same products.
+ */
+
+import Papa from 'papaparse';
+import { Product } from '@shared/schema';
+import { generateSEOKeywords } from './seo-keyword-service';
+import { generateImageAltText } from './image-alt-text-service';
+import { groupVariantFamilies, variationAttributes, attributeValues, sourceListingFields } from './attribute-service';
+import { resolveProductIdentifier } from './identifier-service';
+import type { ExportRowIssue } from './csv-service';
+
+export const SHOPIFY_COLUMNS = [
+  'Handle', 'Title', 'Body (HTML)', 'Vendor', 'Product Category', 'Type', 'Tags', 'Published',
+  'Option1 Name', 'Option1 Value', 'Option2 Name', 'Option2 Value', 'Option3 Name', 'Option3 Value',
+  'Variant SKU', 'Variant Grams', 'Variant Inventory Tracker', 'Variant Inventory Qty', 'Variant Inventory Policy',
+  'Variant Fulfillment Service', 'Variant Price', 'Variant Compare At Price',
+  'Variant Requires Shipping', 'Variant Taxable', 'Variant Barcode',
+  'Image Src', 'Image Position', 'Image Alt Text', 'Gift Card',
+  'SEO Title', 'SEO Description', 'Variant Image', 'Variant Weight Unit', 'Cost per item', 'Status'
+] as const;
+
+type ShopifyRow = Partial<Record<typeof SHOPIFY_COLUMNS[number], string>>;
+
+export interface ShopifyExportOptions {
+  includeHeaders?: boolean;
+  encodeUtf8?: boolean;
+  // Overrides the per-product status; by default a Shopify product keeps its
+  // own, enhanced products go live and the rest stay drafts
+  status?: 'active' | 'draft';
+}
+
+// Shopify truncates search listings at these lengths
+const SEO_TITLE_MAX = 70;
+const SEO_DESCRIPTION_MAX = 320;
+const MAX_OPTIONS = 3;
+
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+const STATUSES = ['active', 'draft', 'archived'];
+
+// Variant settings written as-is when the product came from Shopify
+const VARIANT_LISTING_COLUMNS = [
+  'Variant Inventory Tracker', 'Variant Inventory Qty', 'Variant Inventory Policy', 'Variant Fulfillment Service',
+  'Variant Requires Shipping', 'Variant Taxable', 'Cost per item'
+] as const;
+
+/**
+ * Generate a Shopify product CSV, grouping variant families under one handle
+ * @param products Products to export
+ * @param options Export options
+ * @returns CSV string
+ */
+export async function generateShopifyCSV(products: Product[], options: ShopifyExportOptions = {}): Promise<string> {
+  const { includeHeaders = true, encodeUtf8 = true } = options;
+  const rows: ShopifyRow[] = [];
+  const usedHandles = new Set<string>();
+
+  for (const family of groupVariantFamilies(products)) {
+    const main = family.parent ?? family.variants[0];
+    const variants = family.variants.length > 0 ? family.variants : [main];
+    const handle = uniqueHandle(sourceListingFields(main, 'shopify').Handle || main.title || main.product_id, usedHandles);
+    rows.push(...await buildProductRows(handle, main, variants, options));
+  }
+
+  const csv = Papa.unparse({
+    fields: [...SHOPIFY_COLUMNS],
+    data: rows.map(row => SHOPIFY_COLUMNS.map(column => row[column] ?? ''))
+  }, {
+    header: includeHeaders
+  });
+
+  return encodeUtf8 ? '\ufeff' + csv : csv;
+}
+
+/**
+ * Check each variant has a value for every option, and that no two variants of
+ * a product have the same values, since Shopify tells variants apart by them
+ * @param products Products to export
+ * @returns One entry per problem
+ */
+export function validateShopifyProducts(products: Product[]): ExportRowIssue[] {
+  const issues: ExportRowIssue[] = [];
+
+  for (const family of groupVariantFamilies(products)) {
+    const main = family.parent ?? family.variants[0];
+    const variants = family.variants.length > 0 ? family.variants : [main];
+    const optionNames = shopifyOptionNames(main, variants);
+    const seen = new Map<string, string>();
+
+    for (const variant of variants) {
+      if (usesDefaultOption(variant, optionNames, variants.length === 1 && variant === main)) continue;
+
+      const attributes = attributeValues(variant.attributes);
+      const missing = optionNames.filter(name => !attributes[name]);
+      for (const name of missing) {
+        issues.push({
+          product_id: variant.product_id,
+          field: name,
+          severity: 'error',
+          message: `No ${name} value; Shopify needs one for every option of a product`
+        });
+      }
+
+      const key = optionNames.map(name => attributes[name]?.toLowerCase()).join('/');
+      const other = seen.get(key);
+      if (missing.length === 0 && other) {
+        issues.push({
+          product_id: variant.product_id,
+          field: 'variation_theme',
+          severity: 'error',
+          message: `Same ${optionNames.join(', ')} as ${other}; Shopify needs each variant's options to differ`
+        });
+      } else if (!other) {
+        seen.set(key, variant.product_id);
+      }
+    }
+  }
+
+  return issues;
+}
+
+async function buildProductRows(
+  handle: string,
+  main: Product,
+  variants: Product[],
+  options: ShopifyExportOptions
+): Promise<ShopifyRow[]> {
+  const optionNames = shopifyOptionNames(main, variants);
+  const images = uniqueImages(main, variants);
+  const keywords = await generateSEOKeywords(main, 'shopify');
+  const listing = sourceListingFields(main, 'shopify');
+  const importedStatus = STATUSES.find(candidate => candidate === listing.Status?.toLowerCase());
+  const status = options.status ?? importedStatus ?? (main.status === 'enhanced' ? 'active' : 'draft');
+
+  // Alt text the product was imported with is kept rather than written again
+  const altTexts = await Promise.all(images.map((url, index) => listing[`Image Alt Text: ${url}`] || generateImageAltText({
+    url,
+    position: index + 1,
+    isMainImage: index === 0,
+    productType: main.category || 'product',
+    brand: main.brand || undefined,
+    features: main.bullet_points || undefined,
+    attributes: attributeValues(main.attributes)
+  }, 'shopify')));
+
+  const rows: ShopifyRow[] = [];
+  const rowCount = Math.max(variants.length, images.length, 1);
+
+  for (let i = 0; i < rowCount; i++) {
+    const row: ShopifyRow = { Handle: handle };
+
+    if (i === 0) {
+      Object.assign(row, {
+        'Title': main.title || '',
+        'Body (HTML)': toBodyHtml(main),
+        'Vendor': main.brand || '',
+        'Product Category': listing['Product Category'] || '',
+        'Type': main.category || '',
+        'Tags': buildTags(listing.Tags, keywords).join(', '),
+        'Published': status === 'active' ? 'TRUE' : 'FALSE',
+        'Gift Card': listing['Gift Card'] || 'FALSE',
+        'SEO Title': buildSEOTitle(main.title || '', keywords.primary),
+        'SEO Description': buildSEODescription(main),
+        'Status': status
+      });
+    }
+
+    const variant = variants[i];
+    if (variant) {
+      Object.assign(row, buildVariantColumns(variant, optionNames, i === 0 && variants.length === 1 && variant === main));
+    }
+
+    if (images[i]) {
+      row['Image Src'] = images[i];
+      row['Image Position'] = String(i + 1);
+      row['Image Alt Text'] = altTexts[i];
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function buildVariantColumns(variant: Product, optionNames: string[], isOnlyVariant: boolean): ShopifyRow {
+  const attributes = attributeValues(variant.attributes);
+  const row: ShopifyRow = {};
+
+  if (usesDefaultOption(variant, optionNames, isOnlyVariant)) {
+    // Products without variants still need Shopify's default option
+    row['Option1 Name'] = 'Title';
+    row['Option1 Value'] = 'Default Title';
+  } else {
+    // A missing value is left empty for validation to report, not made up
+    optionNames.forEach((name, index) => {
+      const position = index + 1 as 1 | 2 | 3;
+      row[`Option${position} Name`] = titleCase(name);
+      row[`Option${position} Value`] = attributes[name] || '';
+    });
+  }
+
+  const listing = sourceListingFields(variant, 'shopify');
+  const price = variant.price ? Number(variant.price) : NaN;
+  const listPrice = variant.attributes?.list_price;
+  const weight = variant.attributes?.weight;
+
+  Object.assign(row, {
+    'Variant SKU': variant.product_id,
+    'Variant Grams': weight && GRAMS_PER_UNIT[weight.unit] ? String(Math.round(weight.value * GRAMS_PER_UNIT[weight.unit])) : '',
+    'Variant Weight Unit': weight && GRAMS_PER_UNIT[weight.unit] ? weight.unit : '',
+    'Variant Inventory Tracker': 'shopify',
+    'Variant Inventory Policy': 'deny',
+    'Variant Fulfillment Service': 'manual',
+    'Variant Price': Number.isNaN(price) ? '' : price.toFixed(2),
+    'Variant Compare At Price': listPrice && (Number.isNaN(price) || listPrice > price) ? listPrice.toFixed(2) : '',
+    'Variant Requires Shipping': 'TRUE',
+    'Variant Taxable': 'TRUE',
+    'Variant Barcode': resolveProductIdentifier({ gtin: variant.gtin })?.value || '',
+    'Variant Image': variant.images?.[0] || ''
+  });
+
+  for (const column of VARIANT_LISTING_COLUMNS) {
+    if (listing[column]) row[column] = listing[column];
+  }
+
+  return row;
+}
+
+function shopifyOptionNames(main: Product, variants: Product[]): string[] {
+  return variationAttributes(main.variation_theme || variants[0].variation_theme).slice(0, MAX_OPTIONS);
+}
+
+// A product without variants, or a lone one with no option values, takes Shopify's default option
+function usesDefaultOption(variant: Product, optionNames: string[], isOnlyVariant: boolean): boolean {
+  const attributes = attributeValues(variant.attributes);
+  return optionNames.length === 0 || isOnlyVariant && optionNames.every(name => !attributes[name]);
+}
+
+// The product's own images first, then any variant images not already listed
+function uniqueImages(main: Product, variants: Product[]): string[] {
+  const images = [main, ...variants].flatMap(product => product.images || []);
+  return Array.from(new Set(images.filter(Boolean)));
+}
+
+// The product's own tags, if it came from Shopify, then keyword tags
+function buildTags(ownTags: string | undefined, keywords: Awaited<ReturnType<typeof generateSEOKeywords>>): string[] {
+  const candidates = [
+    ...(ownTags ? ownTags.split(',') : []),
+    ...keywords.primary, ...keywords.longTail, ...keywords.secondary.filter(keyword => keyword.length <= 30)
+  ];
+  const tags = new Map<string, string>();
+
+  for (const candidate of candidates) {
+    // Tags are comma-separated, so commas inside a tag would split it
+    const tag = candidate.replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+    if (tag && !tags.has(tag.toLowerCase())) {
+      tags.set(tag.toLowerCase(), tag);
+    }
+  }
+
+  return Array.from(tags.values());
+}
+
+// Add the top keyword to the title when there's room and it isn't already there
+function buildSEOTitle(title: string, primaryKeywords: string[]): string {
+  const keyword = primaryKeywords[0];
+  const withKeyword = keyword && !title.toLowerCase().includes(keyword.toLowerCase())
+    ? `${title} | ${keyword}`
+    : title;
+
+  return truncate(withKeyword.length <= SEO_TITLE_MAX ? withKeyword : title, SEO_TITLE_MAX);
+}
+
+function buildSEODescription(product: Product): string {
+  const text = stripHtml(product.description || '') || (product.bullet_points || []).join('. ');
+  return truncate(text.replace(/\s+/g, ' ').trim(), SEO_DESCRIPTION_MAX);
+}
+
+// Plain-text descriptions become paragraphs, followed by the bullet points as a list
+function toBodyHtml(product: Product): string {
+  const description = product.description || '';
+  const body = /<[a-z][\s\S]*>/i.test(description)
+    ? description
+    : description
+      .split(/\n{2,}/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+      .join('');
+
+  const bullets = product.bullet_points && product.bullet_points.length > 0
+    ? `<ul>${product.bullet_points.map(point => `<li>${escapeHtml(point)}</li>`).join('')}</ul>`
+    : '';
+
+  return body + bullets;
+}
+
+function uniqueHandle(source: string, used: Set<string>): string {
+  const base = source
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 200) || 'product';
+
+  let handle = base;
+  for (let suffix = 2; used.has(handle); suffix++) {
+    handle = `${base}-${suffix}`;
+  }
+  used.add(handle);
+  return handle;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.substring(0, maxLength - 3);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > maxLength / 2 ? cut.substring(0, lastSpace) : cut) + '...';
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function titleCase(text: string): string {
+  return text.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
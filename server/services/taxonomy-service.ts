@@ -0,0 +1,50 @@
+/**
+ * Taxonomy Service
+ *
+ * Matches our free-text categories against the marketplace taxonomies bundled
+ * in server/data. Each node lists its name and the category words that map to
+ * it; the most specific match wins.
+ */
+
+export interface TaxonomyNode {
+  id: number;
+  name: string;
+  parent_id: number | null;
+  keywords: string[];
+}
+
+/**
+ * Find the taxonomy node a category belongs to
+ * @param category Our category text
+ * @param nodes Taxonomy nodes to match against
+ * @returns The best matching node, or null when nothing matches
+ */
+export function matchTaxonomyNode(category: string | null | undefined, nodes: TaxonomyNode[]): TaxonomyNode | null {
+  if (!category) return null;
+
+  const text = ` ${normalizeWords(category)} `;
+  let best: { node: TaxonomyNode; score: number } | null = null;
+
+  for (const node of nodes) {
+    for (const phrase of [node.name, ...node.keywords]) {
+      const words = normalizeWords(phrase);
+      if (!words || !text.includes(` ${words} `)) continue;
+      // The node's own name beats a keyword; longer phrases are more specific
+      const score = words.length + (phrase === node.name ? 100 : 0);
+      if (!best || score > best.score) best = { node, score };
+    }
+  }
+
+  return best?.node ?? null;
+}
+
+// Lowercase words with plurals folded, so "T-Shirts" matches "t-shirt"
+function normalizeWords(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+    .join(' ');
+}
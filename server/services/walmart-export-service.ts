@@ -0,0 +1,360 @@
+/**
+ * Walmart Export Service
+ *
+ * Builds Walmart Marketplace item feeds (item spec 4.x): an MP_ITEM JSON feed
+ * with Orderable and category-specific Visible sections, or the same items as
+ * an XLSX workbook with one sheet per category. Walmart has no parent items, so
+ * variants carry their family's shared details and a variant group ID.
+ */
+
+import { Product } from '@shared/schema';
+import { groupVariantFamilies, variationAttributes, attributeValues, inheritFromParent } from './attribute-service';
+import { resolveProductIdentifier } from './identifier-service';
+import { WorkbookSheet, writeWorkbook } from './workbook-service';
+import type { ExportRowIssue } from './csv-service';
+
+export type WalmartCategoryName = 'clothing' | 'home' | 'electronics' | 'other';
+
+type FeedValue = string | number | string[] | Record<string, string | number> | undefined;
+
+interface WalmartItem {
+  product: Product;
+  attributes: Record<string, string>;
+  category: WalmartCategory;
+  variantGroupId?: string;
+  theme: string[];
+  isPrimaryVariant: boolean;
+}
+
+interface WalmartAttribute {
+  name: string;
+  // Product attribute this is read from, used to name variant attributes
+  source?: string;
+  required?: boolean;
+  value: (item: WalmartItem) => FeedValue;
+}
+
+interface WalmartCategory {
+  name: WalmartCategoryName;
+  // Key of the category's section under Visible
+  productType: string;
+  keywords: RegExp;
+  attributes: WalmartAttribute[];
+}
+
+export interface WalmartExportOptions {
+  // Applied to every item; otherwise chosen per product from its category
+  category?: WalmartCategoryName;
+}
+
+const SPEC_VERSION = '4.8';
+const MAX_KEY_FEATURES = 10;
+const MAX_SECONDARY_IMAGES = 10;
+const PRODUCT_NAME_MAX = 199;
+const SHELF_FEATURES = 3;
+
+const POUNDS_PER_UNIT: Record<string, number> = { lb: 1, oz: 1 / 16, kg: 2.20462, g: 0.00220462 };
+
+const attribute = (name: string, source: string, required = false): WalmartAttribute =>
+  ({ name, source, required, value: ({ attributes }) => attributes[source] || undefined });
+
+const CATEGORIES: Record<WalmartCategoryName, WalmartCategory> = {
+  clothing: {
+    name: 'clothing',
+    productType: 'Clothing',
+    keywords: /\b(apparel|clothing|shirts?|t-shirts?|tees?|dress(es)?|pants|jeans|jackets?|coats?|sweaters?|hoodies?|socks|skirts?|fashion|activewear|outerwear)\b/i,
+    attributes: [
+      attribute('color', 'color', true),
+      attribute('clothingSize', 'size', true),
+      { name: 'gender', source: 'gender', required: true, value: ({ attributes }) => walmartGender(attributes.gender) },
+      { name: 'ageGroup', source: 'age_group', required: true, value: ({ attributes }) => walmartAgeGroup(attributes.age_group) },
+      { name: 'fabricContent', source: 'material', value: ({ attributes }) => attributes.material ? { materialName: attributes.material } : undefined },
+      attribute('pattern', 'pattern'),
+      attribute('clothingStyle', 'style')
+    ]
+  },
+  home: {
+    name: 'home',
+    productType: 'Home',
+    keywords: /\b(home|kitchen|decor|furniture|bedding|bath|garden|lighting|lamps?|rugs?|storage|cookware|mugs?|tables?)\b/i,
+    attributes: [
+      attribute('color', 'color', true),
+      attribute('material', 'material', true),
+      attribute('size', 'size'),
+      attribute('pattern', 'pattern'),
+      { name: 'assembledProductLength', value: ({ product }) => measure(product, 'length') },
+      { name: 'assembledProductWidth', value: ({ product }) => measure(product, 'width') },
+      { name: 'assembledProductHeight', value: ({ product }) => measure(product, 'height') }
+    ]
+  },
+  electronics: {
+    name: 'electronics',
+    productType: 'Electronics',
+    keywords: /\b(electronics?|computers?|laptops?|phones?|smartphones?|tablets?|cameras?|audio|headphones|earbuds|speakers?|chargers?|cables?|tvs?|gaming|wireless)\b/i,
+    attributes: [
+      { name: 'modelNumber', source: 'model_number', required: true, value: ({ attributes }) => attributes.model_number || attributes.mpn || undefined },
+      attribute('color', 'color'),
+      attribute('size', 'size')
+    ]
+  },
+  other: {
+    name: 'other',
+    productType: 'Other',
+    keywords: /$^/,
+    attributes: [
+      attribute('color', 'color'),
+      attribute('size', 'size'),
+      attribute('material', 'material')
+    ]
+  }
+};
+
+export const WALMART_CATEGORY_NAMES = Object.keys(CATEGORIES) as [WalmartCategoryName, ...WalmartCategoryName[]];
+
+/**
+ * Generate a Walmart MP_ITEM feed
+ * @param products Products to export
+ * @param options Category options
+ * @returns JSON feed
+ */
+export function generateWalmartItemFeed(products: Product[], options: WalmartExportOptions = {}): string {
+  const feed = {
+    MPItemFeedHeader: {
+      version: SPEC_VERSION,
+      processMode: 'REPLACE',
+      subset: 'EXTERNAL',
+      locale: 'en',
+      sellingChannel: 'marketplace',
+      mart: 'WALMART_US'
+    },
+    MPItem: buildItems(products, options).map(item => ({
+      Orderable: compact(orderableFields(item)),
+      Visible: { [item.category.productType]: compact(visibleFields(item)) }
+    }))
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
+
+/**
+ * Generate the same items as an XLSX workbook, one sheet per Walmart category
+ * @param products Products to export
+ * @param options Category options
+ * @returns XLSX file content
+ */
+export async function generateWalmartWorkbook(products: Product[], options: WalmartExportOptions = {}): Promise<Buffer> {
+  const sheets = new Map<WalmartCategory, Record<string, string | number>[]>();
+
+  for (const item of buildItems(products, options)) {
+    const rows = sheets.get(item.category) ?? [];
+    rows.push({ ...flatten(compact(orderableFields(item))), ...flatten(compact(visibleFields(item))) });
+    sheets.set(item.category, rows);
+  }
+
+  // Each sheet's columns are every field its items have, in the order first seen
+  const workbook: WorkbookSheet[] = Array.from(sheets, ([category, rows]) => {
+    const headers = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    return {
+      name: category.productType,
+      rows: [headers, ...rows.map(row => headers.map(header => row[header] ?? null))]
+    };
+  });
+  if (workbook.length === 0) {
+    workbook.push({ name: CATEGORIES.other.productType, rows: [] });
+  }
+
+  return writeWorkbook(workbook);
+}
+
+/**
+ * Check each item has what Walmart's spec and its category require
+ * @param products Products to check
+ * @param options Category options
+ * @returns One entry per missing or invalid field
+ */
+export function validateWalmartItems(products: Product[], options: WalmartExportOptions = {}): ExportRowIssue[] {
+  const issues: ExportRowIssue[] = [];
+
+  for (const item of buildItems(products, options)) {
+    const add = (field: string, severity: ExportRowIssue['severity'], message: string) =>
+      issues.push({ product_id: item.product.product_id, field, severity, message });
+    const orderable = orderableFields(item);
+    const visible = visibleFields(item);
+
+    if (!orderable.productIdentifiers) add('gtin', 'error', 'A valid UPC, EAN, GTIN or ISBN is required');
+    if (!orderable.productName) add('title', 'error', 'Product name is required');
+    else if (String(orderable.productName).length > PRODUCT_NAME_MAX) {
+      add('title', 'error', `Product name must be ${PRODUCT_NAME_MAX} characters or fewer`);
+    }
+    if (!orderable.brand) add('brand', 'error', 'Brand is required');
+    if (orderable.price === undefined) add('price', 'error', 'Price must be greater than 0');
+    if (orderable.ShippingWeight === undefined) add('weight', 'error', 'Shipping weight is required');
+    if (!visible.shortDescription) add('description', 'error', 'Site description is required');
+    if (!visible.mainImageUrl) add('images', 'error', 'Main image URL is required');
+    if ((item.product.bullet_points || []).filter(Boolean).length < SHELF_FEATURES) {
+      add('bullet_points', 'warning', `Walmart recommends at least ${SHELF_FEATURES} key features`);
+    }
+
+    for (const attr of item.category.attributes) {
+      if (attr.required && !attr.value(item)) {
+        add(attr.source || attr.name, 'error', `${attr.name} is required for ${item.category.productType}`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Pick the Walmart category whose keywords match the product
+ */
+export function detectWalmartCategory(product: Product): WalmartCategoryName {
+  const text = `${product.category || ''} ${product.title || ''}`;
+  return Object.values(CATEGORIES).find(category => category.keywords.test(text))?.name ?? 'other';
+}
+
+// Variants inherit whatever their parent has and they don't
+function buildItems(products: Product[], options: WalmartExportOptions): WalmartItem[] {
+  const items: WalmartItem[] = [];
+  // A category name that isn't one of ours is treated as not given
+  const chosen = options.category && Object.hasOwn(CATEGORIES, options.category) ? options.category : undefined;
+  const categoryFor = (product: Product) => CATEGORIES[chosen ?? detectWalmartCategory(product)];
+
+  for (const family of groupVariantFamilies(products)) {
+    if (family.variants.length === 0) {
+      const product = family.parent!;
+      items.push({ product, attributes: attributeValues(product.attributes), category: categoryFor(product), theme: [], isPrimaryVariant: false });
+      continue;
+    }
+
+    const theme = variationAttributes(family.parent?.variation_theme || family.variants[0].variation_theme);
+    family.variants.forEach((variant, index) => {
+      const product = family.parent ? inheritFromParent(variant, family.parent) : variant;
+      items.push({
+        product,
+        attributes: attributeValues(product.attributes),
+        category: categoryFor(product),
+        variantGroupId: family.key,
+        theme,
+        isPrimaryVariant: index === 0
+      });
+    });
+  }
+
+  return items;
+}
+
+function orderableFields({ product }: WalmartItem): Record<string, FeedValue> {
+  const identifier = resolveProductIdentifier({ gtin: product.gtin });
+  const price = Number(product.price);
+
+  return {
+    sku: product.product_id,
+    productIdentifiers: identifier ? { productIdType: identifier.type, productId: identifier.value } : undefined,
+    productName: product.title || undefined,
+    brand: product.brand || undefined,
+    price: product.price && price > 0 ? Number(price.toFixed(2)) : undefined,
+    ShippingWeight: shippingWeight(product),
+    condition: walmartCondition(product.attributes?.condition)
+  };
+}
+
+function visibleFields(item: WalmartItem): Record<string, FeedValue> {
+  const { product, attributes, category } = item;
+  const keyFeatures = (product.bullet_points || []).filter(Boolean).slice(0, MAX_KEY_FEATURES);
+  const listPrice = product.attributes?.list_price;
+
+  const fields: Record<string, FeedValue> = {
+    shortDescription: product.description || undefined,
+    keyFeatures: keyFeatures.length > 0 ? keyFeatures : undefined,
+    // Shown beside the price on the item page, so only the top features
+    shelfDescription: keyFeatures.length > 0
+      ? `<ul>${keyFeatures.slice(0, SHELF_FEATURES).map(feature => `<li>${escapeHtml(feature)}</li>`).join('')}</ul>`
+      : undefined,
+    mainImageUrl: product.images?.[0],
+    productSecondaryImageURL: product.images && product.images.length > 1
+      ? product.images.slice(1, MAX_SECONDARY_IMAGES + 1)
+      : undefined,
+    manufacturer: product.brand || undefined,
+    manufacturerPartNumber: attributes.mpn || undefined,
+    msrp: listPrice ? Number(listPrice.toFixed(2)) : undefined
+  };
+
+  for (const attr of category.attributes) {
+    fields[attr.name] = attr.value(item);
+  }
+
+  if (item.variantGroupId) {
+    fields.variantGroupId = item.variantGroupId;
+    fields.variantAttributeNames = item.theme.map(key =>
+      category.attributes.find(attr => attr.source === key)?.name ?? key
+    );
+    fields.isPrimaryVariant = item.isPrimaryVariant ? 'Yes' : 'No';
+  }
+
+  return fields;
+}
+
+function shippingWeight(product: Product): number | undefined {
+  const weight = product.attributes?.weight;
+  const factor = weight && POUNDS_PER_UNIT[weight.unit];
+  return factor ? Number((weight.value * factor).toFixed(3)) : undefined;
+}
+
+function measure(product: Product, side: 'length' | 'width' | 'height'): Record<string, string | number> | undefined {
+  const dimensions = product.attributes?.dimensions;
+  const value = dimensions?.[side];
+  return value === undefined ? undefined : { measure: value, unit: dimensions!.unit };
+}
+
+function walmartCondition(condition: string | undefined): string | undefined {
+  switch (condition) {
+    case 'refurbished': return 'Restored';
+    case 'used_like_new': return 'Pre-Owned: Like New';
+    case 'used_good': return 'Pre-Owned: Good';
+    case 'used_acceptable': return 'Pre-Owned: Fair';
+    default: return undefined;
+  }
+}
+
+function walmartGender(gender: string | undefined): string | undefined {
+  const value = (gender || '').toLowerCase();
+  if (/^(women|woman|female|ladies|f|girls?)$/.test(value)) return 'Female';
+  if (/^(men|man|male|m|boys?)$/.test(value)) return 'Male';
+  if (/unisex/.test(value)) return 'Unisex';
+  return undefined;
+}
+
+function walmartAgeGroup(ageGroup: string | undefined): string | undefined {
+  const value = (ageGroup || '').toLowerCase();
+  if (!value) return undefined;
+  if (/infant|baby|newborn/.test(value)) return 'Infant';
+  if (/toddler/.test(value)) return 'Toddler';
+  if (/teen/.test(value)) return 'Teen';
+  if (/kid|child|youth/.test(value)) return 'Child';
+  if (/adult/.test(value)) return 'Adult';
+  return undefined;
+}
+
+function compact(fields: Record<string, FeedValue>): Record<string, FeedValue> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+// Spreadsheet columns: arrays are numbered and nested objects get their own columns
+function flatten(fields: Record<string, FeedValue>): Record<string, string | number> {
+  const row: Record<string, string | number> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (Array.isArray(value)) {
+      value.forEach((entry, index) => { row[`${key} ${index + 1}`] = entry; });
+    } else if (value && typeof value === 'object') {
+      for (const [part, partValue] of Object.entries(value)) row[`${key} (${part})`] = partValue;
+    } else if (value !== undefined) {
+      row[key] = value;
+    }
+  }
+  return row;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
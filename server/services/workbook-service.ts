@@ -0,0 +1,178 @@
+/**
+ * Workbook Service
+ *
+ * Reads and writes Excel workbooks as plain rows of cell values, so the
+ * importers and exporters don't each deal with the workbook libraries' cell
+ * types. Formulas read as their last calculated result, rich text and
+ * hyperlinks as their text, and error cells as empty.
+ *
+ * Uploaded .xlsx and .xlsm files are streamed, since they can be very large;
+ * old binary .xls files can't be, so they are read whole, which their limit of
+ * 65,536 rows per sheet keeps small.
+ */
+
+import ExcelJS from 'exceljs';
+import * as XLSX from '@e965/xlsx';
+import { createReadStream } from 'fs';
+import { open, readFile, stat } from 'fs/promises';
+
+export type WorkbookCell = string | number | boolean | Date | null;
+
+export interface WorkbookSheet {
+  name: string;
+  rows: WorkbookCell[][];
+}
+
+// What a pass over a workbook file found
+export interface WorkbookScan {
+  // Names of the workbook's sheets, in order
+  sheets: string[];
+  // The sheet whose rows were read; null if there was none by that name
+  sheet: string | null;
+}
+
+// Handles one row and the share of the file read so far; return false to stop
+export type WorkbookRowHandler = (row: WorkbookCell[], progress: number) => boolean | void | Promise<boolean | void>;
+
+// Old .xls files are OLE compound documents; .xlsx files are zip archives
+const COMPOUND_FILE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+/**
+ * Read one sheet of a workbook file row by row, in a single pass over the
+ * file. Blank rows are left out; cells missing from a row are null.
+ * @param filePath Workbook file, .xlsx, .xlsm or .xls
+ * @param sheet Sheet to read; the first one by default
+ * @param onRow Called with each row in order
+ * @returns The workbook's sheets and the one read
+ */
+export async function streamWorkbookSheet(
+  filePath: string,
+  sheet: string | null | undefined,
+  onRow: WorkbookRowHandler
+): Promise<WorkbookScan> {
+  return await isCompoundFile(filePath)
+    ? readLegacySheet(filePath, sheet, onRow)
+    : streamXlsxSheet(filePath, sheet, onRow);
+}
+
+/**
+ * Read every sheet of an .xlsx workbook held in memory, such as a stored
+ * export. Blank rows are left out; cells missing from a row are null.
+ * @param file File content
+ */
+export async function readWorkbookSheets(file: Buffer): Promise<WorkbookSheet[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(file);
+
+  return workbook.worksheets.map(sheet => {
+    const rows: WorkbookCell[][] = [];
+    sheet.eachRow(row => {
+      rows.push(rowCells(row));
+    });
+    return { name: sheet.name, rows };
+  });
+}
+
+/**
+ * Write sheets of rows as an .xlsx workbook
+ * @param sheets Sheets in order; null cells are left empty
+ * @returns The file content
+ */
+export async function writeWorkbook(sheets: WorkbookSheet[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  for (const sheet of sheets) {
+    workbook.addWorksheet(sheet.name).addRows(sheet.rows);
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+async function isCompoundFile(filePath: string): Promise<boolean> {
+  const file = await open(filePath, 'r');
+  try {
+    const signature = Buffer.alloc(COMPOUND_FILE_SIGNATURE.length);
+    const { bytesRead } = await file.read(signature, 0, signature.length, 0);
+    return bytesRead === signature.length && signature.equals(COMPOUND_FILE_SIGNATURE);
+  } finally {
+    await file.close();
+  }
+}
+
+// The zip is read in order; sheets stored before the shared strings are
+// buffered to temp files by exceljs until those have been read
+async function streamXlsxSheet(filePath: string, requested: string | null | undefined, onRow: WorkbookRowHandler): Promise<WorkbookScan> {
+  const { size } = await stat(filePath);
+  const input = createReadStream(filePath);
+  const reader = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+    sharedStrings: 'cache',
+    // Number formats say which numbers are dates
+    styles: 'cache',
+    hyperlinks: 'ignore',
+    worksheets: 'emit',
+    entries: 'ignore'
+  });
+  const sheetNames = () => (reader.model?.sheets ?? []).map(sheet => sheet.name);
+  let read: string | null = null;
+
+  try {
+    for await (const worksheet of reader) {
+      // The stream reader's types leave out the name it sets
+      const name = (worksheet as unknown as { name?: string }).name;
+      if (!name || name !== (requested || sheetNames()[0])) continue;
+
+      read = name;
+      for await (const row of worksheet) {
+        if (!row.hasValues) continue;
+        if (await onRow(rowCells(row), size > 0 ? input.bytesRead / size : 1) === false) break;
+      }
+      break;
+    }
+  } finally {
+    input.destroy();
+  }
+
+  return { sheets: sheetNames(), sheet: read };
+}
+
+async function readLegacySheet(filePath: string, requested: string | null | undefined, onRow: WorkbookRowHandler): Promise<WorkbookScan> {
+  const workbook = XLSX.read(await readFile(filePath), { type: 'buffer', dense: true, cellDates: true });
+  const name = requested || workbook.SheetNames[0];
+  if (!name || !workbook.SheetNames.includes(name)) {
+    return { sheets: workbook.SheetNames, sheet: null };
+  }
+
+  // Values as stored rather than as displayed
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: false
+  });
+  for (let index = 0; index < rows.length; index++) {
+    const cells = Array.from(rows[index], value => legacyValue(value));
+    if (await onRow(cells, (index + 1) / rows.length) === false) break;
+  }
+
+  return { sheets: workbook.SheetNames, sheet: name };
+}
+
+function rowCells(row: ExcelJS.Row): WorkbookCell[] {
+  // Row values start at index 1, for column A
+  const values = (row.values as ExcelJS.CellValue[]).slice(1);
+  return Array.from(values, plainValue);
+}
+
+function plainValue(value: ExcelJS.CellValue | ExcelJS.CellFormulaValue['result']): WorkbookCell {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object' || value instanceof Date) return value;
+  if ('richText' in value) return value.richText.map(run => run.text).join('');
+  if ('hyperlink' in value) return plainValue(value.text);
+  if ('formula' in value || 'sharedFormula' in value) return plainValue(value.result);
+  return null;
+}
+
+function legacyValue(value: unknown): WorkbookCell {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+    return value;
+  }
+  return null;
+}
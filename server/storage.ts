@@ -1,43 +1,64 @@
 import { db } from "@db";
-import { products, exportHistory, Product as DbProduct, ExportHistoryItem } from "@shared/schema";
-import { eq, inArray, sql, desc } from "drizzle-orm";
+import {
+  products,
+  exportHistory,
+  exportHistoryItems,
+  exportShareLinks,
+  exportProfiles,
+  importMappingTemplates,
+  enhancementJobs,
+  enhancementJobItems,
+  productRevisions,
+  Product as DbProduct,
+  ExportHistoryItem,
+  InsertExportHistoryItem,
+  ExportShareLink,
+  ExportProfile,
+  InsertExportProfile,
+  ImportMappingTemplate,
+  EnhancementJob,
+  InsertEnhancementJob,
+  EnhancementJobItem,
+  ProductRevision,
+  InsertProductRevision
+} from "@shared/schema";
+import { eq, inArray, sql, desc, and, asc, gt, isNull, getTableColumns } from "drizzle-orm";
+
+const REVISION_INSERT_BATCH = 1000;
+
+// Product fields whose changes are recorded in product_revisions
+export const REVISIONED_FIELDS = [
+  "title",
+  "description",
+  "price",
+  "brand",
+  "category",
+  "bullet_points",
+  "images",
+  "asin",
+  "gtin",
+  "attributes",
+  "parent_id",
+  "variation_theme"
+] as const;
+
+export type RevisionedField = typeof REVISIONED_FIELDS[number];
+
+// Where a change came from, stored with each revision
+export interface RevisionSource {
+  source: "csv_import" | "ai" | "manual" | "revert";
+  provider?: string | null;
+  model?: string | null;
+  prompt_version?: string | null;
+  reverted_to_id?: number | null;
+}
 
 class Storage {
-  async saveProducts(productList: any[]): Promise<DbProduct[]> {
+  async saveProducts(productList: any[], source: RevisionSource = { source: "csv_import" }): Promise<DbProduct[]> {
     if (productList.length === 0) return [];
     
     try {
-      // Prepare products for insertion
-      const productsToInsert = productList.map(product => ({
-        product_id: product.product_id,
-        title: product.title || null,
-        description: product.description || null,
-        price: product.price || null,
-        brand: product.brand || null,
-        category: product.category || null,
-        bullet_points: product.bullet_points || null,
-        images: product.images || null,
-        asin: product.asin || null,
-        status: "pending"
-      }));
-      
-      // Insert products
-      await db.insert(products).values(productsToInsert)
-        .onConflictDoUpdate({
-          target: products.product_id,
-          set: {
-            title: sql`EXCLUDED.title`,
-            description: sql`EXCLUDED.description`,
-            price: sql`EXCLUDED.price`,
-            brand: sql`EXCLUDED.brand`,
-            category: sql`EXCLUDED.category`,
-            bullet_points: sql`EXCLUDED.bullet_points`,
-            images: sql`EXCLUDED.images`,
-            asin: sql`EXCLUDED.asin`,
-            status: sql`EXCLUDED.status`,
-            updated_at: sql`now()`
-          }
-        });
+      await this.saveProductBatch(productList, source);
       
       // Get inserted products
       return this.getProducts();
@@ -47,36 +68,183 @@ class Storage {
     }
   }
   
-  async updateProducts(productList: any[]): Promise<DbProduct[]> {
+  // Insert or update one batch of imported products, with their revisions.
+  // Returns only the batch's rows, so large imports can save in chunks.
+  async saveProductBatch(productList: any[], source: RevisionSource = { source: "csv_import" }): Promise<DbProduct[]> {
     if (productList.length === 0) return [];
     
     try {
-      // Update products one by one
-      for (const product of productList) {
-        await db.update(products)
-          .set({
-            title: product.title || null,
-            description: product.description || null,
-            price: product.price || null,
-            brand: product.brand || null,
-            category: product.category || null,
-            bullet_points: product.bullet_points || null,
-            images: product.images || null,
-            asin: product.asin || null,
-            status: "enhanced",
-            updated_at: new Date()
-          })
-          .where(eq(products.product_id, product.product_id));
-      }
+      // Prepare products for insertion; a product listed twice keeps its last row,
+      // since one insert can't update the same row twice
+      const productsToInsert = Array.from(new Map(productList.map(product => [product.product_id, {
+        product_id: product.product_id,
+        ...toProductFields(product),
+        status: "pending"
+      }])).values());
       
-      // Get updated products
-      return this.getProducts();
+      return await db.transaction(async (tx) => {
+        const existing = await tx.select().from(products)
+          .where(inArray(products.product_id, productsToInsert.map(product => product.product_id)));
+        const existingById = new Map(existing.map(product => [product.product_id, product]));
+        
+        // Insert products
+        const saved = await tx.insert(products).values(productsToInsert)
+          .onConflictDoUpdate({
+            target: products.product_id,
+            set: {
+              title: sql`EXCLUDED.title`,
+              description: sql`EXCLUDED.description`,
+              price: sql`EXCLUDED.price`,
+              brand: sql`EXCLUDED.brand`,
+              category: sql`EXCLUDED.category`,
+              bullet_points: sql`EXCLUDED.bullet_points`,
+              images: sql`EXCLUDED.images`,
+              asin: sql`EXCLUDED.asin`,
+              gtin: sql`EXCLUDED.gtin`,
+              attributes: sql`EXCLUDED.attributes`,
+              parent_id: sql`EXCLUDED.parent_id`,
+              variation_theme: sql`EXCLUDED.variation_theme`,
+              status: sql`EXCLUDED.status`,
+              updated_at: sql`now()`
+            }
+          })
+          .returning();
+        
+        const revisions = productsToInsert.flatMap(product =>
+          buildRevisions(product.product_id, existingById.get(product.product_id) ?? null, product, source)
+        );
+        // Kept well under Postgres' limit on bind parameters per statement
+        for (let start = 0; start < revisions.length; start += REVISION_INSERT_BATCH) {
+          await tx.insert(productRevisions).values(revisions.slice(start, start + REVISION_INSERT_BATCH));
+        }
+        
+        return saved;
+      });
+    } catch (error) {
+      console.error("Error saving product batch:", error);
+      throw error;
+    }
+  }
+  
+  // Saves products the caller has changed, with the status it gives them,
+  // and returns only their rows
+  async updateProducts(
+    productList: any[],
+    source: RevisionSource | RevisionSource[] = { source: "manual" }
+  ): Promise<DbProduct[]> {
+    if (productList.length === 0) return [];
+    
+    try {
+      return await db.transaction(async (tx) => {
+        const existing = await tx.select().from(products)
+          .where(inArray(products.product_id, productList.map(product => product.product_id)));
+        const existingById = new Map(existing.map(product => [product.product_id, product]));
+        const updated: DbProduct[] = [];
+        
+        // Update products one by one; each may have its own revision source
+        for (let index = 0; index < productList.length; index++) {
+          const product = productList[index];
+          const fields = toProductFields(product);
+          const [row] = await tx.update(products)
+            .set({
+              ...fields,
+              ...(product.status ? { status: product.status } : {}),
+              updated_at: new Date()
+            })
+            .where(eq(products.product_id, product.product_id))
+            .returning();
+          if (row) updated.push(row);
+          
+          const previous = existingById.get(product.product_id);
+          const productSource = Array.isArray(source) ? source[index] : source;
+          const revisions = previous ? buildRevisions(product.product_id, previous, fields, productSource) : [];
+          if (revisions.length > 0) {
+            await tx.insert(productRevisions).values(revisions);
+          }
+        }
+        
+        return updated;
+      });
     } catch (error) {
       console.error("Error updating products:", error);
       throw error;
     }
   }
   
+  // Updates stored products with the fields each copy sent differs in, leaving
+  // their status and every field sent empty alone. Products not stored are
+  // skipped; returns only the rows that changed.
+  async saveProductChanges(productList: any[], source: RevisionSource): Promise<DbProduct[]> {
+    if (productList.length === 0) return [];
+    
+    try {
+      return await db.transaction(async (tx) => {
+        const existing = await tx.select().from(products)
+          .where(inArray(products.product_id, productList.map(product => product.product_id)));
+        const existingById = new Map(existing.map(product => [product.product_id, product]));
+        const updated: DbProduct[] = [];
+        const revisions: InsertProductRevision[] = [];
+        
+        for (const product of productList) {
+          const previous = existingById.get(product.product_id);
+          if (!previous) continue;
+          
+          const fields = toProductFields(product);
+          const sent = REVISIONED_FIELDS.filter(field => fields[field] !== null);
+          const changes = buildRevisions(product.product_id, previous, pickProductFields(fields, sent), source);
+          if (changes.length === 0) continue;
+          
+          const changed = pickProductFields(fields, changes.map(revision => revision.field));
+          const [row] = await tx.update(products)
+            .set({ ...changed, updated_at: new Date() })
+            .where(eq(products.product_id, product.product_id))
+            .returning();
+          updated.push(row);
+          revisions.push(...changes);
+        }
+        
+        for (let start = 0; start < revisions.length; start += REVISION_INSERT_BATCH) {
+          await tx.insert(productRevisions).values(revisions.slice(start, start + REVISION_INSERT_BATCH));
+        }
+        
+        return updated;
+      });
+    } catch (error) {
+      console.error("Error saving product changes:", error);
+      throw error;
+    }
+  }
+  
+  // Updates only the given fields of one product, leaving its status alone
+  async updateProductFields(
+    productId: string,
+    changes: Partial<Record<RevisionedField, any>>,
+    source: RevisionSource
+  ): Promise<DbProduct | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [previous] = await tx.select().from(products).where(eq(products.product_id, productId));
+        if (!previous) return null;
+        
+        const fields = pickProductFields(toProductFields(changes), Object.keys(changes));
+        const [updated] = await tx.update(products)
+          .set({ ...fields, updated_at: new Date() })
+          .where(eq(products.product_id, productId))
+          .returning();
+        
+        const revisions = buildRevisions(productId, previous, fields, source);
+        if (revisions.length > 0) {
+          await tx.insert(productRevisions).values(revisions);
+        }
+        
+        return updated;
+      });
+    } catch (error) {
+      console.error("Error updating product fields:", error);
+      throw error;
+    }
+  }
+  
   async getProducts(): Promise<DbProduct[]> {
     try {
       return await db.select().from(products);
@@ -108,31 +276,499 @@ class Storage {
       throw error;
     }
   }
+
+  // The variant family a product belongs to. The parent may not exist as a
+  // product when the supplier only gave a shared group ID.
+  async getVariantFamily(productId: string): Promise<{ parent: DbProduct | null; variants: DbProduct[] } | null> {
+    try {
+      const product = await this.getProductById(productId);
+      if (!product) return null;
+
+      const parentId = product.parent_id ?? product.product_id;
+      const parent = parentId === product.product_id ? product : await this.getProductById(parentId);
+      const variants = await db.select().from(products)
+        .where(eq(products.parent_id, parentId))
+        .orderBy(asc(products.product_id));
+
+      return { parent, variants };
+    } catch (error) {
+      console.error("Error fetching variant family:", error);
+      throw error;
+    }
+  }
+
+  // Saves an export and links the products it contained. Products that were
+  // exported without being saved first can't be linked, so they're skipped.
+  async saveExportHistory(
+    historyItem: Omit<InsertExportHistoryItem, "id">,
+    productIds: string[] = []
+  ): Promise<ExportHistoryItem> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [savedItem] = await tx.insert(exportHistory).values(historyItem).returning();
+        
+        const uniqueIds = Array.from(new Set(productIds));
+        const existing = uniqueIds.length > 0
+          ? await tx.select({ product_id: products.product_id }).from(products).where(inArray(products.product_id, uniqueIds))
+          : [];
+        const existingIds = new Set(existing.map(row => row.product_id));
+        const linkedIds = uniqueIds.filter(productId => existingIds.has(productId));
+        
+        if (linkedIds.length > 0) {
+          await tx.insert(exportHistoryItems).values(linkedIds.map(productId => ({
+            export_id: savedItem.id,
+            product_id: productId
+          })));
+        }
+        
+        return savedItem;
+      });
+    } catch (error) {
+      console.error("Error saving export history:", error);
+      throw error;
+    }
+  }
+  
+  // History list without the stored files, which can be large
+  async getExportHistory(): Promise<Omit<ExportHistoryItem, "file_data">[]> {
+    try {
+      const { file_data, ...summaryColumns } = getTableColumns(exportHistory);
+      return await db.select(summaryColumns).from(exportHistory).orderBy(desc(exportHistory.timestamp));
+    } catch (error) {
+      console.error("Error fetching export history:", error);
+      throw error;
+    }
+  }
+  
+  async getExport(exportId: number): Promise<ExportHistoryItem | null> {
+    try {
+      const [item] = await db.select().from(exportHistory).where(eq(exportHistory.id, exportId));
+      return item ?? null;
+    } catch (error) {
+      console.error("Error fetching export:", error);
+      throw error;
+    }
+  }
+  
+  // Linked product IDs in the order they were exported
+  async getExportProductIds(exportId: number): Promise<string[]> {
+    try {
+      const items = await db.select({ product_id: exportHistoryItems.product_id })
+        .from(exportHistoryItems)
+        .where(eq(exportHistoryItems.export_id, exportId))
+        .orderBy(asc(exportHistoryItems.id));
+      return items.map(item => item.product_id);
+    } catch (error) {
+      console.error("Error fetching export products:", error);
+      throw error;
+    }
+  }
   
-  async saveExportHistory(historyItem: Omit<ExportHistoryItem, "id">): Promise<ExportHistoryItem> {
+  async createShareLink(exportId: number, expiresAt: Date, label?: string | null): Promise<ExportShareLink> {
     try {
-      const [savedItem] = await db.insert(exportHistory).values({
-        marketplace: historyItem.marketplace,
-        format: historyItem.format,
-        product_count: historyItem.product_count,
-        timestamp: historyItem.timestamp
+      const [link] = await db.insert(exportShareLinks).values({
+        export_id: exportId,
+        expires_at: expiresAt,
+        label: label || null
       }).returning();
+      return link;
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      throw error;
+    }
+  }
+  
+  async getShareLink(linkId: number): Promise<ExportShareLink | null> {
+    try {
+      const [link] = await db.select().from(exportShareLinks).where(eq(exportShareLinks.id, linkId));
+      return link ?? null;
+    } catch (error) {
+      console.error("Error fetching share link:", error);
+      throw error;
+    }
+  }
+  
+  async getShareLinks(exportId: number): Promise<ExportShareLink[]> {
+    try {
+      return await db.select().from(exportShareLinks)
+        .where(eq(exportShareLinks.export_id, exportId))
+        .orderBy(desc(exportShareLinks.created_at));
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      throw error;
+    }
+  }
+  
+  async revokeShareLink(linkId: number): Promise<ExportShareLink | null> {
+    try {
+      const [link] = await db.update(exportShareLinks)
+        .set({ revoked_at: sql`coalesce(${exportShareLinks.revoked_at}, now())` })
+        .where(eq(exportShareLinks.id, linkId))
+        .returning();
+      return link ?? null;
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      throw error;
+    }
+  }
+  
+  // Counts a download, but only while the link is live, so a revocation or
+  // expiry racing with the request can't let it through
+  async recordShareLinkDownload(linkId: number): Promise<ExportShareLink | null> {
+    try {
+      const [link] = await db.update(exportShareLinks)
+        .set({
+          download_count: sql`${exportShareLinks.download_count} + 1`,
+          last_downloaded_at: new Date()
+        })
+        .where(and(
+          eq(exportShareLinks.id, linkId),
+          isNull(exportShareLinks.revoked_at),
+          gt(exportShareLinks.expires_at, new Date())
+        ))
+        .returning();
+      return link ?? null;
+    } catch (error) {
+      console.error("Error recording share link download:", error);
+      throw error;
+    }
+  }
+  
+  async getExportProfiles(): Promise<ExportProfile[]> {
+    try {
+      return await db.select().from(exportProfiles).orderBy(asc(exportProfiles.name));
+    } catch (error) {
+      console.error("Error fetching export profiles:", error);
+      throw error;
+    }
+  }
+  
+  async getExportProfile(profileId: number): Promise<ExportProfile | null> {
+    try {
+      const [profile] = await db.select().from(exportProfiles).where(eq(exportProfiles.id, profileId));
+      return profile ?? null;
+    } catch (error) {
+      console.error("Error fetching export profile:", error);
+      throw error;
+    }
+  }
+  
+  async createExportProfile(profile: Omit<InsertExportProfile, "id">): Promise<ExportProfile> {
+    try {
+      const [saved] = await db.insert(exportProfiles).values(profile).returning();
+      return saved;
+    } catch (error) {
+      console.error("Error creating export profile:", error);
+      throw error;
+    }
+  }
+  
+  async updateExportProfile(
+    profileId: number,
+    changes: Partial<Omit<InsertExportProfile, "id">>
+  ): Promise<ExportProfile | null> {
+    try {
+      const [saved] = await db.update(exportProfiles)
+        .set({ ...changes, updated_at: new Date() })
+        .where(eq(exportProfiles.id, profileId))
+        .returning();
+      return saved ?? null;
+    } catch (error) {
+      console.error("Error updating export profile:", error);
+      throw error;
+    }
+  }
+  
+  async deleteExportProfile(profileId: number): Promise<boolean> {
+    try {
+      const deleted = await db.delete(exportProfiles).where(eq(exportProfiles.id, profileId)).returning();
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting export profile:", error);
+      throw error;
+    }
+  }
+  
+  async getImportMappingTemplates(): Promise<ImportMappingTemplate[]> {
+    try {
+      return await db.select().from(importMappingTemplates).orderBy(desc(importMappingTemplates.last_used_at));
+    } catch (error) {
+      console.error("Error fetching import mapping templates:", error);
+      throw error;
+    }
+  }
+  
+  // The most recently used template for files with these headers
+  async getImportMappingTemplateBySignature(signature: string): Promise<ImportMappingTemplate | null> {
+    try {
+      const [template] = await db.select()
+        .from(importMappingTemplates)
+        .where(eq(importMappingTemplates.header_signature, signature))
+        .orderBy(desc(importMappingTemplates.last_used_at))
+        .limit(1);
+      return template ?? null;
+    } catch (error) {
+      console.error("Error fetching import mapping template:", error);
+      throw error;
+    }
+  }
+  
+  // Saving under an existing name replaces that template
+  async saveImportMappingTemplate(
+    template: Pick<ImportMappingTemplate, "name" | "header_signature" | "headers" | "mappings">
+  ): Promise<ImportMappingTemplate> {
+    try {
+      const [saved] = await db.insert(importMappingTemplates)
+        .values(template)
+        .onConflictDoUpdate({
+          target: importMappingTemplates.name,
+          set: {
+            header_signature: template.header_signature,
+            headers: template.headers,
+            mappings: template.mappings,
+            last_used_at: new Date()
+          }
+        })
+        .returning();
+      return saved;
+    } catch (error) {
+      console.error("Error saving import mapping template:", error);
+      throw error;
+    }
+  }
+  
+  async touchImportMappingTemplate(templateId: number): Promise<void> {
+    try {
+      await db.update(importMappingTemplates)
+        .set({ last_used_at: new Date() })
+        .where(eq(importMappingTemplates.id, templateId));
+    } catch (error) {
+      console.error("Error updating import mapping template:", error);
+      throw error;
+    }
+  }
+  
+  async deleteImportMappingTemplate(templateId: number): Promise<boolean> {
+    try {
+      const deleted = await db.delete(importMappingTemplates).where(eq(importMappingTemplates.id, templateId)).returning();
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting import mapping template:", error);
+      throw error;
+    }
+  }
+  
+  async createEnhancementJob(
+    job: Omit<InsertEnhancementJob, "id" | "total_count">,
+    productIds: string[]
+  ): Promise<EnhancementJob> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [savedJob] = await tx.insert(enhancementJobs).values({
+          ...job,
+          total_count: productIds.length
+        }).returning();
+        
+        if (productIds.length > 0) {
+          await tx.insert(enhancementJobItems).values(productIds.map((productId, position) => ({
+            job_id: savedJob.id,
+            product_id: productId,
+            position
+          })));
+        }
+        
+        return savedJob;
+      });
+    } catch (error) {
+      console.error("Error creating enhancement job:", error);
+      throw error;
+    }
+  }
+  
+  async getEnhancementJob(jobId: number): Promise<EnhancementJob | null> {
+    try {
+      const result = await db.select().from(enhancementJobs).where(eq(enhancementJobs.id, jobId));
+      return result.length > 0 ? result[0] : null;
+    } catch (error) {
+      console.error("Error fetching enhancement job:", error);
+      throw error;
+    }
+  }
+  
+  async getEnhancementJobItems(jobId: number): Promise<EnhancementJobItem[]> {
+    try {
+      return await db.select().from(enhancementJobItems)
+        .where(eq(enhancementJobItems.job_id, jobId))
+        .orderBy(asc(enhancementJobItems.position));
+    } catch (error) {
+      console.error("Error fetching enhancement job items:", error);
+      throw error;
+    }
+  }
+  
+  async updateEnhancementJob(jobId: number, changes: Partial<Omit<EnhancementJob, "id">>): Promise<EnhancementJob | null> {
+    try {
+      const [updatedJob] = await db.update(enhancementJobs)
+        .set({ ...changes, updated_at: new Date() })
+        .where(eq(enhancementJobs.id, jobId))
+        .returning();
+      return updatedJob || null;
+    } catch (error) {
+      console.error("Error updating enhancement job:", error);
+      throw error;
+    }
+  }
+  
+  async updateEnhancementJobItem(itemId: number, changes: Partial<Omit<EnhancementJobItem, "id" | "job_id">>): Promise<void> {
+    try {
+      await db.update(enhancementJobItems)
+        .set({ ...changes, updated_at: new Date() })
+        .where(eq(enhancementJobItems.id, itemId));
+    } catch (error) {
+      console.error("Error updating enhancement job item:", error);
+      throw error;
+    }
+  }
+  
+  // Moves every item of a job in one of the given states back to another state,
+  // e.g. interrupted "processing" items back to "pending" when resuming
+  async resetEnhancementJobItems(jobId: number, fromStatuses: string[], toStatus: string): Promise<void> {
+    try {
+      await db.update(enhancementJobItems)
+        .set({ status: toStatus, error: null, updated_at: new Date() })
+        .where(and(
+          eq(enhancementJobItems.job_id, jobId),
+          inArray(enhancementJobItems.status, fromStatuses)
+        ));
+    } catch (error) {
+      console.error("Error resetting enhancement job items:", error);
+      throw error;
+    }
+  }
+  
+  async getEnhancementJobsByStatus(statuses: string[]): Promise<EnhancementJob[]> {
+    try {
+      return await db.select().from(enhancementJobs)
+        .where(inArray(enhancementJobs.status, statuses))
+        .orderBy(asc(enhancementJobs.created_at));
+    } catch (error) {
+      console.error("Error fetching enhancement jobs by status:", error);
+      throw error;
+    }
+  }
+  
+  async getProductRevisions(productId: string, field?: string): Promise<ProductRevision[]> {
+    try {
+      const conditions = [eq(productRevisions.product_id, productId)];
+      if (field) conditions.push(eq(productRevisions.field, field));
       
-      return savedItem;
+      return await db.select().from(productRevisions)
+        .where(and(...conditions))
+        .orderBy(desc(productRevisions.id));
     } catch (error) {
-      console.error("Error saving export history:", error);
+      console.error("Error fetching product revisions:", error);
       throw error;
     }
   }
   
-  async getExportHistory(): Promise<ExportHistoryItem[]> {
+  async getRevisionsForProducts(productIds: string[]): Promise<ProductRevision[]> {
     try {
-      return await db.select().from(exportHistory).orderBy(desc(exportHistory.timestamp));
+      if (productIds.length === 0) return [];
+      
+      return await db.select().from(productRevisions)
+        .where(inArray(productRevisions.product_id, productIds))
+        .orderBy(asc(productRevisions.id));
     } catch (error) {
-      console.error("Error fetching export history:", error);
+      console.error("Error fetching revisions for products:", error);
       throw error;
     }
   }
+  
+  async getProductRevision(revisionId: number): Promise<ProductRevision | null> {
+    try {
+      const result = await db.select().from(productRevisions).where(eq(productRevisions.id, revisionId));
+      return result.length > 0 ? result[0] : null;
+    } catch (error) {
+      console.error("Error fetching product revision:", error);
+      throw error;
+    }
+  }
+}
+
+// Maps incoming product data to the stored columns
+function toProductFields(product: any) {
+  return {
+    title: product.title || null,
+    description: product.description || null,
+    price: product.price || null,
+    brand: product.brand || null,
+    category: product.category || null,
+    bullet_points: product.bullet_points || null,
+    images: product.images || null,
+    asin: product.asin || null,
+    gtin: product.gtin || null,
+    attributes: product.attributes || null,
+    parent_id: product.parent_id || null,
+    variation_theme: product.variation_theme || null
+  };
+}
+
+function pickProductFields<T extends Record<string, any>>(fields: T, keys: string[]): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([key]) => keys.includes(key))
+  ) as Partial<T>;
+}
+
+// One revision per revisioned field whose value actually changes
+function buildRevisions(
+  productId: string,
+  previous: Partial<DbProduct> | null,
+  next: Record<string, any>,
+  source: RevisionSource
+): InsertProductRevision[] {
+  return REVISIONED_FIELDS
+    .filter(field => field in next)
+    .map(field => ({
+      field,
+      previousValue: normalizeFieldValue(field, previous?.[field]),
+      newValue: normalizeFieldValue(field, next[field])
+    }))
+    .filter(({ previousValue, newValue }) => JSON.stringify(previousValue) !== JSON.stringify(newValue))
+    .map(({ field, previousValue, newValue }) => ({
+      product_id: productId,
+      field,
+      previous_value: previousValue,
+      new_value: newValue,
+      source: source.source,
+      provider: source.provider ?? null,
+      model: source.model ?? null,
+      prompt_version: source.prompt_version ?? null,
+      reverted_to_id: source.reverted_to_id ?? null
+    }));
+}
+
+// Decimal prices come back from Postgres as strings, so compare them as such
+function normalizeFieldValue(field: RevisionedField, value: unknown): unknown {
+  if (value === undefined || value === null || value === "") return null;
+  if (field === "price") {
+    const price = Number(value);
+    return Number.isNaN(price) ? String(value) : price.toFixed(2);
+  }
+  if (field === "attributes") {
+    return Object.keys(value as object).length > 0 ? sortKeys(value) : null;
+  }
+  return value;
+}
+
+// Postgres jsonb reorders object keys, so compare objects with sorted keys
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
 }
 
 // SQL functions imported at the top of the file
@@ -0,0 +1,120 @@
+import type { ProductAttributes } from "./schema";
+
+// Plain exports let the user pick and order these columns. The export page
+// previews with the same values the server writes, so the two can't drift.
+
+export type ExportFileFormat = "csv" | "json" | "ndjson" | "tsv" | "xlsx";
+
+export const EXPORT_FILE_FORMATS: ExportFileFormat[] = ["csv", "json", "ndjson", "tsv", "xlsx"];
+
+export interface ExportField {
+  id: string;
+  label: string;
+  required: boolean;
+}
+
+export const EXPORT_FIELDS: ExportField[] = [
+  { id: "product_id", label: "Product ID", required: true },
+  { id: "title", label: "Title", required: true },
+  { id: "description", label: "Description", required: false },
+  { id: "bullet_points", label: "Bullet Points", required: false },
+  { id: "brand", label: "Brand", required: false },
+  { id: "category", label: "Category", required: false },
+  { id: "price", label: "Price", required: false },
+  { id: "images", label: "Images", required: false },
+  { id: "asin", label: "ASIN", required: false },
+  { id: "gtin", label: "UPC / EAN", required: false },
+  { id: "sku", label: "SKU", required: false },
+  { id: "parent_id", label: "Parent ID", required: false },
+  { id: "variation_theme", label: "Variation Theme", required: false },
+  { id: "size", label: "Size", required: false },
+  { id: "color", label: "Color", required: false },
+  { id: "material", label: "Material", required: false },
+  { id: "status", label: "Status", required: false }
+];
+
+export const DEFAULT_EXPORT_FIELDS = [
+  "product_id", "title", "description", "bullet_points", "brand", "category", "price", "images"
+];
+
+// Separator for list fields in CSV, TSV and XLSX cells
+export const LIST_SEPARATOR = "; ";
+
+// Etsy asks sellers to declare who made each item and when it was made. These
+// are the values its listing files accept, worded as Etsy's listing form words them.
+export const ETSY_WHO_MADE_OPTIONS = {
+  i_did: "I did",
+  collective: "A member of my shop",
+  someone_else: "Another company or person"
+};
+
+export const ETSY_WHEN_MADE_OPTIONS = {
+  made_to_order: "Made to order",
+  "2020_2025": "2020 - 2025",
+  "2010_2019": "2010 - 2019",
+  "2006_2009": "2006 - 2009",
+  before_2006: "Before 2006",
+  "2000_2005": "2000 - 2005",
+  "1990s": "1990s",
+  "1980s": "1980s",
+  "1970s": "1970s",
+  "1960s": "1960s",
+  "1950s": "1950s",
+  "1940s": "1940s",
+  "1930s": "1930s",
+  "1920s": "1920s",
+  "1910s": "1910s",
+  "1900s": "1900s",
+  "1800s": "1800s",
+  "1700s": "1700s",
+  before_1700: "Before 1700"
+};
+
+export type EtsyWhoMade = keyof typeof ETSY_WHO_MADE_OPTIONS;
+export type EtsyWhenMade = keyof typeof ETSY_WHEN_MADE_OPTIONS;
+
+export interface ExportableProduct {
+  product_id: string;
+  attributes?: ProductAttributes | null;
+  [field: string]: unknown;
+}
+
+/**
+ * Known field IDs in the order given, without duplicates; the defaults when none are known
+ */
+export function normalizeExportFields(fields: unknown): string[] {
+  const known = new Set(EXPORT_FIELDS.map(field => field.id));
+  const selected = Array.isArray(fields)
+    ? Array.from(new Set(fields.filter((field): field is string => typeof field === "string" && known.has(field))))
+    : [];
+  return selected.length > 0 ? selected : DEFAULT_EXPORT_FIELDS;
+}
+
+/**
+ * A field's value as JSON exports write it; lists stay lists
+ */
+export function exportFieldValue(product: ExportableProduct, field: string): string | string[] | null {
+  switch (field) {
+    case "sku":
+      return product.product_id;
+    case "size":
+    case "color":
+    case "material":
+      return product.attributes?.[field] ?? null;
+    case "bullet_points":
+    case "images":
+      return Array.isArray(product[field]) ? (product[field] as string[]) : null;
+    default: {
+      const value = product[field];
+      return value === null || value === undefined || value === "" ? null : String(value);
+    }
+  }
+}
+
+/**
+ * A field's value as one spreadsheet cell
+ */
+export function exportCellValue(product: ExportableProduct, field: string): string {
+  const value = exportFieldValue(product, field);
+  return Array.isArray(value) ? value.join(LIST_SEPARATOR) : value ?? "";
+}
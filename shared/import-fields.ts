@@ -0,0 +1,115 @@
+// The fields an uploaded column can be mapped to. The upload review offers
+// these, and the importer renames each column to its field before parsing.
+
+import type { SourceMarketplace } from "./schema";
+
+export type ImportFieldGroup = "Product" | "Identifiers" | "Variants" | "Attributes";
+
+export interface ImportField {
+  id: string;
+  label: string;
+  group: ImportFieldGroup;
+}
+
+// The kinds of file that can be imported, by extension. Files without an
+// extension are read as CSV.
+export type ImportFileType = "csv" | "xlsx" | "json" | "ndjson" | "xml";
+
+export const IMPORT_FILE_TYPES: Record<string, ImportFileType> = {
+  csv: "csv",
+  tsv: "csv",
+  txt: "csv",
+  xlsx: "xlsx",
+  xls: "xlsx",
+  xlsm: "xlsx",
+  json: "json",
+  ndjson: "ndjson",
+  jsonl: "ndjson",
+  xml: "xml"
+};
+
+// Marketplace exports recognised by their headers, which are imported by
+// their own layout instead of a column mapping
+export type MarketplaceFormat = SourceMarketplace;
+
+export const MARKETPLACE_FORMAT_LABELS: Record<MarketplaceFormat, string> = {
+  shopify: "Shopify product CSV",
+  amazon: "Amazon flat file",
+  ebay: "eBay File Exchange"
+};
+
+// Problems the importer checks each row for. Rows with an error are kept out
+// of the import; warnings are imported and reported.
+export type ImportIssueCode =
+  | "missing_id"
+  | "duplicate_id"
+  | "invalid_price"
+  | "unreadable_bullets"
+  | "invalid_identifier"
+  | "no_product_data"
+  | "unreadable_row"
+  | "rejected_with_product";
+
+export const IMPORT_ISSUE_LABELS: Record<ImportIssueCode, string> = {
+  missing_id: "Missing product ID",
+  duplicate_id: "Duplicate SKU",
+  invalid_price: "Bad price",
+  unreadable_bullets: "Unreadable bullet list",
+  invalid_identifier: "Invalid barcode",
+  no_product_data: "No product data",
+  unreadable_row: "Unreadable row",
+  rejected_with_product: "Part of a rejected product"
+};
+
+// Maps a column to nothing: the column isn't imported
+export const IGNORE_FIELD = "";
+
+// Keeps a column as a custom attribute under its own header
+export const CUSTOM_ATTRIBUTE_FIELD = "custom";
+
+export interface FieldMapping {
+  originalField: string;
+  standardField: string;
+  confidence: number;
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { id: "product_id", label: "Product ID / SKU", group: "Product" },
+  { id: "title", label: "Title", group: "Product" },
+  { id: "description", label: "Description", group: "Product" },
+  { id: "bullet_points", label: "Bullet Points", group: "Product" },
+  { id: "brand", label: "Brand", group: "Product" },
+  { id: "category", label: "Category", group: "Product" },
+  { id: "price", label: "Price", group: "Product" },
+  { id: "images", label: "Images", group: "Product" },
+  { id: "asin", label: "ASIN", group: "Identifiers" },
+  { id: "gtin", label: "UPC / EAN / GTIN / ISBN", group: "Identifiers" },
+  { id: "parent_id", label: "Parent ID", group: "Variants" },
+  { id: "variation_theme", label: "Variation Theme", group: "Variants" },
+  { id: "size", label: "Size", group: "Attributes" },
+  { id: "color", label: "Color", group: "Attributes" },
+  { id: "material", label: "Material", group: "Attributes" },
+  { id: "pattern", label: "Pattern", group: "Attributes" },
+  { id: "style", label: "Style", group: "Attributes" },
+  { id: "gender", label: "Gender", group: "Attributes" },
+  { id: "age_group", label: "Age Group", group: "Attributes" },
+  { id: "mpn", label: "MPN", group: "Attributes" },
+  { id: "model_number", label: "Model Number", group: "Attributes" },
+  { id: "condition", label: "Condition", group: "Attributes" },
+  { id: "list_price", label: "List Price / MSRP", group: "Attributes" },
+  { id: "weight", label: "Weight", group: "Attributes" },
+  { id: "weight_unit", label: "Weight Unit", group: "Attributes" },
+  { id: "dimensions", label: "Dimensions", group: "Attributes" },
+  { id: "length", label: "Length", group: "Attributes" },
+  { id: "width", label: "Width", group: "Attributes" },
+  { id: "height", label: "Height", group: "Attributes" },
+  { id: "dimension_unit", label: "Dimension Unit", group: "Attributes" },
+  { id: CUSTOM_ATTRIBUTE_FIELD, label: "Custom Attribute", group: "Attributes" }
+];
+
+/**
+ * Whether a mapping target is a field the importer knows, or the ignore marker
+ */
+export function isImportField(field: string): boolean {
+  return field === IGNORE_FIELD || IMPORT_FIELDS.some(known => known.id === field);
+}
@@ -2,6 +2,7 @@ import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal } fr
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import type { FieldMapping } from "./import-fields";
 
 // User table (existing schema, preserved)
 export const users = pgTable("users", {
@@ -18,6 +19,52 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Structured product attributes. Measurements keep their unit so exporters can
+// convert to whatever each marketplace expects.
+export interface Measurement {
+  value: number;
+  unit: string;
+}
+
+export interface ProductDimensions {
+  length?: number;
+  width?: number;
+  height?: number;
+  unit: string;
+}
+
+export type ProductCondition = "new" | "refurbished" | "used_like_new" | "used_good" | "used_acceptable";
+
+export type SourceMarketplace = "shopify" | "amazon" | "ebay";
+
+// The marketplace export a product was imported from, with the columns that
+// have no product field of their own (a Shopify handle, an eBay item ID), so
+// exporting back to that marketplace updates the same listing
+export interface SourceListing {
+  marketplace: SourceMarketplace;
+  fields: Record<string, string>;
+}
+
+export interface ProductAttributes {
+  size?: string;
+  color?: string;
+  material?: string;
+  pattern?: string;
+  style?: string;
+  gender?: string;
+  age_group?: string;
+  mpn?: string;
+  model_number?: string;
+  condition?: ProductCondition;
+  // Manufacturer's list price (MSRP), shown as the compare-at price
+  list_price?: number;
+  dimensions?: ProductDimensions;
+  weight?: Measurement;
+  // Supplier columns with no typed equivalent, kept verbatim
+  custom?: Record<string, string>;
+  source_listing?: SourceListing;
+}
+
 // Product table for product data
 export const products = pgTable("products", {
   product_id: text("product_id").primaryKey(),
@@ -29,13 +76,50 @@ export const products = pgTable("products", {
   bullet_points: jsonb("bullet_points").$type<string[]>(),
   images: jsonb("images").$type<string[]>(),
   asin: text("asin"),
+  // UPC-A, EAN-13, GTIN-14 or ISBN-13, validated and normalised on import
+  gtin: text("gtin"),
+  attributes: jsonb("attributes").$type<ProductAttributes>(),
+  // Variant families: children point at their parent's product_id and share its
+  // variation theme, e.g. "size-color"
+  parent_id: text("parent_id"),
+  variation_theme: text("variation_theme"),
   status: text("status").notNull().default("pending"),
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull()
 });
 
-export const productsRelations = relations(products, ({ many }) => ({
-  exportItems: many(exportHistoryItems)
+export const productsRelations = relations(products, ({ one, many }) => ({
+  exportItems: many(exportHistoryItems),
+  revisions: many(productRevisions),
+  parent: one(products, {
+    fields: [products.parent_id],
+    references: [products.product_id],
+    relationName: "variants"
+  }),
+  variants: many(products, { relationName: "variants" })
+}));
+
+// Field-level change history, so original supplier data is never lost
+export const productRevisions = pgTable("product_revisions", {
+  id: serial("id").primaryKey(),
+  product_id: text("product_id").notNull().references(() => products.product_id),
+  field: text("field").notNull(),
+  previous_value: jsonb("previous_value"),
+  new_value: jsonb("new_value"),
+  source: text("source").notNull(), // csv_import, ai, manual, revert
+  provider: text("provider"),
+  model: text("model"),
+  prompt_version: text("prompt_version"),
+  // For reverts, the revision whose value was restored
+  reverted_to_id: integer("reverted_to_id"),
+  created_at: timestamp("created_at").defaultNow().notNull()
+});
+
+export const productRevisionsRelations = relations(productRevisions, ({ one }) => ({
+  product: one(products, {
+    fields: [productRevisions.product_id],
+    references: [products.product_id]
+  })
 }));
 
 // Export history table
@@ -44,7 +128,15 @@ export const exportHistory = pgTable("export_history", {
   marketplace: text("marketplace").notNull(),
   format: text("format").notNull(),
   product_count: integer("product_count").notNull(),
-  timestamp: timestamp("timestamp").defaultNow().notNull()
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+  file_name: text("file_name"),
+  content_type: text("content_type"),
+  // The generated file, base64-encoded so binary formats like XLSX survive
+  file_data: text("file_data"),
+  // Generation settings (headers, encoding, fields, marketplace options) for re-runs
+  options: jsonb("options").$type<Record<string, any>>(),
+  // The export this one re-ran against current data
+  rerun_of: integer("rerun_of")
 });
 
 // Join table for export history and products
@@ -66,6 +158,110 @@ export const exportHistoryItemsRelations = relations(exportHistoryItems, ({ one
   })
 }));
 
+// Export profiles map product data onto a channel's columns without code changes
+export type ExportColumnTransform = "strip_html" | "uppercase" | "lowercase" | "title_case" | "trim" | "collapse_whitespace";
+
+export interface ExportProfileColumn {
+  header: string;
+  // Exactly one of source, expression or constant gives the value.
+  // A source is a field path such as title, attributes.color or bullet_points[0];
+  // an expression is a template such as "{brand} {title}".
+  source?: string;
+  expression?: string;
+  constant?: string;
+  // Separator for list values; defaults to "; "
+  join?: string;
+  maxLength?: number;
+  // Applied in order, before maxLength
+  transforms?: ExportColumnTransform[];
+}
+
+export const exportProfiles = pgTable("export_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  columns: jsonb("columns").$type<ExportProfileColumn[]>().notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Signed download links for handing a stored export to someone without app access
+export const exportShareLinks = pgTable("export_share_links", {
+  id: serial("id").primaryKey(),
+  export_id: integer("export_id").notNull().references(() => exportHistory.id),
+  // Who the link was given to, for the sender's reference
+  label: text("label"),
+  expires_at: timestamp("expires_at").notNull(),
+  revoked_at: timestamp("revoked_at"),
+  download_count: integer("download_count").notNull().default(0),
+  last_downloaded_at: timestamp("last_downloaded_at"),
+  created_at: timestamp("created_at").defaultNow().notNull()
+});
+
+export const exportShareLinksRelations = relations(exportShareLinks, ({ one }) => ({
+  export: one(exportHistory, {
+    fields: [exportShareLinks.export_id],
+    references: [exportHistory.id]
+  })
+}));
+
+// Confirmed upload column mappings, reused for files with the same headers
+export const importMappingTemplates = pgTable("import_mapping_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  // Hash of the file's normalised, sorted headers
+  header_signature: text("header_signature").notNull(),
+  headers: jsonb("headers").$type<string[]>().notNull(),
+  mappings: jsonb("mappings").$type<FieldMapping[]>().notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  last_used_at: timestamp("last_used_at").defaultNow().notNull()
+});
+
+// Background enhancement jobs
+export const enhancementJobs = pgTable("enhancement_jobs", {
+  id: serial("id").primaryKey(),
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed, cancelled
+  marketplace: text("marketplace").notNull(),
+  ai_provider: text("ai_provider").notNull(),
+  fallback_policy: jsonb("fallback_policy").$type<Record<string, any>>().notNull(),
+  total_count: integer("total_count").notNull(),
+  completed_count: integer("completed_count").notNull().default(0),
+  failed_count: integer("failed_count").notNull().default(0),
+  error: text("error"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  started_at: timestamp("started_at"),
+  finished_at: timestamp("finished_at"),
+  updated_at: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Per-product progress for an enhancement job
+export const enhancementJobItems = pgTable("enhancement_job_items", {
+  id: serial("id").primaryKey(),
+  job_id: integer("job_id").notNull().references(() => enhancementJobs.id),
+  product_id: text("product_id").notNull().references(() => products.product_id),
+  position: integer("position").notNull(),
+  status: text("status").notNull().default("pending"), // pending, processing, completed, error, cancelled
+  provider: text("provider"),
+  model: text("model"),
+  error: text("error"),
+  updated_at: timestamp("updated_at").defaultNow().notNull()
+});
+
+export const enhancementJobsRelations = relations(enhancementJobs, ({ many }) => ({
+  items: many(enhancementJobItems)
+}));
+
+export const enhancementJobItemsRelations = relations(enhancementJobItems, ({ one }) => ({
+  job: one(enhancementJobs, {
+    fields: [enhancementJobItems.job_id],
+    references: [enhancementJobs.id]
+  }),
+  product: one(products, {
+    fields: [enhancementJobItems.product_id],
+    references: [products.product_id]
+  })
+}));
+
 // Schemas for validation
 export const productInsertSchema = createInsertSchema(products);
 export const productUpdateSchema = createInsertSchema(products).partial();
@@ -76,3 +272,12 @@ export type Product = typeof products.$inferSelect;
 export type InsertProduct = typeof products.$inferInsert;
 export type ExportHistoryItem = typeof exportHistory.$inferSelect;
 export type InsertExportHistoryItem = typeof exportHistory.$inferInsert;
+export type ExportShareLink = typeof exportShareLinks.$inferSelect;
+export type ExportProfile = typeof exportProfiles.$inferSelect;
+export type InsertExportProfile = typeof exportProfiles.$inferInsert;
+export type ImportMappingTemplate = typeof importMappingTemplates.$inferSelect;
+export type EnhancementJob = typeof enhancementJobs.$inferSelect;
+export type InsertEnhancementJob = typeof enhancementJobs.$inferInsert;
+export type EnhancementJobItem = typeof enhancementJobItems.$inferSelect;
+export type ProductRevision = typeof productRevisions.$inferSelect;
+export type InsertProductRevision = typeof productRevisions.$inferInsert;